@@ -0,0 +1,217 @@
+import { TRPCError } from '@trpc/server';
+import { db } from './db';
+import { teamsTable, teamMembersTable, expensesTable, budgetsTable, receiptsTable, recurringSeriesTable } from './db/schema';
+import { type UserRole } from './schema';
+import { middleware, protectedProcedure, type Context, type ContextUser } from './trpc';
+import { and, eq } from 'drizzle-orm';
+import { currentStep, decidingFor, loadApprovalChain } from './helpers/approvals';
+
+// Declarative permission checks applied to procedures in the router.
+// Resource-based checks take a selector that reads the id from the parsed input
+// and declares the shape it reads, so they must be chained after `.input()`.
+// ADMIN passes every check except approving their own expenses.
+
+type IdSelector<TInput> = (input: TInput) => number;
+
+function requireUser(ctx: Context): ContextUser {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return ctx.user;
+}
+
+function forbidden(message: string): TRPCError {
+  return new TRPCError({ code: 'FORBIDDEN', message });
+}
+
+function notFound(message: string): TRPCError {
+  return new TRPCError({ code: 'NOT_FOUND', message });
+}
+
+export const requireRole = (...roles: UserRole[]) => middleware(({ ctx, next }) => {
+  const user = requireUser(ctx);
+  if (!roles.includes(user.role)) {
+    throw forbidden(`This action requires one of the roles: ${roles.join(', ')}`);
+  }
+  return next();
+});
+
+// Caller must be the user referenced by the input (e.g. a team's designated manager)
+export const requireSelfOrAdmin = <TInput>(getUserId: IdSelector<TInput>) => middleware(({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role !== 'ADMIN' && getUserId(input as TInput) !== user.id) {
+    throw forbidden('You can only perform this action for yourself');
+  }
+  return next();
+});
+
+// Caller must manage a team the user referenced by the input belongs to
+export const requireManagerOfMember = <TInput>(getUserId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const teams = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .innerJoin(teamMembersTable, eq(teamMembersTable.team_id, teamsTable.id))
+    .where(and(
+      eq(teamsTable.manager_id, user.id),
+      eq(teamMembersTable.user_id, getUserId(input as TInput))
+    ))
+    .limit(1)
+    .execute();
+
+  if (teams.length === 0) {
+    throw forbidden('You can only do this for members of the teams you manage');
+  }
+
+  return next();
+});
+
+export const requireTeamManager = <TInput>(getTeamId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const teams = await db.select({ manager_id: teamsTable.manager_id })
+    .from(teamsTable)
+    .where(eq(teamsTable.id, getTeamId(input as TInput)))
+    .execute();
+
+  if (teams.length === 0) {
+    throw notFound('Team not found');
+  }
+
+  if (teams[0].manager_id !== user.id) {
+    throw forbidden('Only the manager of this team can perform this action');
+  }
+
+  return next();
+});
+
+export const requireExpenseOwner = <TInput>(getExpenseId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const expenses = await db.select({ user_id: expensesTable.user_id })
+    .from(expensesTable)
+    .where(eq(expensesTable.id, getExpenseId(input as TInput)))
+    .execute();
+
+  if (expenses.length === 0) {
+    throw notFound('Expense not found');
+  }
+
+  if (expenses[0].user_id !== user.id) {
+    throw forbidden('You can only modify your own expenses');
+  }
+
+  return next();
+});
+
+// Nobody approves their own expense. Otherwise ADMIN may decide any approval
+// step, anyone else only the step the expense is waiting on when it's theirs.
+export const requireExpenseApprover = <TInput>(getExpenseId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+
+  const expenses = await db.select()
+    .from(expensesTable)
+    .where(eq(expensesTable.id, getExpenseId(input as TInput)))
+    .execute();
+
+  if (expenses.length === 0) {
+    throw notFound('Expense not found');
+  }
+
+  const expense = expenses[0];
+
+  if (expense.user_id === user.id) {
+    throw forbidden('You cannot approve your own expenses');
+  }
+
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const step = currentStep(await loadApprovalChain(expense));
+  if (step === null || await decidingFor(step, expense, user) === null) {
+    throw forbidden('This expense is not waiting on your approval');
+  }
+
+  return next();
+});
+
+export const requireBudgetOwner = <TInput>(getBudgetId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const budgets = await db.select({ user_id: budgetsTable.user_id, manager_id: teamsTable.manager_id })
+    .from(budgetsTable)
+    .leftJoin(teamsTable, eq(budgetsTable.team_id, teamsTable.id))
+    .where(eq(budgetsTable.id, getBudgetId(input as TInput)))
+    .execute();
+
+  if (budgets.length === 0) {
+    throw notFound('Budget not found');
+  }
+
+  // Team budgets are also managed by the team's manager
+  if (budgets[0].user_id !== user.id && budgets[0].manager_id !== user.id) {
+    throw forbidden('You can only modify your own budgets');
+  }
+
+  return next();
+});
+
+export const requireReceiptOwner = <TInput>(getReceiptId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const receipts = await db.select({ user_id: receiptsTable.user_id })
+    .from(receiptsTable)
+    .where(eq(receiptsTable.id, getReceiptId(input as TInput)))
+    .execute();
+
+  if (receipts.length === 0) {
+    throw notFound('Receipt not found');
+  }
+
+  if (receipts[0].user_id !== user.id) {
+    throw forbidden('You can only use your own receipts');
+  }
+
+  return next();
+});
+
+export const requireRecurringSeriesOwner = <TInput>(getSeriesId: IdSelector<TInput>) => middleware(async ({ ctx, input, next }) => {
+  const user = requireUser(ctx);
+  if (user.role === 'ADMIN') {
+    return next();
+  }
+
+  const series = await db.select({ user_id: recurringSeriesTable.user_id })
+    .from(recurringSeriesTable)
+    .where(eq(recurringSeriesTable.id, getSeriesId(input as TInput)))
+    .execute();
+
+  if (series.length === 0) {
+    throw notFound('Recurring series not found');
+  }
+
+  if (series[0].user_id !== user.id) {
+    throw forbidden('You can only modify your own recurring expenses');
+  }
+
+  return next();
+});
+
+export const adminProcedure = protectedProcedure.use(requireRole('ADMIN'));
+export const managerProcedure = protectedProcedure.use(requireRole('MANAGER', 'ADMIN'));
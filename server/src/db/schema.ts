@@ -6,26 +6,23 @@ import {
   numeric, 
   integer, 
   boolean,
+  date,
   pgEnum,
-  foreignKey
+  foreignKey,
+  index,
+  uniqueIndex,
+  customType
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
+
+// Postgres full-text search document, see helpers/expense_search.ts
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+});
 
 // Enum definitions
 export const userRoleEnum = pgEnum('user_role', ['ADMIN', 'MANAGER', 'USER']);
-export const expenseStatusEnum = pgEnum('expense_status', ['PENDING', 'APPROVED', 'REJECTED']);
-export const expenseCategoryEnum = pgEnum('expense_category', [
-  'FOOD_DINING',
-  'TRANSPORTATION',
-  'SHOPPING',
-  'ENTERTAINMENT',
-  'BILLS_UTILITIES',
-  'HEALTHCARE',
-  'EDUCATION',
-  'TRAVEL',
-  'BUSINESS',
-  'OTHERS'
-]);
+export const expenseStatusEnum = pgEnum('expense_status', ['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED']);
 export const notificationTypeEnum = pgEnum('notification_type', [
   'BUDGET_ALERT',
   'EXPENSE_APPROVAL',
@@ -33,6 +30,13 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   'SYSTEM_UPDATE'
 ]);
 export const reportTypeEnum = pgEnum('report_type', ['MONTHLY', 'YEARLY', 'CUSTOM']);
+export const reportFormatEnum = pgEnum('report_format', ['PDF', 'CSV', 'XLSX']);
+export const budgetScopeEnum = pgEnum('budget_scope', ['USER', 'TEAM', 'COMPANY']);
+export const recurrenceFrequencyEnum = pgEnum('recurrence_frequency', ['WEEKLY', 'MONTHLY', 'YEARLY', 'CUSTOM']);
+export const jobRunStatusEnum = pgEnum('job_run_status', ['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED']);
+export const jobTriggerEnum = pgEnum('job_trigger', ['SCHEDULE', 'MANUAL', 'RETRY']);
+export const approverTypeEnum = pgEnum('approver_type', ['TEAM_MANAGER', 'USER', 'ADMIN']);
+export const approvalStepStatusEnum = pgEnum('approval_step_status', ['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED', 'SKIPPED']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -48,17 +52,39 @@ export const usersTable = pgTable('users', {
   email_verification_token: text('email_verification_token'),
   password_reset_token: text('password_reset_token'),
   password_reset_expires: timestamp('password_reset_expires'),
+  session_version: integer('session_version').notNull().default(0), // bumped to revoke issued tokens
+  home_currency: text('home_currency').notNull().default('USD'), // ISO 4217, dashboards and reports are shown in it
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Expense categories (see helpers/categories.ts). Built-in categories carry a
+// key and fixed id; custom ones are added by admins for the whole organization.
+export const categoriesTable = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  key: text('key').unique(), // built-in categories only, e.g. 'FOOD_DINING'
+  name: text('name').notNull(),
+  parent_id: integer('parent_id'), // subcategories point at their parent
+  icon: text('icon'),
+  color: text('color'), // #RRGGBB
+  created_by: integer('created_by').references(() => usersTable.id),
+  archived_at: timestamp('archived_at'), // archived categories stay on existing records but can't be picked
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  foreignKey({ columns: [table.parent_id], foreignColumns: [table.id] }),
+  index('categories_parent_idx').on(table.parent_id),
+]);
+
 // Teams table
 export const teamsTable = pgTable('teams', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'),
   manager_id: integer('manager_id').notNull().references(() => usersTable.id),
+  approval_reminder_days: integer('approval_reminder_days'), // null for the company setting
+  approval_escalation_days: integer('approval_escalation_days'), // null for the company setting
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -78,33 +104,149 @@ export const expensesTable = pgTable('expenses', {
   team_id: integer('team_id').references(() => teamsTable.id),
   title: text('title').notNull(),
   description: text('description'),
+  merchant: text('merchant'),
   amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
-  category: expenseCategoryEnum('category').notNull(),
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code of `amount`
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
   receipt_url: text('receipt_url'),
+  receipt_id: integer('receipt_id').references(() => receiptsTable.id),
   status: expenseStatusEnum('status').notNull().default('PENDING'),
   approved_by: integer('approved_by').references(() => usersTable.id),
   approved_at: timestamp('approved_at'),
   expense_date: timestamp('expense_date').notNull(),
   is_recurring: boolean('is_recurring').notNull().default(false),
   recurring_frequency: text('recurring_frequency'), // 'weekly', 'monthly', 'yearly'
-  tags: text('tags'), // JSON array as string
+  recurring_series_id: integer('recurring_series_id').references(() => recurringSeriesTable.id, { onDelete: 'set null' }),
+  recurrence_date: date('recurrence_date', { mode: 'string' }), // occurrence of the series this expense was created for
+  recurrence_modified: boolean('recurrence_modified').notNull().default(false), // edited on its own, series edits leave it alone
+  search_vector: tsvector('search_vector'), // title, merchant, tags and description; null until refreshed
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  // One expense per occurrence keeps generation idempotent
+  uniqueIndex('expenses_recurrence_idx').on(table.recurring_series_id, table.recurrence_date),
+  index('expenses_search_idx').using('gin', table.search_vector),
+]);
+
+// Tags table; each user keeps their own tags, see helpers/tags.ts
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  // Tag names are unique per user, ignoring case. The expression comes first:
+  // drizzle-kit can't read back an index with an expression after a column.
+  uniqueIndex('tags_user_name_idx').on(sql`lower(${table.name})`, table.user_id),
+]);
+
+// Expense tags table (join between expenses and tags)
+export const expenseTagsTable = pgTable('expense_tags', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  uniqueIndex('expense_tags_expense_tag_idx').on(table.expense_id, table.tag_id),
+  index('expense_tags_tag_idx').on(table.tag_id),
+]);
+
+// Approval policies (see helpers/approvals.ts); at most one per team plus one
+// company-wide policy for teams without their own
+export const approvalPoliciesTable = pgTable('approval_policies', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  team_id: integer('team_id').references(() => teamsTable.id, { onDelete: 'cascade' }), // null for the company-wide policy
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code of the step thresholds
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('approval_policies_team_idx').on(sql`coalesce(${table.team_id}, 0)`),
+]);
+
+// Steps of an approval policy, decided in `position` order
+export const approvalPolicyStepsTable = pgTable('approval_policy_steps', {
+  id: serial('id').primaryKey(),
+  policy_id: integer('policy_id').notNull().references(() => approvalPoliciesTable.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(), // 1 for the first step
+  name: text('name').notNull(),
+  approver_type: approverTypeEnum('approver_type').notNull(),
+  approver_id: integer('approver_id').references(() => usersTable.id), // USER steps only
+  threshold: numeric('threshold', { precision: 10, scale: 2 }).notNull().default('0'), // step applies to expenses above this amount
+}, (table) => [
+  uniqueIndex('approval_policy_steps_position_idx').on(table.policy_id, table.position),
+]);
+
+// Approval history of an expense, one row per step it has to pass. Each
+// submission walks a new round of the chain; earlier rounds are kept.
+export const expenseApprovalsTable = pgTable('expense_approvals', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  round: integer('round').notNull().default(1), // 1 for the first submission
+  step: integer('step').notNull(), // 1 for the first step
+  name: text('name').notNull(),
+  approver_id: integer('approver_id').references(() => usersTable.id), // null when any admin decides the step
+  status: approvalStepStatusEnum('status').notNull().default('PENDING'),
+  decided_by: integer('decided_by').references(() => usersTable.id),
+  on_behalf_of: integer('on_behalf_of').references(() => usersTable.id), // approver who delegated the step to decided_by
+  decided_at: timestamp('decided_at'),
+  comment: text('comment'), // the reason for rejections and change requests
+  escalated_from: integer('escalated_from').references(() => usersTable.id), // approver the step was taken from
+  escalated_at: timestamp('escalated_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('expense_approvals_expense_step_idx').on(table.expense_id, table.round, table.step),
+  index('expense_approvals_approver_idx').on(table.approver_id, table.status),
+]);
+
+// Approvers out of office hand the steps named for them to a delegate, from
+// start_date through end_date (calendar days), for one team or all of them
+export const approvalDelegationsTable = pgTable('approval_delegations', {
+  id: serial('id').primaryKey(),
+  delegator_id: integer('delegator_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  delegate_id: integer('delegate_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  team_id: integer('team_id').references(() => teamsTable.id, { onDelete: 'cascade' }), // null for every team
+  start_date: date('start_date', { mode: 'string' }).notNull(),
+  end_date: date('end_date', { mode: 'string' }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('approval_delegations_delegate_idx').on(table.delegate_id, table.end_date),
+]);
 
 // Budgets table
 export const budgetsTable = pgTable('budgets', {
   id: serial('id').primaryKey(),
-  user_id: integer('user_id').notNull().references(() => usersTable.id),
-  category: expenseCategoryEnum('category').notNull(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id), // owner; whose expenses count for USER budgets
+  scope: budgetScopeEnum('scope').notNull().default('USER'), // which expenses count, see helpers/budget_spending.ts
+  team_id: integer('team_id').references(() => teamsTable.id), // TEAM budgets only
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
   monthly_limit: numeric('monthly_limit', { precision: 10, scale: 2 }).notNull(),
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code of `monthly_limit` and `current_spent`
   current_spent: numeric('current_spent', { precision: 10, scale: 2 }).notNull().default('0'),
   alert_threshold: integer('alert_threshold').notNull().default(80), // percentage (0-100)
+  carry_over: boolean('carry_over').notNull().default(false), // unspent amounts roll into the next month
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Budget periods table (one row per budget and calendar month, see helpers/budget_periods.ts)
+export const budgetPeriodsTable = pgTable('budget_periods', {
+  id: serial('id').primaryKey(),
+  budget_id: integer('budget_id').notNull().references(() => budgetsTable.id, { onDelete: 'cascade' }),
+  period_start: date('period_start', { mode: 'string' }).notNull(), // first day of the month
+  monthly_limit: numeric('monthly_limit', { precision: 10, scale: 2 }).notNull(),
+  carried_over: numeric('carried_over', { precision: 10, scale: 2 }).notNull().default('0'), // unspent amount of the previous period
+  spent: numeric('spent', { precision: 10, scale: 2 }).notNull().default('0'),
+  closed_at: timestamp('closed_at'), // set when the month is over; spent is final from then on
+  threshold_alerted_at: timestamp('threshold_alerted_at'), // BUDGET_ALERT sent for passing alert_threshold
+  limit_alerted_at: timestamp('limit_alerted_at'), // BUDGET_ALERT sent for reaching the limit
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('budget_periods_budget_month_idx').on(table.budget_id, table.period_start),
+]);
+
 // Notifications table
 export const notificationsTable = pgTable('notifications', {
   id: serial('id').primaryKey(),
@@ -113,10 +255,20 @@ export const notificationsTable = pgTable('notifications', {
   title: text('title').notNull(),
   message: text('message').notNull(),
   is_read: boolean('is_read').notNull().default(false),
-  related_expense_id: integer('related_expense_id').references(() => expensesTable.id),
+  related_expense_id: integer('related_expense_id').references(() => expensesTable.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Categories a user muted budget alerts for; categories without a row are alerted
+export const budgetAlertOptOutsTable = pgTable('budget_alert_opt_outs', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('budget_alert_opt_outs_user_category_idx').on(table.user_id, table.category_id),
+]);
+
 // Reports table
 export const reportsTable = pgTable('reports', {
   id: serial('id').primaryKey(),
@@ -124,20 +276,141 @@ export const reportsTable = pgTable('reports', {
   type: reportTypeEnum('type').notNull(),
   title: text('title').notNull(),
   filters: text('filters').notNull(), // JSON string with filter criteria
+  format: reportFormatEnum('format').notNull().default('PDF'),
   generated_at: timestamp('generated_at').defaultNow().notNull(),
   file_url: text('file_url'),
+  storage_key: text('storage_key'), // rendered file in the storage backend
   expires_at: timestamp('expires_at'),
 });
 
+// Application settings table (single row, managed by admins)
+export const appSettingsTable = pgTable('app_settings', {
+  id: serial('id').primaryKey(),
+  allow_unverified_expenses: boolean('allow_unverified_expenses').notNull().default(true),
+  allow_unverified_team_members: boolean('allow_unverified_team_members').notNull().default(true),
+  approval_reminder_days: integer('approval_reminder_days').notNull().default(3), // pending expenses older than this are overdue
+  approval_escalation_days: integer('approval_escalation_days').notNull().default(7),
+  updated_by: integer('updated_by').references(() => usersTable.id),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Receipts table (uploaded files, bytes live in the configured storage backend)
+export const receiptsTable = pgTable('receipts', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  storage_key: text('storage_key').notNull().unique(),
+  filename: text('filename').notNull(),
+  content_type: text('content_type').notNull(),
+  size: integer('size').notNull(), // bytes
+  sha256: text('sha256').notNull(), // hex digest of the stored bytes
+  width: integer('width'), // images only, after normalization
+  height: integer('height'),
+  thumbnail_key: text('thumbnail_key'), // JPEG preview for list views, images only
+  ocr_text: text('ocr_text'), // cached OCR output, see create_expense_from_receipt.ts
+  ocr_processed_at: timestamp('ocr_processed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Recurring expense series (template and schedule, see helpers/recurrence.ts)
+export const recurringSeriesTable = pgTable('recurring_series', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  team_id: integer('team_id').references(() => teamsTable.id),
+  title: text('title').notNull(),
+  description: text('description'),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+  currency: text('currency').notNull().default('USD'),
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
+  frequency: recurrenceFrequencyEnum('frequency').notNull(),
+  interval: integer('interval').notNull().default(1), // every N weeks/months/years
+  rule: text('rule'), // CUSTOM only, "day-of-month month day-of-week"
+  start_date: date('start_date', { mode: 'string' }).notNull(),
+  end_date: date('end_date', { mode: 'string' }),
+  max_occurrences: integer('max_occurrences'), // generated expenses, skipped occurrences don't count
+  occurrence_count: integer('occurrence_count').notNull().default(0),
+  last_occurrence_date: date('last_occurrence_date', { mode: 'string' }), // latest generated or skipped occurrence
+  next_occurrence_date: date('next_occurrence_date', { mode: 'string' }), // null once the series has ended
+  is_paused: boolean('is_paused').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Occurrences of a recurring series that should not produce an expense
+export const recurringSkipsTable = pgTable('recurring_skips', {
+  id: serial('id').primaryKey(),
+  series_id: integer('series_id').notNull().references(() => recurringSeriesTable.id, { onDelete: 'cascade' }),
+  occurrence_date: date('occurrence_date', { mode: 'string' }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('recurring_skips_occurrence_idx').on(table.series_id, table.occurrence_date),
+]);
+
+// Exchange rates table (daily reference rates imported from CSV or ECB XML files)
+export const exchangeRatesTable = pgTable('exchange_rates', {
+  id: serial('id').primaryKey(),
+  base_currency: text('base_currency').notNull(),
+  currency: text('currency').notNull(),
+  rate: numeric('rate', { precision: 18, scale: 8 }).notNull(), // units of `currency` for one unit of `base_currency`
+  rate_date: date('rate_date', { mode: 'string' }).notNull(), // YYYY-MM-DD
+  source: text('source'), // 'CSV' or 'ECB_XML'
+  imported_at: timestamp('imported_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('exchange_rates_pair_date_idx').on(table.base_currency, table.currency, table.rate_date),
+]);
+
+// Background job runs, one row per attempt (see scheduler.ts)
+export const jobRunsTable = pgTable('job_runs', {
+  id: serial('id').primaryKey(),
+  job_name: text('job_name').notNull(),
+  status: jobRunStatusEnum('status').notNull().default('PENDING'),
+  trigger: jobTriggerEnum('trigger').notNull(),
+  attempt: integer('attempt').notNull().default(1),
+  max_attempts: integer('max_attempts').notNull(),
+  scheduled_for: timestamp('scheduled_for').notNull(), // not started before this time
+  started_at: timestamp('started_at'),
+  finished_at: timestamp('finished_at'),
+  result: text('result'), // JSON summary returned by the job
+  error: text('error'),
+  triggered_by: integer('triggered_by').references(() => usersTable.id), // MANUAL runs
+  worker: text('worker'), // scheduler instance that ran the job
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('job_runs_due_idx').on(table.status, table.scheduled_for),
+]);
+
+// Leases held by scheduler instances; only the holder of a lease runs jobs
+export const schedulerLocksTable = pgTable('scheduler_locks', {
+  name: text('name').primaryKey(),
+  holder: text('holder').notNull(),
+  acquired_at: timestamp('acquired_at').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+});
+
 // Relations
+export const categoriesRelations = relations(categoriesTable, ({ one, many }) => ({
+  parent: one(categoriesTable, {
+    fields: [categoriesTable.parent_id],
+    references: [categoriesTable.id],
+    relationName: 'subcategories',
+  }),
+  subcategories: many(categoriesTable, { relationName: 'subcategories' }),
+  expenses: many(expensesTable),
+  budgets: many(budgetsTable),
+}));
+
 export const usersRelations = relations(usersTable, ({ many, one }) => ({
   expenses: many(expensesTable),
+  tags: many(tagsTable),
   budgets: many(budgetsTable),
   notifications: many(notificationsTable),
   reports: many(reportsTable),
+  receipts: many(receiptsTable),
+  recurringSeries: many(recurringSeriesTable),
   managedTeams: many(teamsTable),
   teamMemberships: many(teamMembersTable),
   approvedExpenses: many(expensesTable, { relationName: 'approvedBy' }),
+  delegationsGiven: many(approvalDelegationsTable, { relationName: 'delegator' }),
+  delegationsReceived: many(approvalDelegationsTable, { relationName: 'delegate' }),
 }));
 
 export const teamsRelations = relations(teamsTable, ({ many, one }) => ({
@@ -147,6 +420,7 @@ export const teamsRelations = relations(teamsTable, ({ many, one }) => ({
   }),
   members: many(teamMembersTable),
   expenses: many(expensesTable),
+  budgets: many(budgetsTable),
 }));
 
 export const teamMembersRelations = relations(teamMembersTable, ({ one }) => ({
@@ -160,7 +434,11 @@ export const teamMembersRelations = relations(teamMembersTable, ({ one }) => ({
   }),
 }));
 
-export const expensesRelations = relations(expensesTable, ({ one }) => ({
+export const expensesRelations = relations(expensesTable, ({ one, many }) => ({
+  recurringSeries: one(recurringSeriesTable, {
+    fields: [expensesTable.recurring_series_id],
+    references: [recurringSeriesTable.id],
+  }),
   user: one(usersTable, {
     fields: [expensesTable.user_id],
     references: [usersTable.id],
@@ -169,18 +447,102 @@ export const expensesRelations = relations(expensesTable, ({ one }) => ({
     fields: [expensesTable.team_id],
     references: [teamsTable.id],
   }),
+  category: one(categoriesTable, {
+    fields: [expensesTable.category_id],
+    references: [categoriesTable.id],
+  }),
   approvedBy: one(usersTable, {
     fields: [expensesTable.approved_by],
     references: [usersTable.id],
     relationName: 'approvedBy',
   }),
+  tags: many(expenseTagsTable),
+  approvals: many(expenseApprovalsTable),
+}));
+
+export const tagsRelations = relations(tagsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [tagsTable.user_id],
+    references: [usersTable.id],
+  }),
+  expenses: many(expenseTagsTable),
+}));
+
+export const expenseTagsRelations = relations(expenseTagsTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseTagsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  tag: one(tagsTable, {
+    fields: [expenseTagsTable.tag_id],
+    references: [tagsTable.id],
+  }),
+}));
+
+export const approvalPoliciesRelations = relations(approvalPoliciesTable, ({ one, many }) => ({
+  team: one(teamsTable, {
+    fields: [approvalPoliciesTable.team_id],
+    references: [teamsTable.id],
+  }),
+  steps: many(approvalPolicyStepsTable),
+}));
+
+export const approvalPolicyStepsRelations = relations(approvalPolicyStepsTable, ({ one }) => ({
+  policy: one(approvalPoliciesTable, {
+    fields: [approvalPolicyStepsTable.policy_id],
+    references: [approvalPoliciesTable.id],
+  }),
+  approver: one(usersTable, {
+    fields: [approvalPolicyStepsTable.approver_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const expenseApprovalsRelations = relations(expenseApprovalsTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseApprovalsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+}));
+
+export const approvalDelegationsRelations = relations(approvalDelegationsTable, ({ one }) => ({
+  delegator: one(usersTable, {
+    fields: [approvalDelegationsTable.delegator_id],
+    references: [usersTable.id],
+    relationName: 'delegator',
+  }),
+  delegate: one(usersTable, {
+    fields: [approvalDelegationsTable.delegate_id],
+    references: [usersTable.id],
+    relationName: 'delegate',
+  }),
+  team: one(teamsTable, {
+    fields: [approvalDelegationsTable.team_id],
+    references: [teamsTable.id],
+  }),
 }));
 
-export const budgetsRelations = relations(budgetsTable, ({ one }) => ({
+export const budgetsRelations = relations(budgetsTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [budgetsTable.user_id],
     references: [usersTable.id],
   }),
+  team: one(teamsTable, {
+    fields: [budgetsTable.team_id],
+    references: [teamsTable.id],
+  }),
+  category: one(categoriesTable, {
+    fields: [budgetsTable.category_id],
+    references: [categoriesTable.id],
+  }),
+  periods: many(budgetPeriodsTable),
+}));
+
+export const budgetPeriodsRelations = relations(budgetPeriodsTable, ({ one }) => ({
+  budget: one(budgetsTable, {
+    fields: [budgetPeriodsTable.budget_id],
+    references: [budgetsTable.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
@@ -201,10 +563,44 @@ export const reportsRelations = relations(reportsTable, ({ one }) => ({
   }),
 }));
 
+export const receiptsRelations = relations(receiptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [receiptsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const recurringSeriesRelations = relations(recurringSeriesTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [recurringSeriesTable.user_id],
+    references: [usersTable.id],
+  }),
+  team: one(teamsTable, {
+    fields: [recurringSeriesTable.team_id],
+    references: [teamsTable.id],
+  }),
+  category: one(categoriesTable, {
+    fields: [recurringSeriesTable.category_id],
+    references: [categoriesTable.id],
+  }),
+  expenses: many(expensesTable),
+  skips: many(recurringSkipsTable),
+}));
+
+export const recurringSkipsRelations = relations(recurringSkipsTable, ({ one }) => ({
+  series: one(recurringSeriesTable, {
+    fields: [recurringSkipsTable.series_id],
+    references: [recurringSeriesTable.id],
+  }),
+}));
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Category = typeof categoriesTable.$inferSelect;
+export type NewCategory = typeof categoriesTable.$inferInsert;
+
 export type Team = typeof teamsTable.$inferSelect;
 export type NewTeam = typeof teamsTable.$inferInsert;
 
@@ -214,22 +610,83 @@ export type NewTeamMember = typeof teamMembersTable.$inferInsert;
 export type Expense = typeof expensesTable.$inferSelect;
 export type NewExpense = typeof expensesTable.$inferInsert;
 
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type ExpenseTag = typeof expenseTagsTable.$inferSelect;
+export type NewExpenseTag = typeof expenseTagsTable.$inferInsert;
+
+export type ApprovalPolicy = typeof approvalPoliciesTable.$inferSelect;
+export type NewApprovalPolicy = typeof approvalPoliciesTable.$inferInsert;
+
+export type ApprovalPolicyStep = typeof approvalPolicyStepsTable.$inferSelect;
+export type NewApprovalPolicyStep = typeof approvalPolicyStepsTable.$inferInsert;
+
+export type ExpenseApproval = typeof expenseApprovalsTable.$inferSelect;
+export type NewExpenseApproval = typeof expenseApprovalsTable.$inferInsert;
+
+export type ApprovalDelegation = typeof approvalDelegationsTable.$inferSelect;
+export type NewApprovalDelegation = typeof approvalDelegationsTable.$inferInsert;
+
 export type Budget = typeof budgetsTable.$inferSelect;
 export type NewBudget = typeof budgetsTable.$inferInsert;
 
+export type BudgetPeriod = typeof budgetPeriodsTable.$inferSelect;
+export type NewBudgetPeriod = typeof budgetPeriodsTable.$inferInsert;
+
 export type Notification = typeof notificationsTable.$inferSelect;
 export type NewNotification = typeof notificationsTable.$inferInsert;
 
+export type BudgetAlertOptOut = typeof budgetAlertOptOutsTable.$inferSelect;
+export type NewBudgetAlertOptOut = typeof budgetAlertOptOutsTable.$inferInsert;
+
 export type Report = typeof reportsTable.$inferSelect;
 export type NewReport = typeof reportsTable.$inferInsert;
 
+export type AppSettings = typeof appSettingsTable.$inferSelect;
+export type NewAppSettings = typeof appSettingsTable.$inferInsert;
+
+export type Receipt = typeof receiptsTable.$inferSelect;
+export type NewReceipt = typeof receiptsTable.$inferInsert;
+
+export type RecurringSeries = typeof recurringSeriesTable.$inferSelect;
+export type NewRecurringSeries = typeof recurringSeriesTable.$inferInsert;
+
+export type RecurringSkip = typeof recurringSkipsTable.$inferSelect;
+export type NewRecurringSkip = typeof recurringSkipsTable.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRatesTable.$inferSelect;
+export type NewExchangeRate = typeof exchangeRatesTable.$inferInsert;
+
+export type JobRun = typeof jobRunsTable.$inferSelect;
+export type NewJobRun = typeof jobRunsTable.$inferInsert;
+
+export type SchedulerLock = typeof schedulerLocksTable.$inferSelect;
+export type NewSchedulerLock = typeof schedulerLocksTable.$inferInsert;
+
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
+  categories: categoriesTable,
   teams: teamsTable,
   teamMembers: teamMembersTable,
   expenses: expensesTable,
+  tags: tagsTable,
+  expenseTags: expenseTagsTable,
+  approvalPolicies: approvalPoliciesTable,
+  approvalPolicySteps: approvalPolicyStepsTable,
+  expenseApprovals: expenseApprovalsTable,
+  approvalDelegations: approvalDelegationsTable,
   budgets: budgetsTable,
+  budgetPeriods: budgetPeriodsTable,
   notifications: notificationsTable,
+  budgetAlertOptOuts: budgetAlertOptOutsTable,
   reports: reportsTable,
+  appSettings: appSettingsTable,
+  receipts: receiptsTable,
+  exchangeRates: exchangeRatesTable,
+  recurringSeries: recurringSeriesTable,
+  recurringSkips: recurringSkipsTable,
+  jobRuns: jobRunsTable,
+  schedulerLocks: schedulerLocksTable,
 };
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { resolveUserFromToken, type ContextUser } from './trpc';
+import { getReceiptFile } from './handlers/get_receipt_file';
+import { getReportFile } from './handlers/get_report_file';
+import { uploadReceipt, MAX_FILE_SIZE } from './handlers/upload_receipt';
+import { readUploadedFile } from './helpers/upload_body';
+
+// Plain HTTP routes served next to the tRPC router for binary file transfers,
+// which don't fit tRPC's JSON transport. They use the same bearer tokens.
+
+type FileRouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  user: ContextUser,
+  params: string[]
+) => Promise<void>;
+
+interface FileRoute {
+  method: string;
+  pattern: RegExp;
+  handler: FileRouteHandler;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: object): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const sendFile = (
+  res: ServerResponse,
+  data: Buffer,
+  contentType: string,
+  filename: string,
+  disposition: 'inline' | 'attachment' = 'inline'
+): void => {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', data.length);
+  res.setHeader('Content-Disposition', `${disposition}; filename="${filename.replace(/["\\\r\n]/g, '_')}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.end(data);
+};
+
+// Map handler error messages onto HTTP status codes
+const statusForError = (message: string): number => {
+  if (/too large/i.test(message)) return 413;
+  if (/not found|missing/i.test(message)) return 404;
+  if (/expired/i.test(message)) return 410;
+  if (/access denied/i.test(message)) return 403;
+  return 400;
+};
+
+const routes: FileRoute[] = [
+  {
+    // Streaming replacement for the base64 uploadReceipt procedure; the returned
+    // receipt_id can be passed to createExpense/updateExpense
+    method: 'POST',
+    pattern: /^\/receipts$/,
+    handler: async (req, res, user) => {
+      const file = await readUploadedFile(req, MAX_FILE_SIZE);
+      const result = await uploadReceipt(user.id, file);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      sendJson(res, 201, result);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/receipts\/(\d+)$/,
+    handler: async (_req, res, user, [receiptId]) => {
+      const { receipt, data, content_type } = await getReceiptFile(parseInt(receiptId, 10), user.id);
+      sendFile(res, data, content_type, receipt.filename);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/receipts\/(\d+)\/thumbnail$/,
+    handler: async (_req, res, user, [receiptId]) => {
+      const { receipt, data, content_type } = await getReceiptFile(parseInt(receiptId, 10), user.id, 'thumbnail');
+      sendFile(res, data, content_type, `thumbnail_${receipt.filename.replace(/\.[^.]*$/, '')}.jpg`);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/reports\/(\d+)\/download$/,
+    handler: async (_req, res, user, [reportId]) => {
+      const { data, content_type, filename } = await getReportFile(parseInt(reportId, 10), user.id);
+      sendFile(res, data, content_type, filename, 'attachment');
+    }
+  }
+];
+
+// Returns false when the request isn't a file route so it can fall through to tRPC
+export async function handleFileRoute(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (!match || req.method !== route.method) {
+      continue;
+    }
+
+    const user = await resolveUserFromToken(req.headers.authorization);
+    if (!user) {
+      sendJson(res, 401, { error: 'Authentication required' });
+      return true;
+    }
+
+    try {
+      await route.handler(req, res, user, match.slice(1));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (!res.headersSent) {
+        const status = statusForError(message);
+        // Don't keep reading an upload that was refused part-way through
+        if (status === 413) {
+          res.setHeader('Connection', 'close');
+        }
+        sendJson(res, status, { error: message });
+      } else {
+        res.destroy();
+      }
+    }
+    return true;
+  }
+
+  return false;
+}
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { teamMembersTable, teamsTable, usersTable } from '../db/schema';
 import { type AddTeamMemberInput, type TeamMember } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { getAppSettings } from '../helpers/app_settings';
 
 export const addTeamMember = async (input: AddTeamMemberInput): Promise<TeamMember> => {
   try {
@@ -25,6 +26,14 @@ export const addTeamMember = async (input: AddTeamMemberInput): Promise<TeamMemb
       throw new Error('User not found');
     }
 
+    // Admins may require a verified email address before joining a team
+    if (!user[0].email_verified) {
+      const settings = await getAppSettings();
+      if (!settings.allow_unverified_team_members) {
+        throw new Error('Email address must be verified before joining a team');
+      }
+    }
+
     // Check if user is already a member of the team
     const existingMember = await db.select()
       .from(teamMembersTable)
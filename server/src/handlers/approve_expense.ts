@@ -1,25 +1,196 @@
 import { db } from '../db';
-import { expensesTable, usersTable, budgetsTable } from '../db/schema';
+import { expenseApprovalsTable, expensesTable, usersTable, type Expense as ExpenseRow, type ExpenseApproval as ExpenseApprovalRow, type User as UserRow } from '../db/schema';
 import { type ApproveExpenseInput, type Expense } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { refreshBudgetsForExpenses } from '../helpers/budget_periods';
+import { sendBudgetAlerts } from './send_budget_alerts';
+import { toExpenses } from '../helpers/expenses';
+import { currentStep, decidingFor, loadApprovalChain } from '../helpers/approvals';
+import { createNotification } from './create_notification';
 
-export const approveExpense = async (input: ApproveExpenseInput): Promise<Expense> => {
-  try {
-    // First, verify the approver exists and has proper permissions (ADMIN or MANAGER)
-    const approver = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, input.approved_by))
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ExpenseDecisionInput = Pick<ApproveExpenseInput, 'status' | 'comment'>;
+
+// What deciding the current step of an expense did
+export interface ExpenseDecision {
+  expense: ExpenseRow; // as updated
+  decides_expense: boolean; // false when an approval moves it on to the next step
+  next_step: ExpenseApprovalRow | null;
+  steps: number; // in the current round
+}
+
+export function requireDecisionReason(input: ExpenseDecisionInput): string | null {
+  const comment = input.comment || null;
+  if (input.status === 'REJECTED' && comment === null) {
+    throw new Error('A reason is required to reject an expense');
+  }
+  if (input.status === 'CHANGES_REQUESTED' && comment === null) {
+    throw new Error('A reason is required to request changes');
+  }
+  return comment;
+}
+
+// Verify the approver exists and has proper permissions (ADMIN or MANAGER)
+export async function loadApprover(approverId: number): Promise<UserRow> {
+  const approver = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, approverId))
+    .execute();
+
+  if (approver.length === 0) {
+    throw new Error('Approver not found');
+  }
+
+  if (!['ADMIN', 'MANAGER'].includes(approver[0].role)) {
+    throw new Error('Insufficient permissions to approve expenses');
+  }
+  return approver[0];
+}
+
+// Records the decision on the step the expense is waiting on. Only the
+// approver of that step, their delegate or an admin decides it, and nobody
+// decides their own expense.
+export async function decideExpense(tx: Transaction, expense: ExpenseRow, approver: UserRow, input: ExpenseDecisionInput): Promise<ExpenseDecision> {
+  const comment = requireDecisionReason(input);
+
+  if (expense.status !== 'PENDING') {
+    throw new Error('Expense is not in pending status');
+  }
+
+  if (expense.user_id === approver.id) {
+    throw new Error('You cannot approve your own expenses');
+  }
+
+  const chain = await loadApprovalChain(expense);
+  const step = currentStep(chain);
+  const decidingAs = step === null ? null : await decidingFor(step, expense, approver);
+  if (step === null || decidingAs === null) {
+    throw new Error('This expense is not waiting on your approval');
+  }
+
+  // Rejecting or requesting changes ends the round; the expense is approved once its last step is
+  const decidesExpense = input.status !== 'APPROVED' || step.id === chain[chain.length - 1].id;
+
+  const decided = await tx.update(expenseApprovalsTable)
+    .set({
+      status: input.status,
+      decided_by: approver.id,
+      on_behalf_of: decidingAs === approver.id ? null : decidingAs,
+      decided_at: new Date(),
+      comment
+    })
+    .where(and(eq(expenseApprovalsTable.id, step.id), eq(expenseApprovalsTable.status, 'PENDING')))
+    .returning()
+    .execute();
+
+  // Someone else decided the step in the meantime
+  if (decided.length === 0) {
+    throw new Error('Expense is not in pending status');
+  }
+
+  if (input.status !== 'APPROVED') {
+    await tx.update(expenseApprovalsTable)
+      .set({ status: 'SKIPPED' })
+      .where(and(eq(expenseApprovalsTable.expense_id, expense.id), eq(expenseApprovalsTable.status, 'PENDING')))
       .execute();
+  }
 
-    if (approver.length === 0) {
-      throw new Error('Approver not found');
-    }
+  const updatedExpense = await tx.update(expensesTable)
+    .set(decidesExpense
+      ? {
+        status: input.status,
+        approved_by: approver.id,
+        approved_at: input.status === 'APPROVED' ? new Date() : null,
+        updated_at: new Date()
+      }
+      : { updated_at: new Date() })
+    .where(eq(expensesTable.id, expense.id))
+    .returning()
+    .execute();
 
-    if (!['ADMIN', 'MANAGER'].includes(approver[0].role)) {
-      throw new Error('Insufficient permissions to approve expenses');
-    }
+  return {
+    expense: updatedExpense[0],
+    decides_expense: decidesExpense,
+    next_step: decidesExpense ? null : chain[chain.indexOf(step) + 1],
+    steps: chain.length
+  };
+}
+
+const quoted = (expenses: ExpenseRow[]) => expenses.map(expense => `"${expense.title}"`).join(', ');
+
+const DECISION_MESSAGES = {
+  APPROVED: {
+    title: 'Expense approved',
+    message: (title: string) => `"${title}" was approved.`,
+    bulkTitle: 'Expenses approved',
+    bulkMessage: (expenses: ExpenseRow[]) => `${expenses.length} of your expenses were approved: ${quoted(expenses)}.`
+  },
+  REJECTED: {
+    title: 'Expense rejected',
+    message: (title: string) => `"${title}" was rejected.`,
+    bulkTitle: 'Expenses rejected',
+    bulkMessage: (expenses: ExpenseRow[]) => `${expenses.length} of your expenses were rejected: ${quoted(expenses)}.`
+  },
+  CHANGES_REQUESTED: {
+    title: 'Changes requested',
+    message: (title: string) => `"${title}" needs changes before it can be approved. Edit and resubmit it.`,
+    bulkTitle: 'Changes requested',
+    bulkMessage: (expenses: ExpenseRow[]) => `${expenses.length} of your expenses need changes before they can be approved: ${quoted(expenses)}. Edit and resubmit them.`
+  }
+};
+
+function groupBy<T>(items: T[], key: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+  return groups;
+}
+
+// Tells each submitter how their expenses were decided, in one notification
+// per submitter, with the approver's comment
+export async function notifySubmitters(decisions: ExpenseDecision[], input: ExpenseDecisionInput): Promise<void> {
+  const messages = DECISION_MESSAGES[input.status];
+  const decided = decisions.filter(decision => decision.decides_expense).map(decision => decision.expense);
+
+  for (const [userId, expenses] of groupBy(decided, expense => expense.user_id)) {
+    const message = expenses.length === 1 ? messages.message(expenses[0].title) : messages.bulkMessage(expenses);
+    await createNotification({
+      user_id: userId,
+      type: 'EXPENSE_APPROVAL',
+      title: expenses.length === 1 ? messages.title : messages.bulkTitle,
+      message: input.comment ? `${message} Comment: ${input.comment}` : message,
+      related_expense_id: expenses.length === 1 ? expenses[0].id : undefined
+    });
+  }
+}
 
-    // Get the expense to verify it exists and is in pending status
+// One notification per approver of the steps the expenses moved on to. Steps
+// left to any admin show up in their pending approvals without a notification.
+export async function notifyNextApprovers(decisions: ExpenseDecision[]): Promise<void> {
+  const moved = decisions.filter(decision => decision.next_step !== null && decision.next_step.approver_id !== null);
+
+  for (const [approverId, waiting] of groupBy(moved, decision => decision.next_step!.approver_id!)) {
+    const [first] = waiting;
+    await createNotification({
+      user_id: approverId,
+      type: 'EXPENSE_APPROVAL',
+      title: waiting.length === 1 ? 'Expense awaiting your approval' : 'Expenses awaiting your approval',
+      message: waiting.length === 1
+        ? `"${first.expense.title}" needs your approval (step ${first.next_step!.step} of ${first.steps}).`
+        : `${waiting.length} expenses need your approval: ${quoted(waiting.map(decision => decision.expense))}.`,
+      related_expense_id: waiting.length === 1 ? first.expense.id : undefined
+    });
+  }
+}
+
+export const approveExpense = async (input: ApproveExpenseInput): Promise<Expense> => {
+  try {
+    requireDecisionReason(input);
+    const approver = await loadApprover(input.approved_by);
+
+    // Get the expense to verify it exists
     const existingExpense = await db.select()
       .from(expensesTable)
       .where(eq(expensesTable.id, input.expense_id))
@@ -29,59 +200,21 @@ export const approveExpense = async (input: ApproveExpenseInput): Promise<Expens
       throw new Error('Expense not found');
     }
 
-    if (existingExpense[0].status !== 'PENDING') {
-      throw new Error('Expense is not in pending status');
-    }
+    const decision = await db.transaction(tx => decideExpense(tx, existingExpense[0], approver, input));
 
-    // Update the expense with approval status
-    const updatedExpense = await db.update(expensesTable)
-      .set({
-        status: input.status,
-        approved_by: input.approved_by,
-        approved_at: input.status === 'APPROVED' ? new Date() : null,
-        updated_at: new Date()
-      })
-      .where(eq(expensesTable.id, input.expense_id))
-      .returning()
-      .execute();
+    await notifySubmitters([decision], input);
+    await notifyNextApprovers([decision]);
 
-    // If approved, update budget tracking
-    if (input.status === 'APPROVED') {
-      const expense = updatedExpense[0];
-      const expenseAmount = parseFloat(expense.amount);
-
-      // Update the user's budget for this category
-      // First get the current budget to calculate new spent amount
-      const currentBudget = await db.select()
-        .from(budgetsTable)
-        .where(and(
-          eq(budgetsTable.user_id, expense.user_id),
-          eq(budgetsTable.category, expense.category),
-          eq(budgetsTable.is_active, true)
-        ))
-        .execute();
-
-      if (currentBudget.length > 0) {
-        const newSpentAmount = parseFloat(currentBudget[0].current_spent) + expenseAmount;
-        
-        await db.update(budgetsTable)
-          .set({
-            current_spent: newSpentAmount.toString(),
-            updated_at: new Date()
-          })
-          .where(eq(budgetsTable.id, currentBudget[0].id))
-          .execute();
-      }
+    // Approved expenses start counting against the submitter's budget
+    if (decision.expense.status === 'APPROVED') {
+      await sendBudgetAlerts(await refreshBudgetsForExpenses([decision.expense]));
     }
 
     // Convert numeric fields back to numbers before returning
-    const result = updatedExpense[0];
-    return {
-      ...result,
-      amount: parseFloat(result.amount)
-    };
+    const [result] = await toExpenses([decision.expense]);
+    return result;
   } catch (error) {
     console.error('Expense approval failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { type ArchiveCategoryInput, type Category } from '../schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { loadCategory, loadCategoryTree, requireUniqueCategoryName } from '../helpers/categories';
+
+// Archived categories keep their expenses, budgets and recurring series but
+// can't be picked for new ones. Archiving covers the subcategories; restoring
+// brings back the ones archived along with the category.
+export async function archiveCategory(input: ArchiveCategoryInput): Promise<Category> {
+  try {
+    const existing = await loadCategory(input.id);
+    const subtree = (await loadCategoryTree()).withDescendants(existing.id);
+    const now = new Date();
+
+    if (input.archived) {
+      if (existing.archived_at === null) {
+        await db.update(categoriesTable)
+          .set({ archived_at: now, updated_at: now })
+          .where(and(
+            inArray(categoriesTable.id, subtree),
+            isNull(categoriesTable.archived_at)
+          ))
+          .execute();
+      }
+    } else if (existing.archived_at !== null) {
+      if (existing.parent_id !== null && (await loadCategory(existing.parent_id)).archived_at !== null) {
+        throw new Error('Parent category is archived');
+      }
+      await requireUniqueCategoryName(existing.name, existing.parent_id, existing.id);
+
+      await db.update(categoriesTable)
+        .set({ archived_at: null, updated_at: now })
+        .where(and(
+          inArray(categoriesTable.id, subtree),
+          eq(categoriesTable.archived_at, existing.archived_at)
+        ))
+        .execute();
+    }
+
+    return loadCategory(existing.id);
+  } catch (error) {
+    console.error('Category archival failed:', error);
+    throw error;
+  }
+}
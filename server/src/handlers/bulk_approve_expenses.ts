@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { type BulkApprovalResult, type BulkApproveExpensesInput } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { refreshBudgetsForExpenses } from '../helpers/budget_periods';
+import { sendBudgetAlerts } from './send_budget_alerts';
+import { toExpenses } from '../helpers/expenses';
+import { decideExpense, loadApprover, notifyNextApprovers, notifySubmitters, requireDecisionReason, type ExpenseDecision } from './approve_expense';
+
+// Decides each expense the way approveExpense does, in one transaction where
+// an expense that can't be decided fails on its own and leaves the others
+// decided. Submitters and next approvers get one notification each.
+export async function bulkApproveExpenses(input: BulkApproveExpensesInput): Promise<BulkApprovalResult[]> {
+  try {
+    requireDecisionReason(input);
+    const approver = await loadApprover(input.approved_by);
+
+    const expenseIds = [...new Set(input.expense_ids)];
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(inArray(expensesTable.id, expenseIds))
+      .execute();
+    const expensesById = new Map(expenses.map(expense => [expense.id, expense]));
+
+    const outcomes = await db.transaction(async (tx) => {
+      const outcomes: Array<{ expense_id: number; decision: ExpenseDecision | null; error: string | null }> = [];
+      for (const expenseId of expenseIds) {
+        const expense = expensesById.get(expenseId);
+        if (!expense) {
+          outcomes.push({ expense_id: expenseId, decision: null, error: 'Expense not found' });
+          continue;
+        }
+
+        // A savepoint per expense, so a failed one is rolled back alone
+        try {
+          const decision = await tx.transaction(item => decideExpense(item, expense, approver, input));
+          outcomes.push({ expense_id: expenseId, decision, error: null });
+        } catch (error) {
+          outcomes.push({ expense_id: expenseId, decision: null, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      return outcomes;
+    });
+
+    const decisions = outcomes.flatMap(outcome => outcome.decision ? [outcome.decision] : []);
+    await notifySubmitters(decisions, input);
+    await notifyNextApprovers(decisions);
+
+    // Approved expenses start counting against their submitters' budgets
+    const approved = decisions.map(decision => decision.expense).filter(expense => expense.status === 'APPROVED');
+    if (approved.length > 0) {
+      await sendBudgetAlerts(await refreshBudgetsForExpenses(approved));
+    }
+
+    const updated = await toExpenses(decisions.map(decision => decision.expense));
+    const updatedById = new Map(updated.map(expense => [expense.id, expense]));
+    return outcomes.map(outcome => ({
+      expense_id: outcome.expense_id,
+      success: outcome.decision !== null,
+      expense: updatedById.get(outcome.expense_id) ?? null,
+      error: outcome.error
+    }));
+  } catch (error) {
+    console.error('Bulk expense approval failed:', error);
+    throw error;
+  }
+}
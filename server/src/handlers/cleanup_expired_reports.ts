@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { reportsTable } from '../db/schema';
+import { and, eq, isNotNull, lte } from 'drizzle-orm';
+import { getStorage } from '../helpers/storage';
+
+// Scheduled job: deletes expired reports together with their rendered files.
+// A report is only removed once its file is gone, so a storage failure leaves
+// it for the next run.
+export async function cleanupExpiredReports(now: Date = new Date()): Promise<{ reports_deleted: number }> {
+  try {
+    const expired = await db.select({ id: reportsTable.id, storage_key: reportsTable.storage_key })
+      .from(reportsTable)
+      .where(and(
+        isNotNull(reportsTable.expires_at),
+        lte(reportsTable.expires_at, now)
+      ))
+      .execute();
+
+    for (const report of expired) {
+      if (report.storage_key) {
+        await getStorage().delete(report.storage_key);
+      }
+
+      await db.delete(reportsTable)
+        .where(eq(reportsTable.id, report.id))
+        .execute();
+    }
+
+    return { reports_deleted: expired.length };
+  } catch (error) {
+    console.error('Expired report cleanup failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ConfirmPasswordResetInput } from '../schema';
+import { and, eq, gt, sql } from 'drizzle-orm';
+import { hashOneTimeToken } from '../helpers/one_time_token';
+import { hashPassword } from '../helpers/password';
+
+export async function confirmPasswordReset(input: ConfirmPasswordResetInput): Promise<{ success: boolean; message: string }> {
+  try {
+    const passwordHash = await hashPassword(input.new_password);
+
+    // Consume the token in a single statement so it can only ever be used once.
+    // Bumping session_version revokes every token issued before the reset.
+    const result = await db.update(usersTable)
+      .set({
+        password_hash: passwordHash,
+        password_reset_token: null,
+        password_reset_expires: null,
+        session_version: sql`${usersTable.session_version} + 1`,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(usersTable.password_reset_token, hashOneTimeToken(input.token)),
+        gt(usersTable.password_reset_expires, new Date()),
+        eq(usersTable.is_active, true)
+      ))
+      .returning({ id: usersTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Invalid or expired password reset token');
+    }
+
+    return {
+      success: true,
+      message: 'Password has been reset successfully'
+    };
+  } catch (error) {
+    console.error('Password reset confirmation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { approvalDelegationsTable, teamsTable, usersTable } from '../db/schema';
+import { type ApprovalDelegation, type CreateApprovalDelegationInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { toCalendarDate } from '../helpers/dates';
+
+// From the start date through the end date the delegate also decides the
+// approval steps named for the delegator, of one team or of every team
+export async function createApprovalDelegation(input: CreateApprovalDelegationInput): Promise<ApprovalDelegation> {
+  try {
+    if (input.delegate_id === input.delegator_id) {
+      throw new Error('You cannot delegate approvals to yourself');
+    }
+
+    const startDate = toCalendarDate(input.start_date);
+    const endDate = toCalendarDate(input.end_date);
+    if (endDate < startDate) {
+      throw new Error('The delegation cannot end before it starts');
+    }
+
+    const delegates = await db.select({ role: usersTable.role, is_active: usersTable.is_active })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.delegate_id))
+      .execute();
+
+    if (delegates.length === 0) {
+      throw new Error(`User with ID ${input.delegate_id} not found`);
+    }
+
+    if (delegates[0].role === 'USER' || !delegates[0].is_active) {
+      throw new Error(`User with ID ${input.delegate_id} cannot approve expenses`);
+    }
+
+    const teamId = input.team_id ?? null;
+    if (teamId !== null) {
+      const teams = await db.select({ id: teamsTable.id })
+        .from(teamsTable)
+        .where(eq(teamsTable.id, teamId))
+        .execute();
+
+      if (teams.length === 0) {
+        throw new Error('Team not found');
+      }
+    }
+
+    const result = await db.insert(approvalDelegationsTable)
+      .values({
+        delegator_id: input.delegator_id,
+        delegate_id: input.delegate_id,
+        team_id: teamId,
+        start_date: startDate,
+        end_date: endDate
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Approval delegation creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { approvalPoliciesTable, approvalPolicyStepsTable, teamsTable } from '../db/schema';
+import { type CreateApprovalPolicyInput, type ApprovalPolicy } from '../schema';
+import { eq, isNull } from 'drizzle-orm';
+import { toApprovalPolicy, validateApprovalSteps } from '../helpers/approvals';
+import { DEFAULT_CURRENCY } from '../helpers/currency';
+
+export async function createApprovalPolicy(input: CreateApprovalPolicyInput): Promise<ApprovalPolicy> {
+  try {
+    const teamId = input.team_id ?? null;
+    if (teamId !== null) {
+      const teams = await db.select({ id: teamsTable.id })
+        .from(teamsTable)
+        .where(eq(teamsTable.id, teamId))
+        .execute();
+
+      if (teams.length === 0) {
+        throw new Error('Team not found');
+      }
+    }
+
+    const existing = await db.select({ id: approvalPoliciesTable.id })
+      .from(approvalPoliciesTable)
+      .where(teamId === null ? isNull(approvalPoliciesTable.team_id) : eq(approvalPoliciesTable.team_id, teamId))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(teamId === null ? 'A company-wide approval policy already exists' : 'This team already has an approval policy');
+    }
+
+    await validateApprovalSteps(input.steps);
+
+    // Chains already started keep their steps; the policy applies to expenses
+    // whose chain is built from now on
+    return await db.transaction(async (tx) => {
+      const [policy] = await tx.insert(approvalPoliciesTable)
+        .values({
+          name: input.name,
+          team_id: teamId,
+          currency: input.currency ?? DEFAULT_CURRENCY
+        })
+        .returning()
+        .execute();
+
+      const steps = await tx.insert(approvalPolicyStepsTable)
+        .values(input.steps.map((step, index) => ({
+          policy_id: policy.id,
+          position: index + 1,
+          name: step.name,
+          approver_type: step.approver_type,
+          approver_id: step.approver_id ?? null,
+          threshold: step.threshold.toString()
+        })))
+        .returning()
+        .execute();
+
+      return toApprovalPolicy(policy, steps);
+    });
+  } catch (error) {
+    console.error('Approval policy creation failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,10 @@
 import { db } from '../db';
-import { budgetsTable, usersTable, expensesTable } from '../db/schema';
+import { budgetsTable, teamsTable, usersTable } from '../db/schema';
 import { type CreateBudgetInput, type Budget } from '../schema';
-import { eq, and, gte, lt, sum } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
+import { refreshBudget } from '../helpers/budget_periods';
+import { requireActiveCategory } from '../helpers/categories';
+import { requireConvertibleBudgetCurrency } from '../helpers/budget_spending';
 
 export const createBudget = async (input: CreateBudgetInput): Promise<Budget> => {
   try {
@@ -15,12 +18,32 @@ export const createBudget = async (input: CreateBudgetInput): Promise<Budget> =>
       throw new Error('User not found');
     }
 
-    // Check for existing budget for this user and category
+    const teamId = input.scope === 'TEAM' ? input.team_id ?? null : null;
+    if (input.scope === 'TEAM') {
+      if (teamId === null) {
+        throw new Error('Team budgets require a team');
+      }
+
+      const team = await db.select({ id: teamsTable.id })
+        .from(teamsTable)
+        .where(eq(teamsTable.id, teamId))
+        .execute();
+
+      if (team.length === 0) {
+        throw new Error('Team not found');
+      }
+    }
+
+    await requireActiveCategory(input.category_id);
+
+    // One budget per category for the user, the team or the company
     const existingBudget = await db.select()
       .from(budgetsTable)
       .where(and(
-        eq(budgetsTable.user_id, input.user_id),
-        eq(budgetsTable.category, input.category)
+        eq(budgetsTable.scope, input.scope),
+        eq(budgetsTable.category_id, input.category_id),
+        input.scope === 'USER' ? eq(budgetsTable.user_id, input.user_id) : undefined,
+        teamId !== null ? eq(budgetsTable.team_id, teamId) : undefined
       ))
       .execute();
 
@@ -28,43 +51,35 @@ export const createBudget = async (input: CreateBudgetInput): Promise<Budget> =>
       throw new Error('Budget already exists for this category');
     }
 
-    // Calculate current spent amount for this month in the category
-    const currentDate = new Date();
-    const monthStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-    const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0, 23, 59, 59, 999);
+    const currency = input.currency || user[0].home_currency;
+    await requireConvertibleBudgetCurrency({ scope: input.scope, user_id: input.user_id, team_id: teamId, category_id: input.category_id, currency });
 
-    const currentSpentResult = await db.select({
-      total: sum(expensesTable.amount)
-    })
-      .from(expensesTable)
-      .where(and(
-        eq(expensesTable.user_id, input.user_id),
-        eq(expensesTable.category, input.category),
-        gte(expensesTable.expense_date, monthStart),
-        lt(expensesTable.expense_date, monthEnd)
-      ))
-      .execute();
+    // Insert the budget and open its first period, counting what was already
+    // spent this month, together so a failure leaves no budget behind
+    const { budget, currentPeriod } = await db.transaction(async (tx) => {
+      const result = await tx.insert(budgetsTable)
+        .values({
+          user_id: input.user_id,
+          scope: input.scope,
+          team_id: teamId,
+          category_id: input.category_id,
+          monthly_limit: input.monthly_limit.toString(),
+          currency,
+          current_spent: '0',
+          alert_threshold: input.alert_threshold,
+          carry_over: input.carry_over
+        })
+        .returning()
+        .execute();
 
-    const currentSpent = currentSpentResult[0]?.total ? parseFloat(currentSpentResult[0].total) : 0;
-
-    // Insert new budget record
-    const result = await db.insert(budgetsTable)
-      .values({
-        user_id: input.user_id,
-        category: input.category,
-        monthly_limit: input.monthly_limit.toString(),
-        current_spent: currentSpent.toString(),
-        alert_threshold: input.alert_threshold
-      })
-      .returning()
-      .execute();
+      return { budget: result[0], currentPeriod: await refreshBudget(result[0].id, new Date(), tx) };
+    });
 
     // Convert numeric fields back to numbers
-    const budget = result[0];
     return {
       ...budget,
       monthly_limit: parseFloat(budget.monthly_limit),
-      current_spent: parseFloat(budget.current_spent)
+      current_spent: parseFloat(currentPeriod.spent)
     };
   } catch (error) {
     console.error('Budget creation failed:', error);
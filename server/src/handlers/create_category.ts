@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { type CreateCategoryInput, type Category } from '../schema';
+import { loadCategory, requireUniqueCategoryName } from '../helpers/categories';
+
+export async function createCategory(input: CreateCategoryInput): Promise<Category> {
+  try {
+    const parentId = input.parent_id ?? null;
+    if (parentId !== null) {
+      const parent = await loadCategory(parentId);
+      if (parent.archived_at !== null) {
+        throw new Error('Parent category is archived');
+      }
+    }
+
+    await requireUniqueCategoryName(input.name, parentId);
+
+    const result = await db.insert(categoriesTable)
+      .values({
+        name: input.name,
+        parent_id: parentId,
+        icon: input.icon ?? null,
+        color: input.color ?? null,
+        created_by: input.created_by
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category creation failed:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,21 @@
 import { db } from '../db';
-import { expensesTable, usersTable, teamsTable, budgetsTable } from '../db/schema';
+import { expensesTable, usersTable, recurringSeriesTable } from '../db/schema';
 import { type CreateExpenseInput, type Expense } from '../schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { getAppSettings } from '../helpers/app_settings';
+import { findReceiptForExpense, receiptFileUrl, requireExternalReceiptUrl } from '../helpers/receipts';
+import { nextOccurrence, type RecurrenceSchedule } from '../helpers/recurrence';
+import { toCalendarDate } from '../helpers/dates';
+import { requireActiveCategory } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
+import { requireConvertibleCurrency, requireTeamSubmitter, toExpense } from '../helpers/expenses';
+
+const SERIES_FREQUENCIES = ['WEEKLY', 'MONTHLY', 'YEARLY'] as const;
 
 export const createExpense = async (input: CreateExpenseInput): Promise<Expense> => {
   try {
     // Validate user exists
-    const userExists = await db.select({ id: usersTable.id })
+    const userExists = await db.select({ id: usersTable.id, email_verified: usersTable.email_verified, home_currency: usersTable.home_currency })
       .from(usersTable)
       .where(eq(usersTable.id, input.user_id))
       .execute();
@@ -15,16 +24,58 @@ export const createExpense = async (input: CreateExpenseInput): Promise<Expense>
       throw new Error(`User with id ${input.user_id} not found`);
     }
 
-    // Validate team exists if team_id is provided
+    // Admins may require a verified email address before expenses can be submitted
+    if (!userExists[0].email_verified) {
+      const settings = await getAppSettings();
+      if (!settings.allow_unverified_expenses) {
+        throw new Error('Email address must be verified before submitting expenses');
+      }
+    }
+
+    // Validate the user may file expenses under the team if team_id is provided
     if (input.team_id) {
-      const teamExists = await db.select({ id: teamsTable.id })
-        .from(teamsTable)
-        .where(eq(teamsTable.id, input.team_id))
-        .execute();
+      await requireTeamSubmitter(input.team_id, input.user_id);
+    }
 
-      if (teamExists.length === 0) {
-        throw new Error(`Team with id ${input.team_id} not found`);
-      }
+    await requireActiveCategory(input.category_id);
+
+    // An uploaded receipt takes precedence over a free-form receipt URL
+    let receiptUrl = input.receipt_url || null;
+    if (input.receipt_id) {
+      const receipt = await findReceiptForExpense(input.receipt_id, input.user_id);
+      receiptUrl = receiptFileUrl(receipt.id);
+    } else {
+      requireExternalReceiptUrl(receiptUrl);
+    }
+
+    const currency = input.currency || userExists[0].home_currency;
+    await requireConvertibleCurrency({ user_id: input.user_id, team_id: input.team_id || null, currency, expense_date: input.expense_date });
+
+    // A recurring expense starts a series with this expense as its first
+    // occurrence; later occurrences are created by the recurring expense job
+    let seriesId: number | null = null;
+    let recurrenceDate: string | null = null;
+    const frequency = SERIES_FREQUENCIES.find(value => value === input.recurring_frequency?.trim().toUpperCase());
+    if (input.is_recurring && frequency) {
+      recurrenceDate = toCalendarDate(input.expense_date);
+      const schedule: RecurrenceSchedule = { frequency, interval: 1, rule: null, start_date: recurrenceDate, end_date: null };
+      const series = await db.insert(recurringSeriesTable)
+        .values({
+          user_id: input.user_id,
+          team_id: input.team_id || null,
+          title: input.title,
+          description: input.description || null,
+          amount: input.amount.toString(),
+          currency,
+          category_id: input.category_id,
+          ...schedule,
+          occurrence_count: 1,
+          last_occurrence_date: recurrenceDate,
+          next_occurrence_date: nextOccurrence(schedule, recurrenceDate)
+        })
+        .returning({ id: recurringSeriesTable.id })
+        .execute();
+      seriesId = series[0].id;
     }
 
     // Insert expense record
@@ -34,41 +85,26 @@ export const createExpense = async (input: CreateExpenseInput): Promise<Expense>
         team_id: input.team_id || null,
         title: input.title,
         description: input.description || null,
+        merchant: input.merchant || null,
         amount: input.amount.toString(), // Convert number to string for numeric column
-        category: input.category,
-        receipt_url: input.receipt_url || null,
+        currency,
+        category_id: input.category_id,
+        receipt_url: receiptUrl,
+        receipt_id: input.receipt_id || null,
         status: 'PENDING',
         expense_date: input.expense_date,
         is_recurring: input.is_recurring || false,
         recurring_frequency: input.recurring_frequency || null,
-        tags: input.tags ? JSON.stringify(input.tags) : null,
+        recurring_series_id: seriesId,
+        recurrence_date: recurrenceDate,
       })
       .returning()
       .execute();
 
-    // Update budget current_spent if budget exists for this category
-    if (result[0]) {
-      await db.update(budgetsTable)
-        .set({
-          current_spent: sql`current_spent + ${input.amount.toString()}`,
-          updated_at: new Date()
-        })
-        .where(
-          and(
-            eq(budgetsTable.user_id, input.user_id),
-            eq(budgetsTable.category, input.category),
-            eq(budgetsTable.is_active, true)
-          )
-        )
-        .execute();
-    }
-
     // Convert numeric fields back to numbers before returning
+    // Attaching the tags also builds the search document
     const expense = result[0];
-    return {
-      ...expense,
-      amount: parseFloat(expense.amount) // Convert string back to number
-    };
+    return toExpense(expense, await setExpenseTags(expense.id, input.user_id, input.tags ?? []));
   } catch (error) {
     console.error('Expense creation failed:', error);
     throw error;
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { receiptsTable } from '../db/schema';
+import { type CreateExpenseFromReceiptInput, type ExpenseDraft } from '../schema';
+import { getStorage } from '../helpers/storage';
+import { receiptFileUrl } from '../helpers/receipts';
+import { getOcrEngine } from '../helpers/ocr';
+import { isProcessableImage } from '../helpers/image_processing';
+import { extractReceiptFields } from '../helpers/receipt_extraction';
+import { eq } from 'drizzle-orm';
+
+export async function createExpenseFromReceipt(input: CreateExpenseFromReceiptInput, userId: number): Promise<ExpenseDraft> {
+  try {
+    const receipts = await db.select()
+      .from(receiptsTable)
+      .where(eq(receiptsTable.id, input.receipt_id))
+      .execute();
+
+    if (receipts.length === 0) {
+      throw new Error('Receipt not found');
+    }
+
+    const receipt = receipts[0];
+
+    // OCR runs once per receipt; the text is cached on the receipt row
+    let text = receipt.ocr_text;
+    if (text === null) {
+      if (!isProcessableImage(receipt.content_type)) {
+        throw new Error('Text extraction is only supported for image receipts');
+      }
+
+      const image = await getStorage().get(receipt.storage_key);
+      if (!image) {
+        throw new Error('Receipt file is missing from storage');
+      }
+
+      text = await getOcrEngine().recognize(image);
+
+      await db.update(receiptsTable)
+        .set({ ocr_text: text, ocr_processed_at: new Date() })
+        .where(eq(receiptsTable.id, receipt.id))
+        .execute();
+    }
+
+    const extracted = extractReceiptFields(text);
+
+    const missing_fields: ExpenseDraft['missing_fields'] = [];
+    if (extracted.merchant === null) missing_fields.push('merchant');
+    if (extracted.total === null) missing_fields.push('total');
+    if (extracted.date === null) missing_fields.push('date');
+    if (extracted.currency === null) missing_fields.push('currency');
+
+    return {
+      draft: {
+        user_id: userId,
+        title: extracted.merchant ?? receipt.filename.slice(0, 200),
+        description: null,
+        merchant: extracted.merchant,
+        amount: extracted.total ?? 0, // Must be filled in by the user when missing
+        currency: extracted.currency ?? undefined, // createExpense falls back to the home currency
+        category_id: extracted.category_id,
+        receipt_url: receiptFileUrl(receipt.id),
+        receipt_id: receipt.id,
+        expense_date: extracted.date ?? receipt.created_at,
+        is_recurring: false
+      },
+      extracted,
+      missing_fields
+    };
+  } catch (error) {
+    console.error('Create expense from receipt failed:', error);
+    throw error;
+  }
+}
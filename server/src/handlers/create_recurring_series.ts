@@ -0,0 +1,84 @@
+import { db } from '../db';
+import { recurringSeriesTable, usersTable } from '../db/schema';
+import { type CreateRecurringSeriesInput, type RecurringSeries } from '../schema';
+import { eq } from 'drizzle-orm';
+import { nextOccurrence, validateSchedule, type RecurrenceSchedule } from '../helpers/recurrence';
+import { generateSeriesOccurrences, toRecurringSeries } from '../helpers/recurring_series';
+import { toCalendarDate } from '../helpers/dates';
+import { requireActiveCategory } from '../helpers/categories';
+import { getAppSettings } from '../helpers/app_settings';
+import { requireConvertibleCurrency, requireTeamSubmitter } from '../helpers/expenses';
+
+export async function createRecurringSeries(input: CreateRecurringSeriesInput): Promise<RecurringSeries> {
+  try {
+    const users = await db.select({ id: usersTable.id, email_verified: usersTable.email_verified, home_currency: usersTable.home_currency })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    // A series submits expenses like createExpense does, so the same verification applies
+    if (!users[0].email_verified) {
+      const settings = await getAppSettings();
+      if (!settings.allow_unverified_expenses) {
+        throw new Error('Email address must be verified before submitting expenses');
+      }
+    }
+
+    if (input.team_id) {
+      await requireTeamSubmitter(input.team_id, input.user_id);
+    }
+
+    await requireActiveCategory(input.category_id);
+
+    const schedule: RecurrenceSchedule = {
+      frequency: input.frequency,
+      interval: input.interval,
+      rule: input.frequency === 'CUSTOM' ? input.rule ?? null : null,
+      start_date: toCalendarDate(input.start_date),
+      end_date: input.end_date ? toCalendarDate(input.end_date) : null
+    };
+    validateSchedule(schedule);
+
+    // Past occurrences are created right away, so how far back a series starts is limited
+    const now = new Date();
+    if (schedule.start_date < toCalendarDate(new Date(now.getFullYear() - 1, now.getMonth(), now.getDate()))) {
+      throw new Error('Recurring series cannot start more than a year ago');
+    }
+
+    const currency = input.currency || users[0].home_currency;
+    await requireConvertibleCurrency({ user_id: input.user_id, team_id: input.team_id || null, currency, expense_date: input.start_date });
+
+    const result = await db.insert(recurringSeriesTable)
+      .values({
+        user_id: input.user_id,
+        team_id: input.team_id || null,
+        title: input.title,
+        description: input.description || null,
+        amount: input.amount.toString(),
+        currency,
+        category_id: input.category_id,
+        ...schedule,
+        max_occurrences: input.max_occurrences ?? null,
+        next_occurrence_date: nextOccurrence(schedule, null)
+      })
+      .returning()
+      .execute();
+
+    // Occurrences up to today are created right away instead of waiting for the job
+    await generateSeriesOccurrences(result[0].id, toCalendarDate(now));
+
+    const created = await db.select()
+      .from(recurringSeriesTable)
+      .where(eq(recurringSeriesTable.id, result[0].id))
+      .execute();
+
+    return toRecurringSeries(created[0]);
+  } catch (error) {
+    console.error('Recurring series creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { approvalDelegationsTable } from '../db/schema';
+import { type DeleteApprovalDelegationInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Ends a delegation early; steps the delegate already decided keep their history
+export async function deleteApprovalDelegation(input: DeleteApprovalDelegationInput): Promise<{ success: boolean }> {
+  try {
+    const deleted = await db.delete(approvalDelegationsTable)
+      .where(and(
+        eq(approvalDelegationsTable.id, input.id),
+        eq(approvalDelegationsTable.delegator_id, input.delegator_id)
+      ))
+      .returning({ id: approvalDelegationsTable.id })
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error('Approval delegation not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Approval delegation deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { approvalPoliciesTable } from '../db/schema';
+import { type DeleteApprovalPolicyInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadApprovalPolicy } from '../helpers/approvals';
+
+// Expenses of the team fall back to the company-wide policy, or to the team
+// manager alone; chains already built are left as they are
+export async function deleteApprovalPolicy(input: DeleteApprovalPolicyInput): Promise<{ success: boolean }> {
+  try {
+    await loadApprovalPolicy(input.id);
+
+    await db.delete(approvalPoliciesTable)
+      .where(eq(approvalPoliciesTable.id, input.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Approval policy deletion failed:', error);
+    throw error;
+  }
+}
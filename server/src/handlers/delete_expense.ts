@@ -1,6 +1,8 @@
 import { db } from '../db';
-import { expensesTable, budgetsTable } from '../db/schema';
+import { expensesTable } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
+import { refreshBudgetsForExpenses } from '../helpers/budget_periods';
+import { sendBudgetAlerts } from './send_budget_alerts';
 
 export async function deleteExpense(expenseId: number, userId: number): Promise<{ success: boolean; message: string }> {
   try {
@@ -22,7 +24,6 @@ export async function deleteExpense(expenseId: number, userId: number): Promise<
     }
 
     const expenseToDelete = expense[0];
-    const expenseAmount = parseFloat(expenseToDelete.amount);
 
     // Delete the expense
     const deleteResult = await db.delete(expensesTable)
@@ -39,31 +40,9 @@ export async function deleteExpense(expenseId: number, userId: number): Promise<
       };
     }
 
-    // Update budget calculations - subtract the deleted expense amount from current_spent
-    // Only update if the expense was approved (contributed to budget spending)
+    // Only approved expenses counted against the budget; alerts re-arm if spending drops below
     if (expenseToDelete.status === 'APPROVED') {
-      const budget = await db.select()
-        .from(budgetsTable)
-        .where(and(
-          eq(budgetsTable.user_id, userId),
-          eq(budgetsTable.category, expenseToDelete.category),
-          eq(budgetsTable.is_active, true)
-        ))
-        .limit(1)
-        .execute();
-
-      if (budget.length > 0) {
-        const currentBudget = budget[0];
-        const newCurrentSpent = Math.max(0, parseFloat(currentBudget.current_spent) - expenseAmount);
-
-        await db.update(budgetsTable)
-          .set({
-            current_spent: newCurrentSpent.toString(),
-            updated_at: new Date()
-          })
-          .where(eq(budgetsTable.id, currentBudget.id))
-          .execute();
-      }
+      await sendBudgetAlerts(await refreshBudgetsForExpenses([expenseToDelete]));
     }
 
     return {
@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { expenseApprovalsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { loadWaitingExpenses, waitingSince } from '../helpers/approvals';
+import { loadApprovalSlas, waitedLonger } from '../helpers/approval_slas';
+import { createNotification } from './create_notification';
+
+// Scheduled job: expenses waiting on their current step longer than the
+// escalation days of their team have the step handed to the approver of the
+// next step, or to the admins when no one else is named. Each step is
+// escalated once, and steps already left to the admins stay with them.
+export async function escalateStaleApprovals(now: Date = new Date()): Promise<{ approvals_escalated: number }> {
+  try {
+    const slaOf = await loadApprovalSlas();
+
+    let escalated = 0;
+    for (const { expense, chain, step } of await loadWaitingExpenses()) {
+      const days = slaOf(expense.team_id).escalation_days;
+      if (
+        step.approver_id === null
+        || step.escalated_at !== null
+        || !waitedLonger(waitingSince(expense, chain), now, days)
+      ) {
+        continue;
+      }
+
+      const next = chain[chain.indexOf(step) + 1]?.approver_id ?? null;
+      const approverId = next !== step.approver_id ? next : null;
+
+      const updated = await db.update(expenseApprovalsTable)
+        .set({ approver_id: approverId, escalated_from: step.approver_id, escalated_at: now })
+        .where(and(
+          eq(expenseApprovalsTable.id, step.id),
+          eq(expenseApprovalsTable.status, 'PENDING'),
+          isNull(expenseApprovalsTable.escalated_at)
+        ))
+        .returning()
+        .execute();
+
+      // Decided in the meantime
+      if (updated.length === 0) {
+        continue;
+      }
+      escalated++;
+
+      await createNotification({
+        user_id: step.approver_id,
+        type: 'EXPENSE_REMINDER',
+        title: 'Expense escalated',
+        message: `"${expense.title}" waited for your approval for more than ${days} ${days === 1 ? 'day' : 'days'} and was handed to ${approverId === null ? 'the admins' : 'the next approver'}.`,
+        related_expense_id: expense.id
+      });
+
+      if (approverId !== null) {
+        await createNotification({
+          user_id: approverId,
+          type: 'EXPENSE_APPROVAL',
+          title: 'Expense escalated to you',
+          message: `"${expense.title}" waited for approval for more than ${days} ${days === 1 ? 'day' : 'days'} and needs your decision on "${step.name}".`,
+          related_expense_id: expense.id
+        });
+      }
+    }
+
+    return { approvals_escalated: escalated };
+  } catch (error) {
+    console.error('Escalating stale approvals failed:', error);
+    throw error;
+  }
+}
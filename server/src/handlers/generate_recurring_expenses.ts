@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { recurringSeriesTable } from '../db/schema';
+import { and, asc, eq, isNotNull, lte } from 'drizzle-orm';
+import { generateSeriesOccurrences } from '../helpers/recurring_series';
+import { toCalendarDate } from '../helpers/dates';
+
+// Scheduler job: materializes every due occurrence of active recurring series.
+// Safe to run repeatedly or from several processes at once.
+export async function generateRecurringExpenses(now: Date = new Date()): Promise<{ series_processed: number; expenses_created: number }> {
+  try {
+    const today = toCalendarDate(now);
+
+    const dueSeries = await db.select({ id: recurringSeriesTable.id })
+      .from(recurringSeriesTable)
+      .where(and(
+        eq(recurringSeriesTable.is_paused, false),
+        isNotNull(recurringSeriesTable.next_occurrence_date),
+        lte(recurringSeriesTable.next_occurrence_date, today)
+      ))
+      .orderBy(asc(recurringSeriesTable.id))
+      .execute();
+
+    let expensesCreated = 0;
+    for (const series of dueSeries) {
+      expensesCreated += await generateSeriesOccurrences(series.id, today);
+    }
+
+    return {
+      series_processed: dueSeries.length,
+      expenses_created: expensesCreated
+    };
+  } catch (error) {
+    console.error('Recurring expense generation failed:', error);
+    throw error;
+  }
+}
@@ -2,6 +2,11 @@ import { db } from '../db';
 import { reportsTable, expensesTable, usersTable, teamsTable, teamMembersTable } from '../db/schema';
 import { type GenerateReportInput, type Report } from '../schema';
 import { and, eq, gte, lte, inArray, or, SQL } from 'drizzle-orm';
+import { getStorage, apiFileUrl } from '../helpers/storage';
+import { renderReport, REPORT_FILE_TYPES, type ReportDocument } from '../helpers/report_rendering';
+import { loadCurrencyConverter, roundAmount } from '../helpers/currency';
+import { inCategoryTree, loadCategoryTree } from '../helpers/categories';
+import * as crypto from 'crypto';
 
 export const generateReport = async (input: GenerateReportInput): Promise<Report> => {
   try {
@@ -28,9 +33,9 @@ export const generateReport = async (input: GenerateReportInput): Promise<Report
     conditions.push(gte(expensesTable.expense_date, input.date_from));
     conditions.push(lte(expensesTable.expense_date, input.date_to));
 
-    // Filter by categories if provided
-    if (input.categories && input.categories.length > 0) {
-      conditions.push(inArray(expensesTable.category, input.categories));
+    // Filter by categories (and their subcategories) if provided
+    if (input.category_ids && input.category_ids.length > 0) {
+      conditions.push(inCategoryTree(expensesTable.category_id, input.category_ids));
     }
 
     if (input.include_team_expenses) {
@@ -59,41 +64,51 @@ export const generateReport = async (input: GenerateReportInput): Promise<Report
     const expenseResults = await finalQuery.execute();
 
     // Process results - handle different result structures
-    let expenses;
+    let rows;
     if (input.include_team_expenses) {
-      // Results have joined structure
-      expenses = expenseResults.map(result => ({
-        ...(result as any).expenses,
-        amount: parseFloat((result as any).expenses.amount)
-      }));
+      // Results have joined structure, one row per team member, so keep each expense once
+      const seen = new Set<number>();
+      rows = expenseResults
+        .map(result => (result as any).expenses)
+        .filter(expense => !seen.has(expense.id) && seen.add(expense.id));
     } else {
       // Results are direct expense records
-      expenses = expenseResults.map(result => ({
-        ...(result as any),
-        amount: parseFloat((result as any).amount)
-      }));
+      rows = expenseResults.map(result => result as any);
     }
 
+    // Totals are in the requesting user's home currency, converted at each expense date
+    const currency = users[0].home_currency;
+    const converter = await loadCurrencyConverter([currency, ...rows.map(expense => expense.currency as string)]);
+    const expenses = rows.map(expense => ({
+      ...expense,
+      original_amount: parseFloat(expense.amount),
+      amount: converter.convert(parseFloat(expense.amount), expense.currency, currency, expense.expense_date)
+    }));
+
     // Aggregate data for report
     const totalExpenses = expenses.length;
-    const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const totalAmount = roundAmount(expenses.reduce((sum, expense) => sum + expense.amount, 0));
 
-    const categoryBreakdown = expenses.reduce((acc, expense) => {
-      const category = expense.category;
+    // Keyed by category id
+    const categories = await loadCategoryTree();
+    const categoryName = (categoryId: number): string => categories.byId.get(categoryId)?.name ?? '';
+    const categoryBreakdown: Record<number, { name: string; count: number; amount: number }> = expenses.reduce((acc, expense) => {
+      const category = expense.category_id;
       if (!acc[category]) {
-        acc[category] = { count: 0, amount: 0 };
+        acc[category] = { name: categoryName(category), count: 0, amount: 0 };
       }
       acc[category].count++;
-      acc[category].amount += expense.amount;
+      acc[category].amount = roundAmount(acc[category].amount + expense.amount);
       return acc;
-    }, {} as Record<string, { count: number; amount: number }>);
+    }, {} as Record<number, { name: string; count: number; amount: number }>);
 
     // Create filter metadata for storage
     const filterMetadata = {
       date_from: input.date_from.toISOString(),
       date_to: input.date_to.toISOString(),
-      categories: input.categories || [],
+      category_ids: input.category_ids || [],
       include_team_expenses: input.include_team_expenses || false,
+      currency,
       total_expenses: totalExpenses,
       total_amount: totalAmount,
       category_breakdown: categoryBreakdown
@@ -115,8 +130,87 @@ export const generateReport = async (input: GenerateReportInput): Promise<Report
         expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
     }
 
-    // Generate file URL (placeholder for actual file generation)
-    const fileUrl = `/reports/${input.user_id}_${Date.now()}_${input.type.toLowerCase()}.pdf`;
+    // Team reports itemize the requester's own expenses, and those of the teams
+    // they manage or of everyone for admins. Other teammates' expenses only
+    // count towards the totals, one line per category.
+    const itemizesAll = !input.include_team_expenses || users[0].role === 'ADMIN';
+    const managedTeams = itemizesAll ? [] : await db.select({ id: teamsTable.id })
+      .from(teamsTable)
+      .where(eq(teamsTable.manager_id, input.user_id))
+      .execute();
+    const managedTeamIds = new Set(managedTeams.map(team => team.id));
+    const itemized = expenses.filter(expense =>
+      itemizesAll || expense.user_id === input.user_id || managedTeamIds.has(expense.team_id));
+    const counted = expenses.filter(expense => !itemized.includes(expense));
+
+    // Team reports show who submitted each itemized expense
+    const submitterNames = new Map<number, string>();
+    if (input.include_team_expenses) {
+      const submitterIds = [...new Set(itemized.map(expense => expense.user_id as number))];
+      if (submitterIds.length > 0) {
+        const submitters = await db.select({ id: usersTable.id, first_name: usersTable.first_name, last_name: usersTable.last_name })
+          .from(usersTable)
+          .where(inArray(usersTable.id, submitterIds))
+          .execute();
+        submitters.forEach(user => submitterNames.set(user.id, `${user.first_name} ${user.last_name}`));
+      }
+    }
+
+    const countedByCategory = new Map<number, { date: Date; count: number; amount: number }>();
+    for (const expense of counted) {
+      const line = countedByCategory.get(expense.category_id) ?? { date: expense.expense_date, count: 0, amount: 0 };
+      countedByCategory.set(expense.category_id, {
+        date: expense.expense_date > line.date ? expense.expense_date : line.date,
+        count: line.count + 1,
+        amount: roundAmount(line.amount + expense.amount)
+      });
+    }
+
+    const generatedAt = new Date();
+    const document: ReportDocument = {
+      title: input.title,
+      type: input.type,
+      date_from: input.date_from,
+      date_to: input.date_to,
+      generated_at: generatedAt,
+      currency,
+      line_items: [
+        ...[...itemized]
+          .sort((a, b) => a.expense_date.getTime() - b.expense_date.getTime() || a.id - b.id)
+          .map(expense => ({
+            date: expense.expense_date,
+            title: expense.title,
+            category: categoryName(expense.category_id),
+            status: expense.status,
+            amount: expense.amount,
+            original_amount: expense.original_amount,
+            original_currency: expense.currency,
+            submitted_by: submitterNames.get(expense.user_id) ?? null
+          })),
+        ...[...countedByCategory].map(([categoryId, line]) => ({
+          date: line.date,
+          title: `Other team members (${line.count} ${line.count === 1 ? 'expense' : 'expenses'})`,
+          category: categoryName(categoryId),
+          status: '',
+          amount: line.amount,
+          original_amount: line.amount,
+          original_currency: currency,
+          submitted_by: null
+        }))
+      ],
+      expense_count: totalExpenses,
+      category_summary: Object.values(categoryBreakdown)
+        .map(({ name, ...summary }) => ({ category: name, ...summary }))
+        .sort((a, b) => b.amount - a.amount),
+      total_amount: totalAmount,
+      show_submitter: input.include_team_expenses || false
+    };
+
+    // Render and store the report file
+    const format = input.format || 'PDF';
+    const fileType = REPORT_FILE_TYPES[format];
+    const storageKey = `reports/${input.user_id}/report_${input.user_id}_${generatedAt.getTime()}_${crypto.randomBytes(8).toString('hex')}.${fileType.extension}`;
+    await getStorage().put(storageKey, await renderReport(document, format), fileType.contentType);
 
     // Insert report record
     const result = await db.insert(reportsTable)
@@ -125,13 +219,22 @@ export const generateReport = async (input: GenerateReportInput): Promise<Report
         type: input.type,
         title: input.title,
         filters: JSON.stringify(filterMetadata),
-        file_url: fileUrl,
+        format,
+        generated_at: generatedAt,
+        storage_key: storageKey,
         expires_at: expiresAt
       })
       .returning()
       .execute();
 
-    const report = result[0];
+    // Served by the authenticated download route, see file_routes.ts
+    const updated = await db.update(reportsTable)
+      .set({ file_url: apiFileUrl(`/reports/${result[0].id}/download`) })
+      .where(eq(reportsTable.id, result[0].id))
+      .returning()
+      .execute();
+
+    const report = updated[0];
     
     return {
       ...report,
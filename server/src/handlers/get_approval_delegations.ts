@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { approvalDelegationsTable } from '../db/schema';
+import { type ApprovalDelegation } from '../schema';
+import { asc, eq, or } from 'drizzle-orm';
+
+// Delegations the user gave and received, past ones included, by start date
+export async function getApprovalDelegations(userId: number): Promise<ApprovalDelegation[]> {
+  try {
+    return await db.select()
+      .from(approvalDelegationsTable)
+      .where(or(
+        eq(approvalDelegationsTable.delegator_id, userId),
+        eq(approvalDelegationsTable.delegate_id, userId)
+      ))
+      .orderBy(asc(approvalDelegationsTable.start_date), asc(approvalDelegationsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get approval delegations:', error);
+    throw error;
+  }
+}
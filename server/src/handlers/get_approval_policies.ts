@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { approvalPoliciesTable, approvalPolicyStepsTable, type ApprovalPolicyStep as ApprovalPolicyStepRow } from '../db/schema';
+import { type ApprovalPolicy } from '../schema';
+import { asc, sql } from 'drizzle-orm';
+import { toApprovalPolicy } from '../helpers/approvals';
+
+// The company-wide policy first, then team policies
+export async function getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+  try {
+    const policies = await db.select()
+      .from(approvalPoliciesTable)
+      .orderBy(sql`${approvalPoliciesTable.team_id} nulls first`, asc(approvalPoliciesTable.id))
+      .execute();
+
+    const steps = await db.select()
+      .from(approvalPolicyStepsTable)
+      .orderBy(asc(approvalPolicyStepsTable.position))
+      .execute();
+
+    const stepsByPolicy = new Map<number, ApprovalPolicyStepRow[]>();
+    for (const step of steps) {
+      stepsByPolicy.set(step.policy_id, [...(stepsByPolicy.get(step.policy_id) ?? []), step]);
+    }
+
+    return policies.map(policy => toApprovalPolicy(policy, stepsByPolicy.get(policy.id) ?? []));
+  } catch (error) {
+    console.error('Failed to get approval policies:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { budgetAlertOptOutsTable, categoriesTable } from '../db/schema';
+import { type BudgetAlertPreference } from '../schema';
+import { asc, eq, isNull } from 'drizzle-orm';
+
+// One entry per active category; alerts are enabled unless the user opted out
+export async function getBudgetAlertPreferences(userId: number): Promise<BudgetAlertPreference[]> {
+  try {
+    const categories = await db.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(isNull(categoriesTable.archived_at))
+      .orderBy(asc(categoriesTable.id))
+      .execute();
+
+    const optOuts = await db.select({ category_id: budgetAlertOptOutsTable.category_id })
+      .from(budgetAlertOptOutsTable)
+      .where(eq(budgetAlertOptOutsTable.user_id, userId))
+      .execute();
+
+    const muted = new Set(optOuts.map(optOut => optOut.category_id));
+    return categories.map(category => ({
+      category_id: category.id,
+      enabled: !muted.has(category.id)
+    }));
+  } catch (error) {
+    console.error('Failed to get budget alert preferences:', error);
+    throw error;
+  }
+}
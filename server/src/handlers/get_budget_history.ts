@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable } from '../db/schema';
+import { type GetBudgetHistoryInput, type BudgetPeriod } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { syncBudgetPeriods, toBudgetPeriod } from '../helpers/budget_periods';
+
+// Monthly periods of a budget, newest first, including the current month
+export async function getBudgetHistory(input: GetBudgetHistoryInput): Promise<BudgetPeriod[]> {
+  try {
+    const budgets = await db.select({ currency: budgetsTable.currency })
+      .from(budgetsTable)
+      .where(eq(budgetsTable.id, input.budget_id))
+      .execute();
+
+    if (budgets.length === 0) {
+      throw new Error('Budget not found');
+    }
+
+    await syncBudgetPeriods(input.budget_id);
+
+    const periods = await db.select()
+      .from(budgetPeriodsTable)
+      .where(eq(budgetPeriodsTable.budget_id, input.budget_id))
+      .orderBy(desc(budgetPeriodsTable.period_start))
+      .limit(input.limit)
+      .execute();
+
+    return periods.map(period => toBudgetPeriod(period, budgets[0].currency));
+  } catch (error) {
+    console.error('Failed to get budget history:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { type GetCategoriesInput, type Category } from '../schema';
+import { asc, isNull } from 'drizzle-orm';
+
+// Flat list; subcategories reference their parent through parent_id
+export async function getCategories(input: GetCategoriesInput): Promise<Category[]> {
+  try {
+    return await db.select()
+      .from(categoriesTable)
+      .where(input.include_archived ? undefined : isNull(categoriesTable.archived_at))
+      .orderBy(asc(categoriesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get categories:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { budgetsTable } from '../db/schema';
+import { type Budget } from '../schema';
+import { eq } from 'drizzle-orm';
+import { refreshBudget } from '../helpers/budget_periods';
+
+// Organization-wide budgets, with this month's spending
+export async function getCompanyBudgets(): Promise<Budget[]> {
+  try {
+    const budgets = await db.select()
+      .from(budgetsTable)
+      .where(eq(budgetsTable.scope, 'COMPANY'))
+      .execute();
+
+    return await Promise.all(budgets.map(async (budget) => {
+      const currentPeriod = await refreshBudget(budget.id);
+      return {
+        ...budget,
+        monthly_limit: parseFloat(budget.monthly_limit),
+        current_spent: parseFloat(currentPeriod.spent)
+      };
+    }));
+  } catch (error) {
+    console.error('Failed to get company budgets:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,11 @@
 import { db } from '../db';
-import { expensesTable, budgetsTable } from '../db/schema';
+import { expensesTable, budgetsTable, usersTable } from '../db/schema';
 import { type GetDashboardDataInput, type DashboardStats } from '../schema';
 import { eq, sql, and, gte, lte, desc } from 'drizzle-orm';
+import { loadCurrencyConverter, roundAmount } from '../helpers/currency';
+import { toCalendarDate } from '../helpers/dates';
+import { loadCategoryTree } from '../helpers/categories';
+import { toExpenses } from '../helpers/expenses';
 
 export async function getDashboardData(input: GetDashboardDataInput): Promise<DashboardStats> {
   try {
@@ -15,8 +19,19 @@ export async function getDashboardData(input: GetDashboardDataInput): Promise<Da
     // Calculate date ranges
     const monthStart = new Date(targetYear, targetMonth - 1, 1);
     const monthEnd = new Date(targetYear, targetMonth, 0, 23, 59, 59, 999);
-    const yearStart = new Date(targetYear, 0, 1);
-    const yearEnd = new Date(targetYear, 11, 31, 23, 59, 59, 999);
+    const trendsStart = new Date(targetYear - 1, targetMonth - 1, 1);
+
+    // Amounts are shown in the viewer's home currency
+    const users = await db.select({ home_currency: usersTable.home_currency })
+      .from(usersTable)
+      .where(eq(usersTable.id, user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${user_id} not found`);
+    }
+
+    const currency = users[0].home_currency;
 
     // 1. Get total expenses count for user
     const totalExpensesResult = await db
@@ -27,90 +42,95 @@ export async function getDashboardData(input: GetDashboardDataInput): Promise<Da
 
     const total_expenses = Number(totalExpensesResult[0]?.count || 0);
 
-    // 2. Get monthly spending
-    const monthlySpendingResult = await db
-      .select({ total: sql<string>`coalesce(sum(${expensesTable.amount}), 0)` })
+    // 2. Get expenses for the trend window (the last 12 months up to the target month)
+    const windowExpenses = await db
+      .select({
+        amount: expensesTable.amount,
+        currency: expensesTable.currency,
+        category_id: expensesTable.category_id,
+        expense_date: expensesTable.expense_date
+      })
       .from(expensesTable)
       .where(
         and(
           eq(expensesTable.user_id, user_id),
-          gte(expensesTable.expense_date, monthStart),
+          gte(expensesTable.expense_date, trendsStart),
           lte(expensesTable.expense_date, monthEnd)
         )
       )
       .execute();
 
-    const monthly_spending = parseFloat(monthlySpendingResult[0]?.total || '0');
-
-    // 3. Get user's budgets and calculate utilization
+    // 3. Get user's budgets
     const budgetsResult = await db
       .select()
       .from(budgetsTable)
       .where(
         and(
           eq(budgetsTable.user_id, user_id),
+          eq(budgetsTable.scope, 'USER'),
           eq(budgetsTable.is_active, true)
         )
       )
       .execute();
 
+    // Convert every amount on its expense date; budget limits at the end of the month
+    const converter = await loadCurrencyConverter([
+      currency,
+      ...windowExpenses.map(expense => expense.currency),
+      ...budgetsResult.map(budget => budget.currency)
+    ]);
+    const limitDate = monthEnd < currentDate ? monthEnd : currentDate;
+
+    const converted = windowExpenses.map(expense => ({
+      category_id: expense.category_id,
+      expense_date: expense.expense_date,
+      amount: converter.convert(parseFloat(expense.amount), expense.currency, currency, expense.expense_date)
+    }));
+    const monthExpenses = converted.filter(expense => expense.expense_date >= monthStart);
+
+    const monthly_spending = roundAmount(monthExpenses.reduce((sum, expense) => sum + expense.amount, 0));
+
     const budgets = budgetsResult.map(budget => ({
       ...budget,
-      monthly_limit: parseFloat(budget.monthly_limit),
+      monthly_limit: converter.convert(parseFloat(budget.monthly_limit), budget.currency, currency, limitDate),
       current_spent: parseFloat(budget.current_spent)
     }));
 
     const totalBudgetLimit = budgets.reduce((sum, budget) => sum + budget.monthly_limit, 0);
     const budget_utilization = totalBudgetLimit > 0 ? (monthly_spending / totalBudgetLimit) * 100 : 0;
 
-    // 4. Get category breakdown for the month
-    const categoryBreakdownResult = await db
-      .select({
-        category: expensesTable.category,
-        amount: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`,
-        count: sql<number>`count(*)`
-      })
-      .from(expensesTable)
-      .where(
-        and(
-          eq(expensesTable.user_id, user_id),
-          gte(expensesTable.expense_date, monthStart),
-          lte(expensesTable.expense_date, monthEnd)
-        )
-      )
-      .groupBy(expensesTable.category)
-      .execute();
-
-    const category_breakdown = categoryBreakdownResult.map(item => ({
-      category: item.category,
-      amount: parseFloat(item.amount),
-      count: Number(item.count)
+    // 4. Category breakdown for the month
+    const categories = await loadCategoryTree();
+    const categoryTotals = new Map<number, { amount: number; count: number }>();
+    monthExpenses.forEach(expense => {
+      const totals = categoryTotals.get(expense.category_id) ?? { amount: 0, count: 0 };
+      totals.amount += expense.amount;
+      totals.count++;
+      categoryTotals.set(expense.category_id, totals);
+    });
+
+    const category_breakdown = Array.from(categoryTotals.entries()).map(([categoryId, totals]) => ({
+      category_id: categoryId,
+      category_name: categories.byId.get(categoryId)?.name ?? '',
+      amount: roundAmount(totals.amount),
+      count: totals.count
     }));
 
-    // 5. Get spending trends for the last 12 months
-    const trendsResult = await db
-      .select({
-        month: sql<string>`to_char(${expensesTable.expense_date}, 'YYYY-MM')`,
-        amount: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`
-      })
-      .from(expensesTable)
-      .where(
-        and(
-          eq(expensesTable.user_id, user_id),
-          gte(expensesTable.expense_date, new Date(targetYear - 1, targetMonth - 1, 1)),
-          lte(expensesTable.expense_date, monthEnd)
-        )
-      )
-      .groupBy(sql`to_char(${expensesTable.expense_date}, 'YYYY-MM')`)
-      .orderBy(sql`to_char(${expensesTable.expense_date}, 'YYYY-MM')`)
-      .execute();
-
-    const spending_trends = trendsResult.map(item => ({
-      date: item.month,
-      amount: parseFloat(item.amount)
-    }));
-
-    // 6. Get recent expenses (last 5)
+    // 5. Spending trends for the last 12 months
+    const monthlyTotals = new Map<string, number>();
+    converted.forEach(expense => {
+      const month = toCalendarDate(expense.expense_date).substring(0, 7); // YYYY-MM
+      monthlyTotals.set(month, (monthlyTotals.get(month) ?? 0) + expense.amount);
+    });
+
+    const spending_trends = Array.from(monthlyTotals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, amount]) => ({
+        date: month,
+        amount: roundAmount(amount)
+      }));
+
+    // 6. Get recent expenses (last 5), in their original currency
     const recentExpensesResult = await db
       .select()
       .from(expensesTable)
@@ -119,30 +139,29 @@ export async function getDashboardData(input: GetDashboardDataInput): Promise<Da
       .limit(5)
       .execute();
 
-    const recent_expenses = recentExpensesResult.map(expense => ({
-      ...expense,
-      amount: parseFloat(expense.amount)
-    }));
+    const recent_expenses = await toExpenses(recentExpensesResult);
 
-    // 7. Generate budget alerts
+    // 7. Generate budget alerts; a budget covers its category's subcategories too
     const budget_alerts = budgets
       .map(budget => {
-        const categorySpendingResult = categoryBreakdownResult.find(
-          item => item.category === budget.category
-        );
-        const currentSpending = categorySpendingResult ? parseFloat(categorySpendingResult.amount) : 0;
+        const currentSpending = roundAmount(categories.withDescendants(budget.category_id)
+          .reduce((sum, categoryId) => sum + (categoryTotals.get(categoryId)?.amount ?? 0), 0));
         const percentage = budget.monthly_limit > 0 ? (currentSpending / budget.monthly_limit) * 100 : 0;
         
         return {
-          category: budget.category,
+          category_id: budget.category_id,
+          category_name: categories.byId.get(budget.category_id)?.name ?? '',
           current: currentSpending,
           limit: budget.monthly_limit,
-          percentage
+          percentage,
+          threshold: budget.alert_threshold
         };
       })
-      .filter(alert => alert.percentage >= 80); // Only show alerts for budgets over 80% utilization
+      .filter(alert => alert.percentage >= alert.threshold) // Only budgets past their own alert threshold
+      .map(({ threshold, ...alert }) => alert);
 
     return {
+      currency,
       total_expenses,
       monthly_spending,
       budget_utilization: Math.round(budget_utilization * 100) / 100, // Round to 2 decimal places
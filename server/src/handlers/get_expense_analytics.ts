@@ -1,6 +1,18 @@
 import { db } from '../db';
-import { expensesTable, budgetsTable } from '../db/schema';
-import { and, eq, gte, lte, desc, sql, type SQL } from 'drizzle-orm';
+import { expensesTable, budgetsTable, usersTable, expenseTagsTable, tagsTable } from '../db/schema';
+import { and, eq, gte, lte, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import { loadCurrencyConverter } from '../helpers/currency';
+import { loadCategoryTree } from '../helpers/categories';
+
+interface CategoryRef {
+    category_id: number;
+    category_name: string;
+}
+
+interface TagRef {
+    tag_id: number;
+    tag_name: string;
+}
 
 export async function getExpenseAnalytics(
     userId: number,
@@ -8,19 +20,33 @@ export async function getExpenseAnalytics(
     startDate?: Date,
     endDate?: Date
 ): Promise<{
-    spending_by_category: Array<{ category: string; amount: number; percentage: number }>;
+    currency: string; // viewer's home currency, every amount below is converted to it
+    spending_by_category: Array<CategoryRef & { amount: number; percentage: number }>;
+    // An expense counts for each of its tags, so percentages can add up to more than 100
+    spending_by_tag: Array<TagRef & { amount: number; count: number; percentage: number }>;
     spending_trends: Array<{ date: string; amount: number }>;
-    budget_performance: Array<{ category: string; budgeted: number; spent: number; remaining: number }>;
-    top_expenses: Array<{ title: string; amount: number; date: Date; category: string }>;
+    budget_performance: Array<CategoryRef & { budgeted: number; spent: number; remaining: number }>;
+    top_expenses: Array<CategoryRef & { title: string; amount: number; original_amount: number; original_currency: string; date: Date }>;
     predictions: {
         next_month_spending: number;
-        budget_alerts: Array<{ category: string; projected_overspend: number }>;
+        budget_alerts: Array<CategoryRef & { projected_overspend: number }>;
     };
 }> {
     try {
         // Calculate date range based on period
         const { dateFrom, dateTo } = calculateDateRange(period, startDate, endDate);
 
+        const users = await db.select({ home_currency: usersTable.home_currency })
+            .from(usersTable)
+            .where(eq(usersTable.id, userId))
+            .execute();
+
+        if (users.length === 0) {
+            throw new Error(`User with id ${userId} not found`);
+        }
+
+        const currency = users[0].home_currency;
+
         // Build expense query conditions
         const conditions: SQL<unknown>[] = [
             eq(expensesTable.user_id, userId),
@@ -35,36 +61,66 @@ export async function getExpenseAnalytics(
             .orderBy(desc(expensesTable.expense_date))
             .execute();
 
-        // Convert numeric fields
-        const processedExpenses = expenses.map(expense => ({
-            ...expense,
-            amount: parseFloat(expense.amount)
-        }));
+        // Tags of those expenses
+        const expenseTags = expenses.length === 0 ? [] : await db.select({
+            expense_id: expenseTagsTable.expense_id,
+            tag_id: tagsTable.id,
+            tag_name: tagsTable.name
+        })
+            .from(expenseTagsTable)
+            .innerJoin(tagsTable, eq(expenseTagsTable.tag_id, tagsTable.id))
+            .where(inArray(expenseTagsTable.expense_id, expenses.map(expense => expense.id)))
+            .execute();
 
         // Get user's budgets
         const budgets = await db.select()
             .from(budgetsTable)
             .where(and(
                 eq(budgetsTable.user_id, userId),
+                eq(budgetsTable.scope, 'USER'),
                 eq(budgetsTable.is_active, true)
             ))
             .execute();
 
+        // Convert numeric fields and amounts into the home currency; expenses at the
+        // rate of their expense date, budget limits at the end of the period
+        const converter = await loadCurrencyConverter([
+            currency,
+            ...expenses.map(expense => expense.currency),
+            ...budgets.map(budget => budget.currency)
+        ]);
+        const limitDate = dateTo < new Date() ? dateTo : new Date();
+        const categories = await loadCategoryTree();
+        const categoryName = (categoryId: number) => categories.byId.get(categoryId)?.name ?? '';
+
+        const processedExpenses = expenses.map(expense => ({
+            ...expense,
+            category_name: categoryName(expense.category_id),
+            original_amount: parseFloat(expense.amount),
+            amount: converter.convert(parseFloat(expense.amount), expense.currency, currency, expense.expense_date)
+        }));
+
+        // Budgets count the spending of their category's subcategories too
         const processedBudgets = budgets.map(budget => ({
             ...budget,
-            monthly_limit: parseFloat(budget.monthly_limit),
+            category_name: categoryName(budget.category_id),
+            category_ids: categories.withDescendants(budget.category_id),
+            monthly_limit: converter.convert(parseFloat(budget.monthly_limit), budget.currency, currency, limitDate),
             current_spent: parseFloat(budget.current_spent)
         }));
 
         // Calculate analytics
         const spendingByCategory = calculateSpendingByCategory(processedExpenses);
+        const spendingByTag = calculateSpendingByTag(processedExpenses, expenseTags);
         const spendingTrends = calculateSpendingTrends(processedExpenses, period);
         const budgetPerformance = calculateBudgetPerformance(processedExpenses, processedBudgets, period);
         const topExpenses = getTopExpenses(processedExpenses);
         const predictions = calculatePredictions(processedExpenses, processedBudgets);
 
         return {
+            currency,
             spending_by_category: spendingByCategory,
+            spending_by_tag: spendingByTag,
             spending_trends: spendingTrends,
             budget_performance: budgetPerformance,
             top_expenses: topExpenses,
@@ -102,20 +158,20 @@ function calculateDateRange(
     return { dateFrom, dateTo };
 }
 
-function calculateSpendingByCategory(expenses: Array<{ category: string; amount: number }>): Array<{ category: string; amount: number; percentage: number }> {
-    const categoryTotals = new Map<string, number>();
+function calculateSpendingByCategory(expenses: Array<CategoryRef & { amount: number }>): Array<CategoryRef & { amount: number; percentage: number }> {
+    const categoryTotals = new Map<number, CategoryRef & { amount: number }>();
     let totalSpending = 0;
 
     // Calculate totals per category
     expenses.forEach(expense => {
-        const current = categoryTotals.get(expense.category) || 0;
-        categoryTotals.set(expense.category, current + expense.amount);
+        const current = categoryTotals.get(expense.category_id)?.amount || 0;
+        categoryTotals.set(expense.category_id, { category_id: expense.category_id, category_name: expense.category_name, amount: current + expense.amount });
         totalSpending += expense.amount;
     });
 
     // Convert to array with percentages
-    const result = Array.from(categoryTotals.entries()).map(([category, amount]) => ({
-        category,
+    const result = Array.from(categoryTotals.values()).map(({ amount, ...category }) => ({
+        ...category,
         amount,
         percentage: totalSpending > 0 ? (amount / totalSpending) * 100 : 0
     }));
@@ -124,6 +180,28 @@ function calculateSpendingByCategory(expenses: Array<{ category: string; amount:
     return result.sort((a, b) => b.amount - a.amount);
 }
 
+function calculateSpendingByTag(
+    expenses: Array<{ id: number; amount: number }>,
+    expenseTags: Array<TagRef & { expense_id: number }>
+): Array<TagRef & { amount: number; count: number; percentage: number }> {
+    const amounts = new Map(expenses.map(expense => [expense.id, expense.amount]));
+    const totalSpending = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const tagTotals = new Map<number, TagRef & { amount: number; count: number }>();
+
+    // Calculate totals per tag
+    expenseTags.forEach(({ expense_id, tag_id, tag_name }) => {
+        const current = tagTotals.get(tag_id) ?? { tag_id, tag_name, amount: 0, count: 0 };
+        tagTotals.set(tag_id, { ...current, amount: current.amount + (amounts.get(expense_id) ?? 0), count: current.count + 1 });
+    });
+
+    return Array.from(tagTotals.values())
+        .map(tag => ({
+            ...tag,
+            percentage: totalSpending > 0 ? (tag.amount / totalSpending) * 100 : 0
+        }))
+        .sort((a, b) => b.amount - a.amount || a.tag_name.localeCompare(b.tag_name));
+}
+
 function calculateSpendingTrends(
     expenses: Array<{ expense_date: Date; amount: number }>,
     period: 'month' | 'year' | 'custom'
@@ -165,26 +243,27 @@ function aggregateByMonth(dailyTrends: Array<{ date: string; amount: number }>):
 }
 
 function calculateBudgetPerformance(
-    expenses: Array<{ category: string; amount: number }>,
-    budgets: Array<{ category: string; monthly_limit: number }>,
+    expenses: Array<{ category_id: number; amount: number }>,
+    budgets: Array<CategoryRef & { category_ids: number[]; monthly_limit: number }>,
     period: 'month' | 'year' | 'custom'
-): Array<{ category: string; budgeted: number; spent: number; remaining: number }> {
-    const categorySpending = new Map<string, number>();
+): Array<CategoryRef & { budgeted: number; spent: number; remaining: number }> {
+    const categorySpending = new Map<number, number>();
 
     // Calculate spending per category
     expenses.forEach(expense => {
-        const current = categorySpending.get(expense.category) || 0;
-        categorySpending.set(expense.category, current + expense.amount);
+        const current = categorySpending.get(expense.category_id) || 0;
+        categorySpending.set(expense.category_id, current + expense.amount);
     });
 
     // Calculate budget performance
     const performance = budgets.map(budget => {
-        const spent = categorySpending.get(budget.category) || 0;
+        const spent = budget.category_ids.reduce((sum, categoryId) => sum + (categorySpending.get(categoryId) || 0), 0);
         const budgeted = period === 'year' ? budget.monthly_limit * 12 : budget.monthly_limit;
         const remaining = budgeted - spent;
 
         return {
-            category: budget.category,
+            category_id: budget.category_id,
+            category_name: budget.category_name,
             budgeted,
             spent,
             remaining
@@ -194,22 +273,27 @@ function calculateBudgetPerformance(
     return performance.sort((a, b) => (b.spent / b.budgeted) - (a.spent / a.budgeted));
 }
 
-function getTopExpenses(expenses: Array<{ title: string; amount: number; expense_date: Date; category: string }>): Array<{ title: string; amount: number; date: Date; category: string }> {
+function getTopExpenses(
+    expenses: Array<CategoryRef & { title: string; amount: number; original_amount: number; currency: string; expense_date: Date }>
+): Array<CategoryRef & { title: string; amount: number; original_amount: number; original_currency: string; date: Date }> {
     return expenses
         .map(expense => ({
             title: expense.title,
             amount: expense.amount,
+            original_amount: expense.original_amount,
+            original_currency: expense.currency,
             date: expense.expense_date,
-            category: expense.category
+            category_id: expense.category_id,
+            category_name: expense.category_name
         }))
         .sort((a, b) => b.amount - a.amount)
         .slice(0, 10);
 }
 
 function calculatePredictions(
-    expenses: Array<{ expense_date: Date; amount: number; category: string }>,
-    budgets: Array<{ category: string; monthly_limit: number }>
-): { next_month_spending: number; budget_alerts: Array<{ category: string; projected_overspend: number }> } {
+    expenses: Array<{ expense_date: Date; amount: number; category_id: number }>,
+    budgets: Array<CategoryRef & { category_ids: number[]; monthly_limit: number }>
+): { next_month_spending: number; budget_alerts: Array<CategoryRef & { projected_overspend: number }> } {
     // Calculate average daily spending from recent data
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -228,21 +312,22 @@ function calculatePredictions(
     const next_month_spending = averageDailySpending * 30;
 
     // Calculate budget alerts based on category spending trends
-    const categorySpending = new Map<string, number>();
+    const categorySpending = new Map<number, number>();
     recentExpenses.forEach(expense => {
-        const current = categorySpending.get(expense.category) || 0;
-        categorySpending.set(expense.category, current + expense.amount);
+        const current = categorySpending.get(expense.category_id) || 0;
+        categorySpending.set(expense.category_id, current + expense.amount);
     });
 
     const budget_alerts = budgets
         .map(budget => {
-            const recentSpending = categorySpending.get(budget.category) || 0;
+            const recentSpending = budget.category_ids.reduce((sum, categoryId) => sum + (categorySpending.get(categoryId) || 0), 0);
             const categoryDaysWithData = Math.max(1, daysWithData);
             const projectedMonthlySpending = (recentSpending / categoryDaysWithData) * 30;
             const projected_overspend = Math.max(0, projectedMonthlySpending - budget.monthly_limit);
             
             return {
-                category: budget.category,
+                category_id: budget.category_id,
+                category_name: budget.category_name,
                 projected_overspend
             };
         })
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { type GetExpenseApprovalsInput, type ExpenseApproval } from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadApprovalChain, loadApprovalHistories } from '../helpers/approvals';
+
+// Approval history of the expense: every round of its chain, in order, with
+// the decisions and comments made. Expenses decided before approval chains
+// existed have none.
+export async function getExpenseApprovals(input: GetExpenseApprovalsInput): Promise<ExpenseApproval[]> {
+  try {
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, input.expense_id))
+      .execute();
+
+    if (expenses.length === 0) {
+      throw new Error('Expense not found');
+    }
+
+    // Builds the current round of a pending expense first
+    await loadApprovalChain(expenses[0]);
+    return (await loadApprovalHistories([input.expense_id])).get(input.expense_id) ?? [];
+  } catch (error) {
+    console.error('Failed to get expense approvals:', error);
+    throw error;
+  }
+}
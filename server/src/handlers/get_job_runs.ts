@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { jobRunsTable } from '../db/schema';
+import { type GetJobRunsInput, type JobRun } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+// Most recent job runs first
+export async function getJobRuns(input: GetJobRunsInput): Promise<JobRun[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+    if (input.job_name) {
+      conditions.push(eq(jobRunsTable.job_name, input.job_name));
+    }
+    if (input.status) {
+      conditions.push(eq(jobRunsTable.status, input.status));
+    }
+
+    return await db.select()
+      .from(jobRunsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobRunsTable.id))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get job runs:', error);
+    throw error;
+  }
+}
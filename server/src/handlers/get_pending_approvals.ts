@@ -1,9 +1,80 @@
 import { db } from '../db';
-import { expensesTable, teamsTable, teamMembersTable, usersTable } from '../db/schema';
-import { type Expense } from '../schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { budgetPeriodsTable, budgetsTable, expensesTable, usersTable, type Budget as BudgetRow, type Expense as ExpenseRow } from '../db/schema';
+import { type BudgetImpact, type PendingApproval } from '../schema';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { periodStartOf, syncBudgetPeriods } from '../helpers/budget_periods';
+import { loadCurrencyConverter, roundAmount } from '../helpers/currency';
+import { loadCategoryTree, type CategoryTree } from '../helpers/categories';
+import { loadExpenseTags } from '../helpers/tags';
+import { toExpense } from '../helpers/expenses';
+import { awaitingApprover, loadApprovalHistories, submittedAt, syncApprovalChains, waitingSince } from '../helpers/approvals';
+import { daysBetween, loadApprovalSlas, waitedLonger } from '../helpers/approval_slas';
 
-export const getPendingApprovals = async (managerId: number): Promise<Expense[]> => {
+// Remaining amount of each team and company budget the expense would count
+// against, before and after approving it. Budgets without a period for the
+// expense's month (e.g. created later) are left out, and so are budgets that
+// can't convert the expense or their spending to their currency.
+async function budgetImpactOf(expense: ExpenseRow, budgets: BudgetRow[], categories: CategoryTree, synced: Map<number, boolean>): Promise<BudgetImpact[]> {
+  const counting = budgets.filter(budget =>
+    categories.withDescendants(budget.category_id).includes(expense.category_id)
+    && (budget.scope === 'COMPANY' || budget.team_id === expense.team_id)
+  );
+  const periodStart = periodStartOf(expense.expense_date);
+  const converter = await loadCurrencyConverter([expense.currency, ...counting.map(budget => budget.currency)]);
+
+  const impact: BudgetImpact[] = [];
+  for (const budget of counting) {
+    if (!synced.has(budget.id)) {
+      try {
+        await syncBudgetPeriods(budget.id);
+        synced.set(budget.id, true);
+      } catch (error) {
+        console.error(`Budget ${budget.id} could not be refreshed:`, error);
+        synced.set(budget.id, false);
+      }
+    }
+
+    if (!synced.get(budget.id)) {
+      continue;
+    }
+
+    const periods = await db.select()
+      .from(budgetPeriodsTable)
+      .where(and(
+        eq(budgetPeriodsTable.budget_id, budget.id),
+        eq(budgetPeriodsTable.period_start, periodStart)
+      ))
+      .execute();
+
+    if (periods.length === 0) {
+      continue;
+    }
+
+    let amount: number;
+    try {
+      amount = converter.convert(parseFloat(expense.amount), expense.currency, budget.currency, expense.expense_date);
+    } catch (error) {
+      console.error(`Expense ${expense.id} could not be converted for budget ${budget.id}:`, error);
+      continue;
+    }
+
+    const period = periods[0];
+    const remaining = roundAmount(parseFloat(period.monthly_limit) + parseFloat(period.carried_over) - parseFloat(period.spent));
+    impact.push({
+      budget_id: budget.id,
+      scope: budget.scope,
+      team_id: budget.team_id,
+      category_id: budget.category_id,
+      currency: budget.currency,
+      period_start: periodStart,
+      remaining,
+      remaining_after_approval: roundAmount(remaining - amount)
+    });
+  }
+  return impact;
+}
+
+export const getPendingApprovals = async (managerId: number, now: Date = new Date()): Promise<PendingApproval[]> => {
   try {
     // Verify manager exists and has appropriate role
     const manager = await db.select()
@@ -19,26 +90,51 @@ export const getPendingApprovals = async (managerId: number): Promise<Expense[]>
       throw new Error('User is not authorized to approve expenses');
     }
 
-    // Get pending expenses from teams managed by this manager
+    // Pending expenses whose current approval step is up to this manager
+    await syncApprovalChains();
     const results = await db.select()
       .from(expensesTable)
-      .innerJoin(teamsTable, eq(expensesTable.team_id, teamsTable.id))
-      .where(
-        and(
-          eq(expensesTable.status, 'PENDING'),
-          eq(teamsTable.manager_id, managerId)
-        )
-      )
+      .where(and(
+        eq(expensesTable.status, 'PENDING'),
+        awaitingApprover(expensesTable.id, manager[0])
+      ))
       .orderBy(desc(expensesTable.expense_date))
       .execute();
 
-    // Transform joined results back to Expense objects with proper numeric conversion
-    return results.map(result => ({
-      ...result.expenses,
-      amount: parseFloat(result.expenses.amount)
-    }));
+    // Active team and company budgets; each expense only counts against its own team's
+    const budgets = await db.select()
+      .from(budgetsTable)
+      .where(and(
+        eq(budgetsTable.is_active, true),
+        inArray(budgetsTable.scope, ['TEAM', 'COMPANY'])
+      ))
+      .orderBy(asc(budgetsTable.id))
+      .execute();
+
+    // Convert numeric fields and add what the approver needs to decide
+    const categories = await loadCategoryTree();
+    const expenseIds = results.map(expense => expense.id);
+    const tags = await loadExpenseTags(expenseIds);
+    const histories = await loadApprovalHistories(expenseIds);
+    const slaOf = await loadApprovalSlas();
+    const synced = new Map<number, boolean>(); // whether each budget's periods are up to date
+    const approvals: PendingApproval[] = [];
+    for (const expense of results) {
+      const history = histories.get(expense.id) ?? [];
+      const waiting = waitingSince(expense, history);
+      approvals.push({
+        ...toExpense(expense, tags.get(expense.id) ?? []),
+        budget_impact: await budgetImpactOf(expense, budgets, categories, synced),
+        approvals: history,
+        submitted_at: submittedAt(expense, history),
+        waiting_since: waiting,
+        age_days: daysBetween(waiting, now),
+        overdue: waitedLonger(waiting, now, slaOf(expense.team_id).reminder_days)
+      });
+    }
+    return approvals;
   } catch (error) {
     console.error('Failed to get pending approvals:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
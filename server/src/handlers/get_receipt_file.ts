@@ -0,0 +1,78 @@
+import { db } from '../db';
+import { receiptsTable, expensesTable, teamsTable, usersTable } from '../db/schema';
+import { type Receipt } from '../schema';
+import { getStorage } from '../helpers/storage';
+import { THUMBNAIL_CONTENT_TYPE } from '../helpers/image_processing';
+import { eq } from 'drizzle-orm';
+import { isExpenseApprover } from '../helpers/approvals';
+
+export async function getReceiptFile(
+  receiptId: number,
+  userId: number,
+  variant: 'original' | 'thumbnail' = 'original'
+): Promise<{ receipt: Receipt; data: Buffer; content_type: string }> {
+  try {
+    const receipts = await db.select()
+      .from(receiptsTable)
+      .where(eq(receiptsTable.id, receiptId))
+      .execute();
+
+    if (receipts.length === 0) {
+      throw new Error('Receipt not found');
+    }
+
+    const receipt = receipts[0];
+
+    if (receipt.user_id !== userId) {
+      const requester = await db.select({ role: usersTable.role })
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (requester.length === 0) {
+        throw new Error('Access denied: You cannot view this receipt');
+      }
+
+      // Admins can view every receipt; managers and approvers the receipts
+      // attached to the expenses they manage or approve
+      if (requester[0].role !== 'ADMIN') {
+        const expenses = await db.select({ expense: expensesTable, manager_id: teamsTable.manager_id })
+          .from(expensesTable)
+          .leftJoin(teamsTable, eq(expensesTable.team_id, teamsTable.id))
+          .where(eq(expensesTable.receipt_id, receipt.id))
+          .execute();
+
+        const requesterRole = requester[0].role;
+        const allowed = expenses.some(row => row.manager_id === userId)
+          || (await Promise.all(expenses.map(({ expense }) => isExpenseApprover(expense, { id: userId, role: requesterRole })))).includes(true);
+
+        if (!allowed) {
+          throw new Error('Access denied: You cannot view this receipt');
+        }
+      }
+    }
+
+    if (variant === 'thumbnail') {
+      if (!receipt.thumbnail_key) {
+        throw new Error('Receipt thumbnail not found');
+      }
+
+      const data = await getStorage().get(receipt.thumbnail_key);
+      if (!data) {
+        throw new Error('Receipt thumbnail is missing from storage');
+      }
+
+      return { receipt, data, content_type: THUMBNAIL_CONTENT_TYPE };
+    }
+
+    const data = await getStorage().get(receipt.storage_key);
+    if (!data) {
+      throw new Error('Receipt file is missing from storage');
+    }
+
+    return { receipt, data, content_type: receipt.content_type };
+  } catch (error) {
+    console.error('Get receipt file failed:', error);
+    throw error;
+  }
+}
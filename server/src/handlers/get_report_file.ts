@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { reportsTable, usersTable } from '../db/schema';
+import { type Report } from '../schema';
+import { getStorage } from '../helpers/storage';
+import { REPORT_FILE_TYPES } from '../helpers/report_rendering';
+import { eq } from 'drizzle-orm';
+
+export async function getReportFile(
+  reportId: number,
+  userId: number
+): Promise<{ report: Report; data: Buffer; content_type: string; filename: string }> {
+  try {
+    const reports = await db.select()
+      .from(reportsTable)
+      .where(eq(reportsTable.id, reportId))
+      .execute();
+
+    if (reports.length === 0) {
+      throw new Error('Report not found');
+    }
+
+    const report = reports[0];
+
+    // Reports are private to their owner; admins can read every report
+    if (report.user_id !== userId) {
+      const requester = await db.select({ role: usersTable.role })
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (requester.length === 0 || requester[0].role !== 'ADMIN') {
+        throw new Error('Access denied: You cannot download this report');
+      }
+    }
+
+    if (report.expires_at !== null && report.expires_at <= new Date()) {
+      throw new Error('Report has expired');
+    }
+
+    if (!report.storage_key) {
+      throw new Error('Report file not found');
+    }
+
+    const data = await getStorage().get(report.storage_key);
+    if (!data) {
+      throw new Error('Report file is missing from storage');
+    }
+
+    const fileType = REPORT_FILE_TYPES[report.format];
+    const baseName = report.title.replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '') || 'report';
+
+    return {
+      report,
+      data,
+      content_type: fileType.contentType,
+      filename: `${baseName}.${fileType.extension}`
+    };
+  } catch (error) {
+    console.error('Get report file failed:', error);
+    throw error;
+  }
+}
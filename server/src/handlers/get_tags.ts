@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { expenseTagsTable, tagsTable } from '../db/schema';
+import { type GetTagsInput, type Tag } from '../schema';
+import { and, asc, desc, eq, ilike, sql } from 'drizzle-orm';
+
+// The user's tags, most used first; with a query only the names starting with it,
+// which is what the tag input autocompletes from
+export async function getTags(input: GetTagsInput): Promise<Tag[]> {
+  try {
+    const expenseCount = sql<number>`count(${expenseTagsTable.id})::int`;
+    const query = db.select({
+      id: tagsTable.id,
+      user_id: tagsTable.user_id,
+      name: tagsTable.name,
+      expense_count: expenseCount,
+      created_at: tagsTable.created_at,
+      updated_at: tagsTable.updated_at
+    })
+      .from(tagsTable)
+      .leftJoin(expenseTagsTable, eq(expenseTagsTable.tag_id, tagsTable.id))
+      .where(and(
+        eq(tagsTable.user_id, input.user_id),
+        input.query ? ilike(tagsTable.name, `${input.query.replace(/[\\%_]/g, '\\$&')}%`) : undefined
+      ))
+      .groupBy(tagsTable.id)
+      .orderBy(desc(expenseCount), asc(tagsTable.name))
+      .$dynamic();
+
+    return await (input.limit !== undefined ? query.limit(input.limit) : query).execute();
+  } catch (error) {
+    console.error('Failed to get tags:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { budgetsTable } from '../db/schema';
+import { type Budget } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { refreshBudget } from '../helpers/budget_periods';
+
+// Budgets counting every expense filed against the team, with this month's spending
+export async function getTeamBudgets(teamId: number): Promise<Budget[]> {
+  try {
+    const budgets = await db.select()
+      .from(budgetsTable)
+      .where(and(
+        eq(budgetsTable.scope, 'TEAM'),
+        eq(budgetsTable.team_id, teamId)
+      ))
+      .execute();
+
+    return await Promise.all(budgets.map(async (budget) => {
+      const currentPeriod = await refreshBudget(budget.id);
+      return {
+        ...budget,
+        monthly_limit: parseFloat(budget.monthly_limit),
+        current_spent: parseFloat(currentPeriod.spent)
+      };
+    }));
+  } catch (error) {
+    console.error('Failed to get team budgets:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,8 @@
 import { db } from '../db';
-import { expensesTable, teamsTable } from '../db/schema';
+import { expensesTable, teamsTable, usersTable } from '../db/schema';
 import { type Expense } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { toExpenses } from '../helpers/expenses';
 
 export async function getTeamExpenses(teamId: number, managerId: number): Promise<Expense[]> {
   try {
@@ -16,7 +17,15 @@ export async function getTeamExpenses(teamId: number, managerId: number): Promis
     }
 
     if (team[0].manager_id !== managerId) {
-      throw new Error('Access denied: You are not the manager of this team');
+      // Admins can review every team
+      const requester = await db.select({ role: usersTable.role })
+        .from(usersTable)
+        .where(eq(usersTable.id, managerId))
+        .execute();
+
+      if (requester.length === 0 || requester[0].role !== 'ADMIN') {
+        throw new Error('Access denied: You are not the manager of this team');
+      }
     }
 
     // Query all expenses for the team
@@ -26,10 +35,7 @@ export async function getTeamExpenses(teamId: number, managerId: number): Promis
       .execute();
 
     // Convert numeric fields back to numbers before returning
-    return results.map(expense => ({
-      ...expense,
-      amount: parseFloat(expense.amount)
-    }));
+    return toExpenses(results);
   } catch (error) {
     console.error('Get team expenses failed:', error);
     throw error;
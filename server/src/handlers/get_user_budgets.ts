@@ -1,50 +1,25 @@
 import { db } from '../db';
-import { budgetsTable, expensesTable } from '../db/schema';
+import { budgetsTable } from '../db/schema';
 import { type Budget } from '../schema';
-import { eq, and, gte, lt, sum } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { refreshBudget } from '../helpers/budget_periods';
 
 export async function getUserBudgets(userId: number): Promise<Budget[]> {
   try {
-    // Get current month boundaries
-    const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-
-    // Fetch all budgets for the user
+    // Fetch the user's personal budgets; team and company budgets are listed separately
     const budgets = await db.select()
       .from(budgetsTable)
-      .where(eq(budgetsTable.user_id, userId))
+      .where(and(
+        eq(budgetsTable.user_id, userId),
+        eq(budgetsTable.scope, 'USER')
+      ))
       .execute();
 
-    // For each budget, calculate current spent amount for this month
+    // For each budget, bring its monthly periods up to date and take this month's spending
     const budgetsWithSpending = await Promise.all(
       budgets.map(async (budget) => {
-        // Get total spending for this category this month
-        const spendingResult = await db.select({
-          totalSpent: sum(expensesTable.amount)
-        })
-          .from(expensesTable)
-          .where(
-            and(
-              eq(expensesTable.user_id, userId),
-              eq(expensesTable.category, budget.category),
-              eq(expensesTable.status, 'APPROVED'),
-              gte(expensesTable.expense_date, monthStart),
-              lt(expensesTable.expense_date, nextMonth)
-            )
-          )
-          .execute();
-
-        const currentSpent = spendingResult[0]?.totalSpent ? parseFloat(spendingResult[0].totalSpent) : 0;
-
-        // Update the budget's current_spent field
-        await db.update(budgetsTable)
-          .set({
-            current_spent: currentSpent.toString(),
-            updated_at: new Date()
-          })
-          .where(eq(budgetsTable.id, budget.id))
-          .execute();
+        const currentPeriod = await refreshBudget(budget.id);
+        const currentSpent = parseFloat(currentPeriod.spent);
 
         // Return budget with proper numeric conversions
         return {
@@ -61,4 +36,4 @@ export async function getUserBudgets(userId: number): Promise<Budget[]> {
     console.error('Failed to get user budgets:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
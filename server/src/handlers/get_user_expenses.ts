@@ -1,7 +1,11 @@
 import { db } from '../db';
 import { expensesTable } from '../db/schema';
 import { type GetUserExpensesInput, type PaginatedExpenses } from '../schema';
-import { eq, and, gte, lte, ilike, count, desc, SQL } from 'drizzle-orm';
+import { eq, and, gte, lte, count, desc, SQL } from 'drizzle-orm';
+import { inCategoryTree } from '../helpers/categories';
+import { hasAllTags } from '../helpers/tags';
+import { toExpenses } from '../helpers/expenses';
+import { matchesSearch } from '../helpers/expense_search';
 
 export async function getUserExpenses(input: GetUserExpensesInput): Promise<PaginatedExpenses> {
   try {
@@ -11,8 +15,12 @@ export async function getUserExpenses(input: GetUserExpensesInput): Promise<Pagi
     ];
 
     // Add optional filters
-    if (input.category) {
-      conditions.push(eq(expensesTable.category, input.category));
+    if (input.category_id) {
+      conditions.push(inCategoryTree(expensesTable.category_id, [input.category_id]));
+    }
+
+    if (input.tags && input.tags.length > 0) {
+      conditions.push(hasAllTags(expensesTable.id, input.tags));
     }
 
     if (input.status) {
@@ -27,10 +35,8 @@ export async function getUserExpenses(input: GetUserExpensesInput): Promise<Pagi
       conditions.push(lte(expensesTable.expense_date, input.date_to));
     }
 
-    if (input.search) {
-      conditions.push(
-        ilike(expensesTable.title, `%${input.search}%`)
-      );
+    if (input.search?.trim()) {
+      conditions.push(matchesSearch(input.search));
     }
 
     // Apply where condition
@@ -58,10 +64,7 @@ export async function getUserExpenses(input: GetUserExpensesInput): Promise<Pagi
     const total_pages = Math.ceil(total / input.limit);
 
     // Convert numeric fields back to numbers
-    const formattedExpenses = expenses.map(expense => ({
-      ...expense,
-      amount: parseFloat(expense.amount)
-    }));
+    const formattedExpenses = await toExpenses(expenses);
 
     return {
       expenses: formattedExpenses,
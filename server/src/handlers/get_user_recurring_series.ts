@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { recurringSeriesTable } from '../db/schema';
+import { type RecurringSeries } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { toRecurringSeries } from '../helpers/recurring_series';
+
+export async function getUserRecurringSeries(userId: number): Promise<RecurringSeries[]> {
+  try {
+    const series = await db.select()
+      .from(recurringSeriesTable)
+      .where(eq(recurringSeriesTable.user_id, userId))
+      .orderBy(asc(recurringSeriesTable.id))
+      .execute();
+
+    return series.map(toRecurringSeries);
+  } catch (error) {
+    console.error('Failed to get recurring series:', error);
+    throw error;
+  }
+}
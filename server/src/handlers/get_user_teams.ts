@@ -20,6 +20,8 @@ export async function getUserTeams(userId: number): Promise<Team[]> {
       name: teamsTable.name,
       description: teamsTable.description,
       manager_id: teamsTable.manager_id,
+      approval_reminder_days: teamsTable.approval_reminder_days,
+      approval_escalation_days: teamsTable.approval_escalation_days,
       created_at: teamsTable.created_at,
       updated_at: teamsTable.updated_at
     })
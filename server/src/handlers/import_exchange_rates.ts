@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { type ImportExchangeRatesInput, type ExchangeRateImportResult } from '../schema';
+import { parseEcbXml, parseExchangeRatesCsv, type ParsedExchangeRate } from '../helpers/exchange_rate_files';
+import { sql } from 'drizzle-orm';
+
+// Rows per INSERT, keeps statements well below the Postgres parameter limit
+const BATCH_SIZE = 1000;
+
+export async function importExchangeRates(input: ImportExchangeRatesInput): Promise<ExchangeRateImportResult> {
+  try {
+    const parsed = input.format === 'ECB_XML'
+      ? parseEcbXml(input.content)
+      : parseExchangeRatesCsv(input.content, input.base_currency);
+
+    // A file may repeat a day; the last rate wins, as it would on re-import
+    const unique = new Map<string, ParsedExchangeRate>();
+    parsed
+      .filter(rate => rate.currency !== rate.base_currency)
+      .forEach(rate => unique.set(`${rate.base_currency}:${rate.currency}:${rate.rate_date}`, rate));
+    const rates = [...unique.values()];
+
+    if (rates.length === 0) {
+      throw new Error('No exchange rates found in file');
+    }
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rates.length; i += BATCH_SIZE) {
+        await tx.insert(exchangeRatesTable)
+          .values(rates.slice(i, i + BATCH_SIZE).map(rate => ({
+            base_currency: rate.base_currency,
+            currency: rate.currency,
+            rate: rate.rate.toString(),
+            rate_date: rate.rate_date,
+            source: input.format
+          })))
+          .onConflictDoUpdate({
+            target: [exchangeRatesTable.base_currency, exchangeRatesTable.currency, exchangeRatesTable.rate_date],
+            set: {
+              rate: sql`excluded.rate`,
+              source: sql`excluded.source`,
+              imported_at: new Date()
+            }
+          })
+          .execute();
+      }
+    });
+
+    const dates = rates.map(rate => rate.rate_date).sort();
+    return {
+      imported: rates.length,
+      currencies: [...new Set(rates.flatMap(rate => [rate.base_currency, rate.currency]))].sort(),
+      date_from: dates[0],
+      date_to: dates[dates.length - 1]
+    };
+  } catch (error) {
+    console.error('Exchange rate import failed:', error);
+    throw error;
+  }
+}
@@ -2,6 +2,8 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type LoginUserInput, type AuthResponse } from '../schema';
 import { eq } from 'drizzle-orm';
+import { signAuthToken } from '../helpers/auth_token';
+import { verifyPassword, needsRehash, hashPassword } from '../helpers/password';
 
 export const loginUser = async (input: LoginUserInput): Promise<AuthResponse> => {
   try {
@@ -22,30 +24,28 @@ export const loginUser = async (input: LoginUserInput): Promise<AuthResponse> =>
       throw new Error('Account is deactivated');
     }
 
-    // Verify password using Bun's built-in password verification
-    const isPasswordValid = await Bun.password.verify(input.password, user.password_hash);
+    // Verify password against whichever hash format is stored
+    const isPasswordValid = await verifyPassword(input.password, user.password_hash);
     if (!isPasswordValid) {
       throw new Error('Invalid email or password');
     }
 
-    // Generate a simple JWT-like token (for demo purposes)
-    // In production, use a proper JWT library
-    const tokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      exp: Date.now() + 24 * 60 * 60 * 1000 // 24 hours
-    };
-    const token = Buffer.from(JSON.stringify(tokenPayload)).toString('base64');
+    // Issue a signed session token
+    const token = signAuthToken(user);
+
+    // Update last login timestamp, upgrading legacy password hashes on the way
+    const loginUpdate: { updated_at: Date; password_hash?: string } = { updated_at: new Date() };
+    if (needsRehash(user.password_hash)) {
+      loginUpdate.password_hash = await hashPassword(input.password);
+    }
 
-    // Update last login timestamp
     await db.update(usersTable)
-      .set({ updated_at: new Date() })
+      .set(loginUpdate)
       .where(eq(usersTable.id, user.id))
       .execute();
 
-    // Return auth response without password hash
-    const { password_hash, ...userWithoutPassword } = user;
+    // Return auth response without password hash or session version
+    const { password_hash, session_version, ...userWithoutPassword } = user;
     
     return {
       user: userWithoutPassword,
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { expensesTable, expenseTagsTable, tagsTable } from '../db/schema';
+import { type MergeTagsInput, type Tag } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { countTagExpenses, loadUserTag, taggedExpenses } from '../helpers/tags';
+import { refreshSearchVectors } from '../helpers/expense_search';
+
+// Moves the expenses of the source tags onto the target tag and deletes the
+// sources; an expense carrying several of them ends up with the target once
+export async function mergeTags(input: MergeTagsInput): Promise<Tag> {
+  try {
+    const target = await loadUserTag(input.target_id, input.user_id);
+
+    const sourceIds = [...new Set(input.source_ids)];
+    if (sourceIds.includes(target.id)) {
+      throw new Error('A tag cannot be merged into itself');
+    }
+    for (const sourceId of sourceIds) {
+      await loadUserTag(sourceId, input.user_id);
+    }
+
+    await db.transaction(async (tx) => {
+      const expenses = await tx.selectDistinct({ expense_id: expenseTagsTable.expense_id })
+        .from(expenseTagsTable)
+        .where(inArray(expenseTagsTable.tag_id, sourceIds))
+        .execute();
+
+      if (expenses.length > 0) {
+        await tx.insert(expenseTagsTable)
+          .values(expenses.map(expense => ({ expense_id: expense.expense_id, tag_id: target.id })))
+          .onConflictDoNothing()
+          .execute();
+      }
+
+      await tx.delete(tagsTable)
+        .where(and(
+          inArray(tagsTable.id, sourceIds),
+          eq(tagsTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      await tx.update(tagsTable)
+        .set({ updated_at: new Date() })
+        .where(eq(tagsTable.id, target.id))
+        .execute();
+    });
+
+    await refreshSearchVectors(inArray(expensesTable.id, taggedExpenses(target.id)));
+
+    const merged = await loadUserTag(target.id, input.user_id);
+    return {
+      ...merged,
+      expense_count: await countTagExpenses(target.id)
+    };
+  } catch (error) {
+    console.error('Tag merge failed:', error);
+    throw error;
+  }
+}
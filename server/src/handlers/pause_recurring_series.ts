@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { recurringSeriesTable } from '../db/schema';
+import { type PauseRecurringSeriesInput, type RecurringSeries } from '../schema';
+import { eq } from 'drizzle-orm';
+import { nextOccurrence } from '../helpers/recurrence';
+import { loadSeries, scheduleOf, toRecurringSeries } from '../helpers/recurring_series';
+import { addDays, toCalendarDate } from '../helpers/dates';
+
+// Paused series create no expenses. Occurrences that fell due while paused are
+// not made up on resume; the series continues from today.
+export async function pauseRecurringSeries(input: PauseRecurringSeriesInput): Promise<RecurringSeries> {
+  try {
+    const existing = await loadSeries(input.id);
+
+    let nextOccurrenceDate = existing.next_occurrence_date;
+    if (!input.paused && existing.is_paused && nextOccurrenceDate !== null) {
+      const yesterday = addDays(toCalendarDate(new Date()), -1);
+      const resumeAfter = existing.last_occurrence_date !== null && existing.last_occurrence_date > yesterday
+        ? existing.last_occurrence_date
+        : yesterday;
+      nextOccurrenceDate = nextOccurrence(scheduleOf(existing), resumeAfter);
+    }
+
+    const result = await db.update(recurringSeriesTable)
+      .set({
+        is_paused: input.paused,
+        next_occurrence_date: nextOccurrenceDate,
+        updated_at: new Date()
+      })
+      .where(eq(recurringSeriesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toRecurringSeries(result[0]);
+  } catch (error) {
+    console.error('Recurring series pause failed:', error);
+    throw error;
+  }
+}
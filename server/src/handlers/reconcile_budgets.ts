@@ -0,0 +1,96 @@
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable, type BudgetPeriod as BudgetPeriodRow } from '../db/schema';
+import { type ReconcileBudgetsInput, type ReconcileBudgetsResult, type BudgetDrift } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { computeBudgetSpent } from '../helpers/budget_spending';
+import { carriedOverFrom, periodStartOf, syncBudgetPeriods } from '../helpers/budget_periods';
+import { roundAmount } from '../helpers/currency';
+
+// Compares every stored spending figure (each period's spent and the budget's
+// current_spent) with the spending computed from the expenses table, and each
+// period's carried_over with what the corrected period before it left unspent,
+// reports the differences and, unless this is a dry run, overwrites them
+export async function reconcileBudgets(input: ReconcileBudgetsInput, now: Date = new Date()): Promise<ReconcileBudgetsResult> {
+  try {
+    const budgets = await db.select()
+      .from(budgetsTable)
+      .where(input.budget_id !== undefined ? eq(budgetsTable.id, input.budget_id) : undefined)
+      .orderBy(asc(budgetsTable.id))
+      .execute();
+
+    if (input.budget_id !== undefined && budgets.length === 0) {
+      throw new Error('Budget not found');
+    }
+
+    const drift: BudgetDrift[] = [];
+    const currentMonth = periodStartOf(now);
+
+    for (const budget of budgets) {
+      const driftOf = (periodStart: string | null, figure: BudgetDrift['figure'], stored: number, actual: number): BudgetDrift => ({
+        budget_id: budget.id,
+        user_id: budget.user_id,
+        category_id: budget.category_id,
+        period_start: periodStart,
+        figure,
+        stored,
+        actual,
+        difference: roundAmount(stored - actual)
+      });
+
+      const periods = await db.select()
+        .from(budgetPeriodsTable)
+        .where(eq(budgetPeriodsTable.budget_id, budget.id))
+        .orderBy(asc(budgetPeriodsTable.period_start))
+        .execute();
+
+      // The period before, as corrected
+      let previous: BudgetPeriodRow | null = null;
+      for (const period of periods) {
+        const storedSpent = parseFloat(period.spent);
+        const actualSpent = await computeBudgetSpent(budget, period.period_start);
+        const storedCarriedOver = parseFloat(period.carried_over);
+        const actualCarriedOver = carriedOverFrom(budget, previous);
+        previous = { ...period, spent: actualSpent.toString(), carried_over: actualCarriedOver.toString() };
+
+        if (storedSpent !== actualSpent) {
+          drift.push(driftOf(period.period_start, 'spent', storedSpent, actualSpent));
+        }
+        if (storedCarriedOver !== actualCarriedOver) {
+          drift.push(driftOf(period.period_start, 'carried_over', storedCarriedOver, actualCarriedOver));
+        }
+        if (!input.dry_run && (storedSpent !== actualSpent || storedCarriedOver !== actualCarriedOver)) {
+          await db.update(budgetPeriodsTable)
+            .set({ spent: actualSpent.toString(), carried_over: actualCarriedOver.toString(), updated_at: now })
+            .where(eq(budgetPeriodsTable.id, period.id))
+            .execute();
+        }
+      }
+
+      const storedCurrent = parseFloat(budget.current_spent);
+      const actualCurrent = await computeBudgetSpent(budget, currentMonth);
+      if (storedCurrent !== actualCurrent) {
+        drift.push(driftOf(null, 'spent', storedCurrent, actualCurrent));
+        if (!input.dry_run) {
+          await db.update(budgetsTable)
+            .set({ current_spent: actualCurrent.toString(), updated_at: now })
+            .where(eq(budgetsTable.id, budget.id))
+            .execute();
+        }
+      }
+
+      // Periods missing since the last rollover are opened from the corrected figures
+      if (!input.dry_run) {
+        await syncBudgetPeriods(budget.id, now);
+      }
+    }
+
+    return {
+      budgets_checked: budgets.length,
+      drift,
+      fixed: !input.dry_run
+    };
+  } catch (error) {
+    console.error('Budget reconciliation failed:', error);
+    throw error;
+  }
+}
@@ -2,34 +2,11 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type RegisterUserInput, type AuthResponse } from '../schema';
 import { eq } from 'drizzle-orm';
-import * as crypto from 'crypto';
-
-// Simple password hashing using Node.js crypto (for production, use bcrypt)
-function hashPassword(password: string): string {
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto.pbkdf2Sync(password, salt, 100000, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
-}
-
-// Simple JWT token generation (for production, use proper JWT library)
-function generateJWT(userId: number, email: string): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
-  const payload = Buffer.from(JSON.stringify({ 
-    userId, 
-    email, 
-    iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
-  })).toString('base64url');
-  const signature = crypto.createHmac('sha256', 'secret-key')
-    .update(`${header}.${payload}`)
-    .digest('base64url');
-  return `${header}.${payload}.${signature}`;
-}
-
-// Generate email verification token
-function generateVerificationToken(): string {
-  return crypto.randomBytes(32).toString('hex');
-}
+import { signAuthToken } from '../helpers/auth_token';
+import { hashPassword } from '../helpers/password';
+import { generateOneTimeToken } from '../helpers/one_time_token';
+import { sendVerificationEmail } from '../helpers/verification_email';
+import { DEFAULT_CURRENCY } from '../helpers/currency';
 
 export async function registerUser(input: RegisterUserInput): Promise<AuthResponse> {
   try {
@@ -52,9 +29,9 @@ export async function registerUser(input: RegisterUserInput): Promise<AuthRespon
       throw new Error('Username already taken');
     }
 
-    // Hash password and generate verification token
-    const passwordHash = hashPassword(input.password);
-    const verificationToken = generateVerificationToken();
+    // Hash password and generate verification token (only its hash is stored)
+    const passwordHash = await hashPassword(input.password);
+    const verification = generateOneTimeToken();
 
     // Create user record
     const result = await db.insert(usersTable)
@@ -64,8 +41,9 @@ export async function registerUser(input: RegisterUserInput): Promise<AuthRespon
         password_hash: passwordHash,
         first_name: input.first_name,
         last_name: input.last_name,
-        role: input.role || 'USER',
-        email_verification_token: verificationToken,
+        role: 'USER', // roles are granted by admins through updateUserRole
+        home_currency: input.home_currency || DEFAULT_CURRENCY,
+        email_verification_token: verification.tokenHash,
         email_verified: false,
         is_active: true
       })
@@ -74,8 +52,10 @@ export async function registerUser(input: RegisterUserInput): Promise<AuthRespon
 
     const user = result[0];
 
-    // Generate JWT token
-    const token = generateJWT(user.id, user.email);
+    await sendVerificationEmail(user, verification.token);
+
+    // Issue a signed session token
+    const token = signAuthToken(user);
 
     // Return user data without password hash
     const userResponse = {
@@ -90,6 +70,7 @@ export async function registerUser(input: RegisterUserInput): Promise<AuthRespon
       email_verification_token: user.email_verification_token,
       password_reset_token: user.password_reset_token,
       password_reset_expires: user.password_reset_expires,
+      home_currency: user.home_currency,
       is_active: user.is_active,
       created_at: user.created_at,
       updated_at: user.updated_at
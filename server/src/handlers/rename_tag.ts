@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { expensesTable, tagsTable } from '../db/schema';
+import { type RenameTagInput, type Tag } from '../schema';
+import { and, eq, inArray, ne, sql } from 'drizzle-orm';
+import { countTagExpenses, loadUserTag, tagKey, taggedExpenses } from '../helpers/tags';
+import { refreshSearchVectors } from '../helpers/expense_search';
+
+// Renames the tag on every expense carrying it, search included. Renaming onto another of the
+// user's tags is refused; merging is how two tags become one.
+export async function renameTag(input: RenameTagInput): Promise<Tag> {
+  try {
+    await loadUserTag(input.id, input.user_id);
+
+    const clashes = await db.select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(and(
+        eq(tagsTable.user_id, input.user_id),
+        sql`lower(${tagsTable.name}) = ${tagKey(input.name)}`,
+        ne(tagsTable.id, input.id)
+      ))
+      .execute();
+
+    if (clashes.length > 0) {
+      throw new Error(`A tag named "${input.name}" already exists`);
+    }
+
+    const result = await db.update(tagsTable)
+      .set({ name: input.name, updated_at: new Date() })
+      .where(eq(tagsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await refreshSearchVectors(inArray(expensesTable.id, taggedExpenses(input.id)));
+
+    return {
+      ...result[0],
+      expense_count: await countTagExpenses(input.id)
+    };
+  } catch (error) {
+    console.error('Tag rename failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { generateOneTimeToken } from '../helpers/one_time_token';
+import { sendVerificationEmail } from '../helpers/verification_email';
+
+export async function resendVerificationEmail(userId: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+
+    if (user.email_verified) {
+      throw new Error('Email address is already verified');
+    }
+
+    // Issue a fresh token, invalidating the previous link
+    const { token, tokenHash } = generateOneTimeToken();
+
+    await db.update(usersTable)
+      .set({
+        email_verification_token: tokenHash,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await sendVerificationEmail(user, token);
+
+    return {
+      success: true,
+      message: 'Verification email sent'
+    };
+  } catch (error) {
+    console.error('Resending verification email failed:', error);
+    throw error;
+  }
+}
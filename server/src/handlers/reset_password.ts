@@ -2,6 +2,10 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type ResetPasswordInput } from '../schema';
 import { eq } from 'drizzle-orm';
+import { generateOneTimeToken } from '../helpers/one_time_token';
+import { sendMail, appUrl } from '../helpers/mailer';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
 
 export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean; message: string }> {
   try {
@@ -30,24 +34,31 @@ export async function resetPassword(input: ResetPasswordInput): Promise<{ succes
       };
     }
 
-    // Generate a secure reset token (in real implementation, use crypto.randomBytes)
-    const resetToken = `reset_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+    // Generate a random reset token; only its hash is stored
+    const { token, tokenHash } = generateOneTimeToken();
     
     // Set expiry to 1 hour from now
-    const resetExpiry = new Date(Date.now() + 60 * 60 * 1000);
+    const resetExpiry = new Date(Date.now() + RESET_TOKEN_TTL_MS);
 
-    // Update user with reset token and expiry
+    // Update user with reset token hash and expiry, replacing any previous token
     await db.update(usersTable)
       .set({
-        password_reset_token: resetToken,
+        password_reset_token: tokenHash,
         password_reset_expires: resetExpiry,
         updated_at: new Date()
       })
       .where(eq(usersTable.id, user.id))
       .execute();
 
-    // In a real implementation, you would send an email here
-    // await sendPasswordResetEmail(user.email, resetToken);
+    const resetLink = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.first_name},\n\n` +
+        `Use the link below to choose a new password. It expires in one hour and can only be used once.\n\n` +
+        `${resetLink}\n\n` +
+        `If you did not request a password reset, you can ignore this email.`
+    });
 
     return {
       success: true,
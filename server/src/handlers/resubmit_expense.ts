@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { type ResubmitExpenseInput, type Expense } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { toExpenses } from '../helpers/expenses';
+import { loadApprovalChain } from '../helpers/approvals';
+
+// Sends an expense the approvers asked changes for back to them. It walks a
+// new round of its approval chain from the first step; earlier decisions and
+// their comments stay in the approval history.
+export async function resubmitExpense(input: ResubmitExpenseInput): Promise<Expense> {
+  try {
+    const existing = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, input.expense_id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Expense not found');
+    }
+
+    const updated = await db.update(expensesTable)
+      .set({
+        status: 'PENDING',
+        approved_by: null,
+        approved_at: null,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(expensesTable.id, input.expense_id),
+        eq(expensesTable.status, 'CHANGES_REQUESTED')
+      ))
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new Error('Only expenses with changes requested can be resubmitted');
+    }
+
+    await loadApprovalChain(updated[0]);
+
+    const [result] = await toExpenses(updated);
+    return result;
+  } catch (error) {
+    console.error('Expense resubmission failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { budgetsTable } from '../db/schema';
+import { asc } from 'drizzle-orm';
+import { refreshBudget } from '../helpers/budget_periods';
+
+// Scheduled job: closes last month's budget periods and opens the current ones.
+// Running it again within the month only refreshes current spending.
+export async function rollOverBudgets(now: Date = new Date()): Promise<{ budgets_processed: number }> {
+  try {
+    const budgets = await db.select({ id: budgetsTable.id })
+      .from(budgetsTable)
+      .orderBy(asc(budgetsTable.id))
+      .execute();
+
+    for (const budget of budgets) {
+      await refreshBudget(budget.id, now);
+    }
+
+    return { budgets_processed: budgets.length };
+  } catch (error) {
+    console.error('Budget rollover failed:', error);
+    throw error;
+  }
+}
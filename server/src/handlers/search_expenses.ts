@@ -1,39 +1,67 @@
 import { db } from '../db';
 import { expensesTable } from '../db/schema';
-import { type Expense } from '../schema';
-import { eq, and, gte, lte, ilike, or, sql, type SQL } from 'drizzle-orm';
+import { type ExpenseSearchPage } from '../schema';
+import { eq, and, gte, lte, desc, sql, type SQL } from 'drizzle-orm';
+import { inCategoryTree } from '../helpers/categories';
+import { hasAllTags, loadExpenseTags } from '../helpers/tags';
+import { toExpense } from '../helpers/expenses';
+import { matchesSearch, searchHighlight, searchRank } from '../helpers/expense_search';
 
+// Position of the last result of a page: its rank, expense date and id
+type SearchCursor = [rank: string, expenseDate: string, id: number];
+
+const encodeCursor = (cursor: SearchCursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+function decodeCursor(cursor: string): SearchCursor {
+    try {
+        const [rank, expenseDate, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        if (typeof rank === 'string' && typeof expenseDate === 'string' && Number.isInteger(id)) {
+            return [rank, expenseDate, id];
+        }
+    } catch {
+        // Reported below
+    }
+    throw new Error('Invalid search cursor');
+}
+
+// Full-text search over the user's expenses, best matches first and newest
+// first among equally good ones. See helpers/expense_search.ts for the syntax.
 export async function searchExpenses(
     userId: number, 
     searchTerm: string, 
     filters?: {
-        category?: string;
+        categoryId?: number; // subcategories are included
+        tags?: string[]; // expenses carrying every one of these tags
         dateFrom?: Date;
         dateTo?: Date;
         minAmount?: number;
         maxAmount?: number;
+    },
+    page?: {
+        cursor?: string; // next_cursor of the previous page
+        limit?: number;
     }
-): Promise<Expense[]> {
+): Promise<ExpenseSearchPage> {
     try {
+        const term = searchTerm.trim();
+        const limit = page?.limit ?? 20;
+
         // Build conditions array
         const conditions: SQL<unknown>[] = [
             eq(expensesTable.user_id, userId)
         ];
 
-        // Add search term condition (full-text search across title and description)
-        if (searchTerm.trim()) {
-            const searchPattern = `%${searchTerm.trim()}%`;
-            conditions.push(
-                or(
-                    ilike(expensesTable.title, searchPattern),
-                    ilike(expensesTable.description, searchPattern)
-                )!
-            );
+        if (term) {
+            conditions.push(matchesSearch(term));
         }
 
         // Apply additional filters
-        if (filters?.category) {
-            conditions.push(eq(expensesTable.category, filters.category as any));
+        if (filters?.categoryId) {
+            conditions.push(inCategoryTree(expensesTable.category_id, [filters.categoryId]));
+        }
+
+        if (filters?.tags && filters.tags.length > 0) {
+            conditions.push(hasAllTags(expensesTable.id, filters.tags));
         }
 
         if (filters?.dateFrom) {
@@ -52,20 +80,44 @@ export async function searchExpenses(
             conditions.push(lte(expensesTable.amount, filters.maxAmount.toString()));
         }
 
-        // Build and execute the query
-        const results = await db.select()
+        // Continue after the last result of the previous page
+        const rank = term ? searchRank(term) : sql<string>`0::numeric`;
+        if (page?.cursor) {
+            const [cursorRank, cursorDate, cursorId] = decodeCursor(page.cursor);
+            conditions.push(sql`(${rank}, ${expensesTable.expense_date}, ${expensesTable.id}) < (${cursorRank}::numeric, ${cursorDate}::timestamp, ${cursorId})`);
+        }
+
+        // One extra row tells whether there is another page
+        const rows = await db.select({
+            expense: expensesTable,
+            rank,
+            expense_date: sql<string>`${expensesTable.expense_date}::text`,
+            title_highlight: searchHighlight(expensesTable.title, term),
+            description_highlight: searchHighlight(expensesTable.description, term, 2)
+        })
             .from(expensesTable)
             .where(and(...conditions))
-            .orderBy(sql`${expensesTable.expense_date} DESC, ${expensesTable.created_at} DESC`)
+            .orderBy(sql`${rank} desc`, desc(expensesTable.expense_date), desc(expensesTable.id))
+            .limit(limit + 1)
             .execute();
 
-        // Convert numeric fields back to numbers before returning
-        return results.map(expense => ({
-            ...expense,
-            amount: parseFloat(expense.amount)
-        }));
+        const pageRows = rows.slice(0, limit);
+        const tags = await loadExpenseTags(pageRows.map(row => row.expense.id));
+        const last = pageRows[pageRows.length - 1];
+
+        return {
+            results: pageRows.map(row => ({
+                ...toExpense(row.expense, tags.get(row.expense.id) ?? []),
+                rank: parseFloat(row.rank),
+                highlights: {
+                    title: row.title_highlight ?? '',
+                    description: row.description_highlight
+                }
+            })),
+            next_cursor: rows.length > limit ? encodeCursor([last.rank, last.expense_date, last.expense.id]) : null
+        };
     } catch (error) {
         console.error('Expense search failed:', error);
         throw error;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { and, eq, gte } from 'drizzle-orm';
+import { loadWaitingExpenses, waitingSince } from '../helpers/approvals';
+import { loadApprovalSlas, waitedLonger } from '../helpers/approval_slas';
+import { createNotification } from './create_notification';
+
+// Scheduled job: sends each approver at most one daily reminder listing how many
+// expenses have been waiting on their approval step longer than the reminder
+// days of the expense's team. Steps left to any admin show up in the admins'
+// pending approvals instead.
+export async function sendApprovalReminders(now: Date = new Date()): Promise<{ reminders_sent: number }> {
+  try {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const slaOf = await loadApprovalSlas();
+
+    // Overdue expenses and the shortest reminder days among them, per approver
+    const overdueByApprover = new Map<number, { count: number; days: number }>();
+    for (const { expense, chain, step } of await loadWaitingExpenses()) {
+      const days = slaOf(expense.team_id).reminder_days;
+      if (step.approver_id === null || !waitedLonger(waitingSince(expense, chain), now, days)) {
+        continue;
+      }
+
+      const overdue = overdueByApprover.get(step.approver_id);
+      overdueByApprover.set(step.approver_id, {
+        count: (overdue?.count ?? 0) + 1,
+        days: Math.min(overdue?.days ?? days, days)
+      });
+    }
+
+    let remindersSent = 0;
+    for (const [approverId, { count, days }] of overdueByApprover) {
+      const remindedToday = await db.select({ id: notificationsTable.id })
+        .from(notificationsTable)
+        .where(and(
+          eq(notificationsTable.user_id, approverId),
+          eq(notificationsTable.type, 'EXPENSE_REMINDER'),
+          gte(notificationsTable.created_at, today)
+        ))
+        .limit(1)
+        .execute();
+
+      if (remindedToday.length > 0) {
+        continue;
+      }
+
+      await createNotification({
+        user_id: approverId,
+        type: 'EXPENSE_REMINDER',
+        title: 'Expenses awaiting your approval',
+        message: `${count} ${count === 1 ? 'expense has' : 'expenses have'} been waiting for your approval for more than ${days} ${days === 1 ? 'day' : 'days'}.`
+      });
+      remindersSent++;
+    }
+
+    return { reminders_sent: remindersSent };
+  } catch (error) {
+    console.error('Sending approval reminders failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { db } from '../db';
+import { budgetAlertOptOutsTable, budgetPeriodsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { createNotification } from './create_notification';
+import { type RefreshedBudget } from '../helpers/budget_periods';
+import { loadCategory } from '../helpers/categories';
+import { roundAmount } from '../helpers/currency';
+
+// Sends a BUDGET_ALERT when a budget's current month passes its alert_threshold
+// and another when it reaches the limit (monthly limit plus carried-over
+// amount). The period row records sent alerts so each goes out once; they are
+// re-armed when spending drops back below, e.g. after an expense is deleted.
+// Alerts go to the budget owner; inactive budgets and categories the owner
+// muted are skipped.
+// Returns the number of notifications sent.
+export async function sendBudgetAlerts(refreshed: RefreshedBudget[], now: Date = new Date()): Promise<number> {
+  try {
+    let alertsSent = 0;
+
+    for (const { budget, current } of refreshed) {
+      const available = roundAmount(parseFloat(current.monthly_limit) + parseFloat(current.carried_over));
+      const spent = parseFloat(current.spent);
+      if (!budget.is_active || current.closed_at !== null || available <= 0) {
+        continue;
+      }
+
+      const percentage = spent / available * 100;
+      const overLimit = percentage >= 100;
+      const overThreshold = spent > 0 && percentage >= budget.alert_threshold;
+
+      // Re-arm the alerts spending fell back below
+      if (!overLimit && current.limit_alerted_at !== null) {
+        await db.update(budgetPeriodsTable)
+          .set({ limit_alerted_at: null, ...(overThreshold ? {} : { threshold_alerted_at: null }) })
+          .where(eq(budgetPeriodsTable.id, current.id))
+          .execute();
+      } else if (!overThreshold && current.threshold_alerted_at !== null) {
+        await db.update(budgetPeriodsTable)
+          .set({ threshold_alerted_at: null })
+          .where(eq(budgetPeriodsTable.id, current.id))
+          .execute();
+      }
+
+      if (!overThreshold) {
+        continue;
+      }
+
+      const muted = await db.select({ id: budgetAlertOptOutsTable.id })
+        .from(budgetAlertOptOutsTable)
+        .where(and(
+          eq(budgetAlertOptOutsTable.user_id, budget.user_id),
+          eq(budgetAlertOptOutsTable.category_id, budget.category_id)
+        ))
+        .execute();
+
+      if (muted.length > 0) {
+        continue;
+      }
+
+      // Claim the alert on the period row so concurrent refreshes send it once;
+      // reaching the limit also covers the threshold alert
+      const claimed = await db.update(budgetPeriodsTable)
+        .set(overLimit ? { limit_alerted_at: now, threshold_alerted_at: current.threshold_alerted_at ?? now } : { threshold_alerted_at: now })
+        .where(and(
+          eq(budgetPeriodsTable.id, current.id),
+          overLimit ? isNull(budgetPeriodsTable.limit_alerted_at) : isNull(budgetPeriodsTable.threshold_alerted_at)
+        ))
+        .returning({ id: budgetPeriodsTable.id })
+        .execute();
+
+      if (claimed.length === 0) {
+        continue;
+      }
+
+      const category = (await loadCategory(budget.category_id)).name;
+      const amounts = `${spent.toFixed(2)} of ${available.toFixed(2)} ${budget.currency}`;
+      await createNotification({
+        user_id: budget.user_id,
+        type: 'BUDGET_ALERT',
+        title: overLimit ? `${category} budget reached` : `${category} budget at ${Math.floor(percentage)}%`,
+        message: overLimit
+          ? `You have reached your ${category} budget for this month (${amounts}).`
+          : `You have used ${Math.floor(percentage)}% of your ${category} budget for this month (${amounts}).`
+      });
+      alertsSent++;
+    }
+
+    return alertsSent;
+  } catch (error) {
+    console.error('Sending budget alerts failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, recurringSkipsTable } from '../db/schema';
+import { type SkipRecurringOccurrenceInput, type RecurringSeries } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { isOccurrence, nextOccurrence } from '../helpers/recurrence';
+import { loadSeries, scheduleOf, toRecurringSeries } from '../helpers/recurring_series';
+import { toCalendarDate } from '../helpers/dates';
+
+// Skips a single upcoming occurrence; the rest of the series is unchanged
+export async function skipRecurringOccurrence(input: SkipRecurringOccurrenceInput): Promise<RecurringSeries> {
+  try {
+    const series = await loadSeries(input.series_id);
+    const schedule = scheduleOf(series);
+    const day = toCalendarDate(input.occurrence_date);
+
+    if (!isOccurrence(schedule, day)) {
+      throw new Error(`${day} is not an occurrence of this recurring series`);
+    }
+
+    const generated = await db.select({ id: expensesTable.id })
+      .from(expensesTable)
+      .where(and(
+        eq(expensesTable.recurring_series_id, series.id),
+        eq(expensesTable.recurrence_date, day)
+      ))
+      .execute();
+
+    if (generated.length > 0 || (series.last_occurrence_date !== null && day <= series.last_occurrence_date)) {
+      throw new Error('Occurrence has already been generated; delete its expense instead');
+    }
+
+    await db.insert(recurringSkipsTable)
+      .values({ series_id: series.id, occurrence_date: day })
+      .onConflictDoNothing()
+      .execute();
+
+    // Skipping the next occurrence moves the series on to the one after it
+    if (series.next_occurrence_date === day) {
+      const result = await db.update(recurringSeriesTable)
+        .set({
+          last_occurrence_date: day,
+          next_occurrence_date: nextOccurrence(schedule, day),
+          updated_at: new Date()
+        })
+        .where(eq(recurringSeriesTable.id, series.id))
+        .returning()
+        .execute();
+      return toRecurringSeries(result[0]);
+    }
+
+    return toRecurringSeries(series);
+  } catch (error) {
+    console.error('Skipping recurring occurrence failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { type TriggerJobInput, type JobRun } from '../schema';
+import { enqueueJobRun, hasActiveRun } from '../scheduler';
+import { JOBS } from '../jobs';
+
+// Queues a run of the job for the scheduler to pick up on its next tick
+export async function triggerJob(input: TriggerJobInput, userId: number): Promise<JobRun> {
+  try {
+    if (await hasActiveRun(input.job_name)) {
+      throw new Error(`Job ${input.job_name} is already queued or running`);
+    }
+
+    return await enqueueJobRun(JOBS[input.job_name], 'MANUAL', new Date(), { triggered_by: userId });
+  } catch (error) {
+    console.error('Job trigger failed:', error);
+    throw error;
+  }
+}
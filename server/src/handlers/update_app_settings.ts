@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { appSettingsTable, usersTable } from '../db/schema';
+import { type UpdateAppSettingsInput, type AppSettings } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getAppSettings } from '../helpers/app_settings';
+import { requireSlaOrder } from '../helpers/approval_slas';
+
+export async function updateAppSettings(input: UpdateAppSettingsInput, adminId: number): Promise<AppSettings> {
+  try {
+    // Only admins may change application settings
+    const admin = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (admin[0].role !== 'ADMIN') {
+      throw new Error('Only administrators can update application settings');
+    }
+
+    const current = await getAppSettings();
+
+    const values = {
+      allow_unverified_expenses: input.allow_unverified_expenses ?? current.allow_unverified_expenses,
+      allow_unverified_team_members: input.allow_unverified_team_members ?? current.allow_unverified_team_members,
+      approval_reminder_days: input.approval_reminder_days ?? current.approval_reminder_days,
+      approval_escalation_days: input.approval_escalation_days ?? current.approval_escalation_days,
+      updated_by: adminId,
+      updated_at: new Date()
+    };
+
+    requireSlaOrder({ reminder_days: values.approval_reminder_days, escalation_days: values.approval_escalation_days });
+
+    // Settings live in a single row which is created on first save
+    const result = current.id === 0
+      ? await db.insert(appSettingsTable).values(values).returning().execute()
+      : await db.update(appSettingsTable).set(values).where(eq(appSettingsTable.id, current.id)).returning().execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('App settings update failed:', error);
+    throw error;
+  }
+}
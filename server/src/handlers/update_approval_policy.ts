@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { approvalPoliciesTable, approvalPolicyStepsTable, type NewApprovalPolicy } from '../db/schema';
+import { type UpdateApprovalPolicyInput, type ApprovalPolicy } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { loadApprovalPolicy, toApprovalPolicy, validateApprovalSteps } from '../helpers/approvals';
+
+// Renames a policy or replaces its steps. Expenses whose chain was already
+// built keep the steps they started with.
+export async function updateApprovalPolicy(input: UpdateApprovalPolicyInput): Promise<ApprovalPolicy> {
+  try {
+    await loadApprovalPolicy(input.id);
+
+    const steps = input.steps;
+    if (steps !== undefined) {
+      await validateApprovalSteps(steps);
+    }
+
+    const updateData: Partial<NewApprovalPolicy> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.currency !== undefined) updateData.currency = input.currency;
+
+    return await db.transaction(async (tx) => {
+      const [policy] = await tx.update(approvalPoliciesTable)
+        .set(updateData)
+        .where(eq(approvalPoliciesTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (steps !== undefined) {
+        await tx.delete(approvalPolicyStepsTable)
+          .where(eq(approvalPolicyStepsTable.policy_id, input.id))
+          .execute();
+
+        await tx.insert(approvalPolicyStepsTable)
+          .values(steps.map((step, index) => ({
+            policy_id: input.id,
+            position: index + 1,
+            name: step.name,
+            approver_type: step.approver_type,
+            approver_id: step.approver_id ?? null,
+            threshold: step.threshold.toString()
+          })))
+          .execute();
+      }
+
+      const policySteps = await tx.select()
+        .from(approvalPolicyStepsTable)
+        .where(eq(approvalPolicyStepsTable.policy_id, input.id))
+        .orderBy(asc(approvalPolicyStepsTable.position))
+        .execute();
+
+      return toApprovalPolicy(policy, policySteps);
+    });
+  } catch (error) {
+    console.error('Approval policy update failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,7 @@
 import { db } from '../db';
-import { budgetsTable } from '../db/schema';
+import { budgetPeriodsTable, budgetsTable } from '../db/schema';
 import { type UpdateBudgetInput, type Budget } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
 
 export const updateBudget = async (input: UpdateBudgetInput): Promise<Budget> => {
   try {
@@ -30,6 +30,10 @@ export const updateBudget = async (input: UpdateBudgetInput): Promise<Budget> =>
       updateData.alert_threshold = input.alert_threshold;
     }
 
+    if (input.carry_over !== undefined) {
+      updateData.carry_over = input.carry_over;
+    }
+
     if (input.is_active !== undefined) {
       updateData.is_active = input.is_active;
     }
@@ -43,6 +47,20 @@ export const updateBudget = async (input: UpdateBudgetInput): Promise<Budget> =>
 
     const updatedBudget = result[0];
 
+    // A new limit applies to the current month as well; closed months keep theirs
+    if (input.monthly_limit !== undefined) {
+      await db.update(budgetPeriodsTable)
+        .set({
+          monthly_limit: updateData.monthly_limit,
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(budgetPeriodsTable.budget_id, input.id),
+          isNull(budgetPeriodsTable.closed_at)
+        ))
+        .execute();
+    }
+
     // Convert numeric fields back to numbers
     return {
       ...updatedBudget,
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { budgetAlertOptOutsTable } from '../db/schema';
+import { type UpdateBudgetAlertPreferenceInput, type BudgetAlertPreference } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { loadCategory } from '../helpers/categories';
+
+export async function updateBudgetAlertPreference(input: UpdateBudgetAlertPreferenceInput): Promise<BudgetAlertPreference> {
+  try {
+    await loadCategory(input.category_id);
+
+    if (input.enabled) {
+      await db.delete(budgetAlertOptOutsTable)
+        .where(and(
+          eq(budgetAlertOptOutsTable.user_id, input.user_id),
+          eq(budgetAlertOptOutsTable.category_id, input.category_id)
+        ))
+        .execute();
+    } else {
+      await db.insert(budgetAlertOptOutsTable)
+        .values({ user_id: input.user_id, category_id: input.category_id })
+        .onConflictDoNothing()
+        .execute();
+    }
+
+    return { category_id: input.category_id, enabled: input.enabled };
+  } catch (error) {
+    console.error('Budget alert preference update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { categoriesTable, type NewCategory } from '../db/schema';
+import { type UpdateCategoryInput, type Category } from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadCategory, loadCategoryTree, requireUniqueCategoryName } from '../helpers/categories';
+
+// Renames, restyles or moves a category. Moving takes its subcategories along,
+// so budgets on the old and new parent see different spending from then on.
+export async function updateCategory(input: UpdateCategoryInput): Promise<Category> {
+  try {
+    const existing = await loadCategory(input.id);
+
+    const updateData: Partial<NewCategory> = {
+      updated_at: new Date()
+    };
+
+    const parentId = input.parent_id !== undefined ? input.parent_id : existing.parent_id;
+    if (parentId !== existing.parent_id) {
+      if (parentId !== null) {
+        const tree = await loadCategoryTree();
+        if (tree.withDescendants(existing.id).includes(parentId)) {
+          throw new Error('A category cannot be moved below itself');
+        }
+
+        const parent = await loadCategory(parentId);
+        if (parent.archived_at !== null) {
+          throw new Error('Parent category is archived');
+        }
+      }
+      updateData.parent_id = parentId;
+    }
+
+    const name = input.name ?? existing.name;
+    if (name !== existing.name || parentId !== existing.parent_id) {
+      if (existing.archived_at === null) {
+        await requireUniqueCategoryName(name, parentId, existing.id);
+      }
+      updateData.name = name;
+    }
+
+    if (input.icon !== undefined) updateData.icon = input.icon;
+    if (input.color !== undefined) updateData.color = input.color;
+
+    const result = await db.update(categoriesTable)
+      .set(updateData)
+      .where(eq(categoriesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category update failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,15 @@
 import { db } from '../db';
-import { expensesTable, budgetsTable } from '../db/schema';
+import { expensesTable } from '../db/schema';
 import { type UpdateExpenseInput, type Expense } from '../schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { findReceiptForExpense, receiptFileUrl, requireExternalReceiptUrl } from '../helpers/receipts';
+import { requireActiveCategory } from '../helpers/categories';
+import { loadExpenseTags, setExpenseTags } from '../helpers/tags';
+import { requireConvertibleCurrency, requireTeamSubmitter, toExpense } from '../helpers/expenses';
+import { refreshSearchVectors } from '../helpers/expense_search';
+import { refreshBudgetsForExpenses } from '../helpers/budget_periods';
+import { restartApprovalChain } from '../helpers/approvals';
+import { sendBudgetAlerts } from './send_budget_alerts';
 
 export const updateExpense = async (input: UpdateExpenseInput): Promise<Expense> => {
   try {
@@ -16,8 +24,18 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<Expense>
     }
 
     const existingExpense = existingExpenses[0];
-    const oldAmount = parseFloat(existingExpense.amount);
-    const oldCategory = existingExpense.category;
+
+    // A decided expense was decided for its amount; it can't be changed afterwards
+    const changesAmount = (input.amount !== undefined && input.amount !== parseFloat(existingExpense.amount))
+      || (input.currency !== undefined && input.currency !== existingExpense.currency)
+      || (input.expense_date !== undefined && input.expense_date.getTime() !== existingExpense.expense_date.getTime());
+    if (changesAmount && (existingExpense.status === 'APPROVED' || existingExpense.status === 'REJECTED')) {
+      throw new Error(`The amount, currency and date of ${existingExpense.status.toLowerCase()} expenses cannot be changed`);
+    }
+    // These pick the approval chain and the budgets the expense counts against again
+    if (changesAmount && existingExpense.team_id !== null) {
+      await requireTeamSubmitter(existingExpense.team_id, existingExpense.user_id);
+    }
 
     // Build update object with only provided fields
     const updateData: any = {
@@ -26,13 +44,36 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<Expense>
 
     if (input.title !== undefined) updateData.title = input.title;
     if (input.description !== undefined) updateData.description = input.description;
+    if (input.merchant !== undefined) updateData.merchant = input.merchant;
     if (input.amount !== undefined) updateData.amount = input.amount.toString();
-    if (input.category !== undefined) updateData.category = input.category;
-    if (input.receipt_url !== undefined) updateData.receipt_url = input.receipt_url;
+    if (input.currency !== undefined && input.currency !== existingExpense.currency) {
+      await requireConvertibleCurrency({ ...existingExpense, currency: input.currency, expense_date: input.expense_date ?? existingExpense.expense_date });
+      updateData.currency = input.currency;
+    }
+    if (input.category_id !== undefined && input.category_id !== existingExpense.category_id) {
+      await requireActiveCategory(input.category_id);
+      updateData.category_id = input.category_id;
+    }
+    if (input.receipt_url !== undefined && input.receipt_url !== existingExpense.receipt_url) {
+      if (input.receipt_id === undefined) requireExternalReceiptUrl(input.receipt_url);
+      updateData.receipt_url = input.receipt_url;
+    }
+    if (input.receipt_id !== undefined) {
+      updateData.receipt_id = input.receipt_id;
+      updateData.receipt_url = null;
+      if (input.receipt_id !== null) {
+        const receipt = await findReceiptForExpense(input.receipt_id, existingExpense.user_id);
+        updateData.receipt_url = receiptFileUrl(receipt.id);
+      }
+    }
     if (input.expense_date !== undefined) updateData.expense_date = input.expense_date;
     if (input.is_recurring !== undefined) updateData.is_recurring = input.is_recurring;
     if (input.recurring_frequency !== undefined) updateData.recurring_frequency = input.recurring_frequency;
-    if (input.tags !== undefined) updateData.tags = JSON.stringify(input.tags);
+
+    // Edited occurrences of a series keep their changes when the series is edited
+    if (existingExpense.recurring_series_id !== null && Object.keys(updateData).length > 1) {
+      updateData.recurrence_modified = true;
+    }
 
     // Update the expense
     const updatedExpenses = await db.update(expensesTable)
@@ -42,57 +83,31 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<Expense>
       .execute();
 
     const updatedExpense = updatedExpenses[0];
-    const newAmount = parseFloat(updatedExpense.amount);
-    const newCategory = updatedExpense.category;
 
-    // Update budget impacts if amount or category changed
-    if (input.amount !== undefined || input.category !== undefined) {
-      // If category changed, we need to update both old and new category budgets
-      if (input.category !== undefined && oldCategory !== newCategory) {
-        // Decrease old category budget
-        await db.update(budgetsTable)
-          .set({
-            current_spent: sql`current_spent - ${oldAmount}::numeric`,
-            updated_at: new Date()
-          })
-          .where(and(
-            eq(budgetsTable.user_id, updatedExpense.user_id),
-            eq(budgetsTable.category, oldCategory)
-          ))
-          .execute();
-
-        // Increase new category budget
-        await db.update(budgetsTable)
-          .set({
-            current_spent: sql`current_spent + ${newAmount}::numeric`,
-            updated_at: new Date()
-          })
-          .where(and(
-            eq(budgetsTable.user_id, updatedExpense.user_id),
-            eq(budgetsTable.category, newCategory)
-          ))
-          .execute();
-      } else if (input.amount !== undefined) {
-        // Only amount changed, update the difference
-        const amountDifference = newAmount - oldAmount;
-        await db.update(budgetsTable)
-          .set({
-            current_spent: sql`current_spent + ${amountDifference}::numeric`,
-            updated_at: new Date()
-          })
-          .where(and(
-            eq(budgetsTable.user_id, updatedExpense.user_id),
-            eq(budgetsTable.category, newCategory)
-          ))
-          .execute();
+    // Tags live in their own table and aren't part of the series; setting them
+    // also rebuilds the search document
+    let tags: string[];
+    if (input.tags !== undefined) {
+      tags = await setExpenseTags(updatedExpense.id, updatedExpense.user_id, input.tags);
+    } else {
+      tags = (await loadExpenseTags([updatedExpense.id])).get(updatedExpense.id) ?? [];
+      if (input.title !== undefined || input.description !== undefined || input.merchant !== undefined) {
+        await refreshSearchVectors(eq(expensesTable.id, updatedExpense.id));
       }
     }
 
+    // The chain's thresholds were applied to the old amount
+    if (updatedExpense.status === 'PENDING' && (updateData.amount !== undefined || updateData.currency !== undefined)) {
+      await restartApprovalChain(updatedExpense.id);
+    }
+
+    // An approved expense counts wherever it was and wherever it is now
+    if (updatedExpense.status === 'APPROVED') {
+      await sendBudgetAlerts(await refreshBudgetsForExpenses([existingExpense, updatedExpense]));
+    }
+
     // Convert numeric fields back to numbers before returning
-    return {
-      ...updatedExpense,
-      amount: parseFloat(updatedExpense.amount)
-    };
+    return toExpense(updatedExpense, tags);
   } catch (error) {
     console.error('Expense update failed:', error);
     throw error;
@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, type NewRecurringSeries } from '../db/schema';
+import { type UpdateRecurringSeriesInput, type RecurringSeries } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { nextOccurrence, validateSchedule, type RecurrenceSchedule } from '../helpers/recurrence';
+import { loadSeries, scheduleOf, toRecurringSeries } from '../helpers/recurring_series';
+import { toCalendarDate } from '../helpers/dates';
+import { requireActiveCategory } from '../helpers/categories';
+import { requireConvertibleCurrency } from '../helpers/expenses';
+import { refreshSearchVectors } from '../helpers/expense_search';
+import { restartApprovalChain } from '../helpers/approvals';
+
+export async function updateRecurringSeries(input: UpdateRecurringSeriesInput): Promise<RecurringSeries> {
+  try {
+    const existing = await loadSeries(input.id);
+
+    const updateData: Partial<NewRecurringSeries> = {
+      updated_at: new Date()
+    };
+
+    // Template fields, also copied onto generated expenses below
+    const template: Partial<NewRecurringSeries> = {};
+    if (input.title !== undefined) template.title = input.title;
+    if (input.description !== undefined) template.description = input.description;
+    if (input.amount !== undefined) template.amount = input.amount.toString();
+    if (input.currency !== undefined && input.currency !== existing.currency) {
+      await requireConvertibleCurrency({ ...existing, currency: input.currency, expense_date: new Date() });
+      template.currency = input.currency;
+    }
+    if (input.category_id !== undefined && input.category_id !== existing.category_id) {
+      await requireActiveCategory(input.category_id);
+      template.category_id = input.category_id;
+    }
+
+    // Schedule fields, the series continues after the latest occurrence
+    const schedule: RecurrenceSchedule = {
+      ...scheduleOf(existing),
+      ...(input.frequency !== undefined ? { frequency: input.frequency } : {}),
+      ...(input.interval !== undefined ? { interval: input.interval } : {}),
+      ...(input.rule !== undefined ? { rule: input.rule } : {}),
+      ...(input.end_date !== undefined ? { end_date: input.end_date ? toCalendarDate(input.end_date) : null } : {})
+    };
+    if (schedule.frequency !== 'CUSTOM') {
+      schedule.rule = null;
+    }
+
+    const scheduleChanged = input.frequency !== undefined || input.interval !== undefined
+      || input.rule !== undefined || input.end_date !== undefined || input.max_occurrences !== undefined;
+
+    if (scheduleChanged) {
+      validateSchedule(schedule);
+      const maxOccurrences = input.max_occurrences !== undefined ? input.max_occurrences : existing.max_occurrences;
+      const finished = maxOccurrences !== null && existing.occurrence_count >= maxOccurrences;
+
+      Object.assign(updateData, {
+        frequency: schedule.frequency,
+        interval: schedule.interval,
+        rule: schedule.rule,
+        end_date: schedule.end_date,
+        max_occurrences: maxOccurrences,
+        next_occurrence_date: finished ? null : nextOccurrence(schedule, existing.last_occurrence_date)
+      });
+    }
+
+    // Pending occurrences that weren't edited on their own take the template changes
+    const followsSeries = and(
+      eq(expensesTable.recurring_series_id, input.id),
+      eq(expensesTable.status, 'PENDING'),
+      eq(expensesTable.recurrence_modified, false)
+    );
+
+    const { updated, followers } = await db.transaction(async (tx) => {
+      const result = await tx.update(recurringSeriesTable)
+        .set({ ...updateData, ...template })
+        .where(eq(recurringSeriesTable.id, input.id))
+        .returning()
+        .execute();
+
+      const followers = Object.keys(template).length > 0
+        ? await tx.update(expensesTable)
+          .set({ ...template, updated_at: new Date() })
+          .where(followsSeries)
+          .returning({ id: expensesTable.id })
+          .execute()
+        : [];
+
+      return { updated: result[0], followers };
+    });
+
+    // Their chains' thresholds were applied to the old amount
+    if (template.amount !== undefined || template.currency !== undefined) {
+      for (const follower of followers) {
+        await restartApprovalChain(follower.id);
+      }
+    }
+
+    if (template.title !== undefined || template.description !== undefined) {
+      await refreshSearchVectors(followsSeries);
+    }
+
+    return toRecurringSeries(updated);
+  } catch (error) {
+    console.error('Recurring series update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { teamsTable } from '../db/schema';
+import { type Team, type UpdateTeamApprovalSlaInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getAppSettings } from '../helpers/app_settings';
+import { requireSlaOrder } from '../helpers/approval_slas';
+
+export async function updateTeamApprovalSla(input: UpdateTeamApprovalSlaInput): Promise<Team> {
+  try {
+    const teams = await db.select()
+      .from(teamsTable)
+      .where(eq(teamsTable.id, input.team_id))
+      .execute();
+
+    if (teams.length === 0) {
+      throw new Error('Team not found');
+    }
+
+    const reminderDays = input.reminder_days !== undefined ? input.reminder_days : teams[0].approval_reminder_days;
+    const escalationDays = input.escalation_days !== undefined ? input.escalation_days : teams[0].approval_escalation_days;
+
+    // Checked against the company settings the team falls back to
+    const settings = await getAppSettings();
+    requireSlaOrder({
+      reminder_days: reminderDays ?? settings.approval_reminder_days,
+      escalation_days: escalationDays ?? settings.approval_escalation_days
+    });
+
+    const result = await db.update(teamsTable)
+      .set({
+        approval_reminder_days: reminderDays,
+        approval_escalation_days: escalationDays,
+        updated_at: new Date()
+      })
+      .where(eq(teamsTable.id, input.team_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Team approval SLA update failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,8 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { expensesTable, usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { type UpdateUserProfileInput, type User } from '../schema';
+import { requireExchangeRates } from '../helpers/currency';
 
 export async function updateUserProfile(input: UpdateUserProfileInput): Promise<User> {
   try {
@@ -32,6 +33,16 @@ export async function updateUserProfile(input: UpdateUserProfileInput): Promise<
       updateData['avatar_url'] = input.avatar_url;
     }
 
+    if (input.home_currency !== undefined && input.home_currency !== existingUser[0].home_currency) {
+      // The user's expenses are converted to their home currency
+      const expenses = await db.selectDistinct({ currency: expensesTable.currency })
+        .from(expensesTable)
+        .where(eq(expensesTable.user_id, input.id))
+        .execute();
+      await requireExchangeRates(input.home_currency, expenses.map(expense => expense.currency), new Date());
+      updateData['home_currency'] = input.home_currency;
+    }
+
     // Update the user record
     const result = await db.update(usersTable)
       .set(updateData)
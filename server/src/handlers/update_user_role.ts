@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type UpdateUserRoleInput, type User } from '../schema';
+
+// Admins grant and revoke roles. Roles are read from the database on every
+// request, so the change applies to tokens already issued.
+export async function updateUserRole(input: UpdateUserRoleInput, changedBy: number): Promise<User> {
+  try {
+    // Keeps an admin from locking themselves out
+    if (input.user_id === changedBy) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        role: input.role,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('User role update failed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,11 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, receiptsTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { getStorage, apiFileUrl } from '../helpers/storage';
+import { receiptFileUrl } from '../helpers/receipts';
+import { detectFileType, canonicalMimeType } from '../helpers/file_type';
+import { isProcessableImage, exceedsPixelLimit, normalizeImage, createThumbnail, MAX_IMAGE_PIXELS, THUMBNAIL_CONTENT_TYPE } from '../helpers/image_processing';
+import * as crypto from 'crypto';
 
 // Constants for file validation
 const ALLOWED_MIME_TYPES = [
@@ -12,7 +17,7 @@ const ALLOWED_MIME_TYPES = [
   'application/pdf'
 ];
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
+export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 
 const MIME_TYPE_EXTENSIONS = {
   'image/jpeg': 'jpg',
@@ -26,7 +31,7 @@ const MIME_TYPE_EXTENSIONS = {
 export async function uploadReceipt(
   userId: number,
   file: { buffer: Buffer; filename: string; mimetype: string }
-): Promise<{ success: boolean; file_url: string; message: string }> {
+): Promise<{ success: boolean; file_url: string; thumbnail_url: string | null; receipt_id: number | null; message: string }> {
   try {
     // Validate user exists
     const users = await db.select()
@@ -58,23 +63,81 @@ export async function uploadReceipt(
       throw new Error('File is empty');
     }
 
-    // Generate unique filename
+    // The declared type must match what the bytes actually are
+    const contentType = canonicalMimeType(file.mimetype);
+    if (detectFileType(file.buffer) !== contentType) {
+      throw new Error('File content does not match the declared file type');
+    }
+
+    // Re-encode images: strips EXIF data and downscales oversized photos
+    let data = file.buffer;
+    let dimensions: { width: number; height: number } | null = null;
+    let thumbnail: Buffer | null = null;
+    if (isProcessableImage(contentType)) {
+      if (await exceedsPixelLimit(file.buffer)) {
+        throw new Error(`Image too large. Maximum size allowed: ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`);
+      }
+
+      try {
+        const normalized = await normalizeImage(file.buffer, contentType);
+        data = normalized.data;
+        dimensions = { width: normalized.width, height: normalized.height };
+        thumbnail = (await createThumbnail(normalized.data)).data;
+      } catch (error) {
+        console.error('Receipt image processing failed:', error);
+        throw new Error('Image could not be processed');
+      }
+    }
+
+    // Generate unique storage keys
     const timestamp = Date.now();
-    const randomId = Math.random().toString(36).substring(2, 15);
+    const randomId = crypto.randomBytes(8).toString('hex');
     const extension = MIME_TYPE_EXTENSIONS[file.mimetype as keyof typeof MIME_TYPE_EXTENSIONS];
-    const uniqueFilename = `receipt_${userId}_${timestamp}_${randomId}.${extension}`;
+    const baseKey = `receipts/${userId}/receipt_${userId}_${timestamp}_${randomId}`;
+    const storageKey = `${baseKey}.${extension}`;
+    const thumbnailKey = thumbnail ? `${baseKey}_thumb.jpg` : null;
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+
+    const storage = getStorage();
+    await storage.put(storageKey, data, contentType);
+    if (thumbnail && thumbnailKey) {
+      await storage.put(thumbnailKey, thumbnail, THUMBNAIL_CONTENT_TYPE);
+    }
 
-    // Simulate cloud storage upload
-    // In a real implementation, this would upload to AWS S3, Google Cloud Storage, etc.
-    const baseStorageUrl = process.env['STORAGE_BASE_URL'] || 'https://storage.example.com';
-    const file_url = `${baseStorageUrl}/receipts/${uniqueFilename}`;
+    let receipt;
+    try {
+      [receipt] = await db.insert(receiptsTable)
+        .values({
+          user_id: userId,
+          storage_key: storageKey,
+          filename: file.filename,
+          content_type: contentType,
+          size: data.length,
+          sha256,
+          width: dimensions?.width ?? null,
+          height: dimensions?.height ?? null,
+          thumbnail_key: thumbnailKey
+        })
+        .returning()
+        .execute();
+    } catch (error) {
+      // Don't leave orphaned bytes behind when the metadata can't be recorded
+      await storage.delete(storageKey);
+      if (thumbnailKey) {
+        await storage.delete(thumbnailKey);
+      }
+      throw error;
+    }
 
-    // Log successful upload (in real implementation, actual upload would happen here)
-    console.log(`Receipt uploaded for user ${userId}: ${file_url} (${file.buffer.length} bytes)`);
+    // Served by the authenticated download routes, see file_routes.ts
+    const file_url = receiptFileUrl(receipt.id);
+    const thumbnail_url = thumbnailKey ? apiFileUrl(`/receipts/${receipt.id}/thumbnail`) : null;
 
     return {
       success: true,
       file_url,
+      thumbnail_url,
+      receipt_id: receipt.id,
       message: 'Receipt uploaded successfully'
     };
 
@@ -86,6 +149,8 @@ export async function uploadReceipt(
     return {
       success: false,
       file_url: '',
+      thumbnail_url: null,
+      receipt_id: null,
       message: `Upload failed: ${errorMessage}`
     };
   }
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type VerifyEmailInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashOneTimeToken } from '../helpers/one_time_token';
+
+export async function verifyEmail(input: VerifyEmailInput): Promise<{ success: boolean; message: string }> {
+  try {
+    // Consume the token and mark the address verified in one statement
+    const result = await db.update(usersTable)
+      .set({
+        email_verified: true,
+        email_verification_token: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.email_verification_token, hashOneTimeToken(input.token)))
+      .returning({ id: usersTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Invalid or already used verification token');
+    }
+
+    return {
+      success: true,
+      message: 'Email address verified successfully'
+    };
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { appSettingsTable } from '../db/schema';
+import { type AppSettings } from '../schema';
+import { asc } from 'drizzle-orm';
+
+// Used until an admin saves settings for the first time
+const DEFAULT_APP_SETTINGS: AppSettings = {
+  id: 0,
+  allow_unverified_expenses: true,
+  allow_unverified_team_members: true,
+  approval_reminder_days: 3,
+  approval_escalation_days: 7,
+  updated_by: null,
+  updated_at: new Date(0)
+};
+
+export async function getAppSettings(): Promise<AppSettings> {
+  const rows = await db.select()
+    .from(appSettingsTable)
+    .orderBy(asc(appSettingsTable.id))
+    .limit(1)
+    .execute();
+
+  return rows[0] ?? DEFAULT_APP_SETTINGS;
+}
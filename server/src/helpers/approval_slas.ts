@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { teamsTable } from '../db/schema';
+import { getAppSettings } from './app_settings';
+
+// Approval SLAs: a pending expense is overdue, and its approver reminded, once
+// it has waited on its current step more than the reminder days; after the
+// escalation days the step is handed on. Teams may override the company
+// settings.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface ApprovalSla {
+  reminder_days: number;
+  escalation_days: number;
+}
+
+export function requireSlaOrder(sla: ApprovalSla): void {
+  if (sla.escalation_days <= sla.reminder_days) {
+    throw new Error('Escalation must come after the reminder');
+  }
+}
+
+// The SLA of each team, the company settings for expenses without a team
+export async function loadApprovalSlas(): Promise<(teamId: number | null) => ApprovalSla> {
+  const settings = await getAppSettings();
+  const teams = await db.select({
+    id: teamsTable.id,
+    reminder_days: teamsTable.approval_reminder_days,
+    escalation_days: teamsTable.approval_escalation_days
+  })
+    .from(teamsTable)
+    .execute();
+
+  const company: ApprovalSla = {
+    reminder_days: settings.approval_reminder_days,
+    escalation_days: settings.approval_escalation_days
+  };
+  const byTeam = new Map(teams.map(team => [team.id, {
+    reminder_days: team.reminder_days ?? company.reminder_days,
+    escalation_days: team.escalation_days ?? company.escalation_days
+  }]));
+
+  return (teamId) => (teamId !== null ? byTeam.get(teamId) : undefined) ?? company;
+}
+
+// Full days between the two instants
+export const daysBetween = (from: Date, to: Date): number => Math.floor((to.getTime() - from.getTime()) / DAY);
+
+// Waited more than `days` days
+export const waitedLonger = (since: Date, now: Date, days: number): boolean =>
+  now.getTime() - since.getTime() > days * DAY;
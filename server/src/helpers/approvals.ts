@@ -0,0 +1,378 @@
+import { db } from '../db';
+import {
+  approvalDelegationsTable,
+  approvalPoliciesTable,
+  approvalPolicyStepsTable,
+  expenseApprovalsTable,
+  expensesTable,
+  teamsTable,
+  usersTable,
+  type ApprovalPolicy as ApprovalPolicyRow,
+  type ApprovalPolicyStep as ApprovalPolicyStepRow,
+  type Expense as ExpenseRow,
+  type ExpenseApproval as ExpenseApprovalRow
+} from '../db/schema';
+import { type ApprovalPolicy, type ApprovalPolicyStepInput, type UserRole } from '../schema';
+import { and, asc, eq, gte, inArray, isNull, lte, notExists, or, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { DEFAULT_CURRENCY, loadCurrencyConverter } from './currency';
+import { toCalendarDate } from './dates';
+
+// Expenses are approved step by step along an approval chain. The steps come
+// from the approval policy of the expense's team, else from the company-wide
+// policy, else a single team manager step. A step only joins the chain when
+// the expense amount, converted to the policy currency, is above its threshold.
+// Chains are built when first needed and name each step's approver then; steps
+// without one (ADMIN steps, a team without a manager, a manager who filed the
+// expense) can be decided by any admin. Admins may decide any step. Approvers
+// out of office delegate the steps named for them; the delegate decides them
+// on their behalf. When an expense is resubmitted or its amount changes, the
+// next round of the chain is built and the earlier rounds stay as its history.
+
+type ChainStep = Pick<ApprovalPolicyStepRow, 'name' | 'approver_type' | 'approver_id'> & { threshold: number };
+
+const DEFAULT_STEPS: ChainStep[] = [
+  { name: 'Team manager', approver_type: 'TEAM_MANAGER', approver_id: null, threshold: 0 }
+];
+
+interface Approver {
+  id: number;
+  role: UserRole;
+}
+
+export const toApprovalPolicy = (policy: ApprovalPolicyRow, steps: ApprovalPolicyStepRow[]): ApprovalPolicy => ({
+  ...policy,
+  steps: steps.map(({ policy_id, ...step }) => ({ ...step, threshold: parseFloat(step.threshold) }))
+});
+
+export async function loadApprovalPolicySteps(policyId: number): Promise<ApprovalPolicyStepRow[]> {
+  return db.select()
+    .from(approvalPolicyStepsTable)
+    .where(eq(approvalPolicyStepsTable.policy_id, policyId))
+    .orderBy(asc(approvalPolicyStepsTable.position))
+    .execute();
+}
+
+export async function loadApprovalPolicy(policyId: number): Promise<ApprovalPolicyRow> {
+  const rows = await db.select()
+    .from(approvalPoliciesTable)
+    .where(eq(approvalPoliciesTable.id, policyId))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error('Approval policy not found');
+  }
+  return rows[0];
+}
+
+// Every expense needs at least one step, and named approvers must be able to approve
+export async function validateApprovalSteps(steps: ApprovalPolicyStepInput[]): Promise<void> {
+  if (steps[0].threshold !== 0) {
+    throw new Error('The first approval step must apply to every expense');
+  }
+
+  for (const step of steps) {
+    if (step.approver_type !== 'USER') {
+      if (step.approver_id != null) {
+        throw new Error(`Only USER steps name an approver, "${step.name}" is a ${step.approver_type} step`);
+      }
+      continue;
+    }
+
+    if (step.approver_id == null) {
+      throw new Error(`Approval step "${step.name}" needs an approver`);
+    }
+
+    const approvers = await db.select({ role: usersTable.role, is_active: usersTable.is_active })
+      .from(usersTable)
+      .where(eq(usersTable.id, step.approver_id))
+      .execute();
+
+    if (approvers.length === 0) {
+      throw new Error(`User with ID ${step.approver_id} not found`);
+    }
+
+    if (approvers[0].role === 'USER' || !approvers[0].is_active) {
+      throw new Error(`User with ID ${step.approver_id} cannot approve expenses`);
+    }
+  }
+}
+
+// The team's policy, else the company-wide one, else the built-in single step
+async function chainStepsFor(teamId: number | null): Promise<{ currency: string; steps: ChainStep[] }> {
+  const policies = await db.select()
+    .from(approvalPoliciesTable)
+    .where(teamId === null
+      ? isNull(approvalPoliciesTable.team_id)
+      : or(eq(approvalPoliciesTable.team_id, teamId), isNull(approvalPoliciesTable.team_id)))
+    .execute();
+
+  const policy = policies.find(row => row.team_id !== null) ?? policies[0];
+  if (!policy) {
+    return { currency: DEFAULT_CURRENCY, steps: DEFAULT_STEPS };
+  }
+
+  const steps = await loadApprovalPolicySteps(policy.id);
+  return {
+    currency: policy.currency,
+    steps: steps.map(step => ({ ...step, threshold: parseFloat(step.threshold) }))
+  };
+}
+
+// Currency the expenses of the team are compared to step thresholds in, null
+// when their chain has a single step and no thresholds
+export async function approvalThresholdCurrency(teamId: number | null): Promise<string | null> {
+  const { currency, steps } = await chainStepsFor(teamId);
+  return steps.length > 1 ? currency : null;
+}
+
+// Builds the next round of the chain of a pending expense
+async function startApprovalChain(expense: ExpenseRow): Promise<void> {
+  const { currency, steps } = await chainStepsFor(expense.team_id);
+
+  // Only the steps after the first have thresholds to compare the amount to
+  let amount = 0;
+  if (steps.length > 1) {
+    const converter = await loadCurrencyConverter([expense.currency, currency]);
+    amount = converter.convert(parseFloat(expense.amount), expense.currency, currency, expense.expense_date);
+  }
+
+  let managerId: number | null = null;
+  if (expense.team_id !== null) {
+    const teams = await db.select({ manager_id: teamsTable.manager_id })
+      .from(teamsTable)
+      .where(eq(teamsTable.id, expense.team_id))
+      .execute();
+    managerId = teams[0]?.manager_id ?? null;
+  }
+
+  const rounds = await db.select({ round: sql<number | null>`max(${expenseApprovalsTable.round})` })
+    .from(expenseApprovalsTable)
+    .where(eq(expenseApprovalsTable.expense_id, expense.id))
+    .execute();
+  const round = (rounds[0].round ?? 0) + 1;
+
+  const chain = steps.filter((step, index) => index === 0 || amount > step.threshold);
+  const values = chain.map((step, index) => {
+    const approverId = step.approver_type === 'TEAM_MANAGER' ? managerId : step.approver_id;
+    return {
+      expense_id: expense.id,
+      round,
+      step: index + 1,
+      name: step.name,
+      // Nobody approves their own expense
+      approver_id: approverId === expense.user_id ? null : approverId
+    };
+  });
+
+  // A concurrent start built the same round already
+  await db.insert(expenseApprovalsTable)
+    .values(values)
+    .onConflictDoNothing()
+    .execute();
+}
+
+// Every round of each expense's chain, in order
+export async function loadApprovalHistories(expenseIds: number[]): Promise<Map<number, ExpenseApprovalRow[]>> {
+  const histories = new Map<number, ExpenseApprovalRow[]>();
+  if (expenseIds.length === 0) {
+    return histories;
+  }
+
+  const rows = await db.select()
+    .from(expenseApprovalsTable)
+    .where(inArray(expenseApprovalsTable.expense_id, expenseIds))
+    .orderBy(asc(expenseApprovalsTable.expense_id), asc(expenseApprovalsTable.round), asc(expenseApprovalsTable.step))
+    .execute();
+
+  for (const row of rows) {
+    histories.set(row.expense_id, [...(histories.get(row.expense_id) ?? []), row]);
+  }
+  return histories;
+}
+
+const latestRound = (history: ExpenseApprovalRow[]): ExpenseApprovalRow[] =>
+  history.filter(row => row.round === history[history.length - 1]?.round);
+
+// Steps of the expense's current round in order. A pending expense without a
+// step left to decide (never submitted to a chain, resubmitted, or restarted)
+// gets its next round.
+export async function loadApprovalChain(expense: ExpenseRow): Promise<ExpenseApprovalRow[]> {
+  let history = (await loadApprovalHistories([expense.id])).get(expense.id) ?? [];
+  if (expense.status === 'PENDING' && !history.some(row => row.status === 'PENDING')) {
+    await startApprovalChain(expense);
+    history = (await loadApprovalHistories([expense.id])).get(expense.id) ?? [];
+  }
+  return latestRound(history);
+}
+
+// Builds the next round for pending expenses that have no step left to decide.
+// An expense whose chain can't be built (e.g. no exchange rate to the policy
+// currency) is left out rather than failing everyone's approvals.
+export async function syncApprovalChains(): Promise<void> {
+  const unstarted = await db.select()
+    .from(expensesTable)
+    .where(and(
+      eq(expensesTable.status, 'PENDING'),
+      notExists(db.select({ id: expenseApprovalsTable.id })
+        .from(expenseApprovalsTable)
+        .where(and(
+          eq(expenseApprovalsTable.expense_id, expensesTable.id),
+          eq(expenseApprovalsTable.status, 'PENDING')
+        )))
+    ))
+    .execute();
+
+  for (const expense of unstarted) {
+    try {
+      await startApprovalChain(expense);
+    } catch (error) {
+      console.error(`Approval chain of expense ${expense.id} could not be built:`, error);
+    }
+  }
+}
+
+export interface WaitingExpense {
+  expense: ExpenseRow;
+  chain: ExpenseApprovalRow[]; // current round
+  step: ExpenseApprovalRow; // the step it waits on
+}
+
+// Every pending expense with the step it is waiting on
+export async function loadWaitingExpenses(): Promise<WaitingExpense[]> {
+  await syncApprovalChains();
+  const expenses = await db.select()
+    .from(expensesTable)
+    .where(eq(expensesTable.status, 'PENDING'))
+    .orderBy(asc(expensesTable.id))
+    .execute();
+
+  const histories = await loadApprovalHistories(expenses.map(expense => expense.id));
+  const waiting: WaitingExpense[] = [];
+  for (const expense of expenses) {
+    const chain = latestRound(histories.get(expense.id) ?? []);
+    const step = currentStep(chain);
+    // Decided since the chains were synced
+    if (step !== null) {
+      waiting.push({ expense, chain, step });
+    }
+  }
+  return waiting;
+}
+
+// Ends the current round so the next one is built for the expense as it is
+// now, e.g. after the amount of a pending expense changed. A round nobody
+// decided anything in yet is dropped instead of kept as history.
+export async function restartApprovalChain(expenseId: number): Promise<void> {
+  const history = (await loadApprovalHistories([expenseId])).get(expenseId) ?? [];
+  if (history.length === 0) {
+    return;
+  }
+
+  const round = latestRound(history);
+  const untouched = round.every(row => row.status === 'PENDING');
+  const where = and(
+    eq(expenseApprovalsTable.expense_id, expenseId),
+    eq(expenseApprovalsTable.round, round[0].round),
+    eq(expenseApprovalsTable.status, 'PENDING')
+  );
+
+  if (untouched) {
+    await db.delete(expenseApprovalsTable).where(where).execute();
+  } else {
+    await db.update(expenseApprovalsTable).set({ status: 'SKIPPED' }).where(where).execute();
+  }
+}
+
+// When the expense was submitted for its latest round: filed for the first
+// round, resubmitted or restarted for later ones
+export function submittedAt(expense: ExpenseRow, history: ExpenseApprovalRow[]): Date {
+  const round = latestRound(history);
+  return round.length === 0 || round[0].round === 1 ? expense.created_at : round[0].created_at;
+}
+
+// When the expense started waiting on its current step: when the step before
+// it was approved, else when the expense was submitted for the round
+export function waitingSince(expense: ExpenseRow, history: ExpenseApprovalRow[]): Date {
+  const round = latestRound(history);
+  const step = currentStep(round);
+  const previous = step !== null ? round[round.indexOf(step) - 1] : undefined;
+  return previous?.decided_at ?? submittedAt(expense, history);
+}
+
+// The step the expense is waiting on, null once the chain is decided
+export const currentStep = (chain: ExpenseApprovalRow[]): ExpenseApprovalRow | null =>
+  chain.find(step => step.status === 'PENDING') ?? null;
+
+// Who the approver decides the step for: themselves, or the step's approver
+// when that approver delegated the expense's team to them for `day`. Null when
+// the step isn't theirs to decide.
+export async function decidingFor(step: ExpenseApprovalRow, expense: ExpenseRow, approver: Approver, day: string = toCalendarDate(new Date())): Promise<number | null> {
+  if (step.approver_id === approver.id) {
+    return approver.id;
+  }
+
+  if (step.approver_id !== null && expense.user_id !== approver.id) {
+    const delegations = await db.select({ id: approvalDelegationsTable.id })
+      .from(approvalDelegationsTable)
+      .where(and(
+        eq(approvalDelegationsTable.delegator_id, step.approver_id),
+        eq(approvalDelegationsTable.delegate_id, approver.id),
+        lte(approvalDelegationsTable.start_date, day),
+        gte(approvalDelegationsTable.end_date, day),
+        expense.team_id === null
+          ? isNull(approvalDelegationsTable.team_id)
+          : or(isNull(approvalDelegationsTable.team_id), eq(approvalDelegationsTable.team_id, expense.team_id))
+      ))
+      .limit(1)
+      .execute();
+
+    if (delegations.length > 0) {
+      return step.approver_id;
+    }
+  }
+
+  return approver.role === 'ADMIN' ? approver.id : null;
+}
+
+// Whether the user approves, approved or was escalated away from one of the
+// expense's steps, or decides its current step as a delegate
+export async function isExpenseApprover(expense: ExpenseRow, user: Approver): Promise<boolean> {
+  const chain = await loadApprovalChain(expense);
+  const history = (await loadApprovalHistories([expense.id])).get(expense.id) ?? [];
+  if (history.some(row => [row.approver_id, row.decided_by, row.on_behalf_of, row.escalated_from].includes(user.id))) {
+    return true;
+  }
+
+  const step = currentStep(chain);
+  return step !== null && step.approver_id !== null && await decidingFor(step, expense, user) === step.approver_id;
+}
+
+// Condition on expense_approvals rows: the step its expense is waiting on
+export const isCurrentStep: SQL = sql`${expenseApprovalsTable.status} = 'PENDING' and ${expenseApprovalsTable.step} = (
+  select min(earlier.step) from ${expenseApprovalsTable} earlier
+  where earlier.expense_id = ${expenseApprovalsTable.expense_id} and earlier.status = 'PENDING'
+)`;
+
+// Condition on expense_approvals rows: the step's approver delegated the
+// expense's team to the user for `day`, and the expense isn't the user's own
+const delegatedTo = (userId: number, day: string): SQL => sql`exists (
+  select 1 from ${approvalDelegationsTable}
+  join ${expensesTable} on ${expensesTable.id} = ${expenseApprovalsTable.expense_id}
+  where ${approvalDelegationsTable.delegate_id} = ${userId}
+    and ${approvalDelegationsTable.delegator_id} = ${expenseApprovalsTable.approver_id}
+    and ${approvalDelegationsTable.start_date} <= ${day}
+    and ${approvalDelegationsTable.end_date} >= ${day}
+    and (${approvalDelegationsTable.team_id} is null or ${approvalDelegationsTable.team_id} = ${expensesTable.team_id})
+    and ${expensesTable.user_id} <> ${userId}
+)`;
+
+// `column` holds an expense whose current step is up to the approver, as
+// themselves or as a delegate. Admins get the steps left to any admin, not
+// every step they could decide.
+export const awaitingApprover = (column: AnyPgColumn, approver: Approver, day: string = toCalendarDate(new Date())): SQL => sql`${column} in (
+  select ${expenseApprovalsTable.expense_id} from ${expenseApprovalsTable}
+  where ${isCurrentStep}
+    and (${expenseApprovalsTable.approver_id} = ${approver.id}
+      or ${delegatedTo(approver.id, day)}${approver.role === 'ADMIN' ? sql` or ${expenseApprovalsTable.approver_id} is null` : sql``})
+)`;
@@ -0,0 +1,105 @@
+import * as crypto from 'crypto';
+import { type UserRole } from '../schema';
+
+// HS256-signed JWT used for every authenticated session.
+// Secret and issuer come from env so that all replicas agree on them.
+const DEFAULT_ISSUER = 'expense-manager-pro';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+export interface AuthTokenClaims {
+  userId: number;
+  email: string;
+  role: UserRole;
+  sv: number; // users.session_version at issue time
+  iss: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+let fallbackSecret: string | null = null;
+
+function getSecret(): string {
+  const secret = process.env['AUTH_TOKEN_SECRET'];
+  if (secret) {
+    return secret;
+  }
+
+  // Without a configured secret, sign with a per-process random key so tokens
+  // can never be forged - they simply stop validating after a restart.
+  if (!fallbackSecret) {
+    console.warn('AUTH_TOKEN_SECRET is not set, using a random per-process secret');
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function getIssuer(): string {
+  return process.env['AUTH_TOKEN_ISSUER'] || DEFAULT_ISSUER;
+}
+
+function getTtlSeconds(): number {
+  const ttl = parseInt(process.env['AUTH_TOKEN_TTL_SECONDS'] || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+export function signAuthToken(user: { id: number; email: string; role: UserRole; session_version: number }): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AuthTokenClaims = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sv: user.session_version,
+    iss: getIssuer(),
+    iat: now,
+    exp: now + getTtlSeconds(),
+    jti: crypto.randomBytes(16).toString('hex')
+  };
+
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+export function verifyAuthToken(token: string): AuthTokenClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid token');
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid token signature');
+  }
+
+  let claims: AuthTokenClaims;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (decodedHeader.alg !== 'HS256') {
+      throw new Error('Unsupported algorithm');
+    }
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new Error('Invalid token');
+  }
+
+  if (claims.iss !== getIssuer()) {
+    throw new Error('Invalid token issuer');
+  }
+
+  if (typeof claims.userId !== 'number' || typeof claims.sv !== 'number' || typeof claims.exp !== 'number') {
+    throw new Error('Invalid token');
+  }
+
+  if (claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new Error('Token expired');
+  }
+
+  return claims;
+}
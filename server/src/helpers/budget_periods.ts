@@ -0,0 +1,232 @@
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable, type Budget as BudgetRow, type BudgetPeriod as BudgetPeriodRow, type Expense as ExpenseRow } from '../db/schema';
+import { type BudgetPeriod } from '../schema';
+import { and, asc, desc, eq, gte } from 'drizzle-orm';
+import { roundAmount } from './currency';
+import { addDays, fromCalendarDate, toCalendarDate } from './dates';
+import { budgetsCountingExpense, computeBudgetSpent } from './budget_spending';
+import { inCategoryAncestors } from './categories';
+
+// Budgets are tracked per calendar month. Each month gets a budget_periods row
+// holding the limit in effect and the spending of that month (see
+// helpers/budget_spending.ts). When a
+// month is over its period is closed and the next one opened, carrying the
+// unspent amount over for budgets with `carry_over` set. Periods are opened on
+// demand and by the ROLL_OVER_BUDGETS job, so months nobody looked at are
+// filled in later with the same result.
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// YYYY-MM-01 of the month containing the date
+export const periodStartOf = (date: Date): string =>
+  toCalendarDate(new Date(date.getFullYear(), date.getMonth(), 1));
+
+const nextPeriodStart = (periodStart: string): string => {
+  const start = fromCalendarDate(periodStart);
+  return toCalendarDate(new Date(start.getFullYear(), start.getMonth() + 1, 1));
+};
+
+export const periodEndOf = (periodStart: string): string => addDays(nextPeriodStart(periodStart), -1);
+
+export const toBudgetPeriod = (period: BudgetPeriodRow, currency: string): BudgetPeriod => {
+  const monthlyLimit = parseFloat(period.monthly_limit);
+  const carriedOver = parseFloat(period.carried_over);
+  const spent = parseFloat(period.spent);
+  return {
+    id: period.id,
+    budget_id: period.budget_id,
+    period_start: period.period_start,
+    period_end: periodEndOf(period.period_start),
+    currency,
+    monthly_limit: monthlyLimit,
+    carried_over: carriedOver,
+    spent,
+    remaining: roundAmount(monthlyLimit + carriedOver - spent),
+    closed_at: period.closed_at
+  };
+};
+
+const unspentOf = (period: BudgetPeriodRow): number =>
+  Math.max(0, roundAmount(parseFloat(period.monthly_limit) + parseFloat(period.carried_over) - parseFloat(period.spent)));
+
+// What a period carries over from the one before it
+export const carriedOverFrom = (budget: Pick<BudgetRow, 'carry_over'>, previous: BudgetPeriodRow | null): number =>
+  budget.carry_over && previous !== null ? unspentOf(previous) : 0;
+
+// Brings the budget's periods up to `now`: closes finished months, opens the
+// missing ones (starting with the month the budget was created) and refreshes
+// the spending of the current month. Returns the current period. Runs in
+// `tx` when given, e.g. to open the periods of a budget being created.
+export async function syncBudgetPeriods(budgetId: number, now: Date = new Date(), tx?: Transaction): Promise<BudgetPeriodRow> {
+  return tx ? syncPeriods(tx, budgetId, now) : db.transaction(tx => syncPeriods(tx, budgetId, now));
+}
+
+async function syncPeriods(tx: Transaction, budgetId: number, now: Date): Promise<BudgetPeriodRow> {
+  const budgets = await tx.select()
+    .from(budgetsTable)
+    .where(eq(budgetsTable.id, budgetId))
+    .for('update')
+    .execute();
+
+  if (budgets.length === 0) {
+    throw new Error('Budget not found');
+  }
+
+  const budget = budgets[0];
+  const currentStart = periodStartOf(now);
+
+  const latest = await tx.select()
+    .from(budgetPeriodsTable)
+    .where(eq(budgetPeriodsTable.budget_id, budgetId))
+    .orderBy(desc(budgetPeriodsTable.period_start))
+    .limit(1)
+    .execute();
+
+  let previous: BudgetPeriodRow | null = latest[0] ?? null;
+
+  if (previous !== null && previous.period_start >= currentStart) {
+    const refreshed = await tx.update(budgetPeriodsTable)
+      .set({ spent: (await computeBudgetSpent(budget, previous.period_start)).toString(), updated_at: now })
+      .where(eq(budgetPeriodsTable.id, previous.id))
+      .returning()
+      .execute();
+    return refreshed[0];
+  }
+
+  if (previous !== null && previous.closed_at === null) {
+    const closed = await tx.update(budgetPeriodsTable)
+      .set({ spent: (await computeBudgetSpent(budget, previous.period_start)).toString(), closed_at: now, updated_at: now })
+      .where(eq(budgetPeriodsTable.id, previous.id))
+      .returning()
+      .execute();
+    previous = closed[0];
+  }
+
+  let periodStart = previous !== null ? nextPeriodStart(previous.period_start) : periodStartOf(budget.created_at);
+  if (periodStart > currentStart) {
+    periodStart = currentStart; // budgets created with a future timestamp
+  }
+
+  while (periodStart <= currentStart) {
+    const carriedOver: number = budget.carry_over && previous !== null ? unspentOf(previous) : 0;
+    const inserted: BudgetPeriodRow[] = await tx.insert(budgetPeriodsTable)
+      .values({
+        budget_id: budgetId,
+        period_start: periodStart,
+        monthly_limit: budget.monthly_limit,
+        carried_over: carriedOver.toString(),
+        spent: (await computeBudgetSpent(budget, periodStart)).toString(),
+        closed_at: periodStart < currentStart ? now : null
+      })
+      .returning()
+      .execute();
+
+    previous = inserted[0];
+    periodStart = nextPeriodStart(periodStart);
+  }
+
+  return previous!;
+}
+
+// Refreshes the budget's periods and its cached current_spent; returns the current period
+export async function refreshBudget(budgetId: number, now: Date = new Date(), tx?: Transaction): Promise<BudgetPeriodRow> {
+  const current = await syncBudgetPeriods(budgetId, now, tx);
+
+  await (tx ?? db).update(budgetsTable)
+    .set({ current_spent: current.spent, updated_at: now })
+    .where(eq(budgetsTable.id, budgetId))
+    .execute();
+
+  return current;
+}
+
+// Recomputes what every period after `month` carried over, once the spending
+// of `month` changed. Returns the latest period of the budget.
+export async function recomputeCarriedOver(budget: Pick<BudgetRow, 'id' | 'carry_over'>, month: string, now: Date = new Date()): Promise<BudgetPeriodRow | null> {
+  const periods = await db.select()
+    .from(budgetPeriodsTable)
+    .where(and(
+      eq(budgetPeriodsTable.budget_id, budget.id),
+      gte(budgetPeriodsTable.period_start, month)
+    ))
+    .orderBy(asc(budgetPeriodsTable.period_start))
+    .execute();
+
+  let previous: BudgetPeriodRow | null = periods[0] ?? null;
+  for (const period of periods.slice(1)) {
+    const carriedOver = carriedOverFrom(budget, previous);
+    previous = period;
+    if (parseFloat(period.carried_over) !== carriedOver) {
+      const updated = await db.update(budgetPeriodsTable)
+        .set({ carried_over: carriedOver.toString(), updated_at: now })
+        .where(eq(budgetPeriodsTable.id, period.id))
+        .returning()
+        .execute();
+      previous = updated[0];
+    }
+  }
+  return previous;
+}
+
+export interface RefreshedBudget {
+  budget: BudgetRow;
+  current: BudgetPeriodRow;
+}
+
+// Called after expenses were approved, edited or deleted: recomputes the
+// budgets they count against, including closed months they fall into.
+// Returns the refreshed budgets with their current period; budgets that could
+// not be refreshed are left out.
+export async function refreshBudgetsForExpenses(
+  expenses: Pick<ExpenseRow, 'user_id' | 'team_id' | 'category_id' | 'expense_date'>[],
+  now: Date = new Date()
+): Promise<RefreshedBudget[]> {
+  const affected = new Map<number, { budget: BudgetRow; months: Set<string> }>();
+  for (const expense of expenses) {
+    const budgets = await db.select()
+      .from(budgetsTable)
+      .where(and(
+        inCategoryAncestors(budgetsTable.category_id, expense.category_id),
+        budgetsCountingExpense(expense)
+      ))
+      .execute();
+
+    for (const budget of budgets) {
+      const entry = affected.get(budget.id) ?? { budget, months: new Set<string>() };
+      entry.months.add(periodStartOf(expense.expense_date));
+      affected.set(budget.id, entry);
+    }
+  }
+
+  const refreshed: RefreshedBudget[] = [];
+  for (const { budget, months } of affected.values()) {
+    // A budget that can't convert some of its expenses keeps its figures
+    // instead of failing the change that affected it
+    try {
+      let current = await refreshBudget(budget.id, now);
+
+      // The current month was refreshed above
+      const closedMonths = [...months].filter(month => month < current.period_start).sort();
+      for (const month of closedMonths) {
+        await db.update(budgetPeriodsTable)
+          .set({ spent: (await computeBudgetSpent(budget, month)).toString(), updated_at: now })
+          .where(and(
+            eq(budgetPeriodsTable.budget_id, budget.id),
+            eq(budgetPeriodsTable.period_start, month)
+          ))
+          .execute();
+      }
+
+      // Later months carry over what the recomputed ones left unspent
+      if (closedMonths.length > 0) {
+        current = await recomputeCarriedOver(budget, closedMonths[0], now) ?? current;
+      }
+
+      refreshed.push({ budget, current });
+    } catch (error) {
+      console.error(`Budget ${budget.id} could not be refreshed:`, error);
+    }
+  }
+
+  return refreshed;
+}
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { budgetsTable, expensesTable, type Budget as BudgetRow, type Expense as ExpenseRow } from '../db/schema';
+import { and, eq, gte, inArray, lt, or, sql, type SQL } from 'drizzle-orm';
+import { loadCurrencyConverter, requireExchangeRates, roundAmount } from './currency';
+import { fromCalendarDate } from './dates';
+import { inCategoryTree } from './categories';
+
+// The one rule for what a budget has spent. An expense counts against the
+// budgets of its category and of the categories above it, in the month of its expense date, once it is
+// approved: the submitter's USER budget, the TEAM budget of the team it was
+// filed against and the COMPANY budget. Pending, rejected and deleted expenses
+// never count. Stored
+// figures (budget_periods.spent and budgets.current_spent) are caches of this
+// computation and are refreshed through helpers/budget_periods.ts, never
+// adjusted in place.
+
+export const BUDGET_SPENDING_STATUSES = ['APPROVED'] as const;
+
+type BudgetOwnership = Pick<BudgetRow, 'scope' | 'user_id' | 'team_id'>;
+
+// Expenses counted by a budget, apart from category, status and date
+const scopeCondition = (budget: BudgetOwnership): SQL | undefined => {
+  switch (budget.scope) {
+    case 'USER':
+      return eq(expensesTable.user_id, budget.user_id);
+    case 'TEAM':
+      return budget.team_id !== null ? eq(expensesTable.team_id, budget.team_id) : sql`false`;
+    case 'COMPANY':
+      return undefined;
+  }
+};
+
+// Budgets an expense counts against, apart from category
+export const budgetsCountingExpense = (expense: Pick<ExpenseRow, 'user_id' | 'team_id'>): SQL => or(
+  and(eq(budgetsTable.scope, 'USER'), eq(budgetsTable.user_id, expense.user_id)),
+  expense.team_id !== null ? and(eq(budgetsTable.scope, 'TEAM'), eq(budgetsTable.team_id, expense.team_id)) : undefined,
+  eq(budgetsTable.scope, 'COMPANY')
+)!;
+
+// Spending during the month starting on `periodStart` (YYYY-MM-01), in the budget currency
+export async function computeBudgetSpent(budget: BudgetOwnership & Pick<BudgetRow, 'category_id' | 'currency'>, periodStart: string): Promise<number> {
+  const start = fromCalendarDate(periodStart);
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+
+  const spending = await db.select({
+    amount: expensesTable.amount,
+    currency: expensesTable.currency,
+    expense_date: expensesTable.expense_date
+  })
+    .from(expensesTable)
+    .where(and(
+      scopeCondition(budget),
+      inCategoryTree(expensesTable.category_id, [budget.category_id]),
+      inArray(expensesTable.status, [...BUDGET_SPENDING_STATUSES]),
+      gte(expensesTable.expense_date, start),
+      lt(expensesTable.expense_date, end)
+    ))
+    .execute();
+
+  // Expenses in other currencies count at the rate of their expense date
+  const converter = await loadCurrencyConverter([budget.currency, ...spending.map(expense => expense.currency)]);
+  return roundAmount(spending.reduce(
+    (total, expense) => total + converter.convert(parseFloat(expense.amount), expense.currency, budget.currency, expense.expense_date),
+    0
+  ));
+}
+
+// A budget converts the expenses it counts to its currency, so one in a
+// currency without exchange rates to theirs is refused
+export async function requireConvertibleBudgetCurrency(budget: BudgetOwnership & Pick<BudgetRow, 'category_id' | 'currency'>): Promise<void> {
+  const expenses = await db.selectDistinct({ currency: expensesTable.currency })
+    .from(expensesTable)
+    .where(and(
+      scopeCondition(budget),
+      inCategoryTree(expensesTable.category_id, [budget.category_id])
+    ))
+    .execute();
+
+  await requireExchangeRates(budget.currency, expenses.map(expense => expense.currency), new Date());
+}
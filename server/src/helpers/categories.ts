@@ -0,0 +1,127 @@
+import { db } from '../db';
+import { categoriesTable, type Category as CategoryRow } from '../db/schema';
+import { and, eq, isNull, ne, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Expense categories form a tree: built-in top-level categories (seeded with
+// fixed ids so they match across databases) plus custom categories and
+// subcategories added by admins. Budgets and filters on a category include
+// its subcategories.
+
+export const DEFAULT_CATEGORIES = [
+  { id: 1, key: 'FOOD_DINING', name: 'Food & Dining', icon: 'utensils', color: '#F97316' },
+  { id: 2, key: 'TRANSPORTATION', name: 'Transportation', icon: 'car', color: '#3B82F6' },
+  { id: 3, key: 'SHOPPING', name: 'Shopping', icon: 'shopping-bag', color: '#EC4899' },
+  { id: 4, key: 'ENTERTAINMENT', name: 'Entertainment', icon: 'film', color: '#8B5CF6' },
+  { id: 5, key: 'BILLS_UTILITIES', name: 'Bills & Utilities', icon: 'receipt', color: '#EAB308' },
+  { id: 6, key: 'HEALTHCARE', name: 'Healthcare', icon: 'heart-pulse', color: '#EF4444' },
+  { id: 7, key: 'EDUCATION', name: 'Education', icon: 'graduation-cap', color: '#14B8A6' },
+  { id: 8, key: 'TRAVEL', name: 'Travel', icon: 'plane', color: '#0EA5E9' },
+  { id: 9, key: 'BUSINESS', name: 'Business', icon: 'briefcase', color: '#64748B' },
+  { id: 10, key: 'OTHERS', name: 'Others', icon: 'tag', color: '#9CA3AF' }
+] as const;
+
+export type DefaultCategoryKey = typeof DEFAULT_CATEGORIES[number]['key'];
+
+export const DEFAULT_CATEGORY_IDS = Object.fromEntries(
+  DEFAULT_CATEGORIES.map(category => [category.key, category.id])
+) as Record<DefaultCategoryKey, number>;
+
+// Inserts the built-in categories that are missing; safe to run on every start
+export async function seedDefaultCategories(): Promise<void> {
+  await db.insert(categoriesTable)
+    .values(DEFAULT_CATEGORIES.map(category => ({ ...category })))
+    .onConflictDoNothing()
+    .execute();
+
+  // The fixed ids bypass the sequence, so move it past them
+  await db.execute(sql`select setval(pg_get_serial_sequence('categories', 'id'), (select max(id) from categories))`);
+}
+
+// `column` holds one of the categories or a category below them
+export const inCategoryTree = (column: AnyPgColumn, categoryIds: number[]): SQL => categoryIds.length === 0 ? sql`false` : sql`${column} in (
+  with recursive tree(id) as (
+    select id from categories where id in (${sql.join(categoryIds.map(id => sql`${id}`), sql`, `)})
+    union
+    select categories.id from categories join tree on categories.parent_id = tree.id
+  )
+  select id from tree
+)`;
+
+// `column` holds the category or a category above it
+export const inCategoryAncestors = (column: AnyPgColumn, categoryId: number): SQL => sql`${column} in (
+  with recursive path(id, parent_id) as (
+    select id, parent_id from categories where id = ${categoryId}
+    union
+    select categories.id, categories.parent_id from categories join path on categories.id = path.parent_id
+  )
+  select id from path
+)`;
+
+export interface CategoryTree {
+  byId: Map<number, CategoryRow>;
+  // The category and every category below it
+  withDescendants(categoryId: number): number[];
+}
+
+// The whole tree in memory, for callers that group many expenses by category
+export async function loadCategoryTree(): Promise<CategoryTree> {
+  const rows = await db.select().from(categoriesTable).execute();
+
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const children = new Map<number, number[]>();
+  for (const row of rows) {
+    if (row.parent_id !== null) {
+      children.set(row.parent_id, [...(children.get(row.parent_id) ?? []), row.id]);
+    }
+  }
+
+  return {
+    byId,
+    withDescendants(categoryId: number): number[] {
+      const ids = [categoryId];
+      for (let i = 0; i < ids.length; i++) {
+        ids.push(...(children.get(ids[i]) ?? []).filter(id => !ids.includes(id)));
+      }
+      return ids;
+    }
+  };
+}
+
+export async function loadCategory(categoryId: number): Promise<CategoryRow> {
+  const rows = await db.select()
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, categoryId))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error('Category not found');
+  }
+  return rows[0];
+}
+
+// New expenses, budgets and series can only use categories that aren't archived
+export async function requireActiveCategory(categoryId: number): Promise<CategoryRow> {
+  const category = await loadCategory(categoryId);
+  if (category.archived_at !== null) {
+    throw new Error('Category is archived');
+  }
+  return category;
+}
+
+// Active siblings can't share a name, ignoring case
+export async function requireUniqueCategoryName(name: string, parentId: number | null, excludeId?: number): Promise<void> {
+  const clashes = await db.select({ id: categoriesTable.id })
+    .from(categoriesTable)
+    .where(and(
+      sql`lower(${categoriesTable.name}) = lower(${name})`,
+      parentId === null ? isNull(categoriesTable.parent_id) : eq(categoriesTable.parent_id, parentId),
+      isNull(categoriesTable.archived_at),
+      excludeId !== undefined ? ne(categoriesTable.id, excludeId) : undefined
+    ))
+    .execute();
+
+  if (clashes.length > 0) {
+    throw new Error(`A category named "${name}" already exists here`);
+  }
+}
@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { inArray, or } from 'drizzle-orm';
+import { toCalendarDate } from './dates';
+
+// Converts amounts between currencies using the locally imported daily rates.
+// Rates are stored relative to a base currency (EUR for ECB files), so any two
+// currencies quoted against the same base can be converted through it.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface CurrencyConverter {
+  // Converts `amount` with the rate in effect on `date`, rounded to cents
+  convert(amount: number, from: string, to: string, date: Date): number;
+}
+
+interface DatedRate {
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Latest rate published on or before the day; falls back to the earliest later
+// rate so expenses older than the imported history still convert
+const rateOn = (rates: DatedRate[], day: string): number => {
+  let low = 0;
+  let high = rates.length - 1;
+  let match = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (rates[mid].date <= day) {
+      match = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return rates[Math.max(match, 0)].rate;
+};
+
+export async function loadCurrencyConverter(currencies: Iterable<string>): Promise<CurrencyConverter> {
+  const wanted = [...new Set(currencies)];
+
+  // Rates keyed by `${base}:${currency}`, each list sorted by date
+  const pairs = new Map<string, DatedRate[]>();
+  const bases = new Set<string>();
+
+  if (wanted.length > 1) {
+    const rows = await db.select()
+      .from(exchangeRatesTable)
+      .where(or(
+        inArray(exchangeRatesTable.currency, wanted),
+        inArray(exchangeRatesTable.base_currency, wanted)
+      ))
+      .execute();
+
+    for (const row of rows) {
+      const key = `${row.base_currency}:${row.currency}`;
+      const list = pairs.get(key) ?? [];
+      list.push({ date: row.rate_date, rate: parseFloat(row.rate) });
+      pairs.set(key, list);
+      bases.add(row.base_currency);
+    }
+    pairs.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  // Units of `currency` for one unit of `base` on the day, or null without rates
+  const quote = (base: string, currency: string, day: string): number | null => {
+    if (base === currency) return 1;
+    const direct = pairs.get(`${base}:${currency}`);
+    if (direct) return rateOn(direct, day);
+    const inverse = pairs.get(`${currency}:${base}`);
+    if (inverse) return 1 / rateOn(inverse, day);
+    return null;
+  };
+
+  return {
+    convert(amount: number, from: string, to: string, date: Date): number {
+      if (from === to) return amount;
+
+      const day = toCalendarDate(date);
+      const direct = quote(from, to, day);
+      if (direct !== null) return roundAmount(amount * direct);
+
+      for (const base of bases) {
+        const fromRate = quote(base, from, day);
+        const toRate = quote(base, to, day);
+        if (fromRate !== null && toRate !== null) {
+          return roundAmount(amount / fromRate * toRate);
+        }
+      }
+
+      throw new Error(`No exchange rate available to convert ${from} to ${to}`);
+    }
+  };
+}
+
+// Throws unless `currency` converts to each of the targets with the imported rates
+export async function requireExchangeRates(currency: string, targets: string[], date: Date): Promise<void> {
+  const converter = await loadCurrencyConverter([currency, ...targets]);
+  for (const target of new Set(targets)) {
+    converter.convert(1, currency, target, date);
+  }
+}
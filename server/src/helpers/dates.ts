@@ -0,0 +1,20 @@
+// Calendar days (YYYY-MM-DD) in server local time, the way expense dates are
+// entered. Used for date-only columns such as exchange rate days and
+// recurring expense occurrences.
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toCalendarDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of a YYYY-MM-DD day
+export const fromCalendarDate = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, date);
+};
+
+export const addDays = (day: string, days: number): string => {
+  const date = fromCalendarDate(day);
+  date.setDate(date.getDate() + days);
+  return toCalendarDate(date);
+};
@@ -0,0 +1,169 @@
+// Parsers for exchange rate files. Two layouts are understood:
+//
+// - CSV, either one rate per row (`date,currency,rate[,base]`) or the ECB
+//   download layout with one row per day and one column per currency
+//   (`Date,USD,JPY,...`, "N/A" for missing quotes)
+// - the ECB XML feeds (eurofxref-daily.xml / eurofxref-hist.xml), whose rates
+//   are quoted against EUR
+
+export interface ParsedExchangeRate {
+  base_currency: string;
+  currency: string;
+  rate: number;
+  rate_date: string; // YYYY-MM-DD
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Accepts ISO dates and the "17 October 2025" form used by the ECB daily CSV
+export const parseRateDate = (value: string): string | null => {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const written = text.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10)];
+  } else if (written) {
+    const monthIndex = MONTHS.findIndex(name => name.startsWith(written[2].toLowerCase()) && written[2].length >= 3);
+    if (monthIndex < 0) return null;
+    [year, month, day] = [parseInt(written[3], 10), monthIndex + 1, parseInt(written[1], 10)];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseRate = (value: string, context: string): number => {
+  const rate = Number(value.trim());
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid exchange rate "${value.trim()}" ${context}`);
+  }
+  return rate;
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+export function parseExchangeRatesCsv(content: string, defaultBase: string): ParsedExchangeRate[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Exchange rate file is empty');
+  }
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const dateColumn = header.indexOf('date');
+  if (dateColumn < 0) {
+    throw new Error('Exchange rate CSV must have a "date" column');
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  const currencyColumn = header.indexOf('currency');
+  const rateColumn = header.indexOf('rate');
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const context = `on line ${index + 2}`;
+    const rateDate = parseRateDate(cells[dateColumn] ?? '');
+    if (!rateDate) {
+      throw new Error(`Invalid date "${cells[dateColumn] ?? ''}" ${context}`);
+    }
+
+    if (currencyColumn >= 0 && rateColumn >= 0) {
+      // One rate per row
+      const baseColumn = header.indexOf('base');
+      const base = baseColumn >= 0 && cells[baseColumn] ? cells[baseColumn].toUpperCase() : defaultBase;
+      const currency = (cells[currencyColumn] ?? '').toUpperCase();
+      if (!CURRENCY_CODE.test(currency) || !CURRENCY_CODE.test(base)) {
+        throw new Error(`Invalid currency code ${context}`);
+      }
+      rates.push({ base_currency: base, currency, rate: parseRate(cells[rateColumn] ?? '', context), rate_date: rateDate });
+      return;
+    }
+
+    // One column per currency
+    header.forEach((column, columnIndex) => {
+      const currency = column.toUpperCase();
+      const value = cells[columnIndex] ?? '';
+      if (columnIndex === dateColumn || !CURRENCY_CODE.test(currency) || value === '' || value.toUpperCase() === 'N/A') {
+        return;
+      }
+      rates.push({ base_currency: defaultBase, currency, rate: parseRate(value, `for ${currency} ${context}`), rate_date: rateDate });
+    });
+  });
+
+  return rates;
+}
+
+export function parseEcbXml(content: string): ParsedExchangeRate[] {
+  const rates: ParsedExchangeRate[] = [];
+  const attribute = (tag: string, name: string): string | null =>
+    tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1] ?? null;
+
+  let rateDate: string | null = null;
+  for (const [tag] of content.matchAll(/<(?:\w+:)?Cube\b[^>]*>/g)) {
+    const time = attribute(tag, 'time');
+    if (time !== null) {
+      rateDate = parseRateDate(time);
+      if (!rateDate) {
+        throw new Error(`Invalid date "${time}" in ECB file`);
+      }
+      continue;
+    }
+
+    const currency = attribute(tag, 'currency');
+    const rate = attribute(tag, 'rate');
+    if (currency === null || rate === null) {
+      continue;
+    }
+    if (!rateDate) {
+      throw new Error('ECB file lists rates outside a dated Cube element');
+    }
+    if (!CURRENCY_CODE.test(currency)) {
+      throw new Error(`Invalid currency code "${currency}" in ECB file`);
+    }
+    rates.push({ base_currency: 'EUR', currency, rate: parseRate(rate, `for ${currency} on ${rateDate}`), rate_date: rateDate });
+  }
+
+  if (rates.length === 0) {
+    throw new Error('No exchange rates found in ECB file');
+  }
+  return rates;
+}
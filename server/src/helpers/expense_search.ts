@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Expenses are searched through a weighted tsvector: title and merchant rank
+// highest, then tags, then the description. Tags live in their own table, so
+// Postgres can't generate the document; every write that changes one of its
+// parts refreshes it instead, and start-up fills in any that are missing.
+
+const CONFIG = sql.raw(`'english'`);
+
+const searchDocument = sql`
+  setweight(to_tsvector(${CONFIG}, coalesce(${expensesTable.title}, '')), 'A') ||
+  setweight(to_tsvector(${CONFIG}, coalesce(${expensesTable.merchant}, '')), 'A') ||
+  setweight(to_tsvector(${CONFIG}, coalesce((
+    select string_agg(tags.name, ' ') from expense_tags join tags on tags.id = expense_tags.tag_id
+    where expense_tags.expense_id = ${expensesTable.id}
+  ), '')), 'B') ||
+  setweight(to_tsvector(${CONFIG}, coalesce(${expensesTable.description}, '')), 'C')
+`;
+
+// Rebuilds the search document of the matching expenses, all of them without a condition
+export async function refreshSearchVectors(where?: SQL): Promise<void> {
+  await db.update(expensesTable)
+    .set({ search_vector: searchDocument })
+    .where(where)
+    .execute();
+}
+
+// Web search syntax: words match on their stem, "quoted phrases" match in
+// order, -word excludes and `or` between terms matches either
+export const searchQuery = (term: string): SQL => sql`websearch_to_tsquery(${CONFIG}, ${term})`;
+
+export const matchesSearch = (term: string): SQL => sql`${expensesTable.search_vector} @@ ${searchQuery(term)}`;
+
+// Relevance, rounded so it survives a round trip through a cursor
+export const searchRank = (term: string): SQL<string> =>
+  sql<string>`round(ts_rank_cd(${expensesTable.search_vector}, ${searchQuery(term)})::numeric, 6)`;
+
+// HTML-escaped text with the matches wrapped in <mark>; `fragments` picks the
+// best matching passages instead of the whole text. Without a term it's just
+// the escaped text.
+export const searchHighlight = (column: AnyPgColumn, term: string, fragments?: number): SQL<string | null> => {
+  const escaped = sql<string | null>`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+  if (!term) {
+    return escaped;
+  }
+  const options = fragments
+    ? `StartSel=<mark>, StopSel=</mark>, MaxFragments=${fragments}, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`
+    : 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+  return sql<string | null>`ts_headline(${CONFIG}, ${escaped}, ${searchQuery(term)}, ${options})`;
+};
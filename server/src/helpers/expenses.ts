@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { budgetsTable, teamMembersTable, teamsTable, usersTable, type Expense as ExpenseRow } from '../db/schema';
+import { type Expense } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { loadExpenseTags } from './tags';
+import { requireExchangeRates } from './currency';
+import { approvalThresholdCurrency } from './approvals';
+import { budgetsCountingExpense } from './budget_spending';
+
+// API shape of an expense row: numeric amount, tag names and no search document
+export const toExpense = ({ search_vector, ...expense }: ExpenseRow, tags: string[]): Expense => ({
+  ...expense,
+  amount: parseFloat(expense.amount),
+  tags
+});
+
+export async function toExpenses(rows: ExpenseRow[]): Promise<Expense[]> {
+  const tags = await loadExpenseTags(rows.map(row => row.id));
+  return rows.map(row => toExpense(row, tags.get(row.id) ?? []));
+}
+
+// Only a team's members and its manager file expenses under it: the team
+// picks their approval chain and the budgets they count against
+export async function requireTeamSubmitter(teamId: number, userId: number): Promise<void> {
+  const teams = await db.select({ manager_id: teamsTable.manager_id, member_id: teamMembersTable.user_id })
+    .from(teamsTable)
+    .leftJoin(teamMembersTable, and(eq(teamMembersTable.team_id, teamsTable.id), eq(teamMembersTable.user_id, userId)))
+    .where(eq(teamsTable.id, teamId))
+    .execute();
+
+  if (teams.length === 0) {
+    throw new Error(`Team with id ${teamId} not found`);
+  }
+
+  if (teams[0].manager_id !== userId && teams[0].member_id === null) {
+    throw new Error('Only members of a team can file expenses under it');
+  }
+}
+
+// Expenses are converted to their submitter's home currency, to the currency
+// of their approval thresholds and to that of every budget they count against,
+// so one in a currency without exchange rates to those is refused
+export async function requireConvertibleCurrency(expense: Pick<ExpenseRow, 'user_id' | 'team_id' | 'currency' | 'expense_date'>): Promise<void> {
+  const users = await db.select({ home_currency: usersTable.home_currency })
+    .from(usersTable)
+    .where(eq(usersTable.id, expense.user_id))
+    .execute();
+
+  const budgets = await db.selectDistinct({ currency: budgetsTable.currency })
+    .from(budgetsTable)
+    .where(budgetsCountingExpense(expense))
+    .execute();
+
+  const thresholdCurrency = await approvalThresholdCurrency(expense.team_id);
+  await requireExchangeRates(expense.currency, [
+    ...users.map(user => user.home_currency),
+    ...(thresholdCurrency !== null ? [thresholdCurrency] : []),
+    ...budgets.map(budget => budget.currency)
+  ], expense.expense_date);
+}
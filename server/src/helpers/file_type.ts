@@ -0,0 +1,33 @@
+// Content sniffing for uploaded files. The client-supplied mimetype is never
+// trusted on its own; the leading "magic bytes" must agree with it.
+
+export type DetectedFileType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'application/pdf';
+
+const startsWith = (buffer: Buffer, bytes: number[], offset: number = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+
+export function detectFileType(buffer: Buffer): DetectedFileType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a'))) {
+    return 'image/gif';
+  }
+  if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) {
+    return 'image/webp';
+  }
+  if (startsWith(buffer, ascii('%PDF-'))) {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+// Map aliases such as image/jpg onto the type detectFileType reports
+export function canonicalMimeType(mimetype: string): string {
+  return mimetype === 'image/jpg' ? 'image/jpeg' : mimetype;
+}
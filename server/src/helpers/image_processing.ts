@@ -0,0 +1,76 @@
+import sharp from 'sharp';
+
+// Receipt photos are re-encoded before storage: orientation is baked in,
+// all metadata (EXIF GPS position, camera serials, ...) is dropped and
+// oversized images are scaled down.
+export const MAX_IMAGE_DIMENSION = 2400;
+export const THUMBNAIL_DIMENSION = 320;
+export const THUMBNAIL_CONTENT_TYPE = 'image/jpeg';
+// Images are decoded in full, so a small but highly compressed upload could
+// expand into a huge bitmap; sharp's own limit is about 268 megapixels
+export const MAX_IMAGE_PIXELS = 40_000_000;
+
+export interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+const IMAGE_FORMATS: Record<string, ImageFormat> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+export function isProcessableImage(mimetype: string): boolean {
+  return mimetype in IMAGE_FORMATS;
+}
+
+// Pixels decoded for the image, every frame of an animation included. Corrupt
+// images count as none and fail when decoded.
+async function decodedPixels(buffer: Buffer): Promise<number> {
+  try {
+    const { width = 0, height = 0, pages = 1 } = await sharp(buffer).metadata();
+    return width * height * pages;
+  } catch {
+    return 0;
+  }
+}
+
+export async function exceedsPixelLimit(buffer: Buffer): Promise<boolean> {
+  return await decodedPixels(buffer) > MAX_IMAGE_PIXELS;
+}
+
+export async function normalizeImage(buffer: Buffer, mimetype: string): Promise<ProcessedImage> {
+  const format = IMAGE_FORMATS[mimetype];
+  if (!format) {
+    throw new Error(`Unsupported image type: ${mimetype}`);
+  }
+
+  if (await exceedsPixelLimit(buffer)) {
+    throw new Error(`Image is larger than ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`);
+  }
+
+  // sharp writes no metadata unless asked to with withMetadata()
+  const { data, info } = await sharp(buffer, { animated: format === 'gif' || format === 'webp', limitInputPixels: MAX_IMAGE_PIXELS })
+    .rotate()
+    .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .toFormat(format)
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.pageHeight ?? info.height };
+}
+
+export async function createThumbnail(buffer: Buffer): Promise<ProcessedImage> {
+  const { data, info } = await sharp(buffer, { limitInputPixels: MAX_IMAGE_PIXELS })
+    .rotate()
+    .resize(THUMBNAIL_DIMENSION, THUMBNAIL_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
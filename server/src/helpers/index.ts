@@ -2,6 +2,7 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { seedDefaultCategories } from './categories';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -15,4 +16,5 @@ export const createDB = async () => {
     generateDrizzleJson({ ...schema })
   );
   await db.execute(migrationStatements.join('\n'));
+  await seedDefaultCategories();
 };
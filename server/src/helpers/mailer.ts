@@ -0,0 +1,132 @@
+import { mkdir, writeFile } from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMailMessage extends MailMessage {
+  from: string;
+  sent_at: Date;
+}
+
+export interface MailTransport {
+  send(message: SentMailMessage): Promise<void>;
+}
+
+// Keeps every message in memory - used by tests to read back delivered links
+export function createMemoryMailTransport(): MailTransport & { sent: SentMailMessage[] } {
+  const sent: SentMailMessage[] = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    }
+  };
+}
+
+// Writes one JSON file per message, handy for local development and CI
+export function createFileMailTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const filename = `${message.sent_at.getTime()}_${crypto.randomBytes(4).toString('hex')}.json`;
+      await writeFile(path.join(directory, filename), JSON.stringify(message, null, 2));
+    }
+  };
+}
+
+export interface HttpMailOptions {
+  url: string;
+  apiKey?: string;
+}
+
+// Delivers through an HTTP mail API taking `{ from, to, subject, text, html }`
+// as JSON with a bearer API key, such as Resend's /emails endpoint
+export function createHttpMailTransport(options: HttpMailOptions): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail delivery to ${message.to} failed with status ${response.status}`);
+      }
+    }
+  };
+}
+
+// Mail carries one-time tokens, which must not end up in logs
+export const redactTokens = (text: string): string => text.replace(/([?&]token=)[^&\s]+/g, '$1[redacted]');
+
+export function createConsoleMailTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`Mail to ${message.to}: ${message.subject}\n${redactTokens(message.text)}`);
+    }
+  };
+}
+
+let transport: MailTransport | null = null;
+
+function createTransportFromEnv(): MailTransport {
+  switch (process.env['MAIL_TRANSPORT']) {
+    case 'http': {
+      const url = process.env['MAIL_HTTP_URL'];
+      if (!url) {
+        throw new Error('MAIL_HTTP_URL must be set when MAIL_TRANSPORT is http');
+      }
+      return createHttpMailTransport({ url, apiKey: process.env['MAIL_HTTP_API_KEY'] });
+    }
+    case 'file':
+      return createFileMailTransport(process.env['MAIL_FILE_DIR'] || './mail');
+    case 'memory':
+      return createMemoryMailTransport();
+    case 'console':
+      return createConsoleMailTransport();
+    default:
+      console.warn('MAIL_TRANSPORT is not set: mail is logged with its links redacted instead of delivered');
+      return createConsoleMailTransport();
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+}
+
+export function setMailTransport(newTransport: MailTransport | null): void {
+  transport = newTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    from: process.env['MAIL_FROM'] || 'no-reply@expense-manager.local',
+    sent_at: new Date()
+  });
+}
+
+// Base URL used to build links in outgoing mail
+export function appUrl(pathname: string): string {
+  const baseUrl = (process.env['APP_BASE_URL'] || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${baseUrl}${pathname}`;
+}
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { categoriesTable } from '../db/schema';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { seedDefaultCategories } from './categories';
+
+// One-off upgrade for databases created while categories were the
+// `expense_category` enum. Creates and seeds the categories table, then
+// replaces each `category` column with `category_id` pointing at the matching
+// built-in category. Run before `db:push`, which adds the remaining foreign
+// keys and indexes; does nothing on databases that were already migrated.
+
+const TABLES = ['expenses', 'budgets', 'recurring_series', 'budget_alert_opt_outs'];
+
+async function migrateCategories(): Promise<boolean> {
+  const legacy = await db.execute(sql`select 1 from pg_type where typname = 'expense_category'`);
+  if (legacy.rows.length === 0) {
+    return false;
+  }
+
+  const categoriesExist = await db.execute(sql`select to_regclass('public.categories') as name`);
+  if (categoriesExist.rows[0]['name'] === null) {
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ categoriesTable }));
+    await db.execute(statements.join('\n'));
+  }
+  await seedDefaultCategories();
+
+  await db.transaction(async (tx) => {
+    for (const table of TABLES) {
+      // Tables added after categories moved (recurring_series, budget_alert_opt_outs)
+      // are missing from older databases; db:push creates them with category_id
+      const legacyColumn = await tx.execute(sql`select 1 from information_schema.columns where table_schema = 'public' and table_name = ${table} and column_name = 'category'`);
+      if (legacyColumn.rows.length === 0) {
+        continue;
+      }
+
+      const name = sql.identifier(table);
+      await tx.execute(sql`alter table ${name} add column if not exists category_id integer`);
+      await tx.execute(sql`update ${name} set category_id = categories.id from categories where categories.key = ${name}.category::text`);
+      await tx.execute(sql`alter table ${name} alter column category_id set not null`);
+      await tx.execute(sql`alter table ${name} drop column category`);
+    }
+    await tx.execute(sql`drop type expense_category`);
+  });
+
+  return true;
+}
+
+migrateCategories().then(migrated => console.log(migrated ? 'Categories migrated successfully' : 'Categories already migrated'));
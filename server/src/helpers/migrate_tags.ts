@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { expenseTagsTable, tagsTable } from '../db/schema';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { attachExpenseTags } from './tags';
+
+// One-off upgrade for databases created while tags were a JSON array in the
+// `expenses.tags` text column. Creates the tag tables, tags every expense with
+// the names from its array and drops the column last, so an interrupted run
+// can simply be repeated. Run before `db:push`, so search documents are left to
+// the backfill at server start; does nothing on databases that were already
+// migrated.
+
+async function migrateTags(): Promise<boolean> {
+  const legacy = await db.execute(sql`select 1 from information_schema.columns where table_name = 'expenses' and column_name = 'tags'`);
+  if (legacy.rows.length === 0) {
+    return false;
+  }
+
+  const tagsExist = await db.execute(sql`select to_regclass('public.expense_tags') as name`);
+  if (tagsExist.rows[0]['name'] === null) {
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ tagsTable, expenseTagsTable }));
+    await db.execute(statements.join('\n'));
+  }
+
+  const expenses = await db.execute(sql`select id, user_id, tags from expenses where tags is not null`);
+  for (const row of expenses.rows) {
+    let names: unknown;
+    try {
+      names = JSON.parse(row['tags'] as string);
+    } catch {
+      console.warn(`Skipping unreadable tags of expense ${row['id']}`);
+      continue;
+    }
+    if (Array.isArray(names)) {
+      await attachExpenseTags(row['id'] as number, row['user_id'] as number, names.filter((name): name is string => typeof name === 'string'));
+    }
+  }
+
+  await db.execute(sql`alter table expenses drop column tags`);
+  return true;
+}
+
+migrateTags().then(migrated => console.log(migrated ? 'Tags migrated successfully' : 'Tags already migrated'));
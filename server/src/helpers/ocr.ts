@@ -0,0 +1,87 @@
+// Text recognition for receipt images. The engine only turns pixels into
+// text; pulling fields out of that text is done by receipt_extraction.ts.
+export interface OcrEngine {
+  recognize(image: Buffer): Promise<string>;
+}
+
+export interface TesseractOptions {
+  command?: string; // path to the tesseract binary
+  languages?: string; // e.g. 'eng' or 'eng+deu'
+  timeoutMs?: number;
+}
+
+// Runs the Tesseract CLI locally: `tesseract stdin stdout -l <languages>`
+export function createTesseractOcrEngine(options: TesseractOptions = {}): OcrEngine {
+  const command = options.command || 'tesseract';
+  const languages = options.languages || 'eng';
+  const timeoutMs = options.timeoutMs ?? 30_000;
+
+  return {
+    async recognize(image) {
+      let proc;
+      try {
+        proc = Bun.spawn([command, 'stdin', 'stdout', '-l', languages], {
+          stdin: image,
+          stdout: 'pipe',
+          stderr: 'pipe'
+        });
+      } catch (error) {
+        throw new Error(`OCR engine is not available: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const running = proc;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          running.kill();
+          reject(new Error(`OCR engine timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      });
+
+      const [text, stderr, exitCode] = await Promise.race([
+        Promise.all([
+          new Response(proc.stdout).text(),
+          new Response(proc.stderr).text(),
+          proc.exited
+        ]),
+        timeout
+      ]).finally(() => clearTimeout(timer));
+
+      if (exitCode !== 0) {
+        throw new Error(`OCR engine failed with exit code ${exitCode}: ${stderr.trim()}`);
+      }
+
+      return text;
+    }
+  };
+}
+
+// Deterministic engine for tests: returns the configured text for every image
+export function createFakeOcrEngine(
+  text: string | ((image: Buffer) => string)
+): OcrEngine & { calls: number } {
+  const engine = {
+    calls: 0,
+    async recognize(image: Buffer) {
+      engine.calls++;
+      return typeof text === 'function' ? text(image) : text;
+    }
+  };
+  return engine;
+}
+
+let engine: OcrEngine | null = null;
+
+export function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    engine = createTesseractOcrEngine({
+      command: process.env['TESSERACT_PATH'],
+      languages: process.env['OCR_LANGUAGES']
+    });
+  }
+  return engine;
+}
+
+export function setOcrEngine(newEngine: OcrEngine | null): void {
+  engine = newEngine;
+}
@@ -0,0 +1,12 @@
+import * as crypto from 'crypto';
+
+// Single-use tokens (password reset, email verification) are sent to the user
+// in plain form and only their sha256 digest is stored.
+export function generateOneTimeToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashOneTimeToken(token) };
+}
+
+export function hashOneTimeToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
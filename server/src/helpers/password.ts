@@ -0,0 +1,51 @@
+import * as crypto from 'crypto';
+
+// All new hashes use argon2id. Older formats are still accepted on login and
+// upgraded in place (see needsRehash).
+const CURRENT_ALGORITHM = 'argon2id';
+
+// Legacy format written by the first version of registerUser: `salt:hash`
+// with a 16 byte hex salt and a 64 byte pbkdf2-sha512 hex digest.
+const LEGACY_PBKDF2_PATTERN = /^[0-9a-f]{32}:[0-9a-f]{128}$/;
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+const LEGACY_PBKDF2_KEY_LENGTH = 64;
+
+export type PasswordHashFormat = 'argon2id' | 'argon2i' | 'argon2d' | 'bcrypt' | 'pbkdf2' | 'unknown';
+
+export function detectHashFormat(hash: string): PasswordHashFormat {
+  if (hash.startsWith('$argon2id$')) return 'argon2id';
+  if (hash.startsWith('$argon2i$')) return 'argon2i';
+  if (hash.startsWith('$argon2d$')) return 'argon2d';
+  if (/^\$2[aby]\$/.test(hash)) return 'bcrypt';
+  if (LEGACY_PBKDF2_PATTERN.test(hash)) return 'pbkdf2';
+  return 'unknown';
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return Bun.password.hash(password, { algorithm: CURRENT_ALGORITHM });
+}
+
+function verifyLegacyPbkdf2(password: string, storedHash: string): boolean {
+  const [salt, hash] = storedHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.pbkdf2Sync(password, salt, LEGACY_PBKDF2_ITERATIONS, LEGACY_PBKDF2_KEY_LENGTH, 'sha512');
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  switch (detectHashFormat(storedHash)) {
+    case 'pbkdf2':
+      return verifyLegacyPbkdf2(password, storedHash);
+    case 'argon2id':
+    case 'argon2i':
+    case 'argon2d':
+    case 'bcrypt':
+      return Bun.password.verify(password, storedHash);
+    default:
+      return false;
+  }
+}
+
+export function needsRehash(storedHash: string): boolean {
+  return detectHashFormat(storedHash) !== CURRENT_ALGORITHM;
+}
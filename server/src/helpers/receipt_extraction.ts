@@ -0,0 +1,167 @@
+import { type ReceiptExtraction } from '../schema';
+import { DEFAULT_CATEGORY_IDS, type DefaultCategoryKey } from './categories';
+
+// Heuristic field extraction from OCR'd receipt text. Everything here is a
+// best guess meant to prefill a form the user still reviews.
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+  '₺': 'TRY'
+};
+
+const CURRENCY_CODES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK',
+  'PLN', 'CZK', 'HUF', 'INR', 'CNY', 'HKD', 'SGD', 'KRW', 'MXN', 'BRL', 'ZAR', 'TRY', 'RUB'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Ordered by how reliably the label marks the amount actually paid
+const TOTAL_LABELS = [
+  /\bgrand\s+total\b/i,
+  /\b(?:total|amount|balance)\s+(?:due|paid|payable)\b/i,
+  /\btotal\b/i
+];
+
+const NOT_TOTAL = /\b(?:sub\s*-?\s*total|total\s+(?:tax|vat|items?|qty|quantity|savings|discount))\b/i;
+
+const MERCHANT_NOISE = /\b(?:receipt|invoice|welcome|thank|tel|phone|fax|www\.|https?:|vat\s+no|tax\s+id|order|table|server|cashier)\b/i;
+
+const CATEGORY_KEYWORDS: Array<{ category: DefaultCategoryKey; pattern: RegExp }> = [
+  { category: 'FOOD_DINING', pattern: /\b(?:restaurant|cafe|café|coffee|bistro|bar|grill|pizza|burger|kitchen|bakery|diner|sushi|tip|gratuity)\b/i },
+  { category: 'TRAVEL', pattern: /\b(?:hotel|inn|resort|airline|airways|flight|boarding|motel|airbnb)\b/i },
+  { category: 'TRANSPORTATION', pattern: /\b(?:taxi|cab|uber|lyft|fuel|petrol|gasoline|parking|metro|railway|train|bus)\b/i },
+  { category: 'BILLS_UTILITIES', pattern: /\b(?:electricity|utility|utilities|water\s+bill|internet|telecom|mobile\s+plan)\b/i },
+  { category: 'HEALTHCARE', pattern: /\b(?:pharmacy|clinic|hospital|dental|medical|drugstore)\b/i },
+  { category: 'EDUCATION', pattern: /\b(?:bookstore|books|tuition|course|university|school)\b/i },
+  { category: 'ENTERTAINMENT', pattern: /\b(?:cinema|theater|theatre|concert|tickets?|museum)\b/i },
+  { category: 'SHOPPING', pattern: /\b(?:store|market|supermarket|mall|shop|outlet)\b/i }
+];
+
+// Amounts like 12.50, 1,234.56, 1.234,56 or 12,50 (two decimals required)
+const AMOUNT_PATTERN = /(\d{1,3}(?:[.,' ]\d{3})+|\d+)[.,](\d{2})(?!\d)/g;
+
+function parseAmounts(line: string): number[] {
+  return Array.from(line.matchAll(AMOUNT_PATTERN), match => {
+    const integerPart = match[1].replace(/[.,' ]/g, '');
+    return parseFloat(`${integerPart}.${match[2]}`);
+  });
+}
+
+export function extractTotal(lines: string[]): number | null {
+  for (const label of TOTAL_LABELS) {
+    // The last labelled line wins, e.g. "TOTAL" after a "TOTAL" on a voided item
+    const candidates = lines.filter(line => label.test(line) && !NOT_TOTAL.test(line));
+    for (const line of candidates.reverse()) {
+      const amounts = parseAmounts(line);
+      if (amounts.length > 0) {
+        return amounts[amounts.length - 1];
+      }
+    }
+  }
+
+  // Fall back to the largest amount on the receipt
+  const amounts = lines.flatMap(parseAmounts);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
+
+export function extractCurrency(text: string): string | null {
+  const code = new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`).exec(text.toUpperCase());
+  if (code) {
+    return code[1];
+  }
+
+  for (const [symbol, currency] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (text.includes(symbol)) {
+      return currency;
+    }
+  }
+
+  return null;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) {
+    year += 2000;
+  }
+  const date = new Date(year, month - 1, day);
+  // Reject rollovers such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+export function extractDate(text: string): Date | null {
+  // 2024-03-15
+  const iso = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/.exec(text);
+  if (iso) {
+    const date = buildDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+    if (date) return date;
+  }
+
+  // 15 Mar 2024 / Mar 15, 2024
+  const monthNames = MONTHS.join('|');
+  const dayFirst = new RegExp(`\\b(\\d{1,2})\\s+(${monthNames})[a-z]*\\.?,?\\s+(\\d{2,4})\\b`, 'i').exec(text);
+  if (dayFirst) {
+    const date = buildDate(parseInt(dayFirst[3], 10), MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1, parseInt(dayFirst[1], 10));
+    if (date) return date;
+  }
+  const monthFirst = new RegExp(`\\b(${monthNames})[a-z]*\\.?\\s+(\\d{1,2}),?\\s+(\\d{2,4})\\b`, 'i').exec(text);
+  if (monthFirst) {
+    const date = buildDate(parseInt(monthFirst[3], 10), MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, parseInt(monthFirst[2], 10));
+    if (date) return date;
+  }
+
+  // 15.03.2024 is day-first; 03/15/2024 is month-first unless the first part can't be a month
+  const numeric = /\b(\d{1,2})([/.-])(\d{1,2})\2(\d{2,4})\b/.exec(text);
+  if (numeric) {
+    const first = parseInt(numeric[1], 10);
+    const second = parseInt(numeric[3], 10);
+    const year = parseInt(numeric[4], 10);
+    const dayFirstOrder = numeric[2] !== '/' || first > 12;
+    const date = dayFirstOrder ? buildDate(year, second, first) : buildDate(year, first, second);
+    if (date) return date;
+  }
+
+  return null;
+}
+
+export function extractMerchant(lines: string[]): string | null {
+  // The merchant name is normally printed first, above address and items
+  for (const line of lines.slice(0, 6)) {
+    const letters = line.replace(/[^\p{L}]/gu, '');
+    if (letters.length < 3 || MERCHANT_NOISE.test(line) || parseAmounts(line).length > 0 || extractDate(line)) {
+      continue;
+    }
+    return line.replace(/\s+/g, ' ').replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}.)]+$/gu, '').slice(0, 200);
+  }
+  return null;
+}
+
+// Key of the built-in category the receipt most likely belongs to
+export function guessCategory(text: string): DefaultCategoryKey {
+  const match = CATEGORY_KEYWORDS.find(({ pattern }) => pattern.test(text));
+  return match ? match.category : 'OTHERS';
+}
+
+export function extractReceiptFields(text: string): ReceiptExtraction {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  return {
+    merchant: extractMerchant(lines),
+    total: extractTotal(lines),
+    date: extractDate(text),
+    currency: extractCurrency(text),
+    category_id: DEFAULT_CATEGORY_IDS[guessCategory(text)]
+  };
+}
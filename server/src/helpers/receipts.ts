@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { receiptsTable, type Receipt } from '../db/schema';
+import { apiFileUrl } from './storage';
+import { eq } from 'drizzle-orm';
+
+// URL of the authenticated download route for a receipt, see file_routes.ts
+export function receiptFileUrl(receiptId: number): string {
+  return apiFileUrl(`/receipts/${receiptId}`);
+}
+
+// Free-form receipt URLs can't point at the receipt download route; uploaded
+// receipts are attached by their id so their ownership is checked
+export function requireExternalReceiptUrl(receiptUrl: string | null | undefined): void {
+  if (receiptUrl && /\/receipts\/\d+(\/thumbnail)?\/?([?#].*)?$/.test(receiptUrl)) {
+    throw new Error('Uploaded receipts must be attached by their receipt_id');
+  }
+}
+
+// Load an uploaded receipt an expense of `userId` may reference
+export async function findReceiptForExpense(receiptId: number, userId: number): Promise<Receipt> {
+  const receipts = await db.select()
+    .from(receiptsTable)
+    .where(eq(receiptsTable.id, receiptId))
+    .execute();
+
+  if (receipts.length === 0) {
+    throw new Error(`Receipt with id ${receiptId} not found`);
+  }
+
+  if (receipts[0].user_id !== userId) {
+    throw new Error('Receipt does not belong to the expense owner');
+  }
+
+  return receipts[0];
+}
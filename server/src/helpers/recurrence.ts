@@ -0,0 +1,194 @@
+import { addDays, fromCalendarDate, toCalendarDate } from './dates';
+
+// Schedule math for recurring expense series. Occurrences are calendar days
+// (YYYY-MM-DD).
+//
+// WEEKLY, MONTHLY and YEARLY series repeat every `interval` units counted from
+// the start date. Monthly and yearly series keep the start day and fall back to
+// the last day of shorter months (Jan 31 -> Feb 29 -> Mar 31).
+//
+// CUSTOM series use a cron-like rule over the date fields
+// "day-of-month month day-of-week", e.g. "1,15 * *" (1st and 15th),
+// "* * MON-FRI" (weekdays) or "L */3 *" (last day of every third month).
+// Five-field cron expressions are accepted too; minute and hour are ignored.
+// As in cron, a day matches either day field when both are restricted.
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'CUSTOM';
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  rule: string | null; // CUSTOM only
+  start_date: string;
+  end_date: string | null;
+}
+
+interface ParsedRule {
+  daysOfMonth: Set<number> | null; // null for '*'
+  lastDayOfMonth: boolean;
+  months: Set<number> | null;
+  daysOfWeek: Set<number> | null;
+}
+
+// Custom rules may not match for a long time (e.g. Feb 29 on a Monday); give up after this
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const parseField = (field: string, min: number, max: number, names: string[], nameOffset: number): Set<number> | null => {
+  if (field === '*') {
+    return null;
+  }
+
+  const parseValue = (value: string): number => {
+    const named = names.indexOf(value.toUpperCase());
+    const number = named >= 0 ? named + nameOffset : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (!(number >= min && number <= max)) {
+      throw new Error(`Invalid recurrence rule value "${value}"`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!(step > 0) || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid recurrence rule step "${part}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [min, max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [from, to] = [parseValue(start), parseValue(end)];
+      if (from > to) {
+        throw new Error(`Invalid recurrence rule range "${range}"`);
+      }
+    } else {
+      from = parseValue(range);
+      to = stepText === undefined ? from : max;
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+export const parseRecurrenceRule = (rule: string): ParsedRule => {
+  let fields = rule.trim().split(/\s+/);
+  if (fields.length === 5) {
+    fields = fields.slice(2);
+  }
+  if (fields.length !== 3) {
+    throw new Error('Recurrence rule must have the fields "day-of-month month day-of-week"');
+  }
+
+  const [dayField, monthField, weekdayField] = fields;
+  const dayParts = dayField.split(',');
+  const lastDayOfMonth = dayParts.includes('L');
+  const otherDays = dayParts.filter(part => part !== 'L');
+
+  const daysOfWeek = parseField(weekdayField, 0, 7, DAY_NAMES, 0);
+  if (daysOfWeek?.has(7)) {
+    daysOfWeek.add(0); // 7 is Sunday as well
+  }
+
+  return {
+    daysOfMonth: otherDays.length > 0 ? parseField(otherDays.join(','), 1, 31, [], 0) : lastDayOfMonth ? new Set() : null,
+    lastDayOfMonth,
+    months: parseField(monthField, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek
+  };
+};
+
+const matchesRule = (rule: ParsedRule, day: string): boolean => {
+  const date = fromCalendarDate(day);
+  if (rule.months && !rule.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+
+  const isLastDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getDate() === 1;
+  const dayOfMonthMatches = rule.daysOfMonth === null
+    || rule.daysOfMonth.has(date.getDate())
+    || (rule.lastDayOfMonth && isLastDay);
+  const dayOfWeekMatches = rule.daysOfWeek === null || rule.daysOfWeek.has(date.getDay());
+
+  if (rule.daysOfMonth !== null && rule.daysOfWeek !== null) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+};
+
+// The n-th occurrence (0-based) of an interval schedule
+const nthOccurrence = (schedule: RecurrenceSchedule, n: number): string => {
+  const start = fromCalendarDate(schedule.start_date);
+  const steps = n * schedule.interval;
+
+  if (schedule.frequency === 'WEEKLY') {
+    return addDays(schedule.start_date, steps * 7);
+  }
+
+  const months = schedule.frequency === 'YEARLY' ? steps * 12 : steps;
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+  const daysInMonth = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(start.getDate(), daysInMonth));
+  return toCalendarDate(target);
+};
+
+export const validateSchedule = (schedule: RecurrenceSchedule): void => {
+  if (schedule.frequency === 'CUSTOM') {
+    if (!schedule.rule) {
+      throw new Error('Custom recurrence requires a rule');
+    }
+    parseRecurrenceRule(schedule.rule);
+  }
+  if (!Number.isInteger(schedule.interval) || schedule.interval < 1) {
+    throw new Error('Recurrence interval must be a positive whole number');
+  }
+  if (schedule.end_date !== null && schedule.end_date < schedule.start_date) {
+    throw new Error('Recurrence end date must not be before its start date');
+  }
+};
+
+// First occurrence strictly after `after` (or the first one overall when null),
+// or null when the schedule has ended
+export const nextOccurrence = (schedule: RecurrenceSchedule, after: string | null): string | null => {
+  const earliest = after === null || after < schedule.start_date ? schedule.start_date : addDays(after, 1);
+
+  let next: string | null = null;
+  if (schedule.frequency === 'CUSTOM') {
+    const rule = parseRecurrenceRule(schedule.rule ?? '');
+    let day = earliest;
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = addDays(day, 1)) {
+      if (schedule.end_date !== null && day > schedule.end_date) break;
+      if (matchesRule(rule, day)) {
+        next = day;
+        break;
+      }
+    }
+  } else {
+    // Jump close to `earliest` first so long-running series stay cheap; the
+    // longest unit length keeps the estimate from overshooting
+    const unitDays = schedule.frequency === 'WEEKLY' ? 7 : schedule.frequency === 'MONTHLY' ? 31 : 366;
+    const elapsedDays = (fromCalendarDate(earliest).getTime() - fromCalendarDate(schedule.start_date).getTime()) / 86400000;
+    let n = Math.max(0, Math.floor(elapsedDays / (unitDays * schedule.interval)) - 1);
+    while (nthOccurrence(schedule, n) < earliest) {
+      n++;
+    }
+    next = nthOccurrence(schedule, n);
+  }
+
+  if (next === null || (schedule.end_date !== null && next > schedule.end_date)) {
+    return null;
+  }
+  return next;
+};
+
+export const isOccurrence = (schedule: RecurrenceSchedule, day: string): boolean =>
+  nextOccurrence(schedule, addDays(day, -1)) === day;
@@ -0,0 +1,125 @@
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, recurringSkipsTable, type RecurringSeries as RecurringSeriesRow } from '../db/schema';
+import { type RecurringSeries } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { nextOccurrence, type RecurrenceSchedule } from './recurrence';
+import { fromCalendarDate } from './dates';
+import { refreshSearchVectors } from './expense_search';
+
+export const scheduleOf = (series: Pick<RecurringSeriesRow, 'frequency' | 'interval' | 'rule' | 'start_date' | 'end_date'>): RecurrenceSchedule => ({
+  frequency: series.frequency,
+  interval: series.interval,
+  rule: series.rule,
+  start_date: series.start_date,
+  end_date: series.end_date
+});
+
+export const toRecurringSeries = (series: RecurringSeriesRow): RecurringSeries => ({
+  ...series,
+  amount: parseFloat(series.amount)
+});
+
+export const loadSeries = async (seriesId: number): Promise<RecurringSeriesRow> => {
+  const rows = await db.select()
+    .from(recurringSeriesTable)
+    .where(eq(recurringSeriesTable.id, seriesId))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(`Recurring series with id ${seriesId} not found`);
+  }
+  return rows[0];
+};
+
+// Occurrences one call works through at most; the recurring expense job
+// catches up on the rest of a long backlog on its next runs
+export const MAX_OCCURRENCES_PER_RUN = 100;
+
+// Creates the expenses for the occurrences of the series due on or before
+// `today`, up to MAX_OCCURRENCES_PER_RUN of them. The series row is locked
+// while it advances and each occurrence maps to at most one expense, so
+// concurrent or repeated runs never duplicate. Returns the number of expenses
+// created.
+export async function generateSeriesOccurrences(seriesId: number, today: string): Promise<number> {
+  const created = await db.transaction(async (tx) => {
+    const rows = await tx.select()
+      .from(recurringSeriesTable)
+      .where(eq(recurringSeriesTable.id, seriesId))
+      .for('update')
+      .execute();
+
+    const series = rows[0];
+    if (!series || series.is_paused || series.next_occurrence_date === null || series.next_occurrence_date > today) {
+      return 0;
+    }
+
+    const skipped = new Set((await tx.select({ occurrence_date: recurringSkipsTable.occurrence_date })
+      .from(recurringSkipsTable)
+      .where(and(
+        eq(recurringSkipsTable.series_id, seriesId),
+        series.last_occurrence_date !== null ? gt(recurringSkipsTable.occurrence_date, series.last_occurrence_date) : undefined
+      ))
+      .execute()).map(skip => skip.occurrence_date));
+
+    const schedule = scheduleOf(series);
+    let created = 0;
+    let occurrenceCount = series.occurrence_count;
+    let lastOccurrence = series.last_occurrence_date;
+    let next: string | null = series.next_occurrence_date;
+
+    for (let run = 0; next !== null && next <= today && run < MAX_OCCURRENCES_PER_RUN; run++) {
+      if (series.max_occurrences !== null && occurrenceCount >= series.max_occurrences) {
+        next = null;
+        break;
+      }
+
+      if (!skipped.has(next)) {
+        const inserted = await tx.insert(expensesTable)
+          .values({
+            user_id: series.user_id,
+            team_id: series.team_id,
+            title: series.title,
+            description: series.description,
+            amount: series.amount,
+            currency: series.currency,
+            category_id: series.category_id,
+            status: 'PENDING',
+            expense_date: fromCalendarDate(next),
+            is_recurring: true,
+            recurring_frequency: series.frequency.toLowerCase(),
+            recurring_series_id: series.id,
+            recurrence_date: next
+          })
+          .onConflictDoNothing()
+          .returning({ id: expensesTable.id })
+          .execute();
+        created += inserted.length;
+        occurrenceCount++;
+      }
+
+      lastOccurrence = next;
+      next = nextOccurrence(schedule, next);
+    }
+
+    if (next !== null && series.max_occurrences !== null && occurrenceCount >= series.max_occurrences) {
+      next = null;
+    }
+
+    await tx.update(recurringSeriesTable)
+      .set({
+        occurrence_count: occurrenceCount,
+        last_occurrence_date: lastOccurrence,
+        next_occurrence_date: next,
+        updated_at: new Date()
+      })
+      .where(eq(recurringSeriesTable.id, seriesId))
+      .execute();
+
+    return created;
+  });
+
+  if (created > 0) {
+    await refreshSearchVectors(and(eq(expensesTable.recurring_series_id, seriesId), isNull(expensesTable.search_vector)));
+  }
+  return created;
+}
@@ -0,0 +1,269 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import { type ReportFormat } from '../schema';
+import { toCalendarDate } from './dates';
+
+// Renders a generated report into a downloadable file. The same document
+// model feeds every format so they always show identical figures.
+
+export interface ReportLineItem {
+  date: Date;
+  title: string;
+  category: string; // category name, e.g. 'Food & Dining'
+  status: string;
+  amount: number; // in the report currency
+  original_amount: number;
+  original_currency: string;
+  submitted_by: string | null;
+}
+
+export interface ReportCategorySummary {
+  category: string;
+  count: number;
+  amount: number;
+}
+
+export interface ReportDocument {
+  title: string;
+  type: string;
+  date_from: Date;
+  date_to: Date;
+  generated_at: Date;
+  currency: string; // ISO 4217 code of every amount except the originals
+  line_items: ReportLineItem[]; // one per expense, or per category for expenses only counted in the totals
+  expense_count: number;
+  category_summary: ReportCategorySummary[];
+  total_amount: number;
+  show_submitter: boolean; // team reports list who filed each expense
+}
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { contentType: string; extension: string }> = {
+  PDF: { contentType: 'application/pdf', extension: 'pdf' },
+  CSV: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  XLSX: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' }
+};
+
+export const formatReportDate = toCalendarDate;
+
+const formatAmount = (amount: number): string => amount.toFixed(2);
+
+const periodLabel = (doc: ReportDocument): string =>
+  `${formatReportDate(doc.date_from)} to ${formatReportDate(doc.date_to)}`;
+
+// The original amount is only listed when some expenses were filed in another currency
+const showOriginal = (doc: ReportDocument): boolean =>
+  doc.line_items.some(item => item.original_currency !== doc.currency);
+
+const originalLabel = (item: ReportLineItem): string =>
+  `${formatAmount(item.original_amount)} ${item.original_currency}`;
+
+const lineItemHeaders = (doc: ReportDocument): string[] => [
+  'Date',
+  'Title',
+  'Category',
+  'Status',
+  ...(doc.show_submitter ? ['Submitted by'] : []),
+  ...(showOriginal(doc) ? ['Original amount'] : []),
+  'Amount'
+];
+
+// CSV
+
+// Cells starting with these characters are evaluated as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number): string => {
+  let text = typeof value === 'number' ? formatAmount(value) : value;
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: Array<string | number>): string => cells.map(csvCell).join(',');
+
+export function renderCsv(doc: ReportDocument): Buffer {
+  const rows: string[] = [
+    csvRow(['Report', doc.title]),
+    csvRow(['Period', periodLabel(doc)]),
+    csvRow(['Generated', formatReportDate(doc.generated_at)]),
+    csvRow(['Currency', doc.currency]),
+    '',
+    csvRow(lineItemHeaders(doc)),
+    ...doc.line_items.map(item => csvRow([
+      formatReportDate(item.date),
+      item.title,
+      item.category,
+      item.status,
+      ...(doc.show_submitter ? [item.submitted_by ?? ''] : []),
+      ...(showOriginal(doc) ? [originalLabel(item)] : []),
+      item.amount
+    ])),
+    '',
+    csvRow(['Category', 'Expenses', 'Amount']),
+    ...doc.category_summary.map(row => csvRow([row.category, row.count.toString(), row.amount])),
+    csvRow(['Total', doc.expense_count.toString(), doc.total_amount])
+  ];
+
+  // BOM so Excel picks up UTF-8
+  return Buffer.from(`\uFEFF${rows.join('\r\n')}\r\n`, 'utf8');
+}
+
+// XLSX
+
+export async function renderXlsx(doc: ReportDocument): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = doc.generated_at;
+  workbook.title = doc.title;
+
+  const expenses = workbook.addWorksheet('Expenses');
+  expenses.addRow([doc.title]).font = { bold: true, size: 14 };
+  expenses.addRow(['Period', periodLabel(doc)]);
+  expenses.addRow(['Generated', formatReportDate(doc.generated_at)]);
+  expenses.addRow(['Currency', doc.currency]);
+  expenses.addRow([]);
+
+  const header = expenses.addRow(lineItemHeaders(doc));
+  header.font = { bold: true };
+  for (const item of doc.line_items) {
+    expenses.addRow([
+      item.date,
+      item.title,
+      item.category,
+      item.status,
+      ...(doc.show_submitter ? [item.submitted_by ?? ''] : []),
+      ...(showOriginal(doc) ? [originalLabel(item)] : []),
+      item.amount
+    ]);
+  }
+  const totalRow = expenses.addRow([...lineItemHeaders(doc).slice(1).map(() => ''), doc.total_amount]);
+  totalRow.getCell(1).value = 'Total';
+  totalRow.font = { bold: true };
+
+  expenses.getColumn(1).numFmt = 'yyyy-mm-dd';
+  expenses.getColumn(1).width = 12;
+  expenses.getColumn(2).width = 40;
+  expenses.getColumn(3).width = 20;
+  const amountColumn = expenses.getColumn(lineItemHeaders(doc).length);
+  amountColumn.numFmt = '#,##0.00';
+  amountColumn.width = 14;
+
+  const summary = workbook.addWorksheet('Category summary');
+  summary.addRow(['Category', 'Expenses', 'Amount']).font = { bold: true };
+  for (const row of doc.category_summary) {
+    summary.addRow([row.category, row.count, row.amount]);
+  }
+  summary.addRow(['Total', doc.expense_count, doc.total_amount]).font = { bold: true };
+  summary.getColumn(1).width = 20;
+  summary.getColumn(3).numFmt = '#,##0.00';
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// PDF
+
+// Width of each line item column as a fraction of the usable page width
+const columnFractions = (doc: ReportDocument): number[] => {
+  const fractions = [0.12, 0.3, 0.15, 0.1];
+  if (doc.show_submitter) fractions.push(0.14);
+  if (showOriginal(doc)) fractions.push(0.13);
+  fractions.push(0.12);
+  // The title column absorbs the remaining space
+  fractions[1] += 1 - fractions.reduce((sum, fraction) => sum + fraction, 0);
+  return fractions;
+};
+
+export function renderPdf(doc: ReportDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 50, info: { Title: doc.title, CreationDate: doc.generated_at } });
+    const chunks: Buffer[] = [];
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const left = pdf.page.margins.left;
+    const width = pdf.page.width - pdf.page.margins.left - pdf.page.margins.right;
+    const bottom = () => pdf.page.height - pdf.page.margins.bottom;
+
+    pdf.font('Helvetica-Bold').fontSize(18).text(doc.title);
+    pdf.font('Helvetica').fontSize(10)
+      .text(`Period: ${periodLabel(doc)}`)
+      .text(`Generated: ${formatReportDate(doc.generated_at)}`)
+      .text(`Currency: ${doc.currency}`)
+      .moveDown();
+
+    // Column widths as fractions of the usable page width
+    const drawTable = (headers: string[], rows: string[][], fractions: number[]) => {
+      const widths = fractions.map(f => f * width);
+      const drawRow = (cells: string[], bold: boolean) => {
+        pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        const heights = cells.map((cell, i) => pdf.heightOfString(cell, { width: widths[i] - 6 }));
+        const rowHeight = Math.max(...heights, 12) + 4;
+        if (pdf.y + rowHeight > bottom()) {
+          pdf.addPage();
+        }
+        const y = pdf.y;
+        let x = left;
+        cells.forEach((cell, i) => {
+          const align = i === cells.length - 1 ? 'right' : 'left';
+          pdf.text(cell, x + 3, y + 2, { width: widths[i] - 6, align });
+          x += widths[i];
+        });
+        pdf.moveTo(left, y + rowHeight).lineTo(left + width, y + rowHeight).lineWidth(0.5).strokeColor('#cccccc').stroke();
+        pdf.x = left;
+        pdf.y = y + rowHeight;
+      };
+
+      drawRow(headers, true);
+      rows.forEach(row => drawRow(row, false));
+    };
+
+    pdf.font('Helvetica-Bold').fontSize(12).text('Expenses');
+    pdf.moveDown(0.5);
+    if (doc.line_items.length === 0) {
+      pdf.font('Helvetica').fontSize(10).text('No expenses in this period.');
+    } else {
+      drawTable(
+        lineItemHeaders(doc),
+        [
+          ...doc.line_items.map(item => [
+            formatReportDate(item.date),
+            item.title,
+            item.category,
+            item.status,
+            ...(doc.show_submitter ? [item.submitted_by ?? ''] : []),
+            ...(showOriginal(doc) ? [originalLabel(item)] : []),
+            formatAmount(item.amount)
+          ]),
+          ['Total', ...lineItemHeaders(doc).slice(2).map(() => ''), formatAmount(doc.total_amount)]
+        ],
+        columnFractions(doc)
+      );
+    }
+
+    pdf.moveDown();
+    pdf.font('Helvetica-Bold').fontSize(12).text('Category summary', left);
+    pdf.moveDown(0.5);
+    drawTable(
+      ['Category', 'Expenses', 'Amount'],
+      [
+        ...doc.category_summary.map(row => [row.category, row.count.toString(), formatAmount(row.amount)]),
+        ['Total', doc.expense_count.toString(), formatAmount(doc.total_amount)]
+      ],
+      [0.5, 0.25, 0.25]
+    );
+
+    pdf.end();
+  });
+}
+
+export async function renderReport(doc: ReportDocument, format: ReportFormat): Promise<Buffer> {
+  switch (format) {
+    case 'CSV':
+      return renderCsv(doc);
+    case 'XLSX':
+      return renderXlsx(doc);
+    case 'PDF':
+      return renderPdf(doc);
+  }
+}
@@ -0,0 +1,125 @@
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import * as path from 'path';
+
+// Binary file storage used for receipts and generated files.
+// Keys are forward-slash separated relative paths such as `receipts/12/abc.jpg`.
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export function createLocalStorageDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    assertValidKey(key);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    }
+  };
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// Works with AWS S3 and S3-compatible servers such as MinIO (path-style requests)
+export function createS3StorageDriver(options: S3StorageOptions): StorageDriver {
+  const client = new Bun.S3Client({
+    bucket: options.bucket,
+    endpoint: options.endpoint,
+    region: options.region,
+    accessKeyId: options.accessKeyId,
+    secretAccessKey: options.secretAccessKey
+  });
+
+  return {
+    async put(key, data, contentType) {
+      assertValidKey(key);
+      await client.write(key, data, { type: contentType });
+    },
+    async get(key) {
+      assertValidKey(key);
+      const file = client.file(key);
+      if (!(await file.exists())) {
+        return null;
+      }
+      return Buffer.from(await file.arrayBuffer());
+    },
+    async delete(key) {
+      assertValidKey(key);
+      await client.unlink(key);
+    }
+  };
+}
+
+let storage: StorageDriver | null = null;
+
+function createStorageFromEnv(): StorageDriver {
+  if (process.env['STORAGE_DRIVER'] === 's3') {
+    const bucket = process.env['S3_BUCKET'];
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    }
+    return createS3StorageDriver({
+      bucket,
+      endpoint: process.env['S3_ENDPOINT'],
+      region: process.env['S3_REGION'],
+      accessKeyId: process.env['S3_ACCESS_KEY_ID'],
+      secretAccessKey: process.env['S3_SECRET_ACCESS_KEY']
+    });
+  }
+
+  return createLocalStorageDriver(process.env['STORAGE_LOCAL_DIR'] || './storage');
+}
+
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+}
+
+export function setStorage(driver: StorageDriver | null): void {
+  storage = driver;
+}
+
+// Public URL of a file served by the API's download routes (see file_routes.ts)
+export function apiFileUrl(pathname: string): string {
+  const baseUrl = (process.env['PUBLIC_API_URL'] || '/api').replace(/\/+$/, '');
+  return `${baseUrl}${pathname}`;
+}
@@ -0,0 +1,128 @@
+import { db } from '../db';
+import { expensesTable, expenseTagsTable, tagsTable, type Tag as TagRow } from '../db/schema';
+import { and, asc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { refreshSearchVectors } from './expense_search';
+
+// Tags are labels each user attaches to their own expenses. Names are matched
+// ignoring case and surrounding whitespace, so "Client A" and " client a " are
+// the same tag; a tag keeps the spelling it was first created with.
+
+export const tagKey = (name: string): string => name.trim().toLowerCase();
+
+// Trimmed names without blanks or case-insensitive duplicates, first spelling wins
+export function normalizeTagNames(names: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const name of names) {
+    const key = tagKey(name);
+    if (key !== '' && !byKey.has(key)) {
+      byKey.set(key, name.trim());
+    }
+  }
+  return [...byKey.values()];
+}
+
+// Replaces the tags of an expense, creating the user's tags that don't exist
+// yet, without rebuilding its search document
+export async function attachExpenseTags(expenseId: number, userId: number, names: string[]): Promise<string[]> {
+  const tagNames = normalizeTagNames(names);
+
+  return db.transaction(async (tx) => {
+    let tags: TagRow[] = [];
+    if (tagNames.length > 0) {
+      await tx.insert(tagsTable)
+        .values(tagNames.map(name => ({ user_id: userId, name })))
+        .onConflictDoNothing()
+        .execute();
+
+      tags = await tx.select()
+        .from(tagsTable)
+        .where(and(
+          eq(tagsTable.user_id, userId),
+          inArray(sql`lower(${tagsTable.name})`, tagNames.map(tagKey))
+        ))
+        .execute();
+    }
+
+    await tx.delete(expenseTagsTable)
+      .where(eq(expenseTagsTable.expense_id, expenseId))
+      .execute();
+
+    if (tags.length > 0) {
+      await tx.insert(expenseTagsTable)
+        .values(tags.map(tag => ({ expense_id: expenseId, tag_id: tag.id })))
+        .execute();
+    }
+
+    return tags.map(tag => tag.name).sort((a, b) => a.localeCompare(b));
+  });
+}
+
+// Replaces the tags of an expense, creating the user's tags that don't exist yet
+export async function setExpenseTags(expenseId: number, userId: number, names: string[]): Promise<string[]> {
+  const attached = await attachExpenseTags(expenseId, userId, names);
+
+  // Tag names are part of the search document
+  await refreshSearchVectors(eq(expensesTable.id, expenseId));
+  return attached;
+}
+
+// Tag names per expense, alphabetical; expenses without tags are left out
+export async function loadExpenseTags(expenseIds: number[]): Promise<Map<number, string[]>> {
+  const tags = new Map<number, string[]>();
+  if (expenseIds.length === 0) {
+    return tags;
+  }
+
+  const rows = await db.select({ expense_id: expenseTagsTable.expense_id, name: tagsTable.name })
+    .from(expenseTagsTable)
+    .innerJoin(tagsTable, eq(expenseTagsTable.tag_id, tagsTable.id))
+    .where(inArray(expenseTagsTable.expense_id, expenseIds))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  for (const row of rows) {
+    tags.set(row.expense_id, [...(tags.get(row.expense_id) ?? []), row.name]);
+  }
+  return tags;
+}
+
+// `column` holds an expense carrying every one of the tags
+export function hasAllTags(column: AnyPgColumn, names: string[]): SQL {
+  const keys = normalizeTagNames(names).map(tagKey);
+  if (keys.length === 0) {
+    return sql`true`;
+  }
+  return sql`${column} in (
+    select ${expenseTagsTable.expense_id} from ${expenseTagsTable}
+    join ${tagsTable} on ${tagsTable.id} = ${expenseTagsTable.tag_id}
+    where lower(${tagsTable.name}) in (${sql.join(keys.map(key => sql`${key}`), sql`, `)})
+    group by ${expenseTagsTable.expense_id}
+    having count(*) = ${keys.length}
+  )`;
+}
+
+export async function loadUserTag(tagId: number, userId: number): Promise<TagRow> {
+  const rows = await db.select()
+    .from(tagsTable)
+    .where(and(eq(tagsTable.id, tagId), eq(tagsTable.user_id, userId)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error('Tag not found');
+  }
+  return rows[0];
+}
+
+// Ids of the expenses carrying the tag, as a subquery
+export const taggedExpenses = (tagId: number) => db.select({ id: expenseTagsTable.expense_id })
+  .from(expenseTagsTable)
+  .where(eq(expenseTagsTable.tag_id, tagId));
+
+export async function countTagExpenses(tagId: number): Promise<number> {
+  const rows = await db.select({ count: sql<number>`count(*)::int` })
+    .from(expenseTagsTable)
+    .where(eq(expenseTagsTable.tag_id, tagId))
+    .execute();
+  return rows[0].count;
+}
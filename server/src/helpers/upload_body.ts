@@ -0,0 +1,89 @@
+import { type IncomingMessage } from 'http';
+
+export interface UploadedFile {
+  buffer: Buffer;
+  filename: string;
+  mimetype: string;
+}
+
+// Extra room for multipart boundaries and part headers on top of the file itself
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+const tooLarge = (maxFileSize: number): Error =>
+  new Error(`File size too large. Maximum size allowed: ${maxFileSize / (1024 * 1024)}MB`);
+
+// Streams the request body, erroring as soon as more than `limit` bytes arrive
+// so an oversized upload is never held in memory.
+function limitedBody(req: IncomingMessage, limit: number, error: Error): ReadableStream<Uint8Array> {
+  let received = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const onData = (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > limit) {
+          req.off('data', onData);
+          req.pause();
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(new Uint8Array(chunk));
+      };
+
+      req.on('data', onData);
+      req.on('end', () => {
+        if (received <= limit) controller.close();
+      });
+      req.on('error', err => controller.error(err));
+    },
+    cancel() {
+      req.destroy();
+    }
+  });
+}
+
+// Reads a single uploaded file from either a multipart/form-data body (field `file`)
+// or a raw body whose Content-Type is the file type and `?filename=` names it.
+export async function readUploadedFile(req: IncomingMessage, maxFileSize: number): Promise<UploadedFile> {
+  const contentType = req.headers['content-type'] || '';
+  const isMultipart = contentType.startsWith('multipart/form-data');
+  const limit = isMultipart ? maxFileSize + MULTIPART_OVERHEAD : maxFileSize;
+
+  // Reject early when the client announces an oversized body
+  const declaredLength = parseInt(req.headers['content-length'] || '', 10);
+  if (!isNaN(declaredLength) && declaredLength > limit) {
+    throw tooLarge(maxFileSize);
+  }
+
+  const body = limitedBody(req, limit, tooLarge(maxFileSize));
+
+  if (isMultipart) {
+    let form: FormData;
+    try {
+      form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    } catch (error) {
+      if (error instanceof Error && /too large/.test(error.message)) {
+        throw error;
+      }
+      throw new Error('Invalid multipart body');
+    }
+
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      throw new Error('Multipart body must contain a `file` field');
+    }
+
+    return {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      filename: file.name || 'receipt',
+      mimetype: file.type
+    };
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  return {
+    buffer: Buffer.from(await new Response(body).arrayBuffer()),
+    filename: url.searchParams.get('filename') || 'receipt',
+    mimetype: contentType.split(';')[0].trim()
+  };
+}
@@ -0,0 +1,13 @@
+import { sendMail, appUrl } from './mailer';
+
+export async function sendVerificationEmail(user: { email: string; first_name: string }, token: string): Promise<void> {
+  const verifyLink = appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.first_name},\n\n` +
+      `Please confirm your email address by opening the link below.\n\n` +
+      `${verifyLink}\n\n` +
+      `If you did not create an account, you can ignore this email.`
+  });
+}
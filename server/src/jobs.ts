@@ -0,0 +1,56 @@
+import { type JobDefinition } from './scheduler';
+import { type JobName } from './schema';
+import { rollOverBudgets } from './handlers/roll_over_budgets';
+import { cleanupExpiredReports } from './handlers/cleanup_expired_reports';
+import { sendApprovalReminders } from './handlers/send_approval_reminders';
+import { escalateStaleApprovals } from './handlers/escalate_stale_approvals';
+import { generateRecurringExpenses } from './handlers/generate_recurring_expenses';
+
+// Periodic maintenance jobs run by the scheduler (see scheduler.ts).
+// Every job must be safe to run again at any time.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const JOBS: Record<JobName, JobDefinition> = {
+  ROLL_OVER_BUDGETS: {
+    name: 'ROLL_OVER_BUDGETS',
+    interval: HOUR,
+    max_attempts: 5,
+    retry_delay: MINUTE,
+    timeout: 30 * MINUTE,
+    run: rollOverBudgets
+  },
+  CLEANUP_EXPIRED_REPORTS: {
+    name: 'CLEANUP_EXPIRED_REPORTS',
+    interval: HOUR,
+    max_attempts: 3,
+    retry_delay: 5 * MINUTE,
+    timeout: 30 * MINUTE,
+    run: cleanupExpiredReports
+  },
+  SEND_APPROVAL_REMINDERS: {
+    name: 'SEND_APPROVAL_REMINDERS',
+    interval: HOUR, // at most one reminder per approver and day
+    max_attempts: 3,
+    retry_delay: 5 * MINUTE,
+    timeout: 30 * MINUTE,
+    run: sendApprovalReminders
+  },
+  GENERATE_RECURRING_EXPENSES: {
+    name: 'GENERATE_RECURRING_EXPENSES',
+    interval: HOUR,
+    max_attempts: 5,
+    retry_delay: MINUTE,
+    timeout: 30 * MINUTE,
+    run: generateRecurringExpenses
+  },
+  ESCALATE_STALE_APPROVALS: {
+    name: 'ESCALATE_STALE_APPROVALS',
+    interval: HOUR,
+    max_attempts: 3,
+    retry_delay: 5 * MINUTE,
+    timeout: 30 * MINUTE,
+    run: escalateStaleApprovals
+  }
+};
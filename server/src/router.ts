@@ -0,0 +1,459 @@
+import { router, publicProcedure, protectedProcedure } from './trpc';
+import {
+  adminProcedure,
+  managerProcedure,
+  requireSelfOrAdmin,
+  requireManagerOfMember,
+  requireTeamManager,
+  requireExpenseOwner,
+  requireExpenseApprover,
+  requireBudgetOwner,
+  requireReceiptOwner,
+  requireRecurringSeriesOwner
+} from './authorization';
+
+// Import schemas
+import { z } from 'zod';
+import {
+  registerUserInputSchema,
+  loginUserInputSchema,
+  resetPasswordInputSchema,
+  confirmPasswordResetInputSchema,
+  verifyEmailInputSchema,
+  updateAppSettingsInputSchema,
+  updateUserProfileInputSchema,
+  updateUserRoleInputSchema,
+  getCategoriesInputSchema,
+  createCategoryInputSchema,
+  updateCategoryInputSchema,
+  archiveCategoryInputSchema,
+  getTagsInputSchema,
+  renameTagInputSchema,
+  mergeTagsInputSchema,
+  createExpenseInputSchema,
+  createExpenseFromReceiptInputSchema,
+  updateExpenseInputSchema,
+  approveExpenseInputSchema,
+  bulkApproveExpensesInputSchema,
+  resubmitExpenseInputSchema,
+  getExpenseApprovalsInputSchema,
+  createApprovalPolicyInputSchema,
+  updateApprovalPolicyInputSchema,
+  deleteApprovalPolicyInputSchema,
+  createApprovalDelegationInputSchema,
+  deleteApprovalDelegationInputSchema,
+  getUserExpensesInputSchema,
+  createBudgetInputSchema,
+  createTeamBudgetInputSchema,
+  updateBudgetInputSchema,
+  getBudgetHistoryInputSchema,
+  reconcileBudgetsInputSchema,
+  createRecurringSeriesInputSchema,
+  updateRecurringSeriesInputSchema,
+  pauseRecurringSeriesInputSchema,
+  skipRecurringOccurrenceInputSchema,
+  getDashboardDataInputSchema,
+  createTeamInputSchema,
+  addTeamMemberInputSchema,
+  updateTeamApprovalSlaInputSchema,
+  createNotificationInputSchema,
+  markNotificationReadInputSchema,
+  updateBudgetAlertPreferenceInputSchema,
+  generateReportInputSchema,
+  importExchangeRatesInputSchema,
+  getJobRunsInputSchema,
+  triggerJobInputSchema
+} from './schema';
+
+// Import handlers
+import { registerUser } from './handlers/register_user';
+import { loginUser } from './handlers/login_user';
+import { resetPassword } from './handlers/reset_password';
+import { confirmPasswordReset } from './handlers/confirm_password_reset';
+import { verifyEmail } from './handlers/verify_email';
+import { resendVerificationEmail } from './handlers/resend_verification_email';
+import { updateAppSettings } from './handlers/update_app_settings';
+import { getAppSettings } from './helpers/app_settings';
+import { updateUserProfile } from './handlers/update_user_profile';
+import { updateUserRole } from './handlers/update_user_role';
+import { getCategories } from './handlers/get_categories';
+import { createCategory } from './handlers/create_category';
+import { updateCategory } from './handlers/update_category';
+import { archiveCategory } from './handlers/archive_category';
+import { getTags } from './handlers/get_tags';
+import { renameTag } from './handlers/rename_tag';
+import { mergeTags } from './handlers/merge_tags';
+import { createExpense } from './handlers/create_expense';
+import { getUserExpenses } from './handlers/get_user_expenses';
+import { updateExpense } from './handlers/update_expense';
+import { approveExpense } from './handlers/approve_expense';
+import { bulkApproveExpenses } from './handlers/bulk_approve_expenses';
+import { deleteExpense } from './handlers/delete_expense';
+import { createBudget } from './handlers/create_budget';
+import { getTeamBudgets } from './handlers/get_team_budgets';
+import { getCompanyBudgets } from './handlers/get_company_budgets';
+import { getUserBudgets } from './handlers/get_user_budgets';
+import { updateBudget } from './handlers/update_budget';
+import { getBudgetHistory } from './handlers/get_budget_history';
+import { reconcileBudgets } from './handlers/reconcile_budgets';
+import { createRecurringSeries } from './handlers/create_recurring_series';
+import { getUserRecurringSeries } from './handlers/get_user_recurring_series';
+import { updateRecurringSeries } from './handlers/update_recurring_series';
+import { pauseRecurringSeries } from './handlers/pause_recurring_series';
+import { skipRecurringOccurrence } from './handlers/skip_recurring_occurrence';
+import { getDashboardData } from './handlers/get_dashboard_data';
+import { createTeam } from './handlers/create_team';
+import { addTeamMember } from './handlers/add_team_member';
+import { updateTeamApprovalSla } from './handlers/update_team_approval_sla';
+import { getTeamExpenses } from './handlers/get_team_expenses';
+import { getUserTeams } from './handlers/get_user_teams';
+import { createNotification } from './handlers/create_notification';
+import { getUserNotifications } from './handlers/get_user_notifications';
+import { markNotificationRead } from './handlers/mark_notification_read';
+import { getBudgetAlertPreferences } from './handlers/get_budget_alert_preferences';
+import { updateBudgetAlertPreference } from './handlers/update_budget_alert_preference';
+import { generateReport } from './handlers/generate_report';
+import { getUserReports } from './handlers/get_user_reports';
+import { searchExpenses } from './handlers/search_expenses';
+import { getExpenseAnalytics } from './handlers/get_expense_analytics';
+import { uploadReceipt } from './handlers/upload_receipt';
+import { createExpenseFromReceipt } from './handlers/create_expense_from_receipt';
+import { getPendingApprovals } from './handlers/get_pending_approvals';
+import { getExpenseApprovals } from './handlers/get_expense_approvals';
+import { resubmitExpense } from './handlers/resubmit_expense';
+import { getApprovalPolicies } from './handlers/get_approval_policies';
+import { createApprovalPolicy } from './handlers/create_approval_policy';
+import { updateApprovalPolicy } from './handlers/update_approval_policy';
+import { deleteApprovalPolicy } from './handlers/delete_approval_policy';
+import { getApprovalDelegations } from './handlers/get_approval_delegations';
+import { createApprovalDelegation } from './handlers/create_approval_delegation';
+import { deleteApprovalDelegation } from './handlers/delete_approval_delegation';
+import { importExchangeRates } from './handlers/import_exchange_rates';
+import { getJobRuns } from './handlers/get_job_runs';
+import { triggerJob } from './handlers/trigger_job';
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Authentication routes
+  register: publicProcedure
+    .input(registerUserInputSchema)
+    .mutation(({ input }) => registerUser(input)),
+
+  login: publicProcedure
+    .input(loginUserInputSchema)
+    .mutation(({ input }) => loginUser(input)),
+
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetPassword(input)),
+
+  confirmPasswordReset: publicProcedure
+    .input(confirmPasswordResetInputSchema)
+    .mutation(({ input }) => confirmPasswordReset(input)),
+
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .mutation(({ input }) => verifyEmail(input)),
+
+  resendVerificationEmail: protectedProcedure
+    .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+
+  updateProfile: protectedProcedure
+    .input(updateUserProfileInputSchema.omit({ id: true }))
+    .mutation(({ input, ctx }) => updateUserProfile({ ...input, id: ctx.user.id })),
+
+  updateUserRole: adminProcedure
+    .input(updateUserRoleInputSchema)
+    .mutation(({ input, ctx }) => updateUserRole(input, ctx.user.id)),
+
+  // Category routes; categories are shared by the whole organization
+  getCategories: protectedProcedure
+    .input(getCategoriesInputSchema)
+    .query(({ input }) => getCategories(input)),
+
+  createCategory: adminProcedure
+    .input(createCategoryInputSchema.omit({ created_by: true }))
+    .mutation(({ input, ctx }) => createCategory({ ...input, created_by: ctx.user.id })),
+
+  updateCategory: adminProcedure
+    .input(updateCategoryInputSchema)
+    .mutation(({ input }) => updateCategory(input)),
+
+  archiveCategory: adminProcedure
+    .input(archiveCategoryInputSchema)
+    .mutation(({ input }) => archiveCategory(input)),
+
+  // Tag routes; every user manages their own tags
+  getTags: protectedProcedure
+    .input(getTagsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getTags({ ...input, user_id: ctx.user.id })),
+
+  renameTag: protectedProcedure
+    .input(renameTagInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => renameTag({ ...input, user_id: ctx.user.id })),
+
+  mergeTags: protectedProcedure
+    .input(mergeTagsInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => mergeTags({ ...input, user_id: ctx.user.id })),
+
+  // Expense management routes
+  createExpense: protectedProcedure
+    .input(createExpenseInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createExpense({ ...input, user_id: ctx.user.id })),
+
+  getUserExpenses: protectedProcedure
+    .input(getUserExpensesInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getUserExpenses({ ...input, user_id: ctx.user.id })),
+
+  updateExpense: protectedProcedure
+    .input(updateExpenseInputSchema)
+    .use(requireExpenseOwner((input: { id: number }) => input.id))
+    .mutation(({ input }) => updateExpense(input)),
+
+  approveExpense: managerProcedure
+    .input(approveExpenseInputSchema.omit({ approved_by: true }))
+    .use(requireExpenseApprover((input: { expense_id: number }) => input.expense_id))
+    .mutation(({ input, ctx }) => approveExpense({ ...input, approved_by: ctx.user.id })),
+
+  // Permissions are checked per expense; the result says which ones were decided
+  bulkApproveExpenses: managerProcedure
+    .input(bulkApproveExpensesInputSchema.omit({ approved_by: true }))
+    .mutation(({ input, ctx }) => bulkApproveExpenses({ ...input, approved_by: ctx.user.id })),
+
+  resubmitExpense: protectedProcedure
+    .input(resubmitExpenseInputSchema)
+    .use(requireExpenseOwner((input: { expense_id: number }) => input.expense_id))
+    .mutation(({ input }) => resubmitExpense(input)),
+
+  getExpenseApprovals: protectedProcedure
+    .input(getExpenseApprovalsInputSchema)
+    .use(requireExpenseOwner((input: { expense_id: number }) => input.expense_id))
+    .query(({ input }) => getExpenseApprovals(input)),
+
+  deleteExpense: protectedProcedure
+    .input(z.object({ expenseId: z.number() }))
+    .use(requireExpenseOwner((input: { expenseId: number }) => input.expenseId))
+    .mutation(({ input, ctx }) => deleteExpense(input.expenseId, ctx.user.id)),
+
+  // Budget management routes
+  createBudget: protectedProcedure
+    .input(createBudgetInputSchema.omit({ user_id: true, scope: true, team_id: true }))
+    .mutation(({ input, ctx }) => createBudget({ ...input, scope: 'USER', user_id: ctx.user.id })),
+
+  createTeamBudget: protectedProcedure
+    .input(createTeamBudgetInputSchema.omit({ user_id: true }))
+    .use(requireTeamManager((input: { team_id: number }) => input.team_id))
+    .mutation(({ input, ctx }) => createBudget({ ...input, scope: 'TEAM', user_id: ctx.user.id })),
+
+  createCompanyBudget: adminProcedure
+    .input(createBudgetInputSchema.omit({ user_id: true, scope: true, team_id: true }))
+    .mutation(({ input, ctx }) => createBudget({ ...input, scope: 'COMPANY', user_id: ctx.user.id })),
+
+  getUserBudgets: protectedProcedure
+    .query(({ ctx }) => getUserBudgets(ctx.user.id)),
+
+  updateBudget: protectedProcedure
+    .input(updateBudgetInputSchema)
+    .use(requireBudgetOwner((input: { id: number }) => input.id))
+    .mutation(({ input }) => updateBudget(input)),
+
+  getBudgetHistory: protectedProcedure
+    .input(getBudgetHistoryInputSchema)
+    .use(requireBudgetOwner((input: { budget_id: number }) => input.budget_id))
+    .query(({ input }) => getBudgetHistory(input)),
+
+  // Recurring expense routes
+  createRecurringSeries: protectedProcedure
+    .input(createRecurringSeriesInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createRecurringSeries({ ...input, user_id: ctx.user.id })),
+
+  getUserRecurringSeries: protectedProcedure
+    .query(({ ctx }) => getUserRecurringSeries(ctx.user.id)),
+
+  updateRecurringSeries: protectedProcedure
+    .input(updateRecurringSeriesInputSchema)
+    .use(requireRecurringSeriesOwner((input: { id: number }) => input.id))
+    .mutation(({ input }) => updateRecurringSeries(input)),
+
+  pauseRecurringSeries: protectedProcedure
+    .input(pauseRecurringSeriesInputSchema)
+    .use(requireRecurringSeriesOwner((input: { id: number }) => input.id))
+    .mutation(({ input }) => pauseRecurringSeries(input)),
+
+  skipRecurringOccurrence: protectedProcedure
+    .input(skipRecurringOccurrenceInputSchema)
+    .use(requireRecurringSeriesOwner((input: { series_id: number }) => input.series_id))
+    .mutation(({ input }) => skipRecurringOccurrence(input)),
+
+  // Dashboard routes
+  getDashboard: protectedProcedure
+    .input(getDashboardDataInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getDashboardData({ ...input, user_id: ctx.user.id })),
+
+  // Team management routes
+  createTeam: managerProcedure
+    .input(createTeamInputSchema)
+    .use(requireSelfOrAdmin((input: { manager_id: number }) => input.manager_id))
+    .mutation(({ input }) => createTeam(input)),
+
+  addTeamMember: protectedProcedure
+    .input(addTeamMemberInputSchema)
+    .use(requireTeamManager((input: { team_id: number }) => input.team_id))
+    .mutation(({ input }) => addTeamMember(input)),
+
+  getTeamExpenses: protectedProcedure
+    .input(z.object({ teamId: z.number() }))
+    .use(requireTeamManager((input: { teamId: number }) => input.teamId))
+    .query(({ input, ctx }) => getTeamExpenses(input.teamId, ctx.user.id)),
+
+  // Reminders and escalations bypass the team manager, so admins set them
+  updateTeamApprovalSla: adminProcedure
+    .input(updateTeamApprovalSlaInputSchema)
+    .mutation(({ input }) => updateTeamApprovalSla(input)),
+
+  getTeamBudgets: protectedProcedure
+    .input(z.object({ teamId: z.number() }))
+    .use(requireTeamManager((input: { teamId: number }) => input.teamId))
+    .query(({ input }) => getTeamBudgets(input.teamId)),
+
+  getCompanyBudgets: managerProcedure
+    .query(() => getCompanyBudgets()),
+
+  getUserTeams: protectedProcedure
+    .query(({ ctx }) => getUserTeams(ctx.user.id)),
+
+  // Notification routes
+  createNotification: managerProcedure
+    .input(createNotificationInputSchema)
+    .use(requireManagerOfMember((input: { user_id: number }) => input.user_id))
+    .mutation(({ input }) => createNotification(input)),
+
+  getUserNotifications: protectedProcedure
+    .input(z.object({ unreadOnly: z.boolean().optional() }))
+    .query(({ input, ctx }) => getUserNotifications(ctx.user.id, input.unreadOnly)),
+
+  markNotificationRead: protectedProcedure
+    .input(markNotificationReadInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => markNotificationRead({ ...input, user_id: ctx.user.id })),
+
+  getBudgetAlertPreferences: protectedProcedure
+    .query(({ ctx }) => getBudgetAlertPreferences(ctx.user.id)),
+
+  updateBudgetAlertPreference: protectedProcedure
+    .input(updateBudgetAlertPreferenceInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateBudgetAlertPreference({ ...input, user_id: ctx.user.id })),
+
+  // Report generation routes
+  generateReport: protectedProcedure
+    .input(generateReportInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => generateReport({ ...input, user_id: ctx.user.id })),
+
+  getUserReports: protectedProcedure
+    .query(({ ctx }) => getUserReports(ctx.user.id)),
+
+  // Search and analytics routes
+  searchExpenses: protectedProcedure
+    .input(z.object({
+      searchTerm: z.string(),
+      filters: z.object({
+        categoryId: z.number().optional(),
+        tags: z.array(z.string()).optional(),
+        dateFrom: z.coerce.date().optional(),
+        dateTo: z.coerce.date().optional(),
+        minAmount: z.number().optional(),
+        maxAmount: z.number().optional()
+      }).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().int().positive().max(100).optional()
+    }))
+    .query(({ input, ctx }) => searchExpenses(ctx.user.id, input.searchTerm, input.filters, { cursor: input.cursor, limit: input.limit })),
+
+  getExpenseAnalytics: protectedProcedure
+    .input(z.object({
+      period: z.enum(['month', 'year', 'custom']),
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional()
+    }))
+    .query(({ input, ctx }) => getExpenseAnalytics(ctx.user.id, input.period, input.startDate, input.endDate)),
+
+  // File upload routes. Large files should go through the streaming
+  // `POST /receipts` endpoint (file_routes.ts) instead of base64 JSON.
+  uploadReceipt: protectedProcedure
+    .input(z.object({
+      filename: z.string(),
+      mimetype: z.string(),
+      buffer: z.string() // Base64 encoded file data
+    }))
+    .mutation(({ input, ctx }) => uploadReceipt(ctx.user.id, {
+      buffer: Buffer.from(input.buffer, 'base64'),
+      filename: input.filename,
+      mimetype: input.mimetype
+    })),
+
+  createExpenseFromReceipt: protectedProcedure
+    .input(createExpenseFromReceiptInputSchema)
+    .use(requireReceiptOwner((input: { receipt_id: number }) => input.receipt_id))
+    .mutation(({ input, ctx }) => createExpenseFromReceipt(input, ctx.user.id)),
+
+  // Admin routes
+  getAppSettings: adminProcedure
+    .query(() => getAppSettings()),
+
+  updateAppSettings: adminProcedure
+    .input(updateAppSettingsInputSchema)
+    .mutation(({ input, ctx }) => updateAppSettings(input, ctx.user.id)),
+
+  importExchangeRates: adminProcedure
+    .input(importExchangeRatesInputSchema)
+    .mutation(({ input }) => importExchangeRates(input)),
+
+  reconcileBudgets: adminProcedure
+    .input(reconcileBudgetsInputSchema)
+    .mutation(({ input }) => reconcileBudgets(input)),
+
+  getJobRuns: adminProcedure
+    .input(getJobRunsInputSchema)
+    .query(({ input }) => getJobRuns(input)),
+
+  triggerJob: adminProcedure
+    .input(triggerJobInputSchema)
+    .mutation(({ input, ctx }) => triggerJob(input, ctx.user.id)),
+
+  // Approval policy routes
+  getApprovalPolicies: adminProcedure
+    .query(() => getApprovalPolicies()),
+
+  createApprovalPolicy: adminProcedure
+    .input(createApprovalPolicyInputSchema)
+    .mutation(({ input }) => createApprovalPolicy(input)),
+
+  updateApprovalPolicy: adminProcedure
+    .input(updateApprovalPolicyInputSchema)
+    .mutation(({ input }) => updateApprovalPolicy(input)),
+
+  deleteApprovalPolicy: adminProcedure
+    .input(deleteApprovalPolicyInputSchema)
+    .mutation(({ input }) => deleteApprovalPolicy(input)),
+
+  // Approval delegation routes; approvers delegate their own steps
+  getApprovalDelegations: managerProcedure
+    .query(({ ctx }) => getApprovalDelegations(ctx.user.id)),
+
+  createApprovalDelegation: managerProcedure
+    .input(createApprovalDelegationInputSchema.omit({ delegator_id: true }))
+    .mutation(({ input, ctx }) => createApprovalDelegation({ ...input, delegator_id: ctx.user.id })),
+
+  deleteApprovalDelegation: managerProcedure
+    .input(deleteApprovalDelegationInputSchema.omit({ delegator_id: true }))
+    .mutation(({ input, ctx }) => deleteApprovalDelegation({ ...input, delegator_id: ctx.user.id })),
+
+  // Manager-specific routes
+  getPendingApprovals: managerProcedure
+    .query(({ ctx }) => getPendingApprovals(ctx.user.id)),
+});
+
+export type AppRouter = typeof appRouter;
@@ -0,0 +1,268 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { jobRunsTable, schedulerLocksTable, type JobRun } from './db/schema';
+import { and, asc, desc, eq, inArray, lt, lte, or } from 'drizzle-orm';
+
+// In-process job scheduler backed by the job_runs table.
+//
+// Every server instance ticks, but only the holder of the scheduler lease
+// enqueues and executes runs, so replicas never run the same job twice. The
+// lease expires when its holder stops renewing it and another instance takes
+// over on its next tick. Failed runs are retried with exponential backoff, each
+// attempt recorded as its own row.
+
+export interface JobDefinition {
+  name: string;
+  interval: number; // ms between scheduled runs
+  max_attempts: number;
+  retry_delay: number; // ms before the first retry, doubled for every further attempt
+  timeout: number; // ms after which a RUNNING run is considered interrupted
+  run(now: Date): Promise<unknown>; // returns a JSON-serializable summary
+}
+
+export interface SchedulerOptions {
+  worker?: string;
+  tick_interval?: number; // ms
+  lease?: number; // ms, must be longer than the tick interval
+}
+
+const LOCK_NAME = 'scheduler';
+const DEFAULT_TICK_INTERVAL = 30 * 1000;
+const DEFAULT_LEASE = 2 * 60 * 1000;
+
+export const createWorkerId = (): string => `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+export const retryDelay = (job: JobDefinition, failedAttempt: number): number =>
+  job.retry_delay * 2 ** (failedAttempt - 1);
+
+// Takes or renews the scheduler lease; true while `worker` is the leader
+export async function acquireLeadership(worker: string, now: Date, lease: number = DEFAULT_LEASE): Promise<boolean> {
+  const expiresAt = new Date(now.getTime() + lease);
+
+  const rows = await db.insert(schedulerLocksTable)
+    .values({ name: LOCK_NAME, holder: worker, acquired_at: now, expires_at: expiresAt })
+    .onConflictDoUpdate({
+      target: schedulerLocksTable.name,
+      set: { holder: worker, acquired_at: now, expires_at: expiresAt },
+      setWhere: or(
+        eq(schedulerLocksTable.holder, worker),
+        lt(schedulerLocksTable.expires_at, now)
+      )
+    })
+    .returning({ holder: schedulerLocksTable.holder })
+    .execute();
+
+  return rows.length > 0 && rows[0].holder === worker;
+}
+
+export async function releaseLeadership(worker: string): Promise<void> {
+  await db.delete(schedulerLocksTable)
+    .where(and(
+      eq(schedulerLocksTable.name, LOCK_NAME),
+      eq(schedulerLocksTable.holder, worker)
+    ))
+    .execute();
+}
+
+export async function enqueueJobRun(
+  job: JobDefinition,
+  trigger: JobRun['trigger'],
+  scheduledFor: Date,
+  options: { attempt?: number; triggered_by?: number | null } = {}
+): Promise<JobRun> {
+  const rows = await db.insert(jobRunsTable)
+    .values({
+      job_name: job.name,
+      trigger,
+      attempt: options.attempt ?? 1,
+      max_attempts: job.max_attempts,
+      scheduled_for: scheduledFor,
+      triggered_by: options.triggered_by ?? null
+    })
+    .returning()
+    .execute();
+
+  return rows[0];
+}
+
+export async function hasActiveRun(jobName: string): Promise<boolean> {
+  const active = await db.select({ id: jobRunsTable.id })
+    .from(jobRunsTable)
+    .where(and(
+      eq(jobRunsTable.job_name, jobName),
+      inArray(jobRunsTable.status, ['PENDING', 'RUNNING'])
+    ))
+    .limit(1)
+    .execute();
+
+  return active.length > 0;
+}
+
+// Enqueues a run for every job whose interval has passed since its last
+// scheduled run, unless one is already waiting or running
+async function scheduleDueJobs(jobs: JobDefinition[], now: Date): Promise<void> {
+  for (const job of jobs) {
+    if (await hasActiveRun(job.name)) {
+      continue;
+    }
+
+    const last = await db.select({ scheduled_for: jobRunsTable.scheduled_for })
+      .from(jobRunsTable)
+      .where(and(
+        eq(jobRunsTable.job_name, job.name),
+        eq(jobRunsTable.trigger, 'SCHEDULE')
+      ))
+      .orderBy(desc(jobRunsTable.scheduled_for))
+      .limit(1)
+      .execute();
+
+    if (last.length === 0 || last[0].scheduled_for.getTime() + job.interval <= now.getTime()) {
+      await enqueueJobRun(job, 'SCHEDULE', now);
+    }
+  }
+}
+
+// Marks the run failed and queues the next attempt while attempts remain.
+// Only a run still RUNNING is failed, so an attempt is never retried twice.
+async function failRun(job: JobDefinition, run: JobRun, error: string, now: Date): Promise<void> {
+  const failed = await db.update(jobRunsTable)
+    .set({ status: 'FAILED', error, finished_at: new Date() })
+    .where(and(
+      eq(jobRunsTable.id, run.id),
+      eq(jobRunsTable.status, 'RUNNING')
+    ))
+    .returning({ id: jobRunsTable.id })
+    .execute();
+
+  if (failed.length > 0 && run.attempt < run.max_attempts) {
+    await enqueueJobRun(job, 'RETRY', new Date(now.getTime() + retryDelay(job, run.attempt)), {
+      attempt: run.attempt + 1,
+      triggered_by: run.triggered_by
+    });
+  }
+}
+
+// Runs left RUNNING by an instance that stopped or lost the lease mid-run
+async function recoverInterruptedRuns(jobs: JobDefinition[], now: Date): Promise<void> {
+  for (const job of jobs) {
+    const interrupted = await db.select()
+      .from(jobRunsTable)
+      .where(and(
+        eq(jobRunsTable.job_name, job.name),
+        eq(jobRunsTable.status, 'RUNNING'),
+        lt(jobRunsTable.started_at, new Date(now.getTime() - job.timeout))
+      ))
+      .execute();
+
+    for (const run of interrupted) {
+      await failRun(job, run, 'Job run was interrupted', now);
+    }
+  }
+}
+
+async function claimNextRun(jobNames: string[], worker: string, now: Date): Promise<JobRun | null> {
+  return db.transaction(async (tx) => {
+    const due = await tx.select({ id: jobRunsTable.id })
+      .from(jobRunsTable)
+      .where(and(
+        eq(jobRunsTable.status, 'PENDING'),
+        lte(jobRunsTable.scheduled_for, now),
+        inArray(jobRunsTable.job_name, jobNames)
+      ))
+      .orderBy(asc(jobRunsTable.scheduled_for), asc(jobRunsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+
+    if (due.length === 0) {
+      return null;
+    }
+
+    const claimed = await tx.update(jobRunsTable)
+      .set({ status: 'RUNNING', started_at: new Date(), worker })
+      .where(eq(jobRunsTable.id, due[0].id))
+      .returning()
+      .execute();
+
+    return claimed[0];
+  });
+}
+
+async function executeRun(job: JobDefinition, run: JobRun, worker: string, now: Date): Promise<void> {
+  try {
+    const result = await job.run(now);
+
+    await db.update(jobRunsTable)
+      .set({
+        status: 'SUCCEEDED',
+        result: result === undefined ? null : JSON.stringify(result),
+        finished_at: new Date()
+      })
+      .where(and(
+        eq(jobRunsTable.id, run.id),
+        eq(jobRunsTable.status, 'RUNNING'),
+        eq(jobRunsTable.worker, worker)
+      ))
+      .execute();
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+    await failRun(job, run, error instanceof Error ? error.message : String(error), now);
+  }
+}
+
+// One scheduler pass: renew the lease, then schedule and execute due runs one
+// at a time. Returns the number of runs executed, or null when not the leader.
+export async function runSchedulerTick(
+  jobs: JobDefinition[],
+  worker: string,
+  now: Date = new Date(),
+  lease: number = DEFAULT_LEASE
+): Promise<number | null> {
+  if (!(await acquireLeadership(worker, now, lease))) {
+    return null;
+  }
+
+  await recoverInterruptedRuns(jobs, now);
+  await scheduleDueJobs(jobs, now);
+
+  const jobsByName = new Map(jobs.map(job => [job.name, job]));
+  let executed = 0;
+  let run: JobRun | null;
+  while ((run = await claimNextRun([...jobsByName.keys()], worker, now)) !== null) {
+    await executeRun(jobsByName.get(run.job_name)!, run, worker, now);
+    executed++;
+
+    // Long runs may outlast the lease; stop if another instance took over
+    if (!(await acquireLeadership(worker, new Date(), lease))) {
+      break;
+    }
+  }
+
+  return executed;
+}
+
+// Ticks until the returned function is called, which also releases the lease
+export function startScheduler(jobs: JobDefinition[], options: SchedulerOptions = {}): () => Promise<void> {
+  const worker = options.worker ?? createWorkerId();
+  const lease = options.lease ?? DEFAULT_LEASE;
+  let ticking: Promise<unknown> | null = null;
+
+  const tick = () => {
+    if (ticking) return; // previous tick still running its jobs
+    ticking = runSchedulerTick(jobs, worker, new Date(), lease)
+      .catch(error => console.error('Scheduler tick failed:', error))
+      .finally(() => {
+        ticking = null;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, options.tick_interval ?? DEFAULT_TICK_INTERVAL);
+
+  return async () => {
+    clearInterval(timer);
+    await ticking;
+    await releaseLeadership(worker);
+  };
+}
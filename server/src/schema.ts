@@ -2,19 +2,8 @@ import { z } from 'zod';
 
 // Enum definitions
 export const userRoleSchema = z.enum(['ADMIN', 'MANAGER', 'USER']);
-export const expenseStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
-export const expenseCategorySchema = z.enum([
-  'FOOD_DINING',
-  'TRANSPORTATION',
-  'SHOPPING',
-  'ENTERTAINMENT',
-  'BILLS_UTILITIES',
-  'HEALTHCARE',
-  'EDUCATION',
-  'TRAVEL',
-  'BUSINESS',
-  'OTHERS'
-]);
+// CHANGES_REQUESTED expenses go back to their submitter, who edits and resubmits them
+export const expenseStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED']);
 export const notificationTypeSchema = z.enum([
   'BUDGET_ALERT',
   'EXPENSE_APPROVAL',
@@ -22,6 +11,37 @@ export const notificationTypeSchema = z.enum([
   'SYSTEM_UPDATE'
 ]);
 export const reportTypeSchema = z.enum(['MONTHLY', 'YEARLY', 'CUSTOM']);
+export const reportFormatSchema = z.enum(['PDF', 'CSV', 'XLSX']);
+
+// USER budgets count the owner's expenses, TEAM budgets every expense filed
+// against the team, COMPANY budgets every expense in the organization
+export const budgetScopeSchema = z.enum(['USER', 'TEAM', 'COMPANY']);
+
+export const recurrenceFrequencySchema = z.enum(['WEEKLY', 'MONTHLY', 'YEARLY', 'CUSTOM']);
+export const exchangeRateFileFormatSchema = z.enum(['CSV', 'ECB_XML']);
+export const jobNameSchema = z.enum([
+  'ROLL_OVER_BUDGETS',
+  'CLEANUP_EXPIRED_REPORTS',
+  'SEND_APPROVAL_REMINDERS',
+  'GENERATE_RECURRING_EXPENSES',
+  'ESCALATE_STALE_APPROVALS'
+]);
+export const jobRunStatusSchema = z.enum(['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED']);
+export const jobTriggerSchema = z.enum(['SCHEDULE', 'MANUAL', 'RETRY']);
+
+// Who decides an approval step: the manager of the expense's team, a named
+// user, or any admin
+export const approverTypeSchema = z.enum(['TEAM_MANAGER', 'USER', 'ADMIN']);
+export const approvalStepStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED', 'SKIPPED']);
+
+// ISO 4217 currency code, e.g. 'USD'
+export const currencyCodeSchema = z.string()
+  .transform(code => code.trim().toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code'));
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type ReportFormat = z.infer<typeof reportFormatSchema>;
+export type BudgetScope = z.infer<typeof budgetScopeSchema>;
 
 // User schema
 export const userSchema = z.object({
@@ -37,6 +57,8 @@ export const userSchema = z.object({
   email_verification_token: z.string().nullable(),
   password_reset_token: z.string().nullable(),
   password_reset_expires: z.coerce.date().nullable(),
+  session_version: z.number().int(),
+  home_currency: z.string(),
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -50,6 +72,8 @@ export const teamSchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
   manager_id: z.number(),
+  approval_reminder_days: z.number().int().nullable(), // null for the company setting
+  approval_escalation_days: z.number().int().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -66,6 +90,36 @@ export const teamMemberSchema = z.object({
 
 export type TeamMember = z.infer<typeof teamMemberSchema>;
 
+// Category schema. Built-in categories have a key; subcategories have a parent
+export const categorySchema = z.object({
+  id: z.number(),
+  key: z.string().nullable(),
+  name: z.string(),
+  parent_id: z.number().nullable(),
+  icon: z.string().nullable(),
+  color: z.string().nullable(),
+  created_by: z.number().nullable(),
+  archived_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+// Tag schema; tags belong to the user who created them
+export const tagNameSchema = z.string().trim().min(1).max(50);
+
+export const tagSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  expense_count: z.number(), // expenses carrying the tag
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
 // Expense schema
 export const expenseSchema = z.object({
   id: z.number(),
@@ -73,30 +127,66 @@ export const expenseSchema = z.object({
   team_id: z.number().nullable(),
   title: z.string(),
   description: z.string().nullable(),
+  merchant: z.string().nullable(),
   amount: z.number(),
-  category: expenseCategorySchema,
+  currency: z.string(), // ISO 4217 code of the original amount
+  category_id: z.number(),
   receipt_url: z.string().nullable(),
+  receipt_id: z.number().nullable(),
   status: expenseStatusSchema,
   approved_by: z.number().nullable(),
   approved_at: z.coerce.date().nullable(),
   expense_date: z.coerce.date(),
   is_recurring: z.boolean(),
   recurring_frequency: z.string().nullable(), // 'weekly', 'monthly', 'yearly'
-  tags: z.string().nullable(), // JSON array as string
+  recurring_series_id: z.number().nullable(),
+  recurrence_date: z.string().nullable(), // YYYY-MM-DD
+  recurrence_modified: z.boolean(),
+  tags: z.array(z.string()), // tag names, alphabetical
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Expense = z.infer<typeof expenseSchema>;
 
+// Recurring expense series schema; dates are calendar days (YYYY-MM-DD)
+export const recurringSeriesSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  team_id: z.number().nullable(),
+  title: z.string(),
+  description: z.string().nullable(),
+  amount: z.number(),
+  currency: z.string(),
+  category_id: z.number(),
+  frequency: recurrenceFrequencySchema,
+  interval: z.number().int(),
+  rule: z.string().nullable(),
+  start_date: z.string(),
+  end_date: z.string().nullable(),
+  max_occurrences: z.number().int().nullable(),
+  occurrence_count: z.number().int(),
+  last_occurrence_date: z.string().nullable(),
+  next_occurrence_date: z.string().nullable(),
+  is_paused: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type RecurringSeries = z.infer<typeof recurringSeriesSchema>;
+
 // Budget schema
 export const budgetSchema = z.object({
   id: z.number(),
   user_id: z.number(),
-  category: expenseCategorySchema,
+  scope: budgetScopeSchema,
+  team_id: z.number().nullable(),
+  category_id: z.number(),
   monthly_limit: z.number(),
+  currency: z.string(),
   current_spent: z.number(),
   alert_threshold: z.number(), // percentage (0-100)
+  carry_over: z.boolean(),
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -104,6 +194,140 @@ export const budgetSchema = z.object({
 
 export type Budget = z.infer<typeof budgetSchema>;
 
+// Budget period schema (one calendar month of a budget); dates are YYYY-MM-DD
+export const budgetPeriodSchema = z.object({
+  id: z.number(),
+  budget_id: z.number(),
+  period_start: z.string(),
+  period_end: z.string(),
+  currency: z.string(),
+  monthly_limit: z.number(),
+  carried_over: z.number(),
+  spent: z.number(),
+  remaining: z.number(), // limit plus carried over minus spent, negative when overspent
+  closed_at: z.coerce.date().nullable()
+});
+
+export type BudgetPeriod = z.infer<typeof budgetPeriodSchema>;
+
+// A stored spending figure that disagreed with the expenses table, or a
+// carried over amount that disagreed with the period before it
+export const budgetDriftSchema = z.object({
+  budget_id: z.number(),
+  user_id: z.number(),
+  category_id: z.number(),
+  period_start: z.string().nullable(), // null for the budget's current_spent
+  figure: z.enum(['spent', 'carried_over']),
+  stored: z.number(),
+  actual: z.number(),
+  difference: z.number() // stored minus actual
+});
+
+export type BudgetDrift = z.infer<typeof budgetDriftSchema>;
+
+export const reconcileBudgetsResultSchema = z.object({
+  budgets_checked: z.number(),
+  drift: z.array(budgetDriftSchema),
+  fixed: z.boolean()
+});
+
+export type ReconcileBudgetsResult = z.infer<typeof reconcileBudgetsResultSchema>;
+
+// What approving an expense does to a team or company budget of its category,
+// in the month of the expense and in the budget currency
+export const budgetImpactSchema = z.object({
+  budget_id: z.number(),
+  scope: budgetScopeSchema,
+  team_id: z.number().nullable(),
+  category_id: z.number(),
+  currency: z.string(),
+  period_start: z.string(),
+  remaining: z.number(),
+  remaining_after_approval: z.number()
+});
+
+export type BudgetImpact = z.infer<typeof budgetImpactSchema>;
+
+// Approval policy schema; expenses of the team (or of every team without its
+// own policy) go through the steps above their amount's threshold
+export const approvalPolicyStepSchema = z.object({
+  id: z.number(),
+  position: z.number().int(),
+  name: z.string(),
+  approver_type: approverTypeSchema,
+  approver_id: z.number().nullable(),
+  threshold: z.number() // in the policy currency
+});
+
+export type ApprovalPolicyStep = z.infer<typeof approvalPolicyStepSchema>;
+
+export const approvalPolicySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  team_id: z.number().nullable(), // null for the company-wide policy
+  currency: z.string(),
+  steps: z.array(approvalPolicyStepSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>;
+
+// Approval delegation schema; dates are calendar days (YYYY-MM-DD)
+export const approvalDelegationSchema = z.object({
+  id: z.number(),
+  delegator_id: z.number(),
+  delegate_id: z.number(),
+  team_id: z.number().nullable(), // null for every team
+  start_date: z.string(),
+  end_date: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type ApprovalDelegation = z.infer<typeof approvalDelegationSchema>;
+
+// One step of an expense's approval history
+export const expenseApprovalSchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  round: z.number().int(), // submission the step belongs to, resubmitting starts a new round
+  step: z.number().int(),
+  name: z.string(),
+  approver_id: z.number().nullable(), // null when any admin decides the step
+  status: approvalStepStatusSchema,
+  decided_by: z.number().nullable(),
+  on_behalf_of: z.number().nullable(), // the step's approver, when decided_by decided it as their delegate
+  decided_at: z.coerce.date().nullable(),
+  comment: z.string().nullable(),
+  escalated_from: z.number().nullable(), // approver the step was taken from when it waited too long
+  escalated_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ExpenseApproval = z.infer<typeof expenseApprovalSchema>;
+
+// Expense awaiting approval as shown on the approval screen
+export const pendingApprovalSchema = expenseSchema.extend({
+  budget_impact: z.array(budgetImpactSchema),
+  approvals: z.array(expenseApprovalSchema), // every round so far, the caller's step is the PENDING one
+  submitted_at: z.coerce.date(), // when the current round started
+  waiting_since: z.coerce.date(), // when the current step became the one to decide
+  age_days: z.number().int(), // full days since waiting_since
+  overdue: z.boolean() // waiting on the step longer than the team's reminder SLA
+});
+
+export type PendingApproval = z.infer<typeof pendingApprovalSchema>;
+
+// Outcome of one expense of a bulk decision; failed expenses are left as they were
+export const bulkApprovalResultSchema = z.object({
+  expense_id: z.number(),
+  success: z.boolean(),
+  expense: expenseSchema.nullable(),
+  error: z.string().nullable()
+});
+
+export type BulkApprovalResult = z.infer<typeof bulkApprovalResultSchema>;
+
 // Notification schema
 export const notificationSchema = z.object({
   id: z.number(),
@@ -118,6 +342,14 @@ export const notificationSchema = z.object({
 
 export type Notification = z.infer<typeof notificationSchema>;
 
+// Whether the user receives BUDGET_ALERT notifications for a category
+export const budgetAlertPreferenceSchema = z.object({
+  category_id: z.number(),
+  enabled: z.boolean()
+});
+
+export type BudgetAlertPreference = z.infer<typeof budgetAlertPreferenceSchema>;
+
 // Report schema
 export const reportSchema = z.object({
   id: z.number(),
@@ -125,13 +357,79 @@ export const reportSchema = z.object({
   type: reportTypeSchema,
   title: z.string(),
   filters: z.string(), // JSON string with filter criteria
+  format: reportFormatSchema,
   generated_at: z.coerce.date(),
   file_url: z.string().nullable(),
+  storage_key: z.string().nullable(),
   expires_at: z.coerce.date().nullable()
 });
 
 export type Report = z.infer<typeof reportSchema>;
 
+// App settings schema
+export const appSettingsSchema = z.object({
+  id: z.number(),
+  allow_unverified_expenses: z.boolean(),
+  allow_unverified_team_members: z.boolean(),
+  approval_reminder_days: z.number().int(), // teams may set their own
+  approval_escalation_days: z.number().int(),
+  updated_by: z.number().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+
+// Receipt schema
+export const receiptSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  storage_key: z.string(),
+  filename: z.string(),
+  content_type: z.string(),
+  size: z.number().int(),
+  sha256: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  thumbnail_key: z.string().nullable(),
+  ocr_text: z.string().nullable(),
+  ocr_processed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Receipt = z.infer<typeof receiptSchema>;
+
+// Fields recognized on a receipt, each null when not found
+export const receiptExtractionSchema = z.object({
+  merchant: z.string().nullable(),
+  total: z.number().nullable(),
+  date: z.coerce.date().nullable(),
+  currency: z.string().nullable(), // ISO 4217 code
+  category_id: z.number()
+});
+
+export type ReceiptExtraction = z.infer<typeof receiptExtractionSchema>;
+
+// Job run schema (one attempt of a background job)
+export const jobRunSchema = z.object({
+  id: z.number(),
+  job_name: z.string(),
+  status: jobRunStatusSchema,
+  trigger: jobTriggerSchema,
+  attempt: z.number().int(),
+  max_attempts: z.number().int(),
+  scheduled_for: z.coerce.date(),
+  started_at: z.coerce.date().nullable(),
+  finished_at: z.coerce.date().nullable(),
+  result: z.string().nullable(), // JSON summary returned by the job
+  error: z.string().nullable(),
+  triggered_by: z.number().nullable(),
+  worker: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type JobRun = z.infer<typeof jobRunSchema>;
+export type JobName = z.infer<typeof jobNameSchema>;
+
 // Input schemas for user operations
 export const registerUserInputSchema = z.object({
   email: z.string().email(),
@@ -139,7 +437,7 @@ export const registerUserInputSchema = z.object({
   password: z.string().min(8),
   first_name: z.string().min(1).max(100),
   last_name: z.string().min(1).max(100),
-  role: userRoleSchema.optional().default('USER')
+  home_currency: currencyCodeSchema.optional()
 });
 
 export type RegisterUserInput = z.infer<typeof registerUserInputSchema>;
@@ -155,45 +453,79 @@ export const updateUserProfileInputSchema = z.object({
   id: z.number(),
   first_name: z.string().min(1).max(100).optional(),
   last_name: z.string().min(1).max(100).optional(),
-  avatar_url: z.string().nullable().optional()
+  avatar_url: z.string().nullable().optional(),
+  home_currency: currencyCodeSchema.optional()
 });
 
 export type UpdateUserProfileInput = z.infer<typeof updateUserProfileInputSchema>;
 
+// Users always register as USER; only admins change roles
+export const updateUserRoleInputSchema = z.object({
+  user_id: z.number(),
+  role: userRoleSchema
+});
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleInputSchema>;
+
 export const resetPasswordInputSchema = z.object({
   email: z.string().email()
 });
 
 export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
 
+export const confirmPasswordResetInputSchema = z.object({
+  token: z.string().min(1),
+  new_password: z.string().min(8)
+});
+
+export type ConfirmPasswordResetInput = z.infer<typeof confirmPasswordResetInputSchema>;
+
+export const verifyEmailInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
 // Input schemas for expense operations
 export const createExpenseInputSchema = z.object({
   user_id: z.number(),
   team_id: z.number().nullable().optional(),
   title: z.string().min(1).max(200),
   description: z.string().nullable().optional(),
+  merchant: z.string().max(200).nullable().optional(),
   amount: z.number().positive(),
-  category: expenseCategorySchema,
+  currency: currencyCodeSchema.optional(), // defaults to the user's home currency
+  category_id: z.number(),
   receipt_url: z.string().nullable().optional(),
+  receipt_id: z.number().nullable().optional(), // upload ID returned by the receipt upload endpoint
   expense_date: z.coerce.date(),
   is_recurring: z.boolean().optional().default(false),
   recurring_frequency: z.string().nullable().optional(),
-  tags: z.array(z.string()).optional()
+  tags: z.array(tagNameSchema).max(20).optional() // created on first use, matched ignoring case
 });
 
 export type CreateExpenseInput = z.infer<typeof createExpenseInputSchema>;
 
+export const createExpenseFromReceiptInputSchema = z.object({
+  receipt_id: z.number()
+});
+
+export type CreateExpenseFromReceiptInput = z.infer<typeof createExpenseFromReceiptInputSchema>;
+
 export const updateExpenseInputSchema = z.object({
   id: z.number(),
   title: z.string().min(1).max(200).optional(),
   description: z.string().nullable().optional(),
+  merchant: z.string().max(200).nullable().optional(),
   amount: z.number().positive().optional(),
-  category: expenseCategorySchema.optional(),
+  currency: currencyCodeSchema.optional(),
+  category_id: z.number().optional(),
   receipt_url: z.string().nullable().optional(),
+  receipt_id: z.number().nullable().optional(),
   expense_date: z.coerce.date().optional(),
   is_recurring: z.boolean().optional(),
   recurring_frequency: z.string().nullable().optional(),
-  tags: z.array(z.string()).optional()
+  tags: z.array(tagNameSchema).max(20).optional() // replaces the expense's tags
 });
 
 export type UpdateExpenseInput = z.infer<typeof updateExpenseInputSchema>;
@@ -201,30 +533,243 @@ export type UpdateExpenseInput = z.infer<typeof updateExpenseInputSchema>;
 export const approveExpenseInputSchema = z.object({
   expense_id: z.number(),
   approved_by: z.number(),
-  status: z.enum(['APPROVED', 'REJECTED'])
+  status: z.enum(['APPROVED', 'REJECTED', 'CHANGES_REQUESTED']),
+  comment: z.string().trim().max(1000).optional() // required unless approving
 });
 
 export type ApproveExpenseInput = z.infer<typeof approveExpenseInputSchema>;
 
+// The decision and its comment apply to every expense
+export const bulkApproveExpensesInputSchema = z.object({
+  expense_ids: z.array(z.number()).min(1).max(100),
+  approved_by: z.number(),
+  status: z.enum(['APPROVED', 'REJECTED', 'CHANGES_REQUESTED']),
+  comment: z.string().trim().max(1000).optional() // required unless approving
+});
+
+export type BulkApproveExpensesInput = z.infer<typeof bulkApproveExpensesInputSchema>;
+
+export const resubmitExpenseInputSchema = z.object({
+  expense_id: z.number()
+});
+
+export type ResubmitExpenseInput = z.infer<typeof resubmitExpenseInputSchema>;
+
+export const getExpenseApprovalsInputSchema = z.object({
+  expense_id: z.number()
+});
+
+export type GetExpenseApprovalsInput = z.infer<typeof getExpenseApprovalsInputSchema>;
+
+// Input schemas for recurring expenses
+export const createRecurringSeriesInputSchema = z.object({
+  user_id: z.number(),
+  team_id: z.number().nullable().optional(),
+  title: z.string().min(1).max(200),
+  description: z.string().nullable().optional(),
+  amount: z.number().positive(),
+  currency: currencyCodeSchema.optional(), // defaults to the user's home currency
+  category_id: z.number(),
+  frequency: recurrenceFrequencySchema,
+  interval: z.number().int().positive().optional().default(1),
+  rule: z.string().nullable().optional(), // required for CUSTOM
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date().nullable().optional(),
+  max_occurrences: z.number().int().positive().nullable().optional()
+});
+
+export type CreateRecurringSeriesInput = z.infer<typeof createRecurringSeriesInputSchema>;
+
+// Template changes apply to future occurrences and to generated expenses that are
+// still pending and were not edited individually; schedule changes apply from the
+// next occurrence on
+export const updateRecurringSeriesInputSchema = z.object({
+  id: z.number(),
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().nullable().optional(),
+  amount: z.number().positive().optional(),
+  currency: currencyCodeSchema.optional(),
+  category_id: z.number().optional(),
+  frequency: recurrenceFrequencySchema.optional(),
+  interval: z.number().int().positive().optional(),
+  rule: z.string().nullable().optional(),
+  end_date: z.coerce.date().nullable().optional(),
+  max_occurrences: z.number().int().positive().nullable().optional()
+});
+
+export type UpdateRecurringSeriesInput = z.infer<typeof updateRecurringSeriesInputSchema>;
+
+export const pauseRecurringSeriesInputSchema = z.object({
+  id: z.number(),
+  paused: z.boolean()
+});
+
+export type PauseRecurringSeriesInput = z.infer<typeof pauseRecurringSeriesInputSchema>;
+
+export const skipRecurringOccurrenceInputSchema = z.object({
+  series_id: z.number(),
+  occurrence_date: z.coerce.date()
+});
+
+export type SkipRecurringOccurrenceInput = z.infer<typeof skipRecurringOccurrenceInputSchema>;
+
 // Input schemas for budget operations
 export const createBudgetInputSchema = z.object({
   user_id: z.number(),
-  category: expenseCategorySchema,
+  scope: budgetScopeSchema.optional().default('USER'),
+  team_id: z.number().nullable().optional(), // required for TEAM budgets
+  category_id: z.number(),
   monthly_limit: z.number().positive(),
-  alert_threshold: z.number().min(0).max(100).optional().default(80)
+  currency: currencyCodeSchema.optional(), // defaults to the user's home currency
+  alert_threshold: z.number().min(0).max(100).optional().default(80),
+  carry_over: z.boolean().optional().default(false)
 });
 
 export type CreateBudgetInput = z.infer<typeof createBudgetInputSchema>;
 
+export const createTeamBudgetInputSchema = createBudgetInputSchema.omit({ scope: true, team_id: true }).extend({
+  team_id: z.number()
+});
+
+export type CreateTeamBudgetInput = z.infer<typeof createTeamBudgetInputSchema>;
+
 export const updateBudgetInputSchema = z.object({
   id: z.number(),
   monthly_limit: z.number().positive().optional(),
   alert_threshold: z.number().min(0).max(100).optional(),
+  carry_over: z.boolean().optional(),
   is_active: z.boolean().optional()
 });
 
 export type UpdateBudgetInput = z.infer<typeof updateBudgetInputSchema>;
 
+export const getBudgetHistoryInputSchema = z.object({
+  budget_id: z.number(),
+  limit: z.number().int().positive().max(120).optional().default(12) // months, newest first
+});
+
+export type GetBudgetHistoryInput = z.infer<typeof getBudgetHistoryInputSchema>;
+
+export const reconcileBudgetsInputSchema = z.object({
+  budget_id: z.number().optional(), // all budgets when omitted
+  dry_run: z.boolean().optional().default(false) // report drift without fixing it
+});
+
+export type ReconcileBudgetsInput = z.infer<typeof reconcileBudgetsInputSchema>;
+
+// Input schemas for categories
+const categoryColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex code like #1A2B3C');
+
+export const getCategoriesInputSchema = z.object({
+  include_archived: z.boolean().optional().default(false)
+});
+
+export type GetCategoriesInput = z.infer<typeof getCategoriesInputSchema>;
+
+export const createCategoryInputSchema = z.object({
+  created_by: z.number(),
+  name: z.string().trim().min(1).max(100),
+  parent_id: z.number().nullable().optional(),
+  icon: z.string().max(50).nullable().optional(),
+  color: categoryColorSchema.nullable().optional()
+});
+
+export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
+
+export const updateCategoryInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  parent_id: z.number().nullable().optional(),
+  icon: z.string().max(50).nullable().optional(),
+  color: categoryColorSchema.nullable().optional()
+});
+
+export type UpdateCategoryInput = z.infer<typeof updateCategoryInputSchema>;
+
+export const archiveCategoryInputSchema = z.object({
+  id: z.number(),
+  archived: z.boolean()
+});
+
+export type ArchiveCategoryInput = z.infer<typeof archiveCategoryInputSchema>;
+
+// Input schemas for approval policies
+const approvalPolicyStepInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  approver_type: approverTypeSchema,
+  approver_id: z.number().nullable().optional(), // USER steps only
+  threshold: z.number().nonnegative().optional().default(0)
+});
+
+export type ApprovalPolicyStepInput = z.infer<typeof approvalPolicyStepInputSchema>;
+
+export const createApprovalPolicyInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  team_id: z.number().nullable().optional(), // omitted for the company-wide policy
+  currency: currencyCodeSchema.optional(),
+  steps: z.array(approvalPolicyStepInputSchema).min(1).max(10)
+});
+
+export type CreateApprovalPolicyInput = z.infer<typeof createApprovalPolicyInputSchema>;
+
+export const updateApprovalPolicyInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  currency: currencyCodeSchema.optional(),
+  steps: z.array(approvalPolicyStepInputSchema).min(1).max(10).optional() // replaces the steps
+});
+
+export type UpdateApprovalPolicyInput = z.infer<typeof updateApprovalPolicyInputSchema>;
+
+export const deleteApprovalPolicyInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteApprovalPolicyInput = z.infer<typeof deleteApprovalPolicyInputSchema>;
+
+// Input schemas for approval delegations; the delegator is the signed-in approver
+export const createApprovalDelegationInputSchema = z.object({
+  delegator_id: z.number(),
+  delegate_id: z.number(),
+  team_id: z.number().nullable().optional(), // omitted for every team
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type CreateApprovalDelegationInput = z.infer<typeof createApprovalDelegationInputSchema>;
+
+export const deleteApprovalDelegationInputSchema = z.object({
+  id: z.number(),
+  delegator_id: z.number()
+});
+
+export type DeleteApprovalDelegationInput = z.infer<typeof deleteApprovalDelegationInputSchema>;
+
+// Input schemas for tag operations
+export const getTagsInputSchema = z.object({
+  user_id: z.number(),
+  query: z.string().trim().optional(), // name prefix, for autocomplete
+  limit: z.number().int().positive().max(100).optional()
+});
+
+export type GetTagsInput = z.infer<typeof getTagsInputSchema>;
+
+export const renameTagInputSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: tagNameSchema
+});
+
+export type RenameTagInput = z.infer<typeof renameTagInputSchema>;
+
+export const mergeTagsInputSchema = z.object({
+  user_id: z.number(),
+  source_ids: z.array(z.number()).min(1), // deleted once their expenses carry the target tag
+  target_id: z.number()
+});
+
+export type MergeTagsInput = z.infer<typeof mergeTagsInputSchema>;
+
 // Input schemas for team operations
 export const createTeamInputSchema = z.object({
   name: z.string().min(1).max(100),
@@ -241,6 +786,16 @@ export const addTeamMemberInputSchema = z.object({
 
 export type AddTeamMemberInput = z.infer<typeof addTeamMemberInputSchema>;
 
+// Days before pending expenses of the team are overdue and escalated; null
+// goes back to the company setting
+export const updateTeamApprovalSlaInputSchema = z.object({
+  team_id: z.number(),
+  reminder_days: z.number().int().positive().nullable().optional(),
+  escalation_days: z.number().int().positive().nullable().optional()
+});
+
+export type UpdateTeamApprovalSlaInput = z.infer<typeof updateTeamApprovalSlaInputSchema>;
+
 // Input schemas for notifications
 export const createNotificationInputSchema = z.object({
   user_id: z.number(),
@@ -259,6 +814,14 @@ export const markNotificationReadInputSchema = z.object({
 
 export type MarkNotificationReadInput = z.infer<typeof markNotificationReadInputSchema>;
 
+export const updateBudgetAlertPreferenceInputSchema = z.object({
+  user_id: z.number(),
+  category_id: z.number(),
+  enabled: z.boolean()
+});
+
+export type UpdateBudgetAlertPreferenceInput = z.infer<typeof updateBudgetAlertPreferenceInputSchema>;
+
 // Input schemas for reports
 export const generateReportInputSchema = z.object({
   user_id: z.number(),
@@ -266,16 +829,52 @@ export const generateReportInputSchema = z.object({
   title: z.string().min(1).max(200),
   date_from: z.coerce.date(),
   date_to: z.coerce.date(),
-  categories: z.array(expenseCategorySchema).optional(),
-  include_team_expenses: z.boolean().optional().default(false)
+  category_ids: z.array(z.number()).optional(), // subcategories are included
+  include_team_expenses: z.boolean().optional().default(false),
+  format: reportFormatSchema.optional().default('PDF')
 });
 
 export type GenerateReportInput = z.infer<typeof generateReportInputSchema>;
 
+// Input schemas for exchange rates
+export const importExchangeRatesInputSchema = z.object({
+  format: exchangeRateFileFormatSchema,
+  content: z.string().min(1), // file contents
+  base_currency: currencyCodeSchema.optional().default('EUR') // for CSV files without a base column
+});
+
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesInputSchema>;
+
+// Input schemas for background jobs
+export const getJobRunsInputSchema = z.object({
+  job_name: jobNameSchema.optional(),
+  status: jobRunStatusSchema.optional(),
+  limit: z.number().int().positive().max(200).optional().default(50)
+});
+
+export type GetJobRunsInput = z.infer<typeof getJobRunsInputSchema>;
+
+export const triggerJobInputSchema = z.object({
+  job_name: jobNameSchema
+});
+
+export type TriggerJobInput = z.infer<typeof triggerJobInputSchema>;
+
+// Input schemas for app settings
+export const updateAppSettingsInputSchema = z.object({
+  allow_unverified_expenses: z.boolean().optional(),
+  allow_unverified_team_members: z.boolean().optional(),
+  approval_reminder_days: z.number().int().positive().optional(),
+  approval_escalation_days: z.number().int().positive().optional()
+});
+
+export type UpdateAppSettingsInput = z.infer<typeof updateAppSettingsInputSchema>;
+
 // Query schemas
 export const getUserExpensesInputSchema = z.object({
   user_id: z.number(),
-  category: expenseCategorySchema.optional(),
+  category_id: z.number().optional(), // subcategories are included
+  tags: z.array(z.string()).optional(), // expenses carrying every one of these tags
   status: expenseStatusSchema.optional(),
   date_from: z.coerce.date().optional(),
   date_to: z.coerce.date().optional(),
@@ -296,18 +895,20 @@ export type GetDashboardDataInput = z.infer<typeof getDashboardDataInputSchema>;
 
 // Response schemas
 export const authResponseSchema = z.object({
-  user: userSchema.omit({ password_hash: true }),
+  user: userSchema.omit({ password_hash: true, session_version: true }),
   token: z.string()
 });
 
 export type AuthResponse = z.infer<typeof authResponseSchema>;
 
 export const dashboardStatsSchema = z.object({
+  currency: z.string(), // viewer's home currency, all amounts except recent_expenses are converted to it
   total_expenses: z.number(),
   monthly_spending: z.number(),
   budget_utilization: z.number(),
   category_breakdown: z.array(z.object({
-    category: expenseCategorySchema,
+    category_id: z.number(),
+    category_name: z.string(),
     amount: z.number(),
     count: z.number()
   })),
@@ -317,7 +918,8 @@ export const dashboardStatsSchema = z.object({
   })),
   recent_expenses: z.array(expenseSchema),
   budget_alerts: z.array(z.object({
-    category: expenseCategorySchema,
+    category_id: z.number(),
+    category_name: z.string(),
     current: z.number(),
     limit: z.number(),
     percentage: z.number()
@@ -334,4 +936,40 @@ export const paginatedExpensesSchema = z.object({
   total_pages: z.number()
 });
 
-export type PaginatedExpenses = z.infer<typeof paginatedExpensesSchema>;
\ No newline at end of file
+export type PaginatedExpenses = z.infer<typeof paginatedExpensesSchema>;
+
+export const expenseSearchResultSchema = expenseSchema.extend({
+  rank: z.number(), // relevance to the search term, 0 without one
+  highlights: z.object({
+    // HTML-escaped, with the matching words wrapped in <mark>
+    title: z.string(),
+    description: z.string().nullable() // best matching passages only
+  })
+});
+
+export type ExpenseSearchResult = z.infer<typeof expenseSearchResultSchema>;
+
+export const expenseSearchPageSchema = z.object({
+  results: z.array(expenseSearchResultSchema),
+  next_cursor: z.string().nullable() // pass back for the next page, null on the last one
+});
+
+export type ExpenseSearchPage = z.infer<typeof expenseSearchPageSchema>;
+
+export const exchangeRateImportResultSchema = z.object({
+  imported: z.number(),
+  currencies: z.array(z.string()),
+  date_from: z.string().nullable(), // YYYY-MM-DD
+  date_to: z.string().nullable()
+});
+
+export type ExchangeRateImportResult = z.infer<typeof exchangeRateImportResultSchema>;
+
+// Prefilled, unsaved expense built from a receipt; the user reviews it and submits it through createExpense
+export const expenseDraftSchema = z.object({
+  draft: createExpenseInputSchema,
+  extracted: receiptExtractionSchema,
+  missing_fields: z.array(z.enum(['merchant', 'total', 'date', 'currency']))
+});
+
+export type ExpenseDraft = z.infer<typeof expenseDraftSchema>;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, teamsTable, teamMembersTable } from '../db/schema';
+import { usersTable, teamsTable, teamMembersTable, appSettingsTable } from '../db/schema';
 import { type AddTeamMemberInput } from '../schema';
 import { addTeamMember } from '../handlers/add_team_member';
 import { eq, and } from 'drizzle-orm';
@@ -212,4 +212,25 @@ describe('addTeamMember', () => {
     // Second insertion should be caught by our duplicate check
     await expect(addTeamMember(input)).rejects.toThrow(/already a member/i);
   });
-});
\ No newline at end of file
+
+  it('should reject unverified users when admins require verification', async () => {
+    await db.insert(appSettingsTable)
+      .values({ allow_unverified_team_members: false })
+      .execute();
+
+    const input: AddTeamMemberInput = {
+      team_id: testTeam.id,
+      user_id: testUser.id
+    };
+
+    await expect(addTeamMember(input)).rejects.toThrow(/must be verified/i);
+
+    await db.update(usersTable)
+      .set({ email_verified: true })
+      .where(eq(usersTable.id, testUser.id))
+      .execute();
+
+    const result = await addTeamMember(input);
+    expect(result.user_id).toEqual(testUser.id);
+  });
+});
@@ -1,10 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { expensesTable, usersTable, budgetsTable } from '../db/schema';
+import { expensesTable, usersTable, budgetsTable, teamsTable, expenseApprovalsTable, approvalPoliciesTable, approvalPolicyStepsTable, notificationsTable, approvalDelegationsTable } from '../db/schema';
 import { type ApproveExpenseInput } from '../schema';
 import { approveExpense } from '../handlers/approve_expense';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { addDays, toCalendarDate } from '../helpers/dates';
 
 describe('approveExpense', () => {
   beforeEach(createDB);
@@ -13,6 +15,7 @@ describe('approveExpense', () => {
   let testUser: any;
   let testManager: any;
   let testAdmin: any;
+  let testTeam: any;
   let testExpense: any;
   let testBudget: any;
 
@@ -52,14 +55,22 @@ describe('approveExpense', () => {
     testManager = users[1];
     testAdmin = users[2];
 
-    // Create a test expense
+    // Create the user's team and a test expense filed against it
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Test Team', manager_id: testManager.id })
+      .returning()
+      .execute();
+
+    testTeam = teams[0];
+
     const expenses = await db.insert(expensesTable)
       .values({
         user_id: testUser.id,
+        team_id: testTeam.id,
         title: 'Test Expense',
         description: 'A test expense for approval',
         amount: '50.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'PENDING',
         expense_date: new Date()
       })
@@ -72,7 +83,7 @@ describe('approveExpense', () => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: testUser.id,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '200.00',
         current_spent: '25.00',
         alert_threshold: 80,
@@ -119,7 +130,8 @@ describe('approveExpense', () => {
     const input: ApproveExpenseInput = {
       expense_id: testExpense.id,
       approved_by: testManager.id,
-      status: 'REJECTED'
+      status: 'REJECTED',
+      comment: 'Not a business expense'
     };
 
     const result = await approveExpense(input);
@@ -138,25 +150,38 @@ describe('approveExpense', () => {
 
     await approveExpense(input);
 
-    // Check that budget was updated
+    // Budget spending is recomputed from approved expenses, replacing the stale stored value
     const updatedBudgets = await db.select()
       .from(budgetsTable)
       .where(and(
         eq(budgetsTable.user_id, testUser.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
+        eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.FOOD_DINING)
       ))
       .execute();
 
     expect(updatedBudgets).toHaveLength(1);
     const updatedBudget = updatedBudgets[0];
-    expect(parseFloat(updatedBudget.current_spent)).toEqual(75); // 25 + 50
+    expect(parseFloat(updatedBudget.current_spent)).toEqual(50);
+  });
+
+  it('should approve and refresh the other budgets when one cannot convert the expense', async () => {
+    await db.insert(budgetsTable)
+      .values({ user_id: testAdmin.id, scope: 'COMPANY', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '90000', currency: 'JPY' })
+      .execute();
+
+    const result = await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+
+    expect(result.status).toEqual('APPROVED');
+    const budgets = await db.select().from(budgetsTable).where(eq(budgetsTable.id, testBudget.id)).execute();
+    expect(parseFloat(budgets[0].current_spent)).toEqual(50);
   });
 
   it('should not update budget when expense is rejected', async () => {
     const input: ApproveExpenseInput = {
       expense_id: testExpense.id,
       approved_by: testManager.id,
-      status: 'REJECTED'
+      status: 'REJECTED',
+      comment: 'Not a business expense'
     };
 
     await approveExpense(input);
@@ -166,7 +191,7 @@ describe('approveExpense', () => {
       .from(budgetsTable)
       .where(and(
         eq(budgetsTable.user_id, testUser.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
+        eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.FOOD_DINING)
       ))
       .execute();
 
@@ -260,4 +285,304 @@ describe('approveExpense', () => {
     const result = await approveExpense(input);
     expect(result.status).toEqual('APPROVED');
   });
-});
\ No newline at end of file
+
+  it('should record the decision in the approval chain', async () => {
+    await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+
+    const steps = await db.select()
+      .from(expenseApprovalsTable)
+      .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+      .execute();
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].name).toEqual('Team manager');
+    expect(steps[0].approver_id).toEqual(testManager.id);
+    expect(steps[0].status).toEqual('APPROVED');
+    expect(steps[0].decided_by).toEqual(testManager.id);
+    expect(steps[0].on_behalf_of).toBeNull();
+    expect(steps[0].decided_at).toBeInstanceOf(Date);
+  });
+
+  it('should not let anyone decide their own expense', async () => {
+    await db.update(expensesTable)
+      .set({ user_id: testAdmin.id })
+      .where(eq(expensesTable.id, testExpense.id))
+      .execute();
+
+    await expect(approveExpense({ expense_id: testExpense.id, approved_by: testAdmin.id, status: 'APPROVED' }))
+      .rejects.toThrow(/cannot approve your own expenses/i);
+  });
+
+  it('should leave expenses without a team to admins', async () => {
+    await db.update(expensesTable)
+      .set({ team_id: null })
+      .where(eq(expensesTable.id, testExpense.id))
+      .execute();
+
+    await expect(approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' }))
+      .rejects.toThrow(/not waiting on your approval/i);
+
+    const result = await approveExpense({ expense_id: testExpense.id, approved_by: testAdmin.id, status: 'APPROVED' });
+    expect(result.status).toEqual('APPROVED');
+  });
+
+  describe('with an approval policy', () => {
+    let head: any;
+
+    beforeEach(async () => {
+      [head] = await db.insert(usersTable)
+        .values({ email: 'head@test.com', username: 'head', password_hash: 'hash', first_name: 'Department', last_name: 'Head', role: 'MANAGER' })
+        .returning()
+        .execute();
+
+      const [policy] = await db.insert(approvalPoliciesTable)
+        .values({ name: 'Sales', team_id: testTeam.id })
+        .returning()
+        .execute();
+
+      await db.insert(approvalPolicyStepsTable)
+        .values([
+          { policy_id: policy.id, position: 1, name: 'Team manager', approver_type: 'TEAM_MANAGER' },
+          { policy_id: policy.id, position: 2, name: 'Department head', approver_type: 'USER', approver_id: head.id, threshold: '500' },
+          { policy_id: policy.id, position: 3, name: 'Finance', approver_type: 'ADMIN', threshold: '5000' }
+        ])
+        .execute();
+
+      await db.update(expensesTable)
+        .set({ amount: '800.00' })
+        .where(eq(expensesTable.id, testExpense.id))
+        .execute();
+    });
+
+    it('should only require the steps below the amount', async () => {
+      const first = await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+      expect(first.status).toEqual('PENDING');
+      expect(first.approved_by).toBeNull();
+
+      const second = await approveExpense({ expense_id: testExpense.id, approved_by: head.id, status: 'APPROVED' });
+      expect(second.status).toEqual('APPROVED');
+      expect(second.approved_by).toEqual(head.id);
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .orderBy(expenseApprovalsTable.step)
+        .execute();
+
+      expect(steps.map(step => [step.name, step.status, step.decided_by])).toEqual([
+        ['Team manager', 'APPROVED', testManager.id],
+        ['Department head', 'APPROVED', head.id]
+      ]);
+    });
+
+    it('should notify the approver of the next step', async () => {
+      await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, head.id))
+        .execute();
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toEqual('EXPENSE_APPROVAL');
+      expect(notifications[0].related_expense_id).toEqual(testExpense.id);
+      expect(notifications[0].message).toContain('step 2 of 2');
+    });
+
+    it('should only let the approver of the current step decide', async () => {
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: head.id, status: 'APPROVED' }))
+        .rejects.toThrow(/not waiting on your approval/i);
+
+      await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' }))
+        .rejects.toThrow(/not waiting on your approval/i);
+    });
+
+    it('should let an admin decide any step', async () => {
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: testAdmin.id, status: 'APPROVED' });
+
+      expect(result.status).toEqual('PENDING');
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .orderBy(expenseApprovalsTable.step)
+        .execute();
+
+      expect(steps[0].decided_by).toEqual(testAdmin.id);
+      expect(steps[1].status).toEqual('PENDING');
+    });
+
+    it('should end the round when changes are requested', async () => {
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'CHANGES_REQUESTED', comment: 'Attach the invoice' });
+
+      expect(result.status).toEqual('CHANGES_REQUESTED');
+      expect(result.approved_by).toEqual(testManager.id);
+      expect(result.approved_at).toBeNull();
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .orderBy(expenseApprovalsTable.step)
+        .execute();
+
+      expect(steps.map(step => [step.status, step.comment])).toEqual([
+        ['CHANGES_REQUESTED', 'Attach the invoice'],
+        ['SKIPPED', null]
+      ]);
+    });
+
+    it('should end the chain on rejection', async () => {
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'REJECTED', comment: 'Too expensive' });
+
+      expect(result.status).toEqual('REJECTED');
+      expect(result.approved_by).toEqual(testManager.id);
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .orderBy(expenseApprovalsTable.step)
+        .execute();
+
+      expect(steps.map(step => step.status)).toEqual(['REJECTED', 'SKIPPED']);
+    });
+
+    it('should leave steps above the amount to admins when the expense is large', async () => {
+      await db.update(expensesTable)
+        .set({ amount: '6000.00' })
+        .where(eq(expensesTable.id, testExpense.id))
+        .execute();
+
+      await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+      await approveExpense({ expense_id: testExpense.id, approved_by: head.id, status: 'APPROVED' });
+
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: head.id, status: 'APPROVED' }))
+        .rejects.toThrow(/not waiting on your approval/i);
+
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: testAdmin.id, status: 'APPROVED' });
+      expect(result.status).toEqual('APPROVED');
+    });
+  });
+
+  it('should require a reason to reject or request changes', async () => {
+    await expect(approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'REJECTED' }))
+      .rejects.toThrow(/reason is required to reject/i);
+    await expect(approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'CHANGES_REQUESTED', comment: '' }))
+      .rejects.toThrow(/reason is required to request changes/i);
+
+    const [expense] = await db.select().from(expensesTable).where(eq(expensesTable.id, testExpense.id)).execute();
+    expect(expense.status).toEqual('PENDING');
+  });
+
+  it('should record the comment of an approval', async () => {
+    await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED', comment: 'Thanks for the receipt' });
+
+    const [step] = await db.select()
+      .from(expenseApprovalsTable)
+      .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+      .execute();
+
+    expect(step.comment).toEqual('Thanks for the receipt');
+  });
+
+  it('should tell the submitter about the decision and the reason', async () => {
+    await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'REJECTED', comment: 'Personal purchase' });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, testUser.id))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('EXPENSE_APPROVAL');
+    expect(notifications[0].title).toEqual('Expense rejected');
+    expect(notifications[0].message).toEqual('"Test Expense" was rejected. Comment: Personal purchase');
+    expect(notifications[0].related_expense_id).toEqual(testExpense.id);
+  });
+
+  it('should not decide expenses with changes requested', async () => {
+    await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'CHANGES_REQUESTED', comment: 'Wrong category' });
+
+    await expect(approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' }))
+      .rejects.toThrow(/not in pending status/i);
+  });
+
+  describe('with an approval delegation', () => {
+    let deputy: any;
+    const today = toCalendarDate(new Date());
+
+    const delegate = (values: { start_date?: string; end_date?: string; team_id?: number | null } = {}) => db.insert(approvalDelegationsTable)
+      .values({ delegator_id: testManager.id, delegate_id: deputy.id, start_date: today, end_date: addDays(today, 7), ...values })
+      .execute();
+
+    beforeEach(async () => {
+      [deputy] = await db.insert(usersTable)
+        .values({ email: 'deputy@test.com', username: 'deputy', password_hash: 'hash', first_name: 'Deputy', last_name: 'Manager', role: 'MANAGER' })
+        .returning()
+        .execute();
+    });
+
+    it('should let the delegate decide on the manager\'s behalf', async () => {
+      await delegate();
+
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: deputy.id, status: 'APPROVED' });
+      expect(result.status).toEqual('APPROVED');
+      expect(result.approved_by).toEqual(deputy.id);
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .execute();
+      expect(steps[0].approver_id).toEqual(testManager.id);
+      expect(steps[0].decided_by).toEqual(deputy.id);
+      expect(steps[0].on_behalf_of).toEqual(testManager.id);
+    });
+
+    it('should still let the manager decide during the delegation', async () => {
+      await delegate();
+
+      await approveExpense({ expense_id: testExpense.id, approved_by: testManager.id, status: 'APPROVED' });
+
+      const steps = await db.select()
+        .from(expenseApprovalsTable)
+        .where(eq(expenseApprovalsTable.expense_id, testExpense.id))
+        .execute();
+      expect(steps[0].on_behalf_of).toBeNull();
+    });
+
+    it('should ignore delegations outside their dates', async () => {
+      await delegate({ start_date: addDays(today, -14), end_date: addDays(today, -1) });
+      await delegate({ start_date: addDays(today, 1), end_date: addDays(today, 7) });
+
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: deputy.id, status: 'APPROVED' }))
+        .rejects.toThrow(/not waiting on your approval/i);
+    });
+
+    it('should only cover the team the delegation is for', async () => {
+      const [otherTeam] = await db.insert(teamsTable)
+        .values({ name: 'Other Team', manager_id: testManager.id })
+        .returning()
+        .execute();
+      await delegate({ team_id: otherTeam.id });
+
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: deputy.id, status: 'APPROVED' }))
+        .rejects.toThrow(/not waiting on your approval/i);
+
+      await delegate({ team_id: testTeam.id });
+      const result = await approveExpense({ expense_id: testExpense.id, approved_by: deputy.id, status: 'APPROVED' });
+      expect(result.status).toEqual('APPROVED');
+    });
+
+    it('should not let the delegate decide their own expense', async () => {
+      await delegate();
+      await db.update(expensesTable)
+        .set({ user_id: deputy.id })
+        .where(eq(expensesTable.id, testExpense.id))
+        .execute();
+
+      await expect(approveExpense({ expense_id: testExpense.id, approved_by: deputy.id, status: 'APPROVED' }))
+        .rejects.toThrow(/cannot approve your own expenses/i);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, usersTable, type Category } from '../db/schema';
+import { archiveCategory } from '../handlers/archive_category';
+import { getCategories } from '../handlers/get_categories';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('archiveCategory', () => {
+  let coffee: Category;
+  let espresso: Category;
+  let tea: Category;
+
+  const reload = async (id: number) =>
+    (await db.select().from(categoriesTable).where(eq(categoriesTable.id, id)).execute())[0];
+
+  beforeEach(async () => {
+    await createDB();
+    [coffee] = await db.insert(categoriesTable)
+      .values({ name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING })
+      .returning()
+      .execute();
+    [espresso, tea] = await db.insert(categoriesTable)
+      .values([
+        { name: 'Espresso', parent_id: coffee.id },
+        { name: 'Tea', parent_id: coffee.id }
+      ])
+      .returning()
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should archive a category with its subcategories and keep their expenses', async () => {
+    const users = await db.insert(usersTable)
+      .values({ email: 'user@example.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' })
+      .returning()
+      .execute();
+    await db.insert(expensesTable)
+      .values({ user_id: users[0].id, title: 'Flat white', amount: '4.00', category_id: espresso.id, expense_date: new Date() })
+      .execute();
+
+    const result = await archiveCategory({ id: coffee.id, archived: true });
+
+    expect(result.archived_at).toBeInstanceOf(Date);
+    expect((await reload(espresso.id)).archived_at).toEqual(result.archived_at);
+    expect((await reload(DEFAULT_CATEGORY_IDS.FOOD_DINING)).archived_at).toBeNull();
+
+    const active = await getCategories({ include_archived: false });
+    expect(active.map(category => category.id)).not.toContain(espresso.id);
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses[0].category_id).toEqual(espresso.id);
+  });
+
+  it('should restore only the subcategories archived along with the category', async () => {
+    await archiveCategory({ id: tea.id, archived: true });
+    await archiveCategory({ id: coffee.id, archived: true });
+
+    const result = await archiveCategory({ id: coffee.id, archived: false });
+
+    expect(result.archived_at).toBeNull();
+    expect((await reload(espresso.id)).archived_at).toBeNull();
+    expect((await reload(tea.id)).archived_at).toBeInstanceOf(Date);
+  });
+
+  it('should not restore a category below an archived parent', async () => {
+    await archiveCategory({ id: coffee.id, archived: true });
+
+    await expect(archiveCategory({ id: espresso.id, archived: false })).rejects.toThrow(/parent category is archived/i);
+  });
+
+  it('should not restore a category whose name was taken meanwhile', async () => {
+    await archiveCategory({ id: tea.id, archived: true });
+    await db.insert(categoriesTable).values({ name: 'tea', parent_id: coffee.id }).execute();
+
+    await expect(archiveCategory({ id: tea.id, archived: false })).rejects.toThrow(/already exists/i);
+  });
+
+  it('should throw for a missing category', async () => {
+    await expect(archiveCategory({ id: 99999, archived: true })).rejects.toThrow(/category not found/i);
+  });
+});
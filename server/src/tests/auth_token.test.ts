@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { signAuthToken, verifyAuthToken } from '../helpers/auth_token';
+import { resolveUserFromToken } from '../trpc';
+import { eq } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+const testUser = {
+  email: 'token@example.com',
+  username: 'tokenuser',
+  password_hash: 'hash',
+  first_name: 'Token',
+  last_name: 'User',
+  role: 'MANAGER' as const
+};
+
+// Build a token with arbitrary claims, signed with the given secret
+const forgeToken = (claims: object, secret: string): string => {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+describe('auth tokens', () => {
+  const originalSecret = process.env['AUTH_TOKEN_SECRET'];
+
+  beforeEach(() => {
+    process.env['AUTH_TOKEN_SECRET'] = 'test-secret';
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env['AUTH_TOKEN_SECRET'];
+    } else {
+      process.env['AUTH_TOKEN_SECRET'] = originalSecret;
+    }
+  });
+
+  it('should sign and verify a token', () => {
+    const token = signAuthToken({ id: 7, email: 'a@b.com', role: 'USER', session_version: 0 });
+    const claims = verifyAuthToken(token);
+
+    expect(claims.userId).toEqual(7);
+    expect(claims.email).toEqual('a@b.com');
+    expect(claims.role).toEqual('USER');
+    expect(claims.iss).toEqual('expense-manager-pro');
+    expect(claims.exp - claims.iat).toEqual(24 * 60 * 60);
+  });
+
+  it('should reject a tampered payload', () => {
+    const token = signAuthToken({ id: 7, email: 'a@b.com', role: 'USER', session_version: 0 });
+    const [header, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const tampered = Buffer.from(JSON.stringify({ ...claims, role: 'ADMIN' })).toString('base64url');
+
+    expect(() => verifyAuthToken(`${header}.${tampered}.${signature}`)).toThrow(/signature/i);
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = signAuthToken({ id: 7, email: 'a@b.com', role: 'USER', session_version: 0 });
+    process.env['AUTH_TOKEN_SECRET'] = 'other-secret';
+
+    expect(() => verifyAuthToken(token)).toThrow(/signature/i);
+  });
+
+  it('should reject an expired token', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = forgeToken({
+      userId: 7, email: 'a@b.com', role: 'USER', sv: 0, iss: 'expense-manager-pro', iat: now - 100, exp: now - 10, jti: 'x'
+    }, 'test-secret');
+
+    expect(() => verifyAuthToken(token)).toThrow(/expired/i);
+  });
+
+  it('should reject a token from another issuer', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = forgeToken({
+      userId: 7, email: 'a@b.com', role: 'USER', sv: 0, iss: 'someone-else', iat: now, exp: now + 60, jti: 'x'
+    }, 'test-secret');
+
+    expect(() => verifyAuthToken(token)).toThrow(/issuer/i);
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(() => verifyAuthToken('not-a-token')).toThrow(/invalid token/i);
+    expect(() => verifyAuthToken(Buffer.from('{"userId":1}').toString('base64'))).toThrow(/invalid token/i);
+  });
+});
+
+describe('resolveUserFromToken', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve the caller from a bearer token', async () => {
+    const [user] = await db.insert(usersTable).values(testUser).returning().execute();
+    const token = signAuthToken(user);
+
+    const contextUser = await resolveUserFromToken(`Bearer ${token}`);
+
+    expect(contextUser).toEqual({ id: user.id, email: user.email, role: 'MANAGER' });
+  });
+
+  it('should use the current role from the database', async () => {
+    const [user] = await db.insert(usersTable).values(testUser).returning().execute();
+    const token = signAuthToken(user);
+
+    await db.update(usersTable)
+      .set({ role: 'USER' })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    const contextUser = await resolveUserFromToken(`Bearer ${token}`);
+    expect(contextUser?.role).toEqual('USER');
+  });
+
+  it('should return null for missing, invalid or inactive users', async () => {
+    const [user] = await db.insert(usersTable).values(testUser).returning().execute();
+    const token = signAuthToken(user);
+
+    expect(await resolveUserFromToken(undefined)).toBeNull();
+    expect(await resolveUserFromToken(token)).toBeNull(); // Missing Bearer prefix
+    expect(await resolveUserFromToken('Bearer garbage')).toBeNull();
+    expect(await resolveUserFromToken(`Bearer ${signAuthToken({ id: 9999, email: 'x@y.com', role: 'ADMIN', session_version: 0 })}`)).toBeNull();
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await resolveUserFromToken(`Bearer ${token}`)).toBeNull();
+  });
+
+  it('should reject tokens issued before the session version changed', async () => {
+    const [user] = await db.insert(usersTable).values(testUser).returning().execute();
+    const token = signAuthToken(user);
+
+    await db.update(usersTable)
+      .set({ session_version: user.session_version + 1 })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await resolveUserFromToken(`Bearer ${token}`)).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, teamsTable, teamMembersTable, expensesTable, budgetsTable, notificationsTable, receiptsTable, recurringSeriesTable, approvalPoliciesTable, approvalPolicyStepsTable } from '../db/schema';
+import { appRouter } from '../router';
+import { type ContextUser } from '../trpc';
+import { createMemoryMailTransport, setMailTransport } from '../helpers/mailer';
+import { createLocalStorageDriver, setStorage } from '../helpers/storage';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { eq } from 'drizzle-orm';
+
+// Role/permission matrix for every procedure in appRouter.
+// Each case lists the identities allowed through the permission layer; everyone
+// else must be rejected with UNAUTHORIZED (anonymous) or FORBIDDEN.
+
+type Identity = 'anonymous' | 'admin' | 'manager' | 'otherManager' | 'owner' | 'otherUser';
+
+const identities: Identity[] = ['anonymous', 'admin', 'manager', 'otherManager', 'owner', 'otherUser'];
+const authenticated: Identity[] = ['admin', 'manager', 'otherManager', 'owner', 'otherUser'];
+
+interface Fixtures {
+  users: Record<Exclude<Identity, 'anonymous'>, ContextUser>;
+  teamId: number;
+  teamExpenseId: number;
+  personalExpenseId: number;
+  managerExpenseId: number;
+  budgetId: number;
+  notificationId: number;
+  receiptId: number;
+  seriesId: number;
+  approvalPolicyId: number;
+}
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+const seed = async (): Promise<Fixtures> => {
+  const rows = await db.insert(usersTable)
+    .values([
+      { email: 'admin@test.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' as const },
+      { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' as const },
+      { email: 'other-manager@test.com', username: 'othermanager', password_hash: 'x', first_name: 'O', last_name: 'M', role: 'MANAGER' as const },
+      { email: 'owner@test.com', username: 'owner', password_hash: 'x', first_name: 'O', last_name: 'U', role: 'USER' as const },
+      { email: 'other-user@test.com', username: 'otheruser', password_hash: 'x', first_name: 'O', last_name: 'U', role: 'USER' as const }
+    ])
+    .returning()
+    .execute();
+
+  const [admin, manager, otherManager, owner, otherUser] = rows.map(({ id, email, role }) => ({ id, email, role }));
+
+  const [team] = await db.insert(teamsTable)
+    .values({ name: 'Team', manager_id: manager.id })
+    .returning()
+    .execute();
+
+  await db.insert(teamsTable)
+    .values({ name: 'Other Team', manager_id: otherManager.id })
+    .execute();
+
+  await db.insert(teamMembersTable)
+    .values([
+      { team_id: team.id, user_id: manager.id },
+      { team_id: team.id, user_id: owner.id }
+    ])
+    .execute();
+
+  const expenses = await db.insert(expensesTable)
+    .values([
+      { user_id: owner.id, team_id: team.id, title: 'Team expense', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() },
+      { user_id: owner.id, title: 'Personal expense', amount: '20.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, expense_date: new Date() },
+      { user_id: manager.id, team_id: team.id, title: 'Manager expense', amount: '30.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() }
+    ])
+    .returning()
+    .execute();
+
+  const [budget] = await db.insert(budgetsTable)
+    .values({ user_id: owner.id, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: '100.00' })
+    .returning()
+    .execute();
+
+  const [notification] = await db.insert(notificationsTable)
+    .values({ user_id: owner.id, type: 'SYSTEM_UPDATE', title: 'Hello', message: 'World' })
+    .returning()
+    .execute();
+
+  // OCR text is pre-filled so no storage or OCR engine is needed
+  const [receipt] = await db.insert(receiptsTable)
+    .values({ user_id: owner.id, storage_key: 'receipts/test.jpg', filename: 'test.jpg', content_type: 'image/jpeg', size: 1, sha256: 'x', ocr_text: 'Cafe\nTOTAL 9.99' })
+    .returning()
+    .execute();
+
+  const [series] = await db.insert(recurringSeriesTable)
+    .values({ user_id: owner.id, title: 'Rent', amount: '500.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, frequency: 'MONTHLY', start_date: '2099-01-01', next_occurrence_date: '2099-01-01' })
+    .returning()
+    .execute();
+
+  const [approvalPolicy] = await db.insert(approvalPoliciesTable)
+    .values({ name: 'Team approvals', team_id: team.id })
+    .returning()
+    .execute();
+
+  await db.insert(approvalPolicyStepsTable)
+    .values({ policy_id: approvalPolicy.id, position: 1, name: 'Team manager', approver_type: 'TEAM_MANAGER' })
+    .execute();
+
+  return {
+    users: { admin, manager, otherManager, owner, otherUser },
+    teamId: team.id,
+    teamExpenseId: expenses[0].id,
+    personalExpenseId: expenses[1].id,
+    managerExpenseId: expenses[2].id,
+    budgetId: budget.id,
+    notificationId: notification.id,
+    receiptId: receipt.id,
+    seriesId: series.id,
+    approvalPolicyId: approvalPolicy.id
+  };
+};
+
+const cases: Array<{ name: string; allowed: Identity[]; call: (caller: Caller, f: Fixtures) => Promise<unknown> }> = [
+  // Public routes
+  { name: 'healthcheck', allowed: identities, call: (c) => c.healthcheck() },
+  { name: 'register', allowed: identities, call: (c) => c.register({ email: 'new@test.com', username: 'newuser', password: 'password123', first_name: 'N', last_name: 'U' }) },
+  { name: 'login', allowed: identities, call: (c) => c.login({ email: 'nobody@test.com', password: 'x' }) },
+  { name: 'resetPassword', allowed: identities, call: (c) => c.resetPassword({ email: 'nobody@test.com' }) },
+  { name: 'confirmPasswordReset', allowed: identities, call: (c) => c.confirmPasswordReset({ token: 'x', new_password: 'password123' }) },
+  { name: 'verifyEmail', allowed: identities, call: (c) => c.verifyEmail({ token: 'x' }) },
+
+  // Routes scoped to the caller
+  { name: 'resendVerificationEmail', allowed: authenticated, call: (c) => c.resendVerificationEmail() },
+  { name: 'updateProfile', allowed: authenticated, call: (c) => c.updateProfile({ first_name: 'New' }) },
+  { name: 'createExpense', allowed: authenticated, call: (c) => c.createExpense({ title: 'X', amount: 1, category_id: DEFAULT_CATEGORY_IDS.OTHERS, expense_date: new Date(), is_recurring: false }) },
+  { name: 'getCategories', allowed: authenticated, call: (c) => c.getCategories({}) },
+  { name: 'getTags', allowed: authenticated, call: (c) => c.getTags({ query: 'cl' }) },
+  { name: 'renameTag', allowed: authenticated, call: (c) => c.renameTag({ id: 1, name: 'Client' }) },
+  { name: 'mergeTags', allowed: authenticated, call: (c) => c.mergeTags({ source_ids: [1], target_id: 2 }) },
+  { name: 'getUserExpenses', allowed: authenticated, call: (c) => c.getUserExpenses({ page: 1, limit: 20 }) },
+  { name: 'createBudget', allowed: authenticated, call: (c) => c.createBudget({ category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE, monthly_limit: 50, alert_threshold: 80 }) },
+  { name: 'getUserBudgets', allowed: authenticated, call: (c) => c.getUserBudgets() },
+  { name: 'createRecurringSeries', allowed: authenticated, call: (c) => c.createRecurringSeries({ title: 'Gym', amount: 30, category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE, frequency: 'MONTHLY', interval: 1, start_date: new Date(2099, 0, 1) }) },
+  { name: 'getUserRecurringSeries', allowed: authenticated, call: (c) => c.getUserRecurringSeries() },
+  { name: 'getDashboard', allowed: authenticated, call: (c) => c.getDashboard({}) },
+  { name: 'getUserTeams', allowed: authenticated, call: (c) => c.getUserTeams() },
+  { name: 'getUserNotifications', allowed: authenticated, call: (c) => c.getUserNotifications({}) },
+  { name: 'markNotificationRead', allowed: authenticated, call: (c, f) => c.markNotificationRead({ notification_id: f.notificationId }) },
+  { name: 'getBudgetAlertPreferences', allowed: authenticated, call: (c) => c.getBudgetAlertPreferences() },
+  { name: 'updateBudgetAlertPreference', allowed: authenticated, call: (c) => c.updateBudgetAlertPreference({ category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: false }) },
+  { name: 'generateReport', allowed: authenticated, call: (c) => c.generateReport({ type: 'CUSTOM', title: 'R', date_from: new Date(2024, 0, 1), date_to: new Date(2024, 11, 31), include_team_expenses: false }) },
+  { name: 'getUserReports', allowed: authenticated, call: (c) => c.getUserReports() },
+  { name: 'searchExpenses', allowed: authenticated, call: (c) => c.searchExpenses({ searchTerm: 'expense' }) },
+  { name: 'getExpenseAnalytics', allowed: authenticated, call: (c) => c.getExpenseAnalytics({ period: 'month' }) },
+  { name: 'uploadReceipt', allowed: authenticated, call: (c) => c.uploadReceipt({ filename: 'r.pdf', mimetype: 'application/pdf', buffer: Buffer.from('%PDF-1.4').toString('base64') }) },
+
+  // Expense ownership
+  { name: 'updateExpense', allowed: ['admin', 'owner'], call: (c, f) => c.updateExpense({ id: f.teamExpenseId, title: 'Renamed' }) },
+  { name: 'deleteExpense', allowed: ['admin', 'owner'], call: (c, f) => c.deleteExpense({ expenseId: f.personalExpenseId }) },
+
+  // Receipt ownership
+  { name: 'createExpenseFromReceipt', allowed: ['admin', 'owner'], call: (c, f) => c.createExpenseFromReceipt({ receipt_id: f.receiptId }) },
+
+  // Budget ownership
+  { name: 'createTeamBudget', allowed: ['admin', 'manager'], call: (c, f) => c.createTeamBudget({ team_id: f.teamId, category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE, monthly_limit: 500, alert_threshold: 80 }) },
+  { name: 'createCompanyBudget', allowed: ['admin'], call: (c) => c.createCompanyBudget({ category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE, monthly_limit: 5000, alert_threshold: 80 }) },
+  { name: 'getCompanyBudgets', allowed: ['admin', 'manager', 'otherManager'], call: (c) => c.getCompanyBudgets() },
+  { name: 'updateBudget', allowed: ['admin', 'owner'], call: (c, f) => c.updateBudget({ id: f.budgetId, monthly_limit: 200 }) },
+  { name: 'getBudgetHistory', allowed: ['admin', 'owner'], call: (c, f) => c.getBudgetHistory({ budget_id: f.budgetId }) },
+
+  // Recurring series ownership
+  { name: 'updateRecurringSeries', allowed: ['admin', 'owner'], call: (c, f) => c.updateRecurringSeries({ id: f.seriesId, amount: 550 }) },
+  { name: 'pauseRecurringSeries', allowed: ['admin', 'owner'], call: (c, f) => c.pauseRecurringSeries({ id: f.seriesId, paused: true }) },
+  { name: 'skipRecurringOccurrence', allowed: ['admin', 'owner'], call: (c, f) => c.skipRecurringOccurrence({ series_id: f.seriesId, occurrence_date: new Date(2099, 1, 1) }) },
+
+  // Approvals
+  { name: 'approveExpense (team expense)', allowed: ['admin', 'manager'], call: (c, f) => c.approveExpense({ expense_id: f.teamExpenseId, status: 'APPROVED' }) },
+  { name: 'approveExpense (no team)', allowed: ['admin'], call: (c, f) => c.approveExpense({ expense_id: f.personalExpenseId, status: 'APPROVED' }) },
+  { name: 'approveExpense (own expense)', allowed: ['admin'], call: (c, f) => c.approveExpense({ expense_id: f.managerExpenseId, status: 'APPROVED' }) },
+  { name: 'bulkApproveExpenses', allowed: ['admin', 'manager', 'otherManager'], call: (c, f) => c.bulkApproveExpenses({ expense_ids: [f.teamExpenseId, f.personalExpenseId], status: 'APPROVED' }) },
+  { name: 'getPendingApprovals', allowed: ['admin', 'manager', 'otherManager'], call: (c) => c.getPendingApprovals() },
+  { name: 'resubmitExpense', allowed: ['admin', 'owner'], call: (c, f) => c.resubmitExpense({ expense_id: f.teamExpenseId }) },
+  { name: 'getExpenseApprovals', allowed: ['admin', 'owner'], call: (c, f) => c.getExpenseApprovals({ expense_id: f.teamExpenseId }) },
+  { name: 'getApprovalDelegations', allowed: ['admin', 'manager', 'otherManager'], call: (c) => c.getApprovalDelegations() },
+  { name: 'createApprovalDelegation', allowed: ['admin', 'manager', 'otherManager'], call: (c, f) => c.createApprovalDelegation({ delegate_id: f.users.admin.id, start_date: new Date(2099, 0, 1), end_date: new Date(2099, 0, 14) }) },
+  { name: 'deleteApprovalDelegation', allowed: ['admin', 'manager', 'otherManager'], call: (c) => c.deleteApprovalDelegation({ id: 1 }) },
+
+  // Teams
+  { name: 'createTeam', allowed: ['admin', 'manager'], call: (c, f) => c.createTeam({ name: 'New Team', manager_id: f.users.manager.id }) },
+  { name: 'addTeamMember', allowed: ['admin', 'manager'], call: (c, f) => c.addTeamMember({ team_id: f.teamId, user_id: f.users.otherUser.id }) },
+  { name: 'updateTeamApprovalSla', allowed: ['admin'], call: (c, f) => c.updateTeamApprovalSla({ team_id: f.teamId, reminder_days: 2, escalation_days: 5 }) },
+  { name: 'getTeamBudgets', allowed: ['admin', 'manager'], call: (c, f) => c.getTeamBudgets({ teamId: f.teamId }) },
+  { name: 'getTeamExpenses', allowed: ['admin', 'manager'], call: (c, f) => c.getTeamExpenses({ teamId: f.teamId }) },
+
+  // Notifications
+  { name: 'createNotification', allowed: ['admin', 'manager'], call: (c, f) => c.createNotification({ user_id: f.users.owner.id, type: 'SYSTEM_UPDATE', title: 'T', message: 'M' }) },
+  { name: 'createNotification (user outside the team)', allowed: ['admin'], call: (c, f) => c.createNotification({ user_id: f.users.otherUser.id, type: 'SYSTEM_UPDATE', title: 'T', message: 'M' }) },
+
+  // Admin
+  { name: 'createCategory', allowed: ['admin'], call: (c) => c.createCategory({ name: 'Office Supplies', parent_id: DEFAULT_CATEGORY_IDS.BUSINESS }) },
+  { name: 'updateCategory', allowed: ['admin'], call: (c) => c.updateCategory({ id: DEFAULT_CATEGORY_IDS.OTHERS, icon: 'star' }) },
+  { name: 'archiveCategory', allowed: ['admin'], call: (c) => c.archiveCategory({ id: DEFAULT_CATEGORY_IDS.OTHERS, archived: true }) },
+  { name: 'getApprovalPolicies', allowed: ['admin'], call: (c) => c.getApprovalPolicies() },
+  { name: 'createApprovalPolicy', allowed: ['admin'], call: (c) => c.createApprovalPolicy({ name: 'Company', steps: [{ name: 'Finance', approver_type: 'ADMIN' }] }) },
+  { name: 'updateApprovalPolicy', allowed: ['admin'], call: (c, f) => c.updateApprovalPolicy({ id: f.approvalPolicyId, name: 'Renamed' }) },
+  { name: 'deleteApprovalPolicy', allowed: ['admin'], call: (c, f) => c.deleteApprovalPolicy({ id: f.approvalPolicyId }) },
+  { name: 'updateUserRole', allowed: ['admin'], call: (c, f) => c.updateUserRole({ user_id: f.users.otherUser.id, role: 'MANAGER' }) },
+  { name: 'getAppSettings', allowed: ['admin'], call: (c) => c.getAppSettings() },
+  { name: 'updateAppSettings', allowed: ['admin'], call: (c) => c.updateAppSettings({ allow_unverified_expenses: false }) },
+  { name: 'importExchangeRates', allowed: ['admin'], call: (c) => c.importExchangeRates({ format: 'CSV', content: 'date,currency,rate\n2024-01-02,USD,1.0956' }) },
+  { name: 'reconcileBudgets', allowed: ['admin'], call: (c) => c.reconcileBudgets({ dry_run: true }) },
+  { name: 'getJobRuns', allowed: ['admin'], call: (c) => c.getJobRuns({}) },
+  { name: 'triggerJob', allowed: ['admin'], call: (c) => c.triggerJob({ job_name: 'CLEANUP_EXPIRED_REPORTS' }) }
+];
+
+const isDenied = (error: unknown): boolean =>
+  error instanceof TRPCError && (error.code === 'UNAUTHORIZED' || error.code === 'FORBIDDEN');
+
+describe('authorization matrix', () => {
+  let fixtures: Fixtures;
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    setMailTransport(createMemoryMailTransport());
+    storageDir = mkdtempSync(path.join(tmpdir(), 'authorization-'));
+    setStorage(createLocalStorageDriver(storageDir));
+    fixtures = await seed();
+  });
+
+  afterEach(async () => {
+    setMailTransport(null);
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should cover every procedure in the router', () => {
+    const covered = new Set(cases.map(c => c.name.split(' ')[0]));
+    const procedures = Object.keys(appRouter._def.procedures);
+
+    expect(procedures.filter(name => !covered.has(name))).toEqual([]);
+  });
+
+  it('should register anonymous callers as USER whatever role they send', async () => {
+    const caller = appRouter.createCaller({ user: null });
+    const input = { email: 'sneaky@test.com', username: 'sneaky', password: 'password123', first_name: 'S', last_name: 'U', role: 'ADMIN' };
+
+    const result = await caller.register(input);
+
+    expect(result.user.role).toEqual('USER');
+    const stored = await db.select().from(usersTable).where(eq(usersTable.id, result.user.id)).execute();
+    expect(stored[0].role).toEqual('USER');
+  });
+
+  for (const testCase of cases) {
+    for (const identity of identities) {
+      const allowed = testCase.allowed.includes(identity);
+
+      it(`${testCase.name}: ${identity} should be ${allowed ? 'allowed' : 'denied'}`, async () => {
+        const user = identity === 'anonymous' ? null : fixtures.users[identity];
+        const caller = appRouter.createCaller({ user });
+
+        let error: unknown = null;
+        try {
+          await testCase.call(caller, fixtures);
+        } catch (e) {
+          error = e;
+        }
+
+        // Handler-level failures (validation, not found, ...) still count as "allowed"
+        expect(isDenied(error)).toBe(!allowed);
+
+        if (!allowed) {
+          expect((error as TRPCError).code).toEqual(identity === 'anonymous' ? 'UNAUTHORIZED' : 'FORBIDDEN');
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable, categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { periodEndOf, periodStartOf, refreshBudgetsForExpenses, syncBudgetPeriods, toBudgetPeriod } from '../helpers/budget_periods';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('budget periods', () => {
+  let userId: number;
+
+  const createBudget = async (values: Partial<typeof budgetsTable.$inferInsert> = {}) => {
+    const rows = await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '100.00', created_at: new Date(2024, 0, 10), ...values })
+      .returning()
+      .execute();
+    return rows[0];
+  };
+
+  const addExpense = (amount: string, expenseDate: Date, status: 'APPROVED' | 'PENDING' = 'APPROVED', category_id: number = DEFAULT_CATEGORY_IDS.FOOD_DINING) =>
+    db.insert(expensesTable)
+      .values({ user_id: userId, title: 'Lunch', amount, category_id, status, expense_date: expenseDate })
+      .execute();
+
+  const periodsOf = (budgetId: number) => db.select()
+    .from(budgetPeriodsTable)
+    .where(eq(budgetPeriodsTable.budget_id, budgetId))
+    .orderBy(asc(budgetPeriodsTable.period_start))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should compute month boundaries', () => {
+    expect(periodStartOf(new Date(2024, 1, 29, 23, 59))).toEqual('2024-02-01');
+    expect(periodEndOf('2024-02-01')).toEqual('2024-02-29');
+    expect(periodEndOf('2024-12-01')).toEqual('2024-12-31');
+  });
+
+  it('should open a period for every month since the budget was created', async () => {
+    const budget = await createBudget();
+    await addExpense('30.00', new Date(2024, 0, 15));
+    await addExpense('45.50', new Date(2024, 1, 3));
+    await addExpense('20.00', new Date(2024, 1, 4), 'PENDING');
+    await addExpense('99.00', new Date(2024, 1, 5), 'APPROVED', DEFAULT_CATEGORY_IDS.TRAVEL);
+    await addExpense('12.25', new Date(2024, 2, 1));
+
+    const current = await syncBudgetPeriods(budget.id, new Date(2024, 2, 10));
+
+    expect(current.period_start).toEqual('2024-03-01');
+    expect(current.closed_at).toBeNull();
+    expect(parseFloat(current.spent)).toEqual(12.25);
+
+    const periods = await periodsOf(budget.id);
+    expect(periods.map(period => [period.period_start, parseFloat(period.spent), period.closed_at !== null])).toEqual([
+      ['2024-01-01', 30, true],
+      ['2024-02-01', 45.5, true],
+      ['2024-03-01', 12.25, false]
+    ]);
+  });
+
+  it('should close the previous month and open the next one on rollover', async () => {
+    const budget = await createBudget();
+    await syncBudgetPeriods(budget.id, new Date(2024, 0, 20));
+
+    // Approved after the first sync, still counted when the month closes
+    await addExpense('60.00', new Date(2024, 0, 25));
+    await syncBudgetPeriods(budget.id, new Date(2024, 1, 1, 0, 5));
+
+    // Closed months keep their final spending
+    await addExpense('15.00', new Date(2024, 0, 28));
+    await syncBudgetPeriods(budget.id, new Date(2024, 1, 2));
+
+    const periods = await periodsOf(budget.id);
+    expect(periods).toHaveLength(2);
+    expect(parseFloat(periods[0].spent)).toEqual(60);
+    expect(periods[0].closed_at).toEqual(new Date(2024, 1, 1, 0, 5));
+    expect(periods[1].closed_at).toBeNull();
+  });
+
+  it('should carry unspent amounts over when enabled', async () => {
+    const budget = await createBudget({ carry_over: true });
+    await addExpense('70.00', new Date(2024, 0, 15));
+    await addExpense('150.00', new Date(2024, 1, 15)); // overspent: nothing to carry
+    await addExpense('40.00', new Date(2024, 2, 15));
+
+    await syncBudgetPeriods(budget.id, new Date(2024, 3, 1));
+
+    const periods = (await periodsOf(budget.id)).map(period => toBudgetPeriod(period, 'USD'));
+    expect(periods.map(period => [period.carried_over, period.spent, period.remaining])).toEqual([
+      [0, 70, 30],
+      [30, 150, -20],
+      [0, 40, 60],
+      [60, 0, 160]
+    ]);
+    expect(periods[3].period_end).toEqual('2024-04-30');
+  });
+
+  it('should not carry over by default', async () => {
+    const budget = await createBudget();
+    await addExpense('10.00', new Date(2024, 0, 15));
+
+    const current = await syncBudgetPeriods(budget.id, new Date(2024, 1, 15));
+
+    expect(parseFloat(current.carried_over)).toEqual(0);
+  });
+
+  it('should use the limit in effect when a period opens', async () => {
+    const budget = await createBudget();
+    await syncBudgetPeriods(budget.id, new Date(2024, 0, 15));
+
+    await db.update(budgetsTable).set({ monthly_limit: '250.00' }).where(eq(budgetsTable.id, budget.id)).execute();
+    await syncBudgetPeriods(budget.id, new Date(2024, 1, 15));
+
+    const periods = await periodsOf(budget.id);
+    expect(periods.map(period => parseFloat(period.monthly_limit))).toEqual([100, 250]);
+  });
+
+  it('should recompute the months of changed expenses, including closed ones', async () => {
+    const budget = await createBudget();
+    await addExpense('30.00', new Date(2024, 0, 15));
+    await syncBudgetPeriods(budget.id, new Date(2024, 1, 10));
+
+    // Approved late, dated in the closed January period
+    await addExpense('20.00', new Date(2024, 0, 20));
+    await addExpense('5.00', new Date(2024, 1, 3));
+    await refreshBudgetsForExpenses([
+      { user_id: userId, team_id: null, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(2024, 0, 20) },
+      { user_id: userId, team_id: null, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date(2024, 0, 20) } // no budget
+    ], new Date(2024, 1, 10));
+
+    const periods = await periodsOf(budget.id);
+    expect(periods.map(period => parseFloat(period.spent))).toEqual([50, 5]);
+
+    const budgets = await db.select().from(budgetsTable).where(eq(budgetsTable.id, budget.id)).execute();
+    expect(parseFloat(budgets[0].current_spent)).toEqual(5);
+  });
+
+  it('should carry over again from a recomputed closed month', async () => {
+    const budget = await createBudget({ carry_over: true });
+    await addExpense('30.00', new Date(2024, 0, 15));
+    await addExpense('20.00', new Date(2024, 1, 15));
+    await syncBudgetPeriods(budget.id, new Date(2024, 2, 10));
+
+    // Approved late, dated in the closed January period
+    await addExpense('50.00', new Date(2024, 0, 20));
+    const [refreshed] = await refreshBudgetsForExpenses([
+      { user_id: userId, team_id: null, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(2024, 0, 20) }
+    ], new Date(2024, 2, 10));
+
+    const periods = (await periodsOf(budget.id)).map(period => toBudgetPeriod(period, 'USD'));
+    expect(periods.map(period => [period.carried_over, period.spent, period.remaining])).toEqual([
+      [0, 80, 20],
+      [20, 20, 100],
+      [100, 0, 200]
+    ]);
+    expect(parseFloat(refreshed.current.carried_over)).toEqual(100);
+  });
+
+  it('should count spending in subcategories against the parent budget', async () => {
+    const [coffee] = await db.insert(categoriesTable)
+      .values({ name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING })
+      .returning()
+      .execute();
+    const budget = await createBudget();
+    await addExpense('30.00', new Date(2024, 0, 12));
+    await addExpense('4.50', new Date(2024, 0, 13), 'APPROVED', coffee.id);
+
+    const refreshed = await refreshBudgetsForExpenses([
+      { user_id: userId, team_id: null, category_id: coffee.id, expense_date: new Date(2024, 0, 13) }
+    ], new Date(2024, 0, 20));
+
+    expect(refreshed.map(entry => entry.budget.id)).toEqual([budget.id]);
+    expect(parseFloat(refreshed[0].current.spent)).toEqual(34.5);
+  });
+
+  it('should throw for a missing budget', async () => {
+    await expect(syncBudgetPeriods(99999)).rejects.toThrow(/budget not found/i);
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expenseApprovalsTable, expensesTable, notificationsTable, teamsTable, usersTable } from '../db/schema';
+import { bulkApproveExpenses } from '../handlers/bulk_approve_expenses';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('bulkApproveExpenses', () => {
+  let managerId: number;
+  let headId: number;
+  let aliceId: number;
+  let bobId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' },
+        { email: 'alice@example.com', username: 'alice', password_hash: 'x', first_name: 'A', last_name: 'A' },
+        { email: 'bob@example.com', username: 'bob', password_hash: 'x', first_name: 'B', last_name: 'B' }
+      ])
+      .returning()
+      .execute();
+    [managerId, headId, aliceId, bobId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const insertExpense = async (userId: number, title: string, values: { amount?: string; status?: 'PENDING' | 'APPROVED'; team_id?: number | null } = {}) => {
+    const [expense] = await db.insert(expensesTable)
+      .values({
+        user_id: userId,
+        team_id: teamId,
+        title,
+        amount: '50.00',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+        status: 'PENDING',
+        expense_date: new Date(),
+        ...values
+      })
+      .returning()
+      .execute();
+    return expense;
+  };
+
+  const notificationsOf = (userId: number) => db.select()
+    .from(notificationsTable)
+    .where(eq(notificationsTable.user_id, userId))
+    .execute();
+
+  it('should decide every expense and report each one', async () => {
+    const lunch = await insertExpense(aliceId, 'Lunch');
+    const taxi = await insertExpense(bobId, 'Taxi');
+
+    const results = await bulkApproveExpenses({ expense_ids: [lunch.id, taxi.id], approved_by: managerId, status: 'APPROVED' });
+
+    expect(results.map(result => [result.expense_id, result.success, result.expense?.status, result.error])).toEqual([
+      [lunch.id, true, 'APPROVED', null],
+      [taxi.id, true, 'APPROVED', null]
+    ]);
+    expect(results[0].expense?.amount).toEqual(50);
+
+    const stored = await db.select().from(expensesTable).execute();
+    expect(stored.every(expense => expense.status === 'APPROVED' && expense.approved_by === managerId)).toBe(true);
+  });
+
+  it('should fail expenses that cannot be decided without affecting the others', async () => {
+    const lunch = await insertExpense(aliceId, 'Lunch');
+    const approved = await insertExpense(aliceId, 'Hotel', { status: 'APPROVED' });
+    const own = await insertExpense(managerId, 'Own');
+    const noTeam = await insertExpense(bobId, 'No team', { team_id: null });
+
+    const results = await bulkApproveExpenses({
+      expense_ids: [lunch.id, approved.id, own.id, noTeam.id, 9999],
+      approved_by: managerId,
+      status: 'APPROVED'
+    });
+
+    expect(results.map(result => [result.expense_id, result.success, result.error])).toEqual([
+      [lunch.id, true, null],
+      [approved.id, false, 'Expense is not in pending status'],
+      [own.id, false, 'You cannot approve your own expenses'],
+      [noTeam.id, false, 'This expense is not waiting on your approval'],
+      [9999, false, 'Expense not found']
+    ]);
+    expect(results[1].expense).toBeNull();
+
+    const stored = await db.select().from(expensesTable).where(eq(expensesTable.id, noTeam.id)).execute();
+    expect(stored[0].status).toEqual('PENDING');
+  });
+
+  it('should decide each expense once when listed twice', async () => {
+    const lunch = await insertExpense(aliceId, 'Lunch');
+
+    const results = await bulkApproveExpenses({ expense_ids: [lunch.id, lunch.id], approved_by: managerId, status: 'APPROVED' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+  });
+
+  it('should send one notification per submitter', async () => {
+    const lunch = await insertExpense(aliceId, 'Lunch');
+    const dinner = await insertExpense(aliceId, 'Dinner');
+    const taxi = await insertExpense(bobId, 'Taxi');
+
+    await bulkApproveExpenses({ expense_ids: [lunch.id, dinner.id, taxi.id], approved_by: managerId, status: 'APPROVED' });
+
+    const alice = await notificationsOf(aliceId);
+    expect(alice).toHaveLength(1);
+    expect(alice[0].title).toEqual('Expenses approved');
+    expect(alice[0].message).toEqual('2 of your expenses were approved: "Lunch", "Dinner".');
+    expect(alice[0].related_expense_id).toBeNull();
+
+    const bob = await notificationsOf(bobId);
+    expect(bob).toHaveLength(1);
+    expect(bob[0].title).toEqual('Expense approved');
+    expect(bob[0].related_expense_id).toEqual(taxi.id);
+  });
+
+  it('should require a reason to reject and record it on every expense', async () => {
+    const lunch = await insertExpense(aliceId, 'Lunch');
+    const dinner = await insertExpense(aliceId, 'Dinner');
+
+    await expect(bulkApproveExpenses({ expense_ids: [lunch.id, dinner.id], approved_by: managerId, status: 'REJECTED' }))
+      .rejects.toThrow(/reason is required/i);
+
+    await bulkApproveExpenses({ expense_ids: [lunch.id, dinner.id], approved_by: managerId, status: 'REJECTED', comment: 'Not a business expense' });
+
+    const steps = await db.select().from(expenseApprovalsTable).execute();
+    expect(steps.map(step => [step.status, step.comment])).toEqual([
+      ['REJECTED', 'Not a business expense'],
+      ['REJECTED', 'Not a business expense']
+    ]);
+
+    const alice = await notificationsOf(aliceId);
+    expect(alice).toHaveLength(1);
+    expect(alice[0].message).toEqual('2 of your expenses were rejected: "Lunch", "Dinner". Comment: Not a business expense');
+  });
+
+  it('should send one notification to the approver of the next step', async () => {
+    await createApprovalPolicy({
+      name: 'Sales approvals',
+      team_id: teamId,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: headId, threshold: 500 }
+      ]
+    });
+    const conference = await insertExpense(aliceId, 'Conference', { amount: '900.00' });
+    const flight = await insertExpense(bobId, 'Flight', { amount: '700.00' });
+    const lunch = await insertExpense(bobId, 'Lunch');
+
+    const results = await bulkApproveExpenses({ expense_ids: [conference.id, flight.id, lunch.id], approved_by: managerId, status: 'APPROVED' });
+    expect(results.map(result => result.expense?.status)).toEqual(['PENDING', 'PENDING', 'APPROVED']);
+
+    const head = await notificationsOf(headId);
+    expect(head).toHaveLength(1);
+    expect(head[0].title).toEqual('Expenses awaiting your approval');
+    expect(head[0].message).toEqual('2 expenses need your approval: "Conference", "Flight".');
+
+    expect(await notificationsOf(aliceId)).toEqual([]);
+    expect((await notificationsOf(bobId)).map(notification => notification.message)).toEqual(['"Lunch" was approved.']);
+  });
+
+  it('should reject approvers without permission', async () => {
+    const lunch = await insertExpense(bobId, 'Lunch');
+
+    await expect(bulkApproveExpenses({ expense_ids: [lunch.id], approved_by: aliceId, status: 'APPROVED' }))
+      .rejects.toThrow(/insufficient permissions/i);
+    await expect(bulkApproveExpenses({ expense_ids: [lunch.id], approved_by: 9999, status: 'APPROVED' }))
+      .rejects.toThrow(/approver not found/i);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, reportsTable } from '../db/schema';
+import { cleanupExpiredReports } from '../handlers/cleanup_expired_reports';
+import { createLocalStorageDriver, getStorage, setStorage } from '../helpers/storage';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+describe('cleanupExpiredReports', () => {
+  let storageDir: string;
+  let userId: number;
+
+  const now = new Date(2024, 5, 15, 12);
+
+  const insertReport = async (title: string, expiresAt: Date | null, storageKey: string | null) => {
+    if (storageKey) {
+      await getStorage().put(storageKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+    }
+    await db.insert(reportsTable)
+      .values({ user_id: userId, type: 'CUSTOM', title, filters: '{}', storage_key: storageKey, expires_at: expiresAt })
+      .execute();
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'report-cleanup-'));
+    setStorage(createLocalStorageDriver(storageDir));
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(async () => {
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should delete expired reports and their files', async () => {
+    await insertReport('Expired', new Date(2024, 5, 15, 11), 'reports/1/expired.pdf');
+    await insertReport('Expired without file', new Date(2024, 5, 1), null);
+    await insertReport('Active', new Date(2024, 5, 16), 'reports/1/active.pdf');
+    await insertReport('Never expires', null, 'reports/1/kept.pdf');
+
+    const result = await cleanupExpiredReports(now);
+
+    expect(result).toEqual({ reports_deleted: 2 });
+
+    const remaining = await db.select().from(reportsTable).execute();
+    expect(remaining.map(report => report.title).sort()).toEqual(['Active', 'Never expires']);
+
+    expect(await getStorage().get('reports/1/expired.pdf')).toBeNull();
+    expect(await getStorage().get('reports/1/active.pdf')).not.toBeNull();
+    expect(await getStorage().get('reports/1/kept.pdf')).not.toBeNull();
+  });
+
+  it('should tolerate files that are already gone', async () => {
+    await insertReport('Expired', new Date(2024, 5, 1), null);
+    await db.update(reportsTable).set({ storage_key: 'reports/1/missing.pdf' }).execute();
+
+    expect(await cleanupExpiredReports(now)).toEqual({ reports_deleted: 1 });
+    expect(await cleanupExpiredReports(now)).toEqual({ reports_deleted: 0 });
+  });
+
+  it('should keep reports whose file could not be deleted', async () => {
+    await insertReport('Expired', new Date(2024, 5, 1), 'reports/1/expired.pdf');
+    setStorage({
+      put: async () => {},
+      get: async () => null,
+      delete: async () => { throw new Error('Storage unavailable'); }
+    });
+
+    await expect(cleanupExpiredReports(now)).rejects.toThrow(/storage unavailable/i);
+    expect(await db.select().from(reportsTable).execute()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ConfirmPasswordResetInput } from '../schema';
+import { confirmPasswordReset } from '../handlers/confirm_password_reset';
+import { generateOneTimeToken } from '../helpers/one_time_token';
+import { verifyPassword } from '../helpers/password';
+import { signAuthToken } from '../helpers/auth_token';
+import { resolveUserFromToken } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const newPassword = 'brand-new-password';
+
+describe('confirmPasswordReset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Creates a user holding a reset token and returns the plain token
+  const createUserWithResetToken = async (overrides: Partial<typeof usersTable.$inferInsert> = {}) => {
+    const { token, tokenHash } = generateOneTimeToken();
+    const result = await db.insert(usersTable)
+      .values({
+        email: 'reset@example.com',
+        username: 'resetuser',
+        password_hash: 'old-hash',
+        first_name: 'Reset',
+        last_name: 'User',
+        role: 'USER',
+        password_reset_token: tokenHash,
+        password_reset_expires: new Date(Date.now() + 60 * 60 * 1000),
+        ...overrides
+      })
+      .returning()
+      .execute();
+
+    return { user: result[0], token };
+  };
+
+  it('should set the new password and clear the token', async () => {
+    const { user, token } = await createUserWithResetToken();
+
+    const input: ConfirmPasswordResetInput = { token, new_password: newPassword };
+    const result = await confirmPasswordReset(input);
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await verifyPassword(newPassword, users[0].password_hash)).toBe(true);
+    expect(users[0].password_reset_token).toBeNull();
+    expect(users[0].password_reset_expires).toBeNull();
+  });
+
+  it('should invalidate existing sessions', async () => {
+    const { user, token } = await createUserWithResetToken();
+    const sessionToken = signAuthToken(user);
+
+    expect(await resolveUserFromToken(`Bearer ${sessionToken}`)).not.toBeNull();
+
+    await confirmPasswordReset({ token, new_password: newPassword });
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].session_version).toEqual(user.session_version + 1);
+    expect(await resolveUserFromToken(`Bearer ${sessionToken}`)).toBeNull();
+  });
+
+  it('should only accept a token once', async () => {
+    const { token } = await createUserWithResetToken();
+
+    await confirmPasswordReset({ token, new_password: newPassword });
+
+    await expect(confirmPasswordReset({ token, new_password: 'another-password' }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired tokens', async () => {
+    const { user, token } = await createUserWithResetToken({
+      password_reset_expires: new Date(Date.now() - 1000)
+    });
+
+    await expect(confirmPasswordReset({ token, new_password: newPassword }))
+      .rejects.toThrow(/invalid or expired/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    expect(users[0].password_hash).toEqual('old-hash');
+  });
+
+  it('should reject unknown tokens', async () => {
+    await createUserWithResetToken();
+
+    await expect(confirmPasswordReset({ token: 'not-a-real-token', new_password: newPassword }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should not accept the stored hash as a token', async () => {
+    const { user } = await createUserWithResetToken();
+
+    await expect(confirmPasswordReset({ token: user.password_reset_token!, new_password: newPassword }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject tokens of inactive users', async () => {
+    const { token } = await createUserWithResetToken({ is_active: false });
+
+    await expect(confirmPasswordReset({ token, new_password: newPassword }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { approvalDelegationsTable, teamsTable, usersTable } from '../db/schema';
+import { createApprovalDelegation } from '../handlers/create_approval_delegation';
+
+describe('createApprovalDelegation', () => {
+  let managerId: number;
+  let deputyId: number;
+  let memberId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'deputy@example.com', username: 'deputy', password_hash: 'x', first_name: 'D', last_name: 'D', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, deputyId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delegate every team for the date range', async () => {
+    const result = await createApprovalDelegation({
+      delegator_id: managerId,
+      delegate_id: deputyId,
+      start_date: new Date(2024, 6, 1),
+      end_date: new Date(2024, 6, 14)
+    });
+
+    expect(result.delegator_id).toEqual(managerId);
+    expect(result.delegate_id).toEqual(deputyId);
+    expect(result.team_id).toBeNull();
+    expect(result.start_date).toEqual('2024-07-01');
+    expect(result.end_date).toEqual('2024-07-14');
+
+    const rows = await db.select().from(approvalDelegationsTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should delegate a single team', async () => {
+    const result = await createApprovalDelegation({
+      delegator_id: managerId,
+      delegate_id: deputyId,
+      team_id: teamId,
+      start_date: new Date(2024, 6, 1),
+      end_date: new Date(2024, 6, 1)
+    });
+
+    expect(result.team_id).toEqual(teamId);
+    expect(result.end_date).toEqual(result.start_date);
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    await expect(createApprovalDelegation({
+      delegator_id: managerId,
+      delegate_id: deputyId,
+      start_date: new Date(2024, 6, 14),
+      end_date: new Date(2024, 6, 1)
+    })).rejects.toThrow(/cannot end before it starts/i);
+  });
+
+  it('should only delegate to someone else who can approve expenses', async () => {
+    const range = { start_date: new Date(2024, 6, 1), end_date: new Date(2024, 6, 14) };
+
+    await expect(createApprovalDelegation({ delegator_id: managerId, delegate_id: managerId, ...range }))
+      .rejects.toThrow(/cannot delegate approvals to yourself/i);
+    await expect(createApprovalDelegation({ delegator_id: managerId, delegate_id: memberId, ...range }))
+      .rejects.toThrow(/cannot approve expenses/i);
+    await expect(createApprovalDelegation({ delegator_id: managerId, delegate_id: 9999, ...range }))
+      .rejects.toThrow(/not found/i);
+
+    await db.update(usersTable).set({ is_active: false }).execute();
+    await expect(createApprovalDelegation({ delegator_id: managerId, delegate_id: deputyId, ...range }))
+      .rejects.toThrow(/cannot approve expenses/i);
+  });
+
+  it('should reject an unknown team', async () => {
+    await expect(createApprovalDelegation({
+      delegator_id: managerId,
+      delegate_id: deputyId,
+      team_id: 9999,
+      start_date: new Date(2024, 6, 1),
+      end_date: new Date(2024, 6, 14)
+    })).rejects.toThrow(/team not found/i);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { approvalPolicyStepsTable, teamsTable, usersTable } from '../db/schema';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { eq } from 'drizzle-orm';
+
+describe('createApprovalPolicy', () => {
+  let managerId: number;
+  let headId: number;
+  let memberId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, headId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a team policy with its steps in order', async () => {
+    const result = await createApprovalPolicy({
+      name: 'Sales approvals',
+      team_id: teamId,
+      currency: 'EUR',
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: headId, threshold: 500 },
+        { name: 'Finance', approver_type: 'ADMIN', threshold: 5000 }
+      ]
+    });
+
+    expect(result.name).toEqual('Sales approvals');
+    expect(result.team_id).toEqual(teamId);
+    expect(result.currency).toEqual('EUR');
+    expect(result.steps.map(step => [step.position, step.name, step.approver_type, step.approver_id, step.threshold])).toEqual([
+      [1, 'Team manager', 'TEAM_MANAGER', null, 0],
+      [2, 'Department head', 'USER', headId, 500],
+      [3, 'Finance', 'ADMIN', null, 5000]
+    ]);
+
+    const rows = await db.select().from(approvalPolicyStepsTable).where(eq(approvalPolicyStepsTable.policy_id, result.id)).execute();
+    expect(rows).toHaveLength(3);
+  });
+
+  it('should create the company-wide policy in USD by default', async () => {
+    const result = await createApprovalPolicy({
+      name: 'Company',
+      steps: [{ name: 'Finance', approver_type: 'ADMIN', threshold: 0 }]
+    });
+
+    expect(result.team_id).toBeNull();
+    expect(result.currency).toEqual('USD');
+  });
+
+  it('should allow one policy per team and one company-wide policy', async () => {
+    const steps = [{ name: 'Team manager', approver_type: 'TEAM_MANAGER' as const, threshold: 0 }];
+    await createApprovalPolicy({ name: 'Sales', team_id: teamId, steps });
+    await createApprovalPolicy({ name: 'Company', steps });
+
+    await expect(createApprovalPolicy({ name: 'Again', team_id: teamId, steps })).rejects.toThrow(/already has an approval policy/i);
+    await expect(createApprovalPolicy({ name: 'Again', steps })).rejects.toThrow(/company-wide approval policy already exists/i);
+  });
+
+  it('should reject an unknown team', async () => {
+    await expect(createApprovalPolicy({
+      name: 'Nobody',
+      team_id: 99999,
+      steps: [{ name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 }]
+    })).rejects.toThrow(/team not found/i);
+  });
+
+  it('should require the first step to apply to every expense', async () => {
+    await expect(createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [{ name: 'Finance', approver_type: 'ADMIN', threshold: 100 }]
+    })).rejects.toThrow(/first approval step must apply to every expense/i);
+  });
+
+  it('should validate the approvers of the steps', async () => {
+    const policy = (step: { approver_type: 'TEAM_MANAGER' | 'USER' | 'ADMIN'; approver_id?: number }) => createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [{ name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 }, { name: 'Second', threshold: 100, ...step }]
+    });
+
+    await expect(policy({ approver_type: 'USER' })).rejects.toThrow(/needs an approver/i);
+    await expect(policy({ approver_type: 'USER', approver_id: 99999 })).rejects.toThrow(/not found/i);
+    await expect(policy({ approver_type: 'USER', approver_id: memberId })).rejects.toThrow(/cannot approve expenses/i);
+    await expect(policy({ approver_type: 'ADMIN', approver_id: headId })).rejects.toThrow(/only USER steps name an approver/i);
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { budgetsTable, usersTable, expensesTable } from '../db/schema';
+import { budgetsTable, usersTable, expensesTable, exchangeRatesTable } from '../db/schema';
 import { type CreateBudgetInput } from '../schema';
 import { createBudget } from '../handlers/create_budget';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 // Test data
 const testUser = {
@@ -18,9 +19,11 @@ const testUser = {
 
 const testBudgetInput: CreateBudgetInput = {
   user_id: 1, // Will be set after user creation
-  category: 'FOOD_DINING',
+  scope: 'USER',
+  category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
   monthly_limit: 500.00,
-  alert_threshold: 80
+  alert_threshold: 80,
+  carry_over: false
 };
 
 describe('createBudget', () => {
@@ -42,7 +45,7 @@ describe('createBudget', () => {
     // Verify budget fields
     expect(result.id).toBeDefined();
     expect(result.user_id).toBe(userId);
-    expect(result.category).toBe('FOOD_DINING');
+    expect(result.category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(result.monthly_limit).toBe(500.00);
     expect(typeof result.monthly_limit).toBe('number');
     expect(result.current_spent).toBe(0);
@@ -73,7 +76,7 @@ describe('createBudget', () => {
 
     expect(budgets).toHaveLength(1);
     expect(budgets[0].user_id).toBe(userId);
-    expect(budgets[0].category).toBe('FOOD_DINING');
+    expect(budgets[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(parseFloat(budgets[0].monthly_limit)).toBe(500.00);
     expect(parseFloat(budgets[0].current_spent)).toBe(0);
     expect(budgets[0].alert_threshold).toBe(80);
@@ -100,14 +103,16 @@ describe('createBudget', () => {
           user_id: userId,
           title: 'Lunch',
           amount: '25.50',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+          status: 'APPROVED',
           expense_date: thisMonthExpense1
         },
         {
           user_id: userId,
           title: 'Dinner',
           amount: '42.75',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+          status: 'APPROVED',
           expense_date: thisMonthExpense2
         },
         // This expense is from previous month - should not be counted
@@ -115,7 +120,8 @@ describe('createBudget', () => {
           user_id: userId,
           title: 'Last Month Meal',
           amount: '30.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+          status: 'APPROVED',
           expense_date: new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 15)
         },
         // This expense is different category - should not be counted
@@ -123,7 +129,16 @@ describe('createBudget', () => {
           user_id: userId,
           title: 'Transport',
           amount: '15.00',
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
+          status: 'APPROVED',
+          expense_date: thisMonthExpense1
+        },
+        // Pending expenses do not count until approved
+        {
+          user_id: userId,
+          title: 'Pending Meal',
+          amount: '12.00',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: thisMonthExpense1
         }
       ])
@@ -132,7 +147,7 @@ describe('createBudget', () => {
     const budgetInput = { ...testBudgetInput, user_id: userId };
     const result = await createBudget(budgetInput);
 
-    // Should calculate current spent as sum of this month's FOOD_DINING expenses only
+    // Should calculate current spent as sum of this month's approved FOOD_DINING expenses only
     expect(result.current_spent).toBe(68.25); // 25.50 + 42.75
     expect(typeof result.current_spent).toBe('number');
   });
@@ -149,9 +164,11 @@ describe('createBudget', () => {
     // Create budget input with alert_threshold (Zod already applied the default of 80)
     const budgetInput: CreateBudgetInput = {
       user_id: userId,
-      category: 'TRANSPORTATION',
+      scope: 'USER',
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
       monthly_limit: 300.00,
-      alert_threshold: 80 // This demonstrates the Zod default was applied
+      alert_threshold: 80, // This demonstrates the Zod default was applied
+      carry_over: false
     };
 
     const result = await createBudget(budgetInput);
@@ -178,7 +195,7 @@ describe('createBudget', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '400.00',
         current_spent: '0.00',
         alert_threshold: 75
@@ -201,14 +218,14 @@ describe('createBudget', () => {
     const userId = userResult[0].id;
 
     // Create budgets for different categories
-    const budgetInput1 = { ...testBudgetInput, user_id: userId, category: 'FOOD_DINING' as const };
-    const budgetInput2 = { ...testBudgetInput, user_id: userId, category: 'TRANSPORTATION' as const };
+    const budgetInput1 = { ...testBudgetInput, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING };
+    const budgetInput2 = { ...testBudgetInput, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION };
 
     const result1 = await createBudget(budgetInput1);
     const result2 = await createBudget(budgetInput2);
 
-    expect(result1.category).toBe('FOOD_DINING');
-    expect(result2.category).toBe('TRANSPORTATION');
+    expect(result1.category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+    expect(result2.category_id).toBe(DEFAULT_CATEGORY_IDS.TRANSPORTATION);
     expect(result1.id).not.toBe(result2.id);
 
     // Verify both budgets exist in database
@@ -248,7 +265,48 @@ describe('createBudget', () => {
 
     expect(result1.user_id).toBe(userId1);
     expect(result2.user_id).toBe(userId2);
-    expect(result1.category).toBe(result2.category);
+    expect(result1.category_id).toBe(result2.category_id);
     expect(result1.id).not.toBe(result2.id);
   });
-});
\ No newline at end of file
+
+  it('should convert existing spending into the budget currency', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ ...testUser, home_currency: 'GBP' })
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+    const today = new Date();
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'EUR', currency: 'GBP', rate: '0.8', rate_date: '2000-01-01' })
+      .execute();
+    await db.insert(expensesTable)
+      .values([
+        { user_id: userId, title: 'Lunch', amount: '10.00', currency: 'EUR', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: today },
+        { user_id: userId, title: 'Coffee', amount: '4.00', currency: 'GBP', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: today }
+      ])
+      .execute();
+
+    const homeBudget = await createBudget({ ...testBudgetInput, user_id: userId });
+    const euroBudget = await createBudget({ ...testBudgetInput, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, currency: 'EUR' });
+
+    expect(homeBudget.currency).toEqual('GBP');
+    expect(homeBudget.current_spent).toEqual(12); // 8 + 4
+    expect(euroBudget.currency).toEqual('EUR');
+  });
+
+  it('should refuse a currency the counted expenses cannot be converted to without leaving a budget behind', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+    await db.insert(expensesTable)
+      .values({ user_id: userId, title: 'Lunch', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: new Date() })
+      .execute();
+
+    await expect(createBudget({ ...testBudgetInput, user_id: userId, currency: 'JPY' })).rejects.toThrow(/no exchange rate/i);
+
+    const budgets = await db.select().from(budgetsTable).execute();
+    expect(budgets).toHaveLength(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, usersTable } from '../db/schema';
+import { createCategory } from '../handlers/create_category';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('createCategory', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a subcategory', async () => {
+    const result = await createCategory({
+      created_by: adminId,
+      name: 'Coffee',
+      parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      icon: 'coffee',
+      color: '#6F4E37'
+    });
+
+    expect(result.key).toBeNull();
+    expect(result.name).toEqual('Coffee');
+    expect(result.parent_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+    expect(result.icon).toEqual('coffee');
+    expect(result.color).toEqual('#6F4E37');
+    expect(result.created_by).toEqual(adminId);
+    expect(result.archived_at).toBeNull();
+
+    const rows = await db.select().from(categoriesTable).where(eq(categoriesTable.id, result.id)).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should create a top-level category', async () => {
+    const result = await createCategory({ created_by: adminId, name: 'Software' });
+
+    expect(result.parent_id).toBeNull();
+    expect(result.icon).toBeNull();
+    expect(result.color).toBeNull();
+  });
+
+  it('should reject a name already used by a sibling', async () => {
+    await createCategory({ created_by: adminId, name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING });
+
+    await expect(createCategory({ created_by: adminId, name: 'coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING }))
+      .rejects.toThrow(/already exists/i);
+    await expect(createCategory({ created_by: adminId, name: 'Travel' })).rejects.toThrow(/already exists/i);
+
+    // The same name is fine elsewhere in the tree
+    const other = await createCategory({ created_by: adminId, name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.BUSINESS });
+    expect(other.parent_id).toEqual(DEFAULT_CATEGORY_IDS.BUSINESS);
+  });
+
+  it('should reject a missing or archived parent', async () => {
+    await expect(createCategory({ created_by: adminId, name: 'Coffee', parent_id: 99999 })).rejects.toThrow(/category not found/i);
+
+    await db.update(categoriesTable)
+      .set({ archived_at: new Date() })
+      .where(eq(categoriesTable.id, DEFAULT_CATEGORY_IDS.OTHERS))
+      .execute();
+
+    await expect(createCategory({ created_by: adminId, name: 'Misc', parent_id: DEFAULT_CATEGORY_IDS.OTHERS }))
+      .rejects.toThrow(/parent category is archived/i);
+  });
+});
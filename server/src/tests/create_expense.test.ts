@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, teamsTable, expensesTable, budgetsTable } from '../db/schema';
+import { usersTable, teamsTable, teamMembersTable, expensesTable, budgetsTable, appSettingsTable, receiptsTable, recurringSeriesTable, categoriesTable, tagsTable, exchangeRatesTable } from '../db/schema';
 import { type CreateExpenseInput } from '../schema';
 import { createExpense } from '../handlers/create_expense';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('createExpense', () => {
   beforeEach(createDB);
@@ -42,11 +43,11 @@ describe('createExpense', () => {
     return result[0].id;
   };
 
-  const createTestBudget = async (userId: number, category: any, monthlyLimit: number = 1000) => {
+  const createTestBudget = async (userId: number, categoryId: number, monthlyLimit: number = 1000) => {
     return await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: category,
+        category_id: categoryId,
         monthly_limit: monthlyLimit.toString(),
         alert_threshold: 80
       })
@@ -62,7 +63,7 @@ describe('createExpense', () => {
       title: 'Test Expense',
       description: 'A test expense',
       amount: 50.99,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date('2024-01-15'),
       is_recurring: false,
       tags: ['work', 'lunch']
@@ -78,11 +79,11 @@ describe('createExpense', () => {
     expect(result.description).toEqual('A test expense');
     expect(result.amount).toEqual(50.99);
     expect(typeof result.amount).toEqual('number');
-    expect(result.category).toEqual('FOOD_DINING');
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(result.status).toEqual('PENDING');
     expect(result.expense_date).toBeInstanceOf(Date);
     expect(result.is_recurring).toEqual(false);
-    expect(result.tags).toEqual('["work","lunch"]');
+    expect(result.tags).toEqual(['lunch', 'work']);
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
   });
@@ -91,13 +92,14 @@ describe('createExpense', () => {
     testManagerId = await createTestUser('MANAGER');
     testUserId = await createTestUser();
     testTeamId = await createTestTeam(testManagerId);
+    await db.insert(teamMembersTable).values({ team_id: testTeamId, user_id: testUserId }).execute();
 
     const testInput: CreateExpenseInput = {
       user_id: testUserId,
       team_id: testTeamId,
       title: 'Team Expense',
       amount: 100.00,
-      category: 'BUSINESS',
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -107,7 +109,28 @@ describe('createExpense', () => {
     expect(result.team_id).toEqual(testTeamId);
     expect(result.title).toEqual('Team Expense');
     expect(result.amount).toEqual(100.00);
-    expect(result.category).toEqual('BUSINESS');
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.BUSINESS);
+  });
+
+  it('should reject expenses under teams the user does not belong to', async () => {
+    testManagerId = await createTestUser('MANAGER');
+    testUserId = await createTestUser();
+    testTeamId = await createTestTeam(testManagerId);
+    const input: CreateExpenseInput = {
+      user_id: testUserId,
+      team_id: testTeamId,
+      title: 'Team Expense',
+      amount: 100.00,
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
+      expense_date: new Date(),
+      is_recurring: false
+    };
+
+    await expect(createExpense(input)).rejects.toThrow(/only members of a team/i);
+
+    // The team's manager files under it without being a member
+    const result = await createExpense({ ...input, user_id: testManagerId });
+    expect(result.team_id).toEqual(testTeamId);
   });
 
   it('should create expense with minimal required fields', async () => {
@@ -117,7 +140,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'Minimal Expense',
       amount: 25.50,
-      category: 'TRANSPORTATION',
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -131,7 +154,7 @@ describe('createExpense', () => {
     expect(result.receipt_url).toBeNull();
     expect(result.is_recurring).toEqual(false);
     expect(result.recurring_frequency).toBeNull();
-    expect(result.tags).toBeNull();
+    expect(result.tags).toEqual([]);
   });
 
   it('should handle recurring expense', async () => {
@@ -141,7 +164,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'Monthly Subscription',
       amount: 29.99,
-      category: 'BILLS_UTILITIES',
+      category_id: DEFAULT_CATEGORY_IDS.BILLS_UTILITIES,
       expense_date: new Date(),
       is_recurring: true,
       recurring_frequency: 'monthly'
@@ -153,6 +176,52 @@ describe('createExpense', () => {
     expect(result.recurring_frequency).toEqual('monthly');
   });
 
+  it('should start a recurring series from a recurring expense', async () => {
+    testUserId = await createTestUser();
+
+    const result = await createExpense({
+      user_id: testUserId,
+      title: 'Monthly Subscription',
+      amount: 29.99,
+      category_id: DEFAULT_CATEGORY_IDS.BILLS_UTILITIES,
+      expense_date: new Date(2024, 0, 31),
+      is_recurring: true,
+      recurring_frequency: 'Monthly'
+    });
+
+    expect(result.recurring_series_id).not.toBeNull();
+    expect(result.recurrence_date).toEqual('2024-01-31');
+
+    const series = await db.select()
+      .from(recurringSeriesTable)
+      .where(eq(recurringSeriesTable.id, result.recurring_series_id!))
+      .execute();
+
+    expect(series[0].frequency).toEqual('MONTHLY');
+    expect(series[0].title).toEqual('Monthly Subscription');
+    expect(series[0].occurrence_count).toEqual(1);
+    expect(series[0].last_occurrence_date).toEqual('2024-01-31');
+    expect(series[0].next_occurrence_date).toEqual('2024-02-29');
+  });
+
+  it('should not start a series for unknown frequencies', async () => {
+    testUserId = await createTestUser();
+
+    const result = await createExpense({
+      user_id: testUserId,
+      title: 'Irregular',
+      amount: 10,
+      category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+      expense_date: new Date(),
+      is_recurring: true,
+      recurring_frequency: 'sometimes'
+    });
+
+    expect(result.recurring_series_id).toBeNull();
+    const series = await db.select().from(recurringSeriesTable).execute();
+    expect(series).toHaveLength(0);
+  });
+
   it('should save expense to database correctly', async () => {
     testUserId = await createTestUser();
 
@@ -160,7 +229,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'Database Test',
       amount: 75.25,
-      category: 'SHOPPING',
+      category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
       expense_date: new Date('2024-02-01'),
       is_recurring: false
     };
@@ -176,81 +245,41 @@ describe('createExpense', () => {
     expect(savedExpense).toHaveLength(1);
     expect(savedExpense[0].title).toEqual('Database Test');
     expect(parseFloat(savedExpense[0].amount)).toEqual(75.25);
-    expect(savedExpense[0].category).toEqual('SHOPPING');
+    expect(savedExpense[0].category_id).toEqual(DEFAULT_CATEGORY_IDS.SHOPPING);
     expect(savedExpense[0].status).toEqual('PENDING');
   });
 
-  it('should update budget current_spent when budget exists', async () => {
+  it('should not count pending expenses against the budget', async () => {
     testUserId = await createTestUser();
     
     // Create budget for FOOD_DINING category
-    await createTestBudget(testUserId, 'FOOD_DINING', 500);
+    await createTestBudget(testUserId, DEFAULT_CATEGORY_IDS.FOOD_DINING, 500);
 
     const testInput: CreateExpenseInput = {
       user_id: testUserId,
       title: 'Food Expense',
       amount: 45.50,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date(),
       is_recurring: false
     };
 
-    await createExpense(testInput);
-
-    // Check budget was updated
-    const budget = await db.select()
-      .from(budgetsTable)
-      .where(
-        and(
-          eq(budgetsTable.user_id, testUserId),
-          eq(budgetsTable.category, 'FOOD_DINING')
-        )
-      )
-      .execute();
-
-    expect(budget).toHaveLength(1);
-    expect(parseFloat(budget[0].current_spent)).toEqual(45.50);
-  });
-
-  it('should update budget current_spent correctly with multiple expenses', async () => {
-    testUserId = await createTestUser();
-    
-    // Create budget for TRANSPORTATION category
-    await createTestBudget(testUserId, 'TRANSPORTATION', 300);
-
-    // Create first expense
-    await createExpense({
-      user_id: testUserId,
-      title: 'Bus Fare',
-      amount: 25.00,
-      category: 'TRANSPORTATION',
-      expense_date: new Date(),
-      is_recurring: false
-    });
-
-    // Create second expense
-    await createExpense({
-      user_id: testUserId,
-      title: 'Taxi Ride',
-      amount: 35.50,
-      category: 'TRANSPORTATION',
-      expense_date: new Date(),
-      is_recurring: false
-    });
+    const expense = await createExpense(testInput);
+    expect(expense.status).toEqual('PENDING');
 
-    // Check budget current_spent is cumulative
+    // Spending only counts once the expense is approved
     const budget = await db.select()
       .from(budgetsTable)
       .where(
         and(
           eq(budgetsTable.user_id, testUserId),
-          eq(budgetsTable.category, 'TRANSPORTATION')
+          eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.FOOD_DINING)
         )
       )
       .execute();
 
     expect(budget).toHaveLength(1);
-    expect(parseFloat(budget[0].current_spent)).toEqual(60.50);
+    expect(parseFloat(budget[0].current_spent)).toEqual(0);
   });
 
   it('should not update budget if no budget exists for category', async () => {
@@ -260,7 +289,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'No Budget Category',
       amount: 100.00,
-      category: 'ENTERTAINMENT',
+      category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -275,7 +304,7 @@ describe('createExpense', () => {
       user_id: 99999, // Non-existent user
       title: 'Invalid User Expense',
       amount: 50.00,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -291,7 +320,7 @@ describe('createExpense', () => {
       team_id: 99999, // Non-existent team
       title: 'Invalid Team Expense',
       amount: 50.00,
-      category: 'BUSINESS',
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -299,6 +328,26 @@ describe('createExpense', () => {
     await expect(createExpense(testInput)).rejects.toThrow(/Team with id 99999 not found/i);
   });
 
+  it('should reject unknown and archived categories', async () => {
+    testUserId = await createTestUser();
+    const [archived] = await db.insert(categoriesTable)
+      .values({ name: 'Old stuff', archived_at: new Date() })
+      .returning()
+      .execute();
+
+    const testInput: CreateExpenseInput = {
+      user_id: testUserId,
+      title: 'Misc',
+      amount: 10.00,
+      category_id: 99999,
+      expense_date: new Date(),
+      is_recurring: false
+    };
+
+    await expect(createExpense(testInput)).rejects.toThrow(/category not found/i);
+    await expect(createExpense({ ...testInput, category_id: archived.id })).rejects.toThrow(/category is archived/i);
+  });
+
   it('should handle large decimal amounts correctly', async () => {
     testUserId = await createTestUser();
 
@@ -306,7 +355,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'Large Amount',
       amount: 9999.99,
-      category: 'BUSINESS',
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
       expense_date: new Date(),
       is_recurring: false
     };
@@ -332,7 +381,7 @@ describe('createExpense', () => {
       user_id: testUserId,
       title: 'Tagged Expense',
       amount: 42.00,
-      category: 'EDUCATION',
+      category_id: DEFAULT_CATEGORY_IDS.EDUCATION,
       expense_date: new Date(),
       is_recurring: false,
       tags: ['conference', 'professional-development', 'training', 'online-course']
@@ -340,10 +389,140 @@ describe('createExpense', () => {
 
     const result = await createExpense(testInput);
 
-    expect(result.tags).toEqual('["conference","professional-development","training","online-course"]');
+    expect(result.tags).toEqual(['conference', 'online-course', 'professional-development', 'training']);
+  });
+
+  it('should reuse existing tags ignoring case', async () => {
+    testUserId = await createTestUser();
+    const base = { user_id: testUserId, amount: 10, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date(), is_recurring: false };
+
+    await createExpense({ ...base, title: 'Taxi', tags: ['Client A'] });
+    const result = await createExpense({ ...base, title: 'Train', tags: [' client a ', 'CLIENT A', 'Trip', ''] });
+
+    // The tag keeps the spelling it was created with
+    expect(result.tags).toEqual(['Client A', 'Trip']);
+
+    const tags = await db.select().from(tagsTable).where(eq(tagsTable.user_id, testUserId)).execute();
+    expect(tags.map(tag => tag.name).sort()).toEqual(['Client A', 'Trip']);
+  });
+
+  it('should reject unverified users when admins require verification', async () => {
+    testUserId = await createTestUser();
+    await db.insert(appSettingsTable)
+      .values({ allow_unverified_expenses: false })
+      .execute();
+
+    const testInput: CreateExpenseInput = {
+      user_id: testUserId,
+      title: 'Unverified Expense',
+      amount: 10,
+      category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+      expense_date: new Date(),
+      is_recurring: false
+    };
+
+    await expect(createExpense(testInput)).rejects.toThrow(/must be verified/i);
+
+    // Verified users are still allowed
+    await db.update(usersTable)
+      .set({ email_verified: true })
+      .where(eq(usersTable.id, testUserId))
+      .execute();
+
+    const result = await createExpense(testInput);
+    expect(result.user_id).toEqual(testUserId);
+  });
+
+  describe('uploaded receipts', () => {
+    const createTestReceipt = async (userId: number) => {
+      const result = await db.insert(receiptsTable)
+        .values({ user_id: userId, storage_key: `receipts/${userId}/r.pdf`, filename: 'r.pdf', content_type: 'application/pdf', size: 8, sha256: 'x' })
+        .returning()
+        .execute();
+      return result[0].id;
+    };
+
+    const baseInput = (userId: number): CreateExpenseInput => ({
+      user_id: userId,
+      title: 'Taxi',
+      amount: 23.4,
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
+      expense_date: new Date(),
+      is_recurring: false
+    });
+
+    it('should link an uploaded receipt by its upload ID', async () => {
+      testUserId = await createTestUser();
+      const receiptId = await createTestReceipt(testUserId);
+
+      const result = await createExpense({ ...baseInput(testUserId), receipt_id: receiptId, receipt_url: 'https://elsewhere.example.com/r.pdf' });
+
+      expect(result.receipt_id).toEqual(receiptId);
+      expect(result.receipt_url).toEqual(`/api/receipts/${receiptId}`);
+    });
+
+    it('should reject free-form receipt URLs pointing at uploaded receipts', async () => {
+      testUserId = await createTestUser();
+      const otherUserId = await createTestUser();
+      const receiptId = await createTestReceipt(otherUserId);
+
+      await expect(createExpense({ ...baseInput(testUserId), receipt_url: `/api/receipts/${receiptId}` }))
+        .rejects.toThrow(/attached by their receipt_id/i);
+      await expect(createExpense({ ...baseInput(testUserId), receipt_url: `https://app.example.com/api/receipts/${receiptId}/thumbnail` }))
+        .rejects.toThrow(/attached by their receipt_id/i);
+    });
+
+    it('should reject receipts uploaded by someone else', async () => {
+      testUserId = await createTestUser();
+      const otherUserId = await createTestUser();
+      const receiptId = await createTestReceipt(otherUserId);
+
+      await expect(createExpense({ ...baseInput(testUserId), receipt_id: receiptId }))
+        .rejects.toThrow(/does not belong to the expense owner/i);
+    });
+
+    it('should reject unknown receipts', async () => {
+      testUserId = await createTestUser();
+
+      await expect(createExpense({ ...baseInput(testUserId), receipt_id: 99999 }))
+        .rejects.toThrow(/receipt with id 99999 not found/i);
+    });
+  });
+
+  it('should default to the home currency of the user', async () => {
+    const userId = await createTestUser();
+    await db.update(usersTable).set({ home_currency: 'EUR' }).where(eq(usersTable.id, userId)).execute();
+
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'EUR', currency: 'JPY', rate: '160', rate_date: '2024-01-01' })
+      .execute();
+
+    const base = { user_id: userId, title: 'Taxi', amount: 20, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, expense_date: new Date(), is_recurring: false };
+    const homeCurrency = await createExpense(base);
+    const yen = await createExpense({ ...base, currency: 'JPY' });
+
+    expect(homeCurrency.currency).toEqual('EUR');
+    expect(yen.currency).toEqual('JPY');
+    expect(yen.amount).toEqual(20);
+  });
+
+  it('should reject currencies without exchange rates to the home or budget currency', async () => {
+    const userId = await createTestUser();
+    const base = { user_id: userId, title: 'Taxi', amount: 20, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, expense_date: new Date(), is_recurring: false };
+
+    await expect(createExpense({ ...base, currency: 'JPY' })).rejects.toThrow(/no exchange rate available to convert JPY to USD/i);
+
+    // Rates to the home currency aren't enough when a budget counts the expense in another one
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'USD', currency: 'JPY', rate: '150', rate_date: '2024-01-01' })
+      .execute();
+    await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, monthly_limit: '100.00', currency: 'CHF' })
+      .execute();
+
+    await expect(createExpense({ ...base, currency: 'JPY' })).rejects.toThrow(/JPY to CHF/);
 
-    // Verify tags can be parsed back
-    const parsedTags = JSON.parse(result.tags!);
-    expect(parsedTags).toEqual(['conference', 'professional-development', 'training', 'online-course']);
+    const expenses = await db.select().from(expensesTable).where(eq(expensesTable.user_id, userId)).execute();
+    expect(expenses).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
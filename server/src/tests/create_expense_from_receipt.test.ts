@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, receiptsTable } from '../db/schema';
+import { createExpenseInputSchema } from '../schema';
+import { uploadReceipt } from '../handlers/upload_receipt';
+import { createExpenseFromReceipt } from '../handlers/create_expense_from_receipt';
+import { createExpense } from '../handlers/create_expense';
+import { createLocalStorageDriver, setStorage } from '../helpers/storage';
+import { createFakeOcrEngine, createTesseractOcrEngine, setOcrEngine } from '../helpers/ocr';
+import { eq } from 'drizzle-orm';
+import { mkdtempSync, rmSync, writeFileSync, chmodSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+const receiptText = `
+  Joe's Pizza
+  7 Carmine St, New York
+  2024-05-04 19:02
+  Margherita     18.00
+  Soda            3.50
+  TOTAL USD      21.50
+`;
+
+describe('createExpenseFromReceipt', () => {
+  let storageDir: string;
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'receipts-'));
+    setStorage(createLocalStorageDriver(storageDir));
+
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'ocr@example.com', username: 'ocruser', password_hash: 'x', first_name: 'O', last_name: 'C', role: 'USER' })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    setOcrEngine(null);
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  const uploadImage = async () => {
+    const image = await sharp({ create: { width: 32, height: 64, channels: 3, background: '#ffffff' } }).jpeg().toBuffer();
+    const result = await uploadReceipt(userId, { buffer: image, filename: 'IMG_2041.jpg', mimetype: 'image/jpeg' });
+    expect(result.success).toBe(true);
+    return result;
+  };
+
+  it('should return a prefilled expense draft', async () => {
+    setOcrEngine(createFakeOcrEngine(receiptText));
+    const { receipt_id, file_url } = await uploadImage();
+
+    const result = await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+
+    expect(result.draft).toEqual({
+      user_id: userId,
+      title: "Joe's Pizza",
+      description: null,
+      merchant: "Joe's Pizza",
+      amount: 21.5,
+      currency: 'USD',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      receipt_url: file_url,
+      receipt_id: receipt_id,
+      expense_date: new Date(2024, 4, 4),
+      is_recurring: false
+    });
+    expect(result.extracted.currency).toEqual('USD');
+    expect(result.missing_fields).toEqual([]);
+  });
+
+  it('should produce a draft createExpense accepts', async () => {
+    setOcrEngine(createFakeOcrEngine(receiptText));
+    const { receipt_id } = await uploadImage();
+
+    const { draft } = await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+    const expense = await createExpense(createExpenseInputSchema.parse(draft));
+
+    expect(expense.title).toEqual("Joe's Pizza");
+    expect(expense.amount).toEqual(21.5);
+  });
+
+  it('should list fields that could not be recognized', async () => {
+    setOcrEngine(createFakeOcrEngine('%%%\n\n'));
+    const { receipt_id } = await uploadImage();
+
+    const result = await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+
+    expect(result.missing_fields).toEqual(['merchant', 'total', 'date', 'currency']);
+    expect(result.draft.title).toEqual('IMG_2041.jpg');
+    expect(result.draft.amount).toEqual(0);
+    expect(result.draft.category_id).toEqual(DEFAULT_CATEGORY_IDS.OTHERS);
+  });
+
+  it('should run OCR once and cache the text', async () => {
+    const engine = createFakeOcrEngine(receiptText);
+    setOcrEngine(engine);
+    const { receipt_id } = await uploadImage();
+
+    await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+    await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+
+    expect(engine.calls).toEqual(1);
+
+    const receipts = await db.select().from(receiptsTable).where(eq(receiptsTable.id, receipt_id!)).execute();
+    expect(receipts[0].ocr_text).toEqual(receiptText);
+    expect(receipts[0].ocr_processed_at).toBeInstanceOf(Date);
+  });
+
+  it('should pass the stored image to the engine', async () => {
+    let received: Buffer | null = null;
+    setOcrEngine(createFakeOcrEngine(image => {
+      received = image;
+      return receiptText;
+    }));
+    const { receipt_id } = await uploadImage();
+
+    await createExpenseFromReceipt({ receipt_id: receipt_id! }, userId);
+
+    expect((await sharp(received!).metadata()).format).toEqual('jpeg');
+  });
+
+  it('should reject PDF receipts', async () => {
+    setOcrEngine(createFakeOcrEngine(receiptText));
+    const { receipt_id } = await uploadReceipt(userId, { buffer: Buffer.from('%PDF-1.4'), filename: 'r.pdf', mimetype: 'application/pdf' });
+
+    await expect(createExpenseFromReceipt({ receipt_id: receipt_id! }, userId))
+      .rejects.toThrow(/only supported for image receipts/i);
+  });
+
+  it('should reject unknown receipts', async () => {
+    await expect(createExpenseFromReceipt({ receipt_id: 99999 }, userId)).rejects.toThrow(/receipt not found/i);
+  });
+
+  describe('tesseract engine', () => {
+    // Stand-in for the tesseract CLI: echoes its arguments and the input size
+    const writeScript = (body: string): string => {
+      const script = path.join(storageDir, 'tesseract');
+      writeFileSync(script, `#!/bin/sh\n${body}\n`);
+      chmodSync(script, 0o755);
+      return script;
+    };
+
+    it('should pipe the image through the tesseract command', async () => {
+      const command = writeScript('echo "Args: $@"; echo "Bytes: $(wc -c)"');
+      const engine = createTesseractOcrEngine({ command, languages: 'eng+deu' });
+
+      const text = await engine.recognize(Buffer.alloc(42));
+
+      expect(text).toContain('Args: stdin stdout -l eng+deu');
+      expect(text).toMatch(/Bytes: *42/);
+    });
+
+    it('should report failures', async () => {
+      const command = writeScript('echo "Error opening data file" >&2; exit 1');
+
+      await expect(createTesseractOcrEngine({ command }).recognize(Buffer.alloc(1)))
+        .rejects.toThrow(/exit code 1: Error opening data file/);
+      await expect(createTesseractOcrEngine({ command: path.join(storageDir, 'missing') }).recognize(Buffer.alloc(1)))
+        .rejects.toThrow(/not available/);
+    });
+
+    it('should stop the command after the timeout', async () => {
+      const command = writeScript('exec sleep 5');
+
+      await expect(createTesseractOcrEngine({ command, timeoutMs: 100 }).recognize(Buffer.alloc(1)))
+        .rejects.toThrow(/timed out/);
+    });
+  });
+});
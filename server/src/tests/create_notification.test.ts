@@ -5,6 +5,7 @@ import { usersTable, notificationsTable, expensesTable, teamsTable } from '../db
 import { type CreateNotificationInput } from '../schema';
 import { createNotification } from '../handlers/create_notification';
 import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 // Test user data
 const testUser = {
@@ -106,7 +107,7 @@ describe('createNotification', () => {
         team_id: teamId,
         title: 'Test Expense',
         amount: '50.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date()
       })
       .returning()
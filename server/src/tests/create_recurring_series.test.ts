@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { appSettingsTable, expensesTable, teamMembersTable, teamsTable, usersTable } from '../db/schema';
+import { type CreateRecurringSeriesInput } from '../schema';
+import { createRecurringSeries } from '../handlers/create_recurring_series';
+import { toCalendarDate } from '../helpers/dates';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('createRecurringSeries', () => {
+  let userId: number;
+
+  const now = new Date();
+  const firstOfMonth = (monthsAgo: number) => new Date(now.getFullYear(), now.getMonth() - monthsAgo, 1);
+
+  const input = (overrides: Partial<CreateRecurringSeriesInput> = {}): CreateRecurringSeriesInput => ({
+    user_id: userId,
+    title: 'Office rent',
+    amount: 1200,
+    category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+    frequency: 'MONTHLY',
+    interval: 1,
+    start_date: firstOfMonth(-1),
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User', home_currency: 'EUR' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a series starting in the future without expenses', async () => {
+    const result = await createRecurringSeries(input());
+
+    expect(result.id).toBeDefined();
+    expect(result.amount).toEqual(1200);
+    expect(typeof result.amount).toBe('number');
+    expect(result.currency).toEqual('EUR');
+    expect(result.start_date).toEqual(toCalendarDate(firstOfMonth(-1)));
+    expect(result.next_occurrence_date).toEqual(toCalendarDate(firstOfMonth(-1)));
+    expect(result.occurrence_count).toEqual(0);
+    expect(result.is_paused).toBe(false);
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses).toHaveLength(0);
+  });
+
+  it('should create the occurrences already due', async () => {
+    const result = await createRecurringSeries(input({ start_date: firstOfMonth(2) }));
+
+    expect(result.occurrence_count).toEqual(3);
+    expect(result.last_occurrence_date).toEqual(toCalendarDate(firstOfMonth(0)));
+    expect(result.next_occurrence_date).toEqual(toCalendarDate(firstOfMonth(-1)));
+
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.recurring_series_id, result.id))
+      .orderBy(asc(expensesTable.recurrence_date))
+      .execute();
+
+    expect(expenses.map(expense => expense.recurrence_date)).toEqual([2, 1, 0].map(n => toCalendarDate(firstOfMonth(n))));
+    expenses.forEach(expense => {
+      expect(expense.status).toEqual('PENDING');
+      expect(expense.is_recurring).toBe(true);
+      expect(expense.recurring_frequency).toEqual('monthly');
+      expect(parseFloat(expense.amount)).toEqual(1200);
+      expect(expense.currency).toEqual('EUR');
+    });
+  });
+
+  it('should respect max occurrences', async () => {
+    const result = await createRecurringSeries(input({ start_date: firstOfMonth(5), max_occurrences: 2 }));
+
+    expect(result.occurrence_count).toEqual(2);
+    expect(result.next_occurrence_date).toBeNull();
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses).toHaveLength(2);
+  });
+
+  it('should validate custom rules', async () => {
+    await expect(createRecurringSeries(input({ frequency: 'CUSTOM' }))).rejects.toThrow(/requires a rule/i);
+    await expect(createRecurringSeries(input({ frequency: 'CUSTOM', rule: '40 * *' }))).rejects.toThrow(/invalid/i);
+
+    const result = await createRecurringSeries(input({ frequency: 'CUSTOM', rule: '1,15 * *' }));
+    expect(result.rule).toEqual('1,15 * *');
+  });
+
+  it('should not start more than a year ago', async () => {
+    await expect(createRecurringSeries(input({ start_date: firstOfMonth(13) }))).rejects.toThrow(/more than a year ago/i);
+
+    const result = await createRecurringSeries(input({ start_date: firstOfMonth(11) }));
+    expect(result.occurrence_count).toEqual(12);
+  });
+
+  it('should reject unverified users when admins require verification', async () => {
+    await db.insert(appSettingsTable)
+      .values({ allow_unverified_expenses: false })
+      .execute();
+
+    await expect(createRecurringSeries(input({ start_date: firstOfMonth(2) }))).rejects.toThrow(/must be verified/i);
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+
+    await db.update(usersTable).set({ email_verified: true }).where(eq(usersTable.id, userId)).execute();
+    const result = await createRecurringSeries(input({ start_date: firstOfMonth(2) }));
+    expect(result.occurrence_count).toEqual(3);
+  });
+
+  it('should reject an end date before the start date', async () => {
+    await expect(createRecurringSeries(input({ end_date: firstOfMonth(0) }))).rejects.toThrow(/end date/i);
+  });
+
+  it('should throw for missing users and teams', async () => {
+    await expect(createRecurringSeries(input({ user_id: 99999 }))).rejects.toThrow(/user with id 99999 not found/i);
+    await expect(createRecurringSeries(input({ team_id: 99999 }))).rejects.toThrow(/team with id 99999 not found/i);
+  });
+
+  it('should reject series under teams the user does not belong to', async () => {
+    const [manager] = await db.insert(usersTable)
+      .values({ email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' })
+      .returning()
+      .execute();
+    const [team] = await db.insert(teamsTable).values({ name: 'Sales', manager_id: manager.id }).returning().execute();
+
+    await expect(createRecurringSeries(input({ team_id: team.id }))).rejects.toThrow(/only members of a team/i);
+
+    await db.insert(teamMembersTable).values({ team_id: team.id, user_id: userId }).execute();
+    const result = await createRecurringSeries(input({ team_id: team.id }));
+    expect(result.team_id).toEqual(team.id);
+  });
+});
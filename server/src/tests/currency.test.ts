@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { loadCurrencyConverter } from '../helpers/currency';
+
+describe('loadCurrencyConverter', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(exchangeRatesTable)
+      .values([
+        { base_currency: 'EUR', currency: 'USD', rate: '1.1', rate_date: '2024-01-02' },
+        { base_currency: 'EUR', currency: 'USD', rate: '1.2', rate_date: '2024-01-05' },
+        { base_currency: 'EUR', currency: 'JPY', rate: '160', rate_date: '2024-01-02' },
+        { base_currency: 'USD', currency: 'CAD', rate: '1.35', rate_date: '2024-01-02' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should convert with direct and inverse rates', async () => {
+    const converter = await loadCurrencyConverter(['EUR', 'USD']);
+
+    expect(converter.convert(100, 'EUR', 'USD', new Date(2024, 0, 2))).toEqual(110);
+    expect(converter.convert(110, 'USD', 'EUR', new Date(2024, 0, 2))).toEqual(100);
+  });
+
+  it('should convert between currencies quoted against a common base', async () => {
+    const converter = await loadCurrencyConverter(['USD', 'JPY']);
+
+    expect(converter.convert(1600, 'JPY', 'USD', new Date(2024, 0, 2))).toEqual(11);
+  });
+
+  it('should use the latest rate published on or before the date', async () => {
+    const converter = await loadCurrencyConverter(['EUR', 'USD']);
+
+    expect(converter.convert(100, 'EUR', 'USD', new Date(2024, 0, 4, 18, 30))).toEqual(110);
+    expect(converter.convert(100, 'EUR', 'USD', new Date(2024, 0, 5))).toEqual(120);
+    expect(converter.convert(100, 'EUR', 'USD', new Date(2025, 5, 1))).toEqual(120);
+    // Older than the imported history
+    expect(converter.convert(100, 'EUR', 'USD', new Date(2023, 0, 1))).toEqual(110);
+  });
+
+  it('should not need rates for a single currency', async () => {
+    await db.delete(exchangeRatesTable).execute();
+    const converter = await loadCurrencyConverter(['GBP', 'GBP']);
+
+    expect(converter.convert(12.345, 'GBP', 'GBP', new Date())).toEqual(12.345);
+  });
+
+  it('should fail when no rate connects the currencies', async () => {
+    const converter = await loadCurrencyConverter(['JPY', 'CAD', 'GBP']);
+
+    expect(() => converter.convert(100, 'GBP', 'JPY', new Date(2024, 0, 2))).toThrow(/no exchange rate available to convert GBP to JPY/i);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { approvalDelegationsTable, usersTable } from '../db/schema';
+import { deleteApprovalDelegation } from '../handlers/delete_approval_delegation';
+
+describe('deleteApprovalDelegation', () => {
+  let managerId: number;
+  let deputyId: number;
+  let delegationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'deputy@example.com', username: 'deputy', password_hash: 'x', first_name: 'D', last_name: 'D', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+    [managerId, deputyId] = users.map(user => user.id);
+
+    const delegations = await db.insert(approvalDelegationsTable)
+      .values({ delegator_id: managerId, delegate_id: deputyId, start_date: '2024-07-01', end_date: '2024-07-14' })
+      .returning()
+      .execute();
+    delegationId = delegations[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delete the delegation', async () => {
+    expect(await deleteApprovalDelegation({ id: delegationId, delegator_id: managerId })).toEqual({ success: true });
+    expect(await db.select().from(approvalDelegationsTable).execute()).toEqual([]);
+  });
+
+  it('should only let the delegator delete it', async () => {
+    await expect(deleteApprovalDelegation({ id: delegationId, delegator_id: deputyId }))
+      .rejects.toThrow(/approval delegation not found/i);
+    await expect(deleteApprovalDelegation({ id: 9999, delegator_id: managerId }))
+      .rejects.toThrow(/approval delegation not found/i);
+
+    expect(await db.select().from(approvalDelegationsTable).execute()).toHaveLength(1);
+  });
+});
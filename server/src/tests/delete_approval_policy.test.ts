@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { approvalPoliciesTable, approvalPolicyStepsTable, expenseApprovalsTable, expensesTable, teamsTable, usersTable } from '../db/schema';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { deleteApprovalPolicy } from '../handlers/delete_approval_policy';
+import { getExpenseApprovals } from '../handlers/get_expense_approvals';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('deleteApprovalPolicy', () => {
+  let managerId: number;
+  let memberId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should delete the policy and its steps', async () => {
+    const policy = await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [{ name: 'Finance', approver_type: 'ADMIN', threshold: 0 }]
+    });
+
+    expect(await deleteApprovalPolicy({ id: policy.id })).toEqual({ success: true });
+
+    expect(await db.select().from(approvalPoliciesTable).execute()).toEqual([]);
+    expect(await db.select().from(approvalPolicyStepsTable).execute()).toEqual([]);
+  });
+
+  it('should fall back to the company-wide policy', async () => {
+    const policy = await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [{ name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 }]
+    });
+    await createApprovalPolicy({
+      name: 'Company',
+      steps: [{ name: 'Finance', approver_type: 'ADMIN', threshold: 0 }]
+    });
+
+    await deleteApprovalPolicy({ id: policy.id });
+
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: memberId, team_id: teamId, title: 'Hotel', amount: '200.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })
+      .returning()
+      .execute();
+
+    const steps = await getExpenseApprovals({ expense_id: expense.id });
+    expect(steps.map(step => [step.name, step.approver_id])).toEqual([['Finance', null]]);
+    expect(await db.select().from(expenseApprovalsTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw for an unknown policy', async () => {
+    await expect(deleteApprovalPolicy({ id: 99999 })).rejects.toThrow(/approval policy not found/i);
+  });
+});
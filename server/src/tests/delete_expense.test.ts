@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable, budgetsTable } from '../db/schema';
+import { usersTable, expensesTable, budgetsTable, notificationsTable } from '../db/schema';
 import { deleteExpense } from '../handlers/delete_expense';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('deleteExpense', () => {
   beforeEach(createDB);
@@ -48,7 +49,7 @@ describe('deleteExpense', () => {
         title: 'Test Expense',
         description: 'A test expense',
         amount: '100.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'PENDING',
         expense_date: new Date()
       })
@@ -71,6 +72,37 @@ describe('deleteExpense', () => {
     expect(deletedExpenses).toHaveLength(0);
   });
 
+  it('should keep notifications about the deleted expense', async () => {
+    const expenses = await db.insert(expensesTable)
+      .values({
+        user_id: testUser.id,
+        title: 'Test Expense',
+        amount: '100.00',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+        status: 'REJECTED',
+        expense_date: new Date()
+      })
+      .returning()
+      .execute();
+
+    await db.insert(notificationsTable)
+      .values({
+        user_id: testUser.id,
+        type: 'EXPENSE_APPROVAL',
+        title: 'Expense rejected',
+        message: '"Test Expense" was rejected.',
+        related_expense_id: expenses[0].id
+      })
+      .execute();
+
+    const result = await deleteExpense(expenses[0].id, testUser.id);
+
+    expect(result.success).toBe(true);
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].related_expense_id).toBeNull();
+  });
+
   it('should fail when expense does not exist', async () => {
     const nonExistentExpenseId = 99999;
 
@@ -88,7 +120,7 @@ describe('deleteExpense', () => {
         title: 'Other User Expense',
         description: 'An expense by another user',
         amount: '50.00',
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         status: 'PENDING',
         expense_date: new Date()
       })
@@ -116,7 +148,7 @@ describe('deleteExpense', () => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: testUser.id,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         current_spent: '200.00',
         alert_threshold: 80,
@@ -134,7 +166,7 @@ describe('deleteExpense', () => {
         title: 'Approved Expense',
         description: 'An approved expense',
         amount: '75.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'APPROVED',
         expense_date: new Date()
       })
@@ -143,12 +175,24 @@ describe('deleteExpense', () => {
 
     const expense = expenses[0];
 
+    // Another approved expense in the same category keeps counting
+    await db.insert(expensesTable)
+      .values({
+        user_id: testUser.id,
+        title: 'Remaining Expense',
+        amount: '125.00',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+        status: 'APPROVED',
+        expense_date: new Date()
+      })
+      .execute();
+
     const result = await deleteExpense(expense.id, testUser.id);
 
     expect(result.success).toBe(true);
     expect(result.message).toBe('Expense deleted successfully');
 
-    // Verify budget was updated (current_spent reduced by expense amount)
+    // Verify budget was recomputed without the deleted expense
     const updatedBudgets = await db.select()
       .from(budgetsTable)
       .where(eq(budgetsTable.id, budget.id))
@@ -164,7 +208,7 @@ describe('deleteExpense', () => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: testUser.id,
-        category: 'ENTERTAINMENT',
+        category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
         monthly_limit: '300.00',
         current_spent: '150.00',
         alert_threshold: 80,
@@ -182,7 +226,7 @@ describe('deleteExpense', () => {
         title: 'Pending Expense',
         description: 'A pending expense',
         amount: '50.00',
-        category: 'ENTERTAINMENT',
+        category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
         status: 'PENDING',
         expense_date: new Date()
       })
@@ -211,7 +255,7 @@ describe('deleteExpense', () => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: testUser.id,
-        category: 'SHOPPING',
+        category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
         monthly_limit: '400.00',
         current_spent: '100.00',
         alert_threshold: 75,
@@ -229,7 +273,7 @@ describe('deleteExpense', () => {
         title: 'Rejected Expense',
         description: 'A rejected expense',
         amount: '80.00',
-        category: 'SHOPPING',
+        category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
         status: 'REJECTED',
         expense_date: new Date()
       })
@@ -261,7 +305,7 @@ describe('deleteExpense', () => {
         title: 'Expense Without Budget',
         description: 'An expense without budget',
         amount: '60.00',
-        category: 'HEALTHCARE',
+        category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE,
         status: 'APPROVED',
         expense_date: new Date()
       })
@@ -289,7 +333,7 @@ describe('deleteExpense', () => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: testUser.id,
-        category: 'TRAVEL',
+        category_id: DEFAULT_CATEGORY_IDS.TRAVEL,
         monthly_limit: '1000.00',
         current_spent: '25.00',
         alert_threshold: 90,
@@ -307,7 +351,7 @@ describe('deleteExpense', () => {
         title: 'Large Expense',
         description: 'An expense larger than current spent',
         amount: '50.00',
-        category: 'TRAVEL',
+        category_id: DEFAULT_CATEGORY_IDS.TRAVEL,
         status: 'APPROVED',
         expense_date: new Date()
       })
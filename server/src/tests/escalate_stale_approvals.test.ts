@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expenseApprovalsTable, expensesTable, notificationsTable, teamsTable, usersTable } from '../db/schema';
+import { escalateStaleApprovals } from '../handlers/escalate_stale_approvals';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { getPendingApprovals } from '../handlers/get_pending_approvals';
+import { approveExpense } from '../handlers/approve_expense';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('escalateStaleApprovals', () => {
+  let adminId: number;
+  let managerId: number;
+  let memberId: number;
+  let teamId: number;
+
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const insertExpense = async (createdAt: Date, amount: string = '150.00') => {
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: memberId, team_id: teamId, title: 'Hotel', amount, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: createdAt, created_at: createdAt })
+      .returning()
+      .execute();
+    return expense;
+  };
+
+  const stepsOf = (expenseId: number) => db.select()
+    .from(expenseApprovalsTable)
+    .where(eq(expenseApprovalsTable.expense_id, expenseId))
+    .orderBy(expenseApprovalsTable.step)
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'T', last_name: 'M' }
+      ])
+      .returning()
+      .execute();
+    [adminId, managerId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should hand expenses waiting too long to the admins', async () => {
+    const stale = await insertExpense(daysAgo(8));
+    const recent = await insertExpense(daysAgo(6));
+
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 1 });
+
+    const [step] = await stepsOf(stale.id);
+    expect(step.approver_id).toBeNull();
+    expect(step.escalated_from).toEqual(managerId);
+    expect(step.escalated_at).toBeInstanceOf(Date);
+    expect((await stepsOf(recent.id))[0].approver_id).toEqual(managerId);
+
+    expect((await getPendingApprovals(adminId)).map(expense => expense.id)).toEqual([stale.id]);
+    expect((await getPendingApprovals(managerId)).map(expense => expense.id)).toEqual([recent.id]);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(managerId);
+    expect(notifications[0].title).toEqual('Expense escalated');
+    expect(notifications[0].message).toContain('was handed to the admins');
+  });
+
+  it('should hand the step to the approver of the next step', async () => {
+    const [head] = await db.insert(usersTable)
+      .values({ email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' })
+      .returning()
+      .execute();
+
+    await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: head.id, threshold: 100 }
+      ]
+    });
+    const expense = await insertExpense(daysAgo(8));
+
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 1 });
+
+    const steps = await stepsOf(expense.id);
+    expect(steps.map(step => [step.name, step.approver_id, step.escalated_from])).toEqual([
+      ['Team manager', head.id, managerId],
+      ['Department head', head.id, null]
+    ]);
+
+    const notifications = await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, head.id)).execute();
+    expect(notifications.map(notification => notification.title)).toEqual(['Expense escalated to you']);
+  });
+
+  it('should escalate each step once', async () => {
+    await insertExpense(daysAgo(8));
+
+    await escalateStaleApprovals(now);
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 0 });
+  });
+
+  it('should count the days of later steps from when the step before was approved', async () => {
+    const [head] = await db.insert(usersTable)
+      .values({ email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' })
+      .returning()
+      .execute();
+
+    await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: head.id, threshold: 100 }
+      ]
+    });
+    const expense = await insertExpense(daysAgo(20));
+
+    // The first step is handed to the head, who approves it late
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 1 });
+    await approveExpense({ expense_id: expense.id, approved_by: head.id, status: 'APPROVED' });
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 0 });
+
+    await db.update(expenseApprovalsTable)
+      .set({ decided_at: daysAgo(8) })
+      .where(eq(expenseApprovalsTable.step, 1))
+      .execute();
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 1 });
+
+    const steps = await stepsOf(expense.id);
+    expect(steps.map(step => [step.name, step.approver_id, step.escalated_from])).toEqual([
+      ['Team manager', head.id, managerId],
+      ['Department head', null, head.id]
+    ]);
+  });
+
+  it('should use the escalation days of the team', async () => {
+    await db.update(teamsTable)
+      .set({ approval_reminder_days: 1, approval_escalation_days: 2 })
+      .where(eq(teamsTable.id, teamId))
+      .execute();
+    await insertExpense(daysAgo(3));
+
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 1 });
+  });
+
+  it('should leave steps already left to the admins alone', async () => {
+    await db.update(expensesTable).set({ team_id: null }).execute();
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: memberId, title: 'Hotel', amount: '150.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: daysAgo(10), created_at: daysAgo(10) })
+      .returning()
+      .execute();
+
+    expect(await escalateStaleApprovals(now)).toEqual({ approvals_escalated: 0 });
+    expect((await stepsOf(expense.id))[0].escalated_at).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, receiptsTable, reportsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { handleFileRoute } from '../file_routes';
+import { uploadReceipt } from '../handlers/upload_receipt';
+import { generateReport } from '../handlers/generate_report';
+import { signAuthToken } from '../helpers/auth_token';
+import { createLocalStorageDriver, setStorage } from '../helpers/storage';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+
+const createUser = async (username: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: `${username}@example.com`,
+      username,
+      password_hash: 'hashed_password',
+      first_name: 'Test',
+      last_name: 'User',
+      role: 'USER'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+interface UploadResponse {
+  success?: boolean;
+  file_url?: string;
+  receipt_id: number;
+  error?: string;
+}
+
+describe('file routes', () => {
+  let storageDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'receipts-'));
+    setStorage(createLocalStorageDriver(storageDir));
+
+    server = createServer((req, res) => {
+      handleFileRoute(req, res).then(handled => {
+        if (!handled) {
+          res.statusCode = 418;
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should download a receipt with a valid token', async () => {
+    const owner = await createUser('owner');
+    const contents = Buffer.from('%PDF-1.4 receipt');
+    const { receipt_id } = await uploadReceipt(owner.id, { buffer: contents, filename: 'lunch.pdf', mimetype: 'application/pdf' });
+
+    const response = await fetch(`${baseUrl}/receipts/${receipt_id}`, {
+      headers: { Authorization: `Bearer ${signAuthToken(owner)}` }
+    });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('application/pdf');
+    expect(response.headers.get('content-disposition')).toEqual('inline; filename="lunch.pdf"');
+    expect(Buffer.from(await response.arrayBuffer()).equals(contents)).toBe(true);
+  });
+
+  it('should download a receipt thumbnail', async () => {
+    const owner = await createUser('owner');
+    const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#ffffff' } }).png().toBuffer();
+    const { receipt_id } = await uploadReceipt(owner.id, { buffer: image, filename: 'photo.png', mimetype: 'image/png' });
+
+    const response = await fetch(`${baseUrl}/receipts/${receipt_id}/thumbnail`, {
+      headers: { Authorization: `Bearer ${signAuthToken(owner)}` }
+    });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('image/jpeg');
+    expect(response.headers.get('content-disposition')).toEqual('inline; filename="thumbnail_photo.jpg"');
+  });
+
+  describe('receipt upload', () => {
+    const upload = (body: RequestInit['body'], headers: Record<string, string>, query: string = '') =>
+      fetch(`${baseUrl}/receipts${query}`, { method: 'POST', body, headers });
+
+    it('should accept multipart/form-data uploads', async () => {
+      const owner = await createUser('owner');
+      const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#ffffff' } }).png().toBuffer();
+      const form = new FormData();
+      form.append('file', new Blob([image], { type: 'image/png' }), 'scan.png');
+
+      const response = await upload(form, { Authorization: `Bearer ${signAuthToken(owner)}` });
+      const body = await response.json() as UploadResponse;
+
+      expect(response.status).toEqual(201);
+      expect(body.success).toBe(true);
+      expect(body.file_url).toEqual(`/api/receipts/${body.receipt_id}`);
+
+      const receipts = await db.select().from(receiptsTable).where(eq(receiptsTable.id, body.receipt_id)).execute();
+      expect(receipts[0].user_id).toEqual(owner.id);
+      expect(receipts[0].filename).toEqual('scan.png');
+      expect(receipts[0].content_type).toEqual('image/png');
+    });
+
+    it('should accept raw request bodies', async () => {
+      const owner = await createUser('owner');
+      const contents = Buffer.from('%PDF-1.4 raw upload');
+
+      const response = await upload(contents, {
+        Authorization: `Bearer ${signAuthToken(owner)}`,
+        'Content-Type': 'application/pdf'
+      }, '?filename=invoice.pdf');
+      const body = await response.json() as UploadResponse;
+
+      expect(response.status).toEqual(201);
+
+      const download = await fetch(`${baseUrl}/receipts/${body.receipt_id}`, {
+        headers: { Authorization: `Bearer ${signAuthToken(owner)}` }
+      });
+      expect(download.headers.get('content-disposition')).toEqual('inline; filename="invoice.pdf"');
+      expect(Buffer.from(await download.arrayBuffer()).equals(contents)).toBe(true);
+    });
+
+    it('should reject oversized uploads while streaming', async () => {
+      const owner = await createUser('owner');
+      // Chunked body without Content-Length, so the limit is only hit mid-stream
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent >= 8 * 1024 * 1024) {
+            controller.close();
+            return;
+          }
+          const chunk = new Uint8Array(256 * 1024);
+          if (sent === 0) chunk.set(Buffer.from('%PDF-1.4'));
+          sent += chunk.length;
+          controller.enqueue(chunk);
+        }
+      });
+
+      const response = await upload(body, {
+        Authorization: `Bearer ${signAuthToken(owner)}`,
+        'Content-Type': 'application/pdf'
+      });
+
+      expect(response.status).toEqual(413);
+      expect((await response.json() as UploadResponse).error).toMatch(/too large/);
+      expect(sent).toBeLessThan(8 * 1024 * 1024);
+      expect(await db.select().from(receiptsTable).execute()).toHaveLength(0);
+    });
+
+    it('should reject uploads announcing an oversized body', async () => {
+      const owner = await createUser('owner');
+      const form = new FormData();
+      form.append('file', new Blob([Buffer.alloc(6 * 1024 * 1024)], { type: 'image/jpeg' }), 'big.jpg');
+
+      const response = await upload(form, { Authorization: `Bearer ${signAuthToken(owner)}` });
+
+      expect(response.status).toEqual(413);
+      expect(await db.select().from(receiptsTable).execute()).toHaveLength(0);
+    });
+
+    it('should reject invalid files and malformed bodies', async () => {
+      const owner = await createUser('owner');
+      const headers = { Authorization: `Bearer ${signAuthToken(owner)}` };
+
+      const mismatch = new FormData();
+      mismatch.append('file', new Blob(['not really a png'], { type: 'image/png' }), 'fake.png');
+      const mismatchResponse = await upload(mismatch, headers);
+      expect(mismatchResponse.status).toEqual(400);
+      expect((await mismatchResponse.json() as UploadResponse).error).toMatch(/does not match the declared file type/);
+
+      const missingField = new FormData();
+      missingField.append('other', 'value');
+      const missingResponse = await upload(missingField, headers);
+      expect(missingResponse.status).toEqual(400);
+      expect((await missingResponse.json() as UploadResponse).error).toMatch(/`file` field/);
+    });
+
+    it('should require authentication', async () => {
+      const response = await upload(Buffer.from('%PDF-1.4'), { 'Content-Type': 'application/pdf' });
+
+      expect(response.status).toEqual(401);
+    });
+  });
+
+  it('should require authentication', async () => {
+    const owner = await createUser('owner');
+    const { receipt_id } = await uploadReceipt(owner.id, { buffer: Buffer.from('%PDF-1.4'), filename: 'a.pdf', mimetype: 'application/pdf' });
+
+    const response = await fetch(`${baseUrl}/receipts/${receipt_id}`);
+
+    expect(response.status).toEqual(401);
+  });
+
+  it('should map access errors to HTTP status codes', async () => {
+    const owner = await createUser('owner');
+    const other = await createUser('other');
+    const { receipt_id } = await uploadReceipt(owner.id, { buffer: Buffer.from('%PDF-1.4'), filename: 'a.pdf', mimetype: 'application/pdf' });
+    const headers = { Authorization: `Bearer ${signAuthToken(other)}` };
+
+    expect((await fetch(`${baseUrl}/receipts/${receipt_id}`, { headers })).status).toEqual(403);
+    expect((await fetch(`${baseUrl}/receipts/99999`, { headers })).status).toEqual(404);
+  });
+
+  it('should download a generated report as an attachment', async () => {
+    const owner = await createUser('owner');
+    const other = await createUser('other');
+    const report = await generateReport({
+      user_id: owner.id,
+      type: 'CUSTOM',
+      title: 'Q1 travel',
+      date_from: new Date(2024, 0, 1),
+      date_to: new Date(2024, 2, 31),
+      include_team_expenses: false,
+      format: 'CSV'
+    });
+
+    const response = await fetch(`${baseUrl}/reports/${report.id}/download`, {
+      headers: { Authorization: `Bearer ${signAuthToken(owner)}` }
+    });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('text/csv; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toEqual('attachment; filename="Q1_travel.csv"');
+    expect(await response.text()).toContain('Report,Q1 travel');
+
+    const headers = { Authorization: `Bearer ${signAuthToken(other)}` };
+    expect((await fetch(`${baseUrl}/reports/${report.id}/download`, { headers })).status).toEqual(403);
+    expect((await fetch(`${baseUrl}/reports/${report.id}/download`)).status).toEqual(401);
+  });
+
+  it('should answer 410 for expired reports', async () => {
+    const owner = await createUser('owner');
+    const report = await generateReport({
+      user_id: owner.id,
+      type: 'CUSTOM',
+      title: 'Old',
+      date_from: new Date(2024, 0, 1),
+      date_to: new Date(2024, 0, 31),
+      include_team_expenses: false,
+      format: 'PDF'
+    });
+    await db.update(reportsTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(reportsTable.id, report.id)).execute();
+
+    const response = await fetch(`${baseUrl}/reports/${report.id}/download`, {
+      headers: { Authorization: `Bearer ${signAuthToken(owner)}` }
+    });
+
+    expect(response.status).toEqual(410);
+  });
+
+  it('should let other requests fall through', async () => {
+    expect((await fetch(`${baseUrl}/healthcheck`)).status).toEqual(418);
+    expect((await fetch(`${baseUrl}/receipts/1`, { method: 'POST' })).status).toEqual(418);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, recurringSkipsTable, usersTable } from '../db/schema';
+import { generateRecurringExpenses } from '../handlers/generate_recurring_expenses';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { searchExpenses } from '../handlers/search_expenses';
+import { MAX_OCCURRENCES_PER_RUN } from '../helpers/recurring_series';
+
+describe('generateRecurringExpenses', () => {
+  let userId: number;
+
+  const insertSeries = async (values: Partial<typeof recurringSeriesTable.$inferInsert> = {}) => {
+    const rows = await db.insert(recurringSeriesTable)
+      .values({
+        user_id: userId,
+        title: 'Gym membership',
+        amount: '45.00',
+        category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE,
+        frequency: 'WEEKLY',
+        start_date: '2024-01-01',
+        next_occurrence_date: '2024-01-01',
+        ...values
+      })
+      .returning()
+      .execute();
+    return rows[0];
+  };
+
+  const seriesExpenses = (seriesId: number) => db.select()
+    .from(expensesTable)
+    .where(eq(expensesTable.recurring_series_id, seriesId))
+    .orderBy(asc(expensesTable.recurrence_date))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create every due occurrence and advance the series', async () => {
+    const series = await insertSeries();
+
+    const result = await generateRecurringExpenses(new Date(2024, 0, 20));
+
+    expect(result).toEqual({ series_processed: 1, expenses_created: 3 });
+
+    const expenses = await seriesExpenses(series.id);
+    expect(expenses.map(expense => expense.recurrence_date)).toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+    expect(expenses[1].expense_date).toEqual(new Date(2024, 0, 8));
+    expect(expenses[0].title).toEqual('Gym membership');
+    expect(expenses[0].recurring_frequency).toEqual('weekly');
+
+    const updated = await db.select().from(recurringSeriesTable).where(eq(recurringSeriesTable.id, series.id)).execute();
+    expect(updated[0].occurrence_count).toEqual(3);
+    expect(updated[0].last_occurrence_date).toEqual('2024-01-15');
+    expect(updated[0].next_occurrence_date).toEqual('2024-01-22');
+  });
+
+  it('should make the new expenses searchable', async () => {
+    await insertSeries();
+
+    await generateRecurringExpenses(new Date(2024, 0, 10));
+
+    const { results } = await searchExpenses(userId, 'gym');
+    expect(results.map(expense => expense.recurrence_date)).toEqual(['2024-01-08', '2024-01-01']);
+  });
+
+  it('should be idempotent', async () => {
+    const series = await insertSeries();
+
+    await generateRecurringExpenses(new Date(2024, 0, 20));
+    const again = await generateRecurringExpenses(new Date(2024, 0, 20));
+
+    expect(again).toEqual({ series_processed: 0, expenses_created: 0 });
+    expect(await seriesExpenses(series.id)).toHaveLength(3);
+
+    // Runs racing each other still produce one expense per occurrence
+    await db.update(recurringSeriesTable)
+      .set({ next_occurrence_date: '2024-01-01', occurrence_count: 0, last_occurrence_date: null })
+      .where(eq(recurringSeriesTable.id, series.id))
+      .execute();
+    await Promise.all([generateRecurringExpenses(new Date(2024, 0, 20)), generateRecurringExpenses(new Date(2024, 0, 20))]);
+    expect(await seriesExpenses(series.id)).toHaveLength(3);
+  });
+
+  it('should skip paused series and skipped occurrences', async () => {
+    const paused = await insertSeries({ is_paused: true });
+    const series = await insertSeries();
+    await db.insert(recurringSkipsTable)
+      .values({ series_id: series.id, occurrence_date: '2024-01-08' })
+      .execute();
+
+    const result = await generateRecurringExpenses(new Date(2024, 0, 20));
+
+    expect(result).toEqual({ series_processed: 1, expenses_created: 2 });
+    expect(await seriesExpenses(paused.id)).toHaveLength(0);
+    expect((await seriesExpenses(series.id)).map(expense => expense.recurrence_date)).toEqual(['2024-01-01', '2024-01-15']);
+
+    const updated = await db.select().from(recurringSeriesTable).where(eq(recurringSeriesTable.id, series.id)).execute();
+    expect(updated[0].occurrence_count).toEqual(2);
+  });
+
+  it('should end the series at its end date and max occurrences', async () => {
+    const ending = await insertSeries({ end_date: '2024-01-10' });
+    const limited = await insertSeries({ max_occurrences: 1 });
+
+    await generateRecurringExpenses(new Date(2024, 1, 1));
+
+    expect(await seriesExpenses(ending.id)).toHaveLength(2);
+    expect(await seriesExpenses(limited.id)).toHaveLength(1);
+
+    const rows = await db.select().from(recurringSeriesTable).orderBy(asc(recurringSeriesTable.id)).execute();
+    expect(rows.map(row => row.next_occurrence_date)).toEqual([null, null]);
+  });
+
+  it('should work through a long backlog over several runs', async () => {
+    const series = await insertSeries({ frequency: 'CUSTOM', rule: '* * *' });
+    const now = new Date(2024, 5, 30); // 182 daily occurrences due
+
+    expect((await generateRecurringExpenses(now)).expenses_created).toEqual(MAX_OCCURRENCES_PER_RUN);
+    expect((await generateRecurringExpenses(now)).expenses_created).toEqual(182 - MAX_OCCURRENCES_PER_RUN);
+    expect(await generateRecurringExpenses(now)).toEqual({ series_processed: 0, expenses_created: 0 });
+
+    const updated = await db.select().from(recurringSeriesTable).where(eq(recurringSeriesTable.id, series.id)).execute();
+    expect(updated[0].last_occurrence_date).toEqual('2024-06-30');
+  });
+});
@@ -1,18 +1,28 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable, teamsTable, teamMembersTable, reportsTable } from '../db/schema';
+import { usersTable, expensesTable, teamsTable, teamMembersTable, reportsTable, exchangeRatesTable } from '../db/schema';
 import { type GenerateReportInput } from '../schema';
 import { generateReport } from '../handlers/generate_report';
+import { getReportFile } from '../handlers/get_report_file';
+import { createLocalStorageDriver, setStorage } from '../helpers/storage';
 import { eq } from 'drizzle-orm';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('generateReport', () => {
   let testUserId: number;
   let testManagerId: number;
   let testTeamId: number;
+  let storageDir: string;
 
   beforeEach(async () => {
     await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'reports-'));
+    setStorage(createLocalStorageDriver(storageDir));
 
     // Create test users
     const userResults = await db.insert(usersTable)
@@ -72,7 +82,7 @@ describe('generateReport', () => {
           title: 'Personal Food Expense',
           description: 'Lunch at restaurant',
           amount: '25.50',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: today,
           is_recurring: false
@@ -82,7 +92,7 @@ describe('generateReport', () => {
           title: 'Transportation Cost',
           description: 'Metro card',
           amount: '15.00',
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           status: 'PENDING',
           expense_date: today,
           is_recurring: false
@@ -93,7 +103,7 @@ describe('generateReport', () => {
           title: 'Team Business Expense',
           description: 'Office supplies',
           amount: '100.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'APPROVED',
           expense_date: today,
           is_recurring: false
@@ -104,7 +114,7 @@ describe('generateReport', () => {
           title: 'Manager Team Expense',
           description: 'Team meeting lunch',
           amount: '50.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: today,
           is_recurring: false
@@ -114,7 +124,7 @@ describe('generateReport', () => {
           title: 'Old Expense',
           description: 'Previous month expense',
           amount: '30.00',
-          category: 'SHOPPING',
+          category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
           status: 'APPROVED',
           expense_date: lastMonth,
           is_recurring: false
@@ -123,7 +133,11 @@ describe('generateReport', () => {
       .execute();
   });
 
-  afterEach(resetDB);
+  afterEach(async () => {
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
 
   const getBaseInput = (): GenerateReportInput => {
     const startOfYear = new Date();
@@ -140,8 +154,9 @@ describe('generateReport', () => {
       title: 'Monthly Expense Report',
       date_from: startOfYear,
       date_to: endOfYear,
-      categories: undefined,
-      include_team_expenses: false
+      category_ids: undefined,
+      include_team_expenses: false,
+      format: 'PDF'
     };
   };
 
@@ -154,7 +169,8 @@ describe('generateReport', () => {
     expect(result.title).toEqual('Monthly Expense Report');
     expect(result.generated_at).toBeInstanceOf(Date);
     expect(result.expires_at).toBeInstanceOf(Date);
-    expect(result.file_url).toMatch(/\/reports\/\d+_\d+_monthly\.pdf/);
+    expect(result.file_url).toEqual(`/api/reports/${result.id}/download`);
+    expect(result.format).toEqual('PDF');
 
     // Verify filters contain aggregated data
     const filters = JSON.parse(result.filters);
@@ -206,16 +222,16 @@ describe('generateReport', () => {
   it('should filter expenses by categories', async () => {
     const categoryFilterInput: GenerateReportInput = {
       ...getBaseInput(),
-      categories: ['FOOD_DINING', 'TRANSPORTATION']
+      category_ids: [DEFAULT_CATEGORY_IDS.FOOD_DINING, DEFAULT_CATEGORY_IDS.TRANSPORTATION]
     };
 
     const result = await generateReport(categoryFilterInput);
     const filters = JSON.parse(result.filters);
 
-    expect(filters.categories).toEqual(['FOOD_DINING', 'TRANSPORTATION']);
-    expect(filters.category_breakdown['FOOD_DINING']).toBeDefined();
-    expect(filters.category_breakdown['TRANSPORTATION']).toBeDefined();
-    expect(filters.category_breakdown['BUSINESS']).toBeUndefined();
+    expect(filters.category_ids).toEqual([DEFAULT_CATEGORY_IDS.FOOD_DINING, DEFAULT_CATEGORY_IDS.TRANSPORTATION]);
+    expect(filters.category_breakdown[DEFAULT_CATEGORY_IDS.FOOD_DINING].name).toEqual('Food & Dining');
+    expect(filters.category_breakdown[DEFAULT_CATEGORY_IDS.TRANSPORTATION]).toBeDefined();
+    expect(filters.category_breakdown[DEFAULT_CATEGORY_IDS.BUSINESS]).toBeUndefined();
   });
 
   it('should include team expenses when requested', async () => {
@@ -321,7 +337,154 @@ describe('generateReport', () => {
     const result2 = await generateReport(getBaseInput());
 
     expect(result1.file_url).not.toEqual(result2.file_url);
-    expect(result1.file_url).toMatch(/\/reports\/\d+_\d+_monthly\.pdf/);
-    expect(result2.file_url).toMatch(/\/reports\/\d+_\d+_monthly\.pdf/);
+    expect(result1.file_url).toEqual(`/api/reports/${result1.id}/download`);
+    expect(result2.file_url).toEqual(`/api/reports/${result2.id}/download`);
+    expect(result1.storage_key).not.toEqual(result2.storage_key);
+  });
+
+  // Wide enough to include last month's expense whatever today's date is
+  const getAllTimeInput = (): GenerateReportInput => ({ ...getBaseInput(), date_from: new Date(2000, 0, 1) });
+
+  it('should store a rendered PDF', async () => {
+    const result = await generateReport(getBaseInput());
+
+    const file = await getReportFile(result.id, testUserId);
+
+    expect(file.content_type).toEqual('application/pdf');
+    expect(file.filename).toEqual('Monthly_Expense_Report.pdf');
+    expect(file.data.subarray(0, 5).toString()).toEqual('%PDF-');
+  });
+
+  it('should store a CSV with line items and a category summary', async () => {
+    const result = await generateReport({ ...getAllTimeInput(), format: 'CSV' });
+
+    const { data, content_type, filename } = await getReportFile(result.id, testUserId);
+    const lines = data.toString('utf8').replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(content_type).toEqual('text/csv; charset=utf-8');
+    expect(filename).toEqual('Monthly_Expense_Report.csv');
+    expect(lines[0]).toEqual('Report,Monthly Expense Report');
+    expect(lines).toContain('Date,Title,Category,Status,Amount');
+    expect(lines.some(line => line.endsWith(',Personal Food Expense,Food & Dining,APPROVED,25.50'))).toBe(true);
+    expect(lines).toContain('Category,Expenses,Amount');
+    expect(lines).toContain('Business,1,100.00');
+    expect(lines).toContain('Total,4,170.50');
+  });
+
+  it('should escape spreadsheet formulas in CSV cells', async () => {
+    await db.insert(expensesTable)
+      .values({
+        user_id: testUserId,
+        title: '=HYPERLINK("http://evil.example","click")',
+        amount: '1.00',
+        category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+        expense_date: new Date(),
+        is_recurring: false
+      })
+      .execute();
+
+    const result = await generateReport({ ...getBaseInput(), format: 'CSV' });
+    const { data } = await getReportFile(result.id, testUserId);
+
+    expect(data.toString('utf8')).toContain(`"'=HYPERLINK(""http://evil.example"",""click"")"`);
+  });
+
+  it('should store an XLSX workbook', async () => {
+    const result = await generateReport({ ...getAllTimeInput(), format: 'XLSX' });
+    const { data, filename } = await getReportFile(result.id, testUserId);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data as unknown as ArrayBuffer);
+
+    expect(filename).toEqual('Monthly_Expense_Report.xlsx');
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Expenses', 'Category summary']);
+
+    const titles: string[] = [];
+    workbook.getWorksheet('Expenses')!.eachRow(row => titles.push(String(row.getCell(2).value)));
+    expect(titles).toContain('Personal Food Expense');
+
+    const summary = workbook.getWorksheet('Category summary')!;
+    const lastRow = summary.getRow(summary.rowCount);
+    expect(lastRow.getCell(1).value).toEqual('Total');
+    expect(lastRow.getCell(3).value).toEqual(170.5);
+  });
+
+  it('should list submitters and each team expense once in team reports', async () => {
+    // A second team member would otherwise duplicate team expenses through the join
+    await db.insert(teamMembersTable)
+      .values({ team_id: testTeamId, user_id: testManagerId })
+      .execute();
+
+    const result = await generateReport({ ...getAllTimeInput(), user_id: testManagerId, include_team_expenses: true, format: 'CSV' });
+    const filters = JSON.parse(result.filters);
+    const { data } = await getReportFile(result.id, testManagerId);
+    const lines = data.toString('utf8').split('\r\n');
+
+    expect(filters.total_expenses).toEqual(2);
+    expect(filters.total_amount).toEqual(150);
+    expect(lines).toContain('Date,Title,Category,Status,Submitted by,Amount');
+    expect(lines.filter(line => line.includes(',Manager Team Expense,'))).toHaveLength(1);
+    expect(lines.some(line => line.includes(',Manager Team Expense,Food & Dining,APPROVED,Test Manager,50.00'))).toBe(true);
+    expect(lines.some(line => line.includes(',Team Business Expense,Business,APPROVED,Test User,100.00'))).toBe(true);
+    expect(lines).toContain('Total,2,150.00');
+  });
+
+  it('should only count the expenses of teammates in teams the user does not manage', async () => {
+    const result = await generateReport({ ...getAllTimeInput(), include_team_expenses: true, format: 'CSV' });
+    const filters = JSON.parse(result.filters);
+    const { data } = await getReportFile(result.id, testUserId);
+    const csv = data.toString('utf8');
+    const lines = csv.split('\r\n');
+
+    expect(filters.total_expenses).toEqual(5);
+    expect(filters.total_amount).toEqual(220.5);
+    expect(csv).not.toContain('Manager Team Expense');
+    expect(csv).not.toContain('Test Manager');
+    expect(lines.some(line => line.endsWith(',Team Business Expense,Business,APPROVED,Test User,100.00'))).toBe(true);
+    expect(lines.some(line => line.endsWith(',Other team members (1 expense),Food & Dining,,,50.00'))).toBe(true);
+    expect(lines).toContain('Total,5,220.50');
+  });
+
+  it('should itemize every team expense for admins', async () => {
+    await db.update(usersTable).set({ role: 'ADMIN' }).where(eq(usersTable.id, testUserId)).execute();
+
+    const result = await generateReport({ ...getAllTimeInput(), include_team_expenses: true, format: 'CSV' });
+    const { data } = await getReportFile(result.id, testUserId);
+    const csv = data.toString('utf8');
+
+    expect(csv).toContain(',Manager Team Expense,Food & Dining,APPROVED,Test Manager,50.00');
+    expect(csv).not.toContain('Other team members');
+  });
+
+  it('should total expenses in the home currency and keep original amounts', async () => {
+    await db.update(usersTable).set({ home_currency: 'EUR' }).where(eq(usersTable.id, testUserId)).execute();
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'EUR', currency: 'USD', rate: '1.25', rate_date: '2000-01-01' })
+      .execute();
+    await db.insert(expensesTable)
+      .values({
+        user_id: testUserId,
+        title: 'Hotel Berlin',
+        amount: '80.00',
+        currency: 'EUR',
+        category_id: DEFAULT_CATEGORY_IDS.TRAVEL,
+        expense_date: new Date(),
+        is_recurring: false
+      })
+      .execute();
+
+    const result = await generateReport({ ...getAllTimeInput(), format: 'CSV' });
+    const filters = JSON.parse(result.filters);
+    const { data } = await getReportFile(result.id, testUserId);
+    const lines = data.toString('utf8').split('\r\n');
+
+    // The USD expenses (170.50) convert at 1.25, the EUR hotel is kept as is
+    expect(filters.currency).toEqual('EUR');
+    expect(filters.total_amount).toEqual(216.4);
+    expect(lines).toContain('Currency,EUR');
+    expect(lines).toContain('Date,Title,Category,Status,Original amount,Amount');
+    expect(lines.some(line => line.endsWith(',Team Business Expense,Business,APPROVED,100.00 USD,80.00'))).toBe(true);
+    expect(lines.some(line => line.endsWith(',Hotel Berlin,Travel,PENDING,80.00 EUR,80.00'))).toBe(true);
+    expect(lines).toContain('Total,5,216.40');
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { approvalDelegationsTable, usersTable } from '../db/schema';
+import { getApprovalDelegations } from '../handlers/get_approval_delegations';
+
+describe('getApprovalDelegations', () => {
+  let managerId: number;
+  let deputyId: number;
+  let otherId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'deputy@example.com', username: 'deputy', password_hash: 'x', first_name: 'D', last_name: 'D', role: 'MANAGER' },
+        { email: 'other@example.com', username: 'other', password_hash: 'x', first_name: 'O', last_name: 'O', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+    [managerId, deputyId, otherId] = users.map(user => user.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should return the delegations given and received, by start date', async () => {
+    await db.insert(approvalDelegationsTable)
+      .values([
+        { delegator_id: managerId, delegate_id: deputyId, start_date: '2024-08-01', end_date: '2024-08-14' },
+        { delegator_id: deputyId, delegate_id: managerId, start_date: '2024-07-01', end_date: '2024-07-07' },
+        { delegator_id: otherId, delegate_id: deputyId, start_date: '2024-06-01', end_date: '2024-06-07' }
+      ])
+      .execute();
+
+    const result = await getApprovalDelegations(managerId);
+
+    expect(result.map(delegation => [delegation.delegator_id, delegation.delegate_id, delegation.start_date])).toEqual([
+      [deputyId, managerId, '2024-07-01'],
+      [managerId, deputyId, '2024-08-01']
+    ]);
+    expect(await getApprovalDelegations(deputyId)).toHaveLength(3);
+  });
+
+  it('should return an empty list without delegations', async () => {
+    expect(await getApprovalDelegations(otherId)).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { teamsTable, usersTable } from '../db/schema';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { getApprovalPolicies } from '../handlers/get_approval_policies';
+
+describe('getApprovalPolicies', () => {
+  let teamIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' })
+      .returning()
+      .execute();
+
+    const teams = await db.insert(teamsTable)
+      .values([{ name: 'Sales', manager_id: users[0].id }, { name: 'Support', manager_id: users[0].id }])
+      .returning()
+      .execute();
+    teamIds = teams.map(team => team.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should list the company-wide policy first, then team policies with their steps', async () => {
+    await createApprovalPolicy({
+      name: 'Support',
+      team_id: teamIds[1],
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Finance', approver_type: 'ADMIN', threshold: 1000 }
+      ]
+    });
+    await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamIds[0],
+      steps: [{ name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 }]
+    });
+    await createApprovalPolicy({
+      name: 'Company',
+      steps: [{ name: 'Finance', approver_type: 'ADMIN', threshold: 0 }]
+    });
+
+    const result = await getApprovalPolicies();
+
+    expect(result.map(policy => policy.name)).toEqual(['Company', 'Sales', 'Support']);
+    expect(result[2].steps.map(step => [step.position, step.name, step.threshold])).toEqual([
+      [1, 'Team manager', 0],
+      [2, 'Finance', 1000]
+    ]);
+  });
+
+  it('should return an empty list without policies', async () => {
+    expect(await getApprovalPolicies()).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetsTable, expensesTable, usersTable } from '../db/schema';
+import { getBudgetHistory } from '../handlers/get_budget_history';
+import { periodStartOf } from '../helpers/budget_periods';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('getBudgetHistory', () => {
+  let userId: number;
+  let budgetId: number;
+
+  const now = new Date();
+  const monthsAgo = (months: number, day: number = 1) => new Date(now.getFullYear(), now.getMonth() - months, day);
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User', home_currency: 'EUR' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const budgets = await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT, monthly_limit: '50.00', currency: 'EUR', carry_over: true, created_at: monthsAgo(2, 15) })
+      .returning()
+      .execute();
+    budgetId = budgets[0].id;
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: userId, title: 'Concert', amount: '45.00', currency: 'EUR', category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT, status: 'APPROVED', expense_date: monthsAgo(2, 20) },
+        { user_id: userId, title: 'Cinema', amount: '12.00', currency: 'EUR', category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT, status: 'APPROVED', expense_date: monthsAgo(1, 5) }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return every month up to the current one, newest first', async () => {
+    const history = await getBudgetHistory({ budget_id: budgetId, limit: 12 });
+
+    expect(history.map(period => period.period_start)).toEqual([0, 1, 2].map(n => periodStartOf(monthsAgo(n))));
+    expect(history.map(period => period.spent)).toEqual([0, 12, 45]);
+    expect(history.map(period => period.carried_over)).toEqual([43, 5, 0]);
+    expect(history.map(period => period.remaining)).toEqual([93, 43, 5]);
+    expect(history[0].closed_at).toBeNull();
+    expect(history[1].closed_at).toBeInstanceOf(Date);
+    expect(history[0].currency).toEqual('EUR');
+    expect(history[0].monthly_limit).toEqual(50);
+  });
+
+  it('should apply the limit', async () => {
+    const history = await getBudgetHistory({ budget_id: budgetId, limit: 2 });
+
+    expect(history).toHaveLength(2);
+    expect(history[0].period_start).toEqual(periodStartOf(now));
+  });
+
+  it('should throw for a missing budget', async () => {
+    await expect(getBudgetHistory({ budget_id: 99999, limit: 12 })).rejects.toThrow(/budget not found/i);
+  });
+});
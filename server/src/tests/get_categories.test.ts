@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable } from '../db/schema';
+import { getCategories } from '../handlers/get_categories';
+import { DEFAULT_CATEGORIES, DEFAULT_CATEGORY_IDS, seedDefaultCategories } from '../helpers/categories';
+
+describe('getCategories', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the built-in categories', async () => {
+    const categories = await getCategories({ include_archived: false });
+
+    expect(categories).toHaveLength(DEFAULT_CATEGORIES.length);
+    expect(categories[0]).toMatchObject({
+      id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      key: 'FOOD_DINING',
+      name: 'Food & Dining',
+      parent_id: null,
+      icon: 'utensils',
+      color: '#F97316',
+      archived_at: null
+    });
+  });
+
+  it('should seed idempotently and number custom categories after the built-ins', async () => {
+    await seedDefaultCategories();
+
+    const [custom] = await db.insert(categoriesTable)
+      .values({ name: 'Software' })
+      .returning()
+      .execute();
+
+    expect(custom.id).toBeGreaterThan(DEFAULT_CATEGORIES.length);
+    expect(await getCategories({ include_archived: false })).toHaveLength(DEFAULT_CATEGORIES.length + 1);
+  });
+
+  it('should only list archived categories when asked to', async () => {
+    await db.insert(categoriesTable)
+      .values({ name: 'Fax machines', archived_at: new Date() })
+      .execute();
+
+    expect(await getCategories({ include_archived: false })).toHaveLength(DEFAULT_CATEGORIES.length);
+
+    const all = await getCategories({ include_archived: true });
+    expect(all).toHaveLength(DEFAULT_CATEGORIES.length + 1);
+    expect(all[all.length - 1].name).toEqual('Fax machines');
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, teamsTable, usersTable } from '../db/schema';
+import { createBudget } from '../handlers/create_budget';
+import { approveExpense } from '../handlers/approve_expense';
+import { deleteExpense } from '../handlers/delete_expense';
+import { getCompanyBudgets } from '../handlers/get_company_budgets';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('getCompanyBudgets', () => {
+  let adminId: number;
+  let userIds: number[];
+  let teamId: number;
+
+  const budgetInput = { scope: 'COMPANY' as const, category_id: DEFAULT_CATEGORY_IDS.BUSINESS, monthly_limit: 5000, alert_threshold: 80, carry_over: false };
+
+  const approvedExpense = async (userId: number, team: number | null, amount: string, category_id: number = DEFAULT_CATEGORY_IDS.BUSINESS) => {
+    const rows = await db.insert(expensesTable)
+      .values({ user_id: userId, team_id: team, title: 'Supplies', amount, category_id, expense_date: new Date() })
+      .returning()
+      .execute();
+    await approveExpense({ expense_id: rows[0].id, approved_by: adminId, status: 'APPROVED' });
+    return rows[0].id;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'a@example.com', username: 'a', password_hash: 'x', first_name: 'A', last_name: 'A' },
+        { email: 'b@example.com', username: 'b', password_hash: 'x', first_name: 'B', last_name: 'B' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    userIds = [users[1].id, users[2].id];
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: adminId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should track approved spending across the organization', async () => {
+    await createBudget({ ...budgetInput, user_id: adminId });
+
+    await approvedExpense(userIds[0], teamId, '1200.00');
+    const removed = await approvedExpense(userIds[1], null, '300.00');
+    await approvedExpense(userIds[1], null, '75.00');
+    await approvedExpense(userIds[1], null, '500.00', DEFAULT_CATEGORY_IDS.TRAVEL); // other category
+    await deleteExpense(removed, userIds[1]);
+
+    const budgets = await getCompanyBudgets();
+
+    expect(budgets).toHaveLength(1);
+    expect(budgets[0].scope).toEqual('COMPANY');
+    expect(budgets[0].team_id).toBeNull();
+    expect(budgets[0].current_spent).toEqual(1275);
+  });
+
+  it('should allow one company budget per category', async () => {
+    await createBudget({ ...budgetInput, user_id: adminId });
+
+    await expect(createBudget({ ...budgetInput, user_id: userIds[0] })).rejects.toThrow(/already exists/i);
+  });
+
+  it('should ignore a team for company budgets', async () => {
+    const budget = await createBudget({ ...budgetInput, user_id: adminId, team_id: teamId });
+
+    expect(budget.team_id).toBeNull();
+  });
+});
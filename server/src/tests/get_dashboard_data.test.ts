@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable, budgetsTable } from '../db/schema';
+import { usersTable, expensesTable, budgetsTable, exchangeRatesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
 import { type GetDashboardDataInput } from '../schema';
 import { getDashboardData } from '../handlers/get_dashboard_data';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 // Test user data
 const testUser = {
@@ -59,7 +61,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'Lunch',
         amount: '25.50',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(currentYear, currentMonth - 1, 15),
         status: 'APPROVED'
       },
@@ -67,7 +69,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'Gas',
         amount: '45.00',
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         expense_date: new Date(currentYear, currentMonth - 1, 10),
         status: 'PENDING'
       },
@@ -75,7 +77,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'Coffee',
         amount: '4.50',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(currentYear, currentMonth - 1, 20),
         status: 'APPROVED'
       }
@@ -85,7 +87,7 @@ describe('getDashboardData', () => {
     await db.insert(budgetsTable).values([
       {
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '100.00',
         current_spent: '30.00',
         alert_threshold: 80,
@@ -93,7 +95,7 @@ describe('getDashboardData', () => {
       },
       {
         user_id: userId,
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         monthly_limit: '200.00',
         current_spent: '45.00',
         alert_threshold: 70,
@@ -121,12 +123,12 @@ describe('getDashboardData', () => {
     // Verify category breakdown
     expect(result.category_breakdown).toHaveLength(2);
     
-    const foodCategory = result.category_breakdown.find(cat => cat.category === 'FOOD_DINING');
+    const foodCategory = result.category_breakdown.find(cat => cat.category_id === DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(foodCategory).toBeDefined();
     expect(foodCategory!.amount).toBe(30.00); // 25.50 + 4.50
     expect(foodCategory!.count).toBe(2);
     
-    const transportCategory = result.category_breakdown.find(cat => cat.category === 'TRANSPORTATION');
+    const transportCategory = result.category_breakdown.find(cat => cat.category_id === DEFAULT_CATEGORY_IDS.TRANSPORTATION);
     expect(transportCategory).toBeDefined();
     expect(transportCategory!.amount).toBe(45.00);
     expect(transportCategory!.count).toBe(1);
@@ -153,7 +155,7 @@ describe('getDashboardData', () => {
       user_id: userId,
       title: 'Expensive Dinner',
       amount: '85.00',
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date(currentYear, currentMonth - 1, 15),
       status: 'APPROVED'
     }).execute();
@@ -161,7 +163,7 @@ describe('getDashboardData', () => {
     // Create budget with low limit to trigger alert
     await db.insert(budgetsTable).values({
       user_id: userId,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       monthly_limit: '100.00',
       current_spent: '0.00',
       alert_threshold: 80,
@@ -178,12 +180,32 @@ describe('getDashboardData', () => {
 
     // Verify budget alert is generated
     expect(result.budget_alerts).toHaveLength(1);
-    expect(result.budget_alerts[0].category).toBe('FOOD_DINING');
+    expect(result.budget_alerts[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(result.budget_alerts[0].current).toBe(85.00);
     expect(result.budget_alerts[0].limit).toBe(100.00);
     expect(result.budget_alerts[0].percentage).toBe(85);
   });
 
+  it('should use each budget\'s own alert threshold', async () => {
+    const currentDate = new Date();
+    const currentMonth = currentDate.getMonth() + 1;
+    const currentYear = currentDate.getFullYear();
+
+    await db.insert(expensesTable).values([
+      { user_id: userId, title: 'Groceries', amount: '60.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(currentYear, currentMonth - 1, 10), status: 'APPROVED' },
+      { user_id: userId, title: 'Train', amount: '95.00', category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, expense_date: new Date(currentYear, currentMonth - 1, 10), status: 'APPROVED' }
+    ]).execute();
+
+    await db.insert(budgetsTable).values([
+      { user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '100.00', alert_threshold: 50 },
+      { user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, monthly_limit: '100.00', alert_threshold: 100 }
+    ]).execute();
+
+    const result = await getDashboardData({ user_id: userId, month: currentMonth, year: currentYear });
+
+    expect(result.budget_alerts).toEqual([{ category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, category_name: 'Food & Dining', current: 60, limit: 100, percentage: 60 }]);
+  });
+
   it('should handle specific month and year parameters', async () => {
     // Create expenses in different months
     await db.insert(expensesTable).values([
@@ -191,7 +213,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'January Expense',
         amount: '100.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(2024, 0, 15), // January 2024
         status: 'APPROVED'
       },
@@ -199,7 +221,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'February Expense',
         amount: '200.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(2024, 1, 15), // February 2024
         status: 'APPROVED'
       }
@@ -228,7 +250,7 @@ describe('getDashboardData', () => {
       user_id: userId,
       title: 'Test Expense',
       amount: '50.00',
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date(currentYear, currentMonth - 1, 15),
       status: 'APPROVED'
     }).execute();
@@ -236,7 +258,7 @@ describe('getDashboardData', () => {
     // Create inactive budget
     await db.insert(budgetsTable).values({
       user_id: userId,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       monthly_limit: '100.00',
       current_spent: '0.00',
       alert_threshold: 80,
@@ -262,7 +284,7 @@ describe('getDashboardData', () => {
       user_id: userId,
       title: `Expense ${i + 1}`,
       amount: '10.00',
-      category: 'FOOD_DINING' as const,
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       expense_date: new Date(),
       status: 'APPROVED' as const
     }));
@@ -289,7 +311,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'January Expense',
         amount: '100.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(currentYear, 0, 15),
         status: 'APPROVED'
       },
@@ -297,7 +319,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'March Expense',
         amount: '200.00',
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         expense_date: new Date(currentYear, 2, 15),
         status: 'APPROVED'
       },
@@ -305,7 +327,7 @@ describe('getDashboardData', () => {
         user_id: userId,
         title: 'Previous Year Expense',
         amount: '50.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date(currentYear - 1, 11, 15), // December previous year
         status: 'APPROVED'
       }
@@ -353,4 +375,41 @@ describe('getDashboardData', () => {
     expect(result.recent_expenses).toHaveLength(0);
     expect(result.budget_alerts).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should aggregate foreign currency expenses in the home currency', async () => {
+    await db.update(usersTable).set({ home_currency: 'EUR' }).where(eq(usersTable.id, userId)).execute();
+    await db.insert(exchangeRatesTable)
+      .values([
+        { base_currency: 'EUR', currency: 'USD', rate: '1.25', rate_date: '2024-01-01' },
+        { base_currency: 'EUR', currency: 'JPY', rate: '160', rate_date: '2024-01-01' }
+      ])
+      .execute();
+
+    const expenseDate = new Date(2024, 2, 10);
+    await db.insert(expensesTable).values([
+      { user_id: userId, title: 'Dinner', amount: '50.00', currency: 'USD', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: expenseDate },
+      { user_id: userId, title: 'Ramen', amount: '1600.00', currency: 'JPY', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: expenseDate },
+      { user_id: userId, title: 'Train', amount: '30.00', currency: 'EUR', category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, expense_date: expenseDate }
+    ]).execute();
+    await db.insert(budgetsTable).values({
+      user_id: userId,
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      monthly_limit: '62.50',
+      currency: 'USD',
+      alert_threshold: 80
+    }).execute();
+
+    const result = await getDashboardData({ user_id: userId, month: 3, year: 2024 });
+
+    expect(result.currency).toEqual('EUR');
+    expect(result.monthly_spending).toEqual(80); // 40 + 10 + 30
+    expect(result.category_breakdown.find(item => item.category_id === DEFAULT_CATEGORY_IDS.FOOD_DINING)).toEqual({ category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, category_name: 'Food & Dining', amount: 50, count: 2 });
+    expect(result.spending_trends).toEqual([{ date: '2024-03', amount: 80 }]);
+    expect(result.budget_alerts).toEqual([{ category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, category_name: 'Food & Dining', current: 50, limit: 50, percentage: 100 }]);
+
+    // Recent expenses keep their original amount and currency
+    const ramen = result.recent_expenses.find(expense => expense.title === 'Ramen')!;
+    expect(ramen.amount).toEqual(1600);
+    expect(ramen.currency).toEqual('JPY');
+  });
+});
@@ -1,8 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable, budgetsTable } from '../db/schema';
+import { usersTable, expensesTable, budgetsTable, exchangeRatesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
 import { getExpenseAnalytics } from '../handlers/get_expense_analytics';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
 
 describe('getExpenseAnalytics', () => {
   beforeEach(createDB);
@@ -30,6 +33,7 @@ describe('getExpenseAnalytics', () => {
     const result = await getExpenseAnalytics(testUserId, 'month');
 
     expect(result.spending_by_category).toEqual([]);
+    expect(result.spending_by_tag).toEqual([]);
     expect(result.spending_trends).toEqual([]);
     expect(result.budget_performance).toEqual([]);
     expect(result.top_expenses).toEqual([]);
@@ -47,7 +51,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Grocery',
           amount: '100.50',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         },
@@ -55,7 +59,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Gas',
           amount: '50.25',
-          category: 'TRANSPORTATION' as const,
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           expense_date: now,
           status: 'APPROVED' as const
         },
@@ -63,7 +67,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Restaurant',
           amount: '75.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -74,17 +78,43 @@ describe('getExpenseAnalytics', () => {
 
     expect(result.spending_by_category).toHaveLength(2);
     expect(result.spending_by_category[0]).toEqual({
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      category_name: 'Food & Dining',
       amount: 175.50,
       percentage: expect.closeTo(77.73, 1) // 175.50 / 225.75 * 100
     });
     expect(result.spending_by_category[1]).toEqual({
-      category: 'TRANSPORTATION',
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
+      category_name: 'Transportation',
       amount: 50.25,
       percentage: expect.closeTo(22.27, 1)
     });
   });
 
+  it('should calculate spending by tag', async () => {
+    const now = new Date();
+    const expenses = await db.insert(expensesTable)
+      .values([
+        { user_id: testUserId, title: 'Flight', amount: '300.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: now },
+        { user_id: testUserId, title: 'Hotel', amount: '200.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: now },
+        { user_id: testUserId, title: 'Dinner', amount: '100.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: now },
+        { user_id: testUserId, title: 'Books', amount: '400.00', category_id: DEFAULT_CATEGORY_IDS.EDUCATION, expense_date: now }
+      ])
+      .returning()
+      .execute();
+    await setExpenseTags(expenses[0].id, testUserId, ['Conference']);
+    await setExpenseTags(expenses[1].id, testUserId, ['Conference', 'Client A']);
+    await setExpenseTags(expenses[2].id, testUserId, ['Client A']);
+
+    const result = await getExpenseAnalytics(testUserId, 'month');
+
+    // An expense with two tags counts for both; untagged expenses are left out
+    expect(result.spending_by_tag).toEqual([
+      { tag_id: expect.any(Number), tag_name: 'Conference', amount: 500, count: 2, percentage: 50 },
+      { tag_id: expect.any(Number), tag_name: 'Client A', amount: 300, count: 2, percentage: 30 }
+    ]);
+  });
+
   it('should calculate spending trends by date', async () => {
     const today = new Date();
     const yesterday = new Date(today);
@@ -96,7 +126,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Expense 1',
           amount: '100.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: today,
           status: 'APPROVED' as const
         },
@@ -104,7 +134,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Expense 2',
           amount: '50.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: today,
           status: 'APPROVED' as const
         },
@@ -112,7 +142,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Expense 3',
           amount: '75.00',
-          category: 'TRANSPORTATION' as const,
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           expense_date: yesterday,
           status: 'APPROVED' as const
         }
@@ -140,7 +170,7 @@ describe('getExpenseAnalytics', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: testUserId,
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         alert_threshold: 80,
         is_active: true
@@ -154,7 +184,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Grocery',
           amount: '300.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -165,7 +195,8 @@ describe('getExpenseAnalytics', () => {
 
     expect(result.budget_performance).toHaveLength(1);
     expect(result.budget_performance[0]).toEqual({
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      category_name: 'Food & Dining',
       budgeted: 500,
       spent: 300,
       remaining: 200
@@ -179,7 +210,7 @@ describe('getExpenseAnalytics', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: testUserId,
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         alert_threshold: 80,
         is_active: true
@@ -193,7 +224,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Grocery',
           amount: '1200.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -204,7 +235,8 @@ describe('getExpenseAnalytics', () => {
 
     expect(result.budget_performance).toHaveLength(1);
     expect(result.budget_performance[0]).toEqual({
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      category_name: 'Food & Dining',
       budgeted: 6000, // 500 * 12 months
       spent: 1200,
       remaining: 4800
@@ -220,7 +252,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Big Purchase',
           amount: '500.00',
-          category: 'SHOPPING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
           expense_date: now,
           status: 'APPROVED' as const
         },
@@ -228,7 +260,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Small Purchase',
           amount: '25.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         },
@@ -236,7 +268,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Medium Purchase',
           amount: '100.00',
-          category: 'ENTERTAINMENT' as const,
+          category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -249,8 +281,11 @@ describe('getExpenseAnalytics', () => {
     expect(result.top_expenses[0]).toEqual({
       title: 'Big Purchase',
       amount: 500,
+      original_amount: 500,
+      original_currency: 'USD',
       date: expect.any(Date),
-      category: 'SHOPPING'
+      category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
+      category_name: 'Shopping'
     });
     expect(result.top_expenses[1].amount).toBe(100);
     expect(result.top_expenses[2].amount).toBe(25);
@@ -266,7 +301,7 @@ describe('getExpenseAnalytics', () => {
         user_id: testUserId,
         title: `Expense ${i}`,
         amount: `${i * 10}.00`,
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: now,
         status: 'APPROVED' as const
       });
@@ -290,7 +325,7 @@ describe('getExpenseAnalytics', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: testUserId,
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '100.00', // Very low limit to trigger alert
         alert_threshold: 80,
         is_active: true
@@ -304,7 +339,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Recent Expense 1',
           amount: '80.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: twentyDaysAgo,
           status: 'APPROVED' as const
         },
@@ -312,7 +347,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Recent Expense 2',
           amount: '70.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -324,7 +359,7 @@ describe('getExpenseAnalytics', () => {
     expect(result.predictions.next_month_spending).toBeGreaterThan(0);
     expect(result.predictions.budget_alerts.length).toBeGreaterThanOrEqual(1);
     if (result.predictions.budget_alerts.length > 0) {
-      expect(result.predictions.budget_alerts[0].category).toBe('FOOD_DINING');
+      expect(result.predictions.budget_alerts[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
       expect(result.predictions.budget_alerts[0].projected_overspend).toBeGreaterThan(0);
     }
   });
@@ -341,7 +376,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Within Range',
           amount: '100.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: withinRange,
           status: 'APPROVED' as const
         },
@@ -349,7 +384,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Outside Range',
           amount: '200.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: outsideRange,
           status: 'APPROVED' as const
         }
@@ -381,7 +416,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Jan Expense 1',
           amount: '100.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: jan15,
           status: 'APPROVED' as const
         },
@@ -389,7 +424,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Jan Expense 2',
           amount: '50.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: jan20,
           status: 'APPROVED' as const
         },
@@ -397,7 +432,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Feb Expense',
           amount: '75.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: feb10,
           status: 'APPROVED' as const
         }
@@ -421,14 +456,14 @@ describe('getExpenseAnalytics', () => {
       .values([
         {
           user_id: testUserId,
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           monthly_limit: '500.00',
           alert_threshold: 80,
           is_active: true
         },
         {
           user_id: testUserId,
-          category: 'TRANSPORTATION' as const,
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           monthly_limit: '300.00',
           alert_threshold: 80,
           is_active: false
@@ -443,7 +478,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Food',
           amount: '100.00',
-          category: 'FOOD_DINING' as const,
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: now,
           status: 'APPROVED' as const
         },
@@ -451,7 +486,7 @@ describe('getExpenseAnalytics', () => {
           user_id: testUserId,
           title: 'Transport',
           amount: '50.00',
-          category: 'TRANSPORTATION' as const,
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           expense_date: now,
           status: 'APPROVED' as const
         }
@@ -462,6 +497,41 @@ describe('getExpenseAnalytics', () => {
 
     // Should only include active budget (FOOD_DINING)
     expect(result.budget_performance).toHaveLength(1);
-    expect(result.budget_performance[0].category).toBe('FOOD_DINING');
+    expect(result.budget_performance[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+  });
+
+  it('should report amounts in the home currency', async () => {
+    await db.update(usersTable).set({ home_currency: 'EUR' }).where(eq(usersTable.id, testUserId)).execute();
+    await db.insert(exchangeRatesTable)
+      .values([
+        { base_currency: 'EUR', currency: 'USD', rate: '1.25', rate_date: '2024-01-01' },
+        { base_currency: 'EUR', currency: 'USD', rate: '2', rate_date: '2024-02-01' }
+      ])
+      .execute();
+    await db.insert(expensesTable)
+      .values([
+        { user_id: testUserId, title: 'January hotel', amount: '250.00', currency: 'USD', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date(2024, 0, 15) },
+        { user_id: testUserId, title: 'February hotel', amount: '250.00', currency: 'USD', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date(2024, 1, 15) },
+        { user_id: testUserId, title: 'Museum', amount: '25.00', currency: 'EUR', category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT, expense_date: new Date(2024, 1, 16) }
+      ])
+      .execute();
+    await db.insert(budgetsTable)
+      .values({ user_id: testUserId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: '600.00', currency: 'USD' })
+      .execute();
+
+    const result = await getExpenseAnalytics(testUserId, 'custom', new Date(2024, 0, 1), new Date(2024, 1, 29));
+
+    expect(result.currency).toEqual('EUR');
+    expect(result.spending_by_category[0]).toEqual({ category_id: DEFAULT_CATEGORY_IDS.TRAVEL, category_name: 'Travel', amount: 325, percentage: 325 / 350 * 100 });
+    expect(result.top_expenses[0]).toEqual({
+      title: 'January hotel',
+      amount: 200,
+      original_amount: 250,
+      original_currency: 'USD',
+      date: expect.any(Date),
+      category_id: DEFAULT_CATEGORY_IDS.TRAVEL,
+      category_name: 'Travel'
+    });
+    expect(result.budget_performance).toEqual([{ category_id: DEFAULT_CATEGORY_IDS.TRAVEL, category_name: 'Travel', budgeted: 300, spent: 325, remaining: -25 }]);
   });
-});
\ No newline at end of file
+});
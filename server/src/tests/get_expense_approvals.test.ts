@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, teamMembersTable, teamsTable, usersTable } from '../db/schema';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { approveExpense } from '../handlers/approve_expense';
+import { getExpenseApprovals } from '../handlers/get_expense_approvals';
+import { updateExpense } from '../handlers/update_expense';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('getExpenseApprovals', () => {
+  let managerId: number;
+  let headId: number;
+  let memberId: number;
+  let teamId: number;
+
+  const insertExpense = async (amount: string, status: 'PENDING' | 'APPROVED' = 'PENDING') => {
+    const rows = await db.insert(expensesTable)
+      .values({ user_id: memberId, team_id: teamId, title: 'Conference', amount, currency: 'USD', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status, expense_date: new Date() })
+      .returning()
+      .execute();
+    return rows[0];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, headId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+    await db.insert(teamMembersTable).values({ team_id: teamId, user_id: memberId }).execute();
+
+    await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: headId, threshold: 500 }
+      ]
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should return the chain of a pending expense', async () => {
+    const expense = await insertExpense('800.00');
+
+    const result = await getExpenseApprovals({ expense_id: expense.id });
+
+    expect(result.map(step => [step.step, step.name, step.approver_id, step.status, step.decided_by])).toEqual([
+      [1, 'Team manager', managerId, 'PENDING', null],
+      [2, 'Department head', headId, 'PENDING', null]
+    ]);
+  });
+
+  it('should show the decisions made so far', async () => {
+    const expense = await insertExpense('800.00');
+    await approveExpense({ expense_id: expense.id, approved_by: managerId, status: 'APPROVED' });
+
+    const result = await getExpenseApprovals({ expense_id: expense.id });
+
+    expect(result.map(step => [step.status, step.decided_by])).toEqual([
+      ['APPROVED', managerId],
+      ['PENDING', null]
+    ]);
+    expect(result[0].decided_at).toBeInstanceOf(Date);
+  });
+
+  it('should build the chain again when the amount changes', async () => {
+    const expense = await insertExpense('100.00');
+    expect(await getExpenseApprovals({ expense_id: expense.id })).toHaveLength(1);
+
+    await updateExpense({ id: expense.id, amount: 900 });
+
+    const result = await getExpenseApprovals({ expense_id: expense.id });
+    expect(result.map(step => step.name)).toEqual(['Team manager', 'Department head']);
+  });
+
+  it('should start a new round when the amount changes after a decision', async () => {
+    const expense = await insertExpense('800.00');
+    await approveExpense({ expense_id: expense.id, approved_by: managerId, status: 'APPROVED' });
+
+    await updateExpense({ id: expense.id, amount: 950 });
+
+    const result = await getExpenseApprovals({ expense_id: expense.id });
+    expect(result.map(step => [step.round, step.step, step.status])).toEqual([
+      [1, 1, 'APPROVED'],
+      [1, 2, 'SKIPPED'],
+      [2, 1, 'PENDING'],
+      [2, 2, 'PENDING']
+    ]);
+  });
+
+  it('should return no steps for expenses decided without a chain', async () => {
+    const expense = await insertExpense('800.00', 'APPROVED');
+
+    expect(await getExpenseApprovals({ expense_id: expense.id })).toEqual([]);
+  });
+
+  it('should throw for an unknown expense', async () => {
+    await expect(getExpenseApprovals({ expense_id: 99999 })).rejects.toThrow(/expense not found/i);
+  });
+});
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobRunsTable } from '../db/schema';
+import { getJobRuns } from '../handlers/get_job_runs';
+
+describe('getJobRuns', () => {
+  beforeEach(async () => {
+    await createDB();
+    const scheduledFor = new Date(2024, 0, 1);
+    await db.insert(jobRunsTable)
+      .values([
+        { job_name: 'ROLL_OVER_BUDGETS', status: 'SUCCEEDED', trigger: 'SCHEDULE', max_attempts: 5, scheduled_for: scheduledFor },
+        { job_name: 'CLEANUP_EXPIRED_REPORTS', status: 'FAILED', trigger: 'SCHEDULE', max_attempts: 3, scheduled_for: scheduledFor, error: 'Storage unavailable' },
+        { job_name: 'CLEANUP_EXPIRED_REPORTS', status: 'PENDING', trigger: 'RETRY', attempt: 2, max_attempts: 3, scheduled_for: scheduledFor }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the most recent runs first', async () => {
+    const runs = await getJobRuns({ limit: 50 });
+
+    expect(runs.map(run => run.job_name)).toEqual(['CLEANUP_EXPIRED_REPORTS', 'CLEANUP_EXPIRED_REPORTS', 'ROLL_OVER_BUDGETS']);
+    expect(runs[0].attempt).toEqual(2);
+    expect(runs[1].error).toEqual('Storage unavailable');
+  });
+
+  it('should filter by job and status', async () => {
+    expect(await getJobRuns({ job_name: 'CLEANUP_EXPIRED_REPORTS', limit: 50 })).toHaveLength(2);
+    expect((await getJobRuns({ status: 'FAILED', limit: 50 })).map(run => run.error)).toEqual(['Storage unavailable']);
+    expect(await getJobRuns({ job_name: 'ROLL_OVER_BUDGETS', status: 'FAILED', limit: 50 })).toHaveLength(0);
+  });
+
+  it('should apply the limit', async () => {
+    expect(await getJobRuns({ limit: 1 })).toHaveLength(1);
+  });
+});
@@ -1,8 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, teamsTable, expensesTable } from '../db/schema';
+import { usersTable, teamsTable, expensesTable, budgetsTable } from '../db/schema';
 import { getPendingApprovals } from '../handlers/get_pending_approvals';
+import { createBudget } from '../handlers/create_budget';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { createApprovalDelegation } from '../handlers/create_approval_delegation';
+import { approveExpense } from '../handlers/approve_expense';
+import { eq } from 'drizzle-orm';
+import { periodStartOf } from '../helpers/budget_periods';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { addDays, fromCalendarDate, toCalendarDate } from '../helpers/dates';
 
 describe('getPendingApprovals', () => {
   beforeEach(createDB);
@@ -51,7 +59,7 @@ describe('getPendingApprovals', () => {
           title: 'Office Supplies',
           description: 'Pens and papers',
           amount: '25.50',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-15')
         },
@@ -61,7 +69,7 @@ describe('getPendingApprovals', () => {
           title: 'Team Lunch',
           description: 'Monthly team building',
           amount: '150.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'PENDING',
           expense_date: new Date('2024-01-20')
         }
@@ -141,7 +149,7 @@ describe('getPendingApprovals', () => {
           team_id: team1.id,
           title: 'Team 1 Expense',
           amount: '100.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-15')
         },
@@ -150,7 +158,7 @@ describe('getPendingApprovals', () => {
           team_id: team2.id,
           title: 'Team 2 Expense',
           amount: '200.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-15')
         }
@@ -205,7 +213,7 @@ describe('getPendingApprovals', () => {
           team_id: team.id,
           title: 'Pending Expense',
           amount: '50.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-15')
         },
@@ -214,7 +222,7 @@ describe('getPendingApprovals', () => {
           team_id: team.id,
           title: 'Approved Expense',
           amount: '75.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'APPROVED',
           approved_by: manager.id,
           approved_at: new Date(),
@@ -225,7 +233,7 @@ describe('getPendingApprovals', () => {
           team_id: team.id,
           title: 'Rejected Expense',
           amount: '100.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'REJECTED',
           approved_by: manager.id,
           approved_at: new Date(),
@@ -321,7 +329,7 @@ describe('getPendingApprovals', () => {
         team_id: team.id,
         title: 'Admin Approval Test',
         amount: '300.00',
-        category: 'BUSINESS',
+        category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
         status: 'PENDING',
         expense_date: new Date('2024-01-15')
       })
@@ -375,7 +383,7 @@ describe('getPendingApprovals', () => {
           team_id: team.id,
           title: 'Team Expense',
           amount: '50.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-15')
         },
@@ -384,7 +392,7 @@ describe('getPendingApprovals', () => {
           team_id: null, // Personal expense, no team
           title: 'Personal Expense',
           amount: '25.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           status: 'PENDING',
           expense_date: new Date('2024-01-16')
         }
@@ -397,4 +405,273 @@ describe('getPendingApprovals', () => {
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Team Expense');
   });
-});
\ No newline at end of file
+
+  it('should show the remaining team and company budget of each expense', async () => {
+    const [admin, manager, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [team, otherTeam] = await db.insert(teamsTable)
+      .values([{ name: 'Sales', manager_id: manager.id }, { name: 'Support', manager_id: admin.id }])
+      .returning()
+      .execute();
+
+    const teamBudget = await createBudget({ user_id: manager.id, scope: 'TEAM', team_id: team.id, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 1000, alert_threshold: 80, carry_over: false });
+    const companyBudget = await createBudget({ user_id: admin.id, scope: 'COMPANY', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 5000, alert_threshold: 80, carry_over: false });
+    await createBudget({ user_id: admin.id, scope: 'TEAM', team_id: otherTeam.id, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 800, alert_threshold: 80, carry_over: false });
+    await createBudget({ user_id: employee.id, scope: 'USER', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 300, alert_threshold: 80, carry_over: false });
+
+    const now = new Date();
+    await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, team_id: team.id, title: 'Train', amount: '400.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'APPROVED', expense_date: now },
+        { user_id: employee.id, team_id: team.id, title: 'Hotel', amount: '250.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: now },
+        { user_id: employee.id, team_id: team.id, title: 'Pens', amount: '5.00', category_id: DEFAULT_CATEGORY_IDS.BUSINESS, status: 'PENDING', expense_date: new Date(now.getTime() - 1000) }
+      ])
+      .execute();
+
+    const result = await getPendingApprovals(manager.id);
+
+    expect(result.map(expense => expense.title)).toEqual(['Hotel', 'Pens']);
+    expect(result[0].budget_impact).toEqual([
+      { budget_id: teamBudget.id, scope: 'TEAM', team_id: team.id, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, currency: 'USD', period_start: periodStartOf(now), remaining: 600, remaining_after_approval: 350 },
+      { budget_id: companyBudget.id, scope: 'COMPANY', team_id: null, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, currency: 'USD', period_start: periodStartOf(now), remaining: 4600, remaining_after_approval: 4350 }
+    ]);
+    expect(result[1].budget_impact).toEqual([]);
+  });
+
+  it('should leave out budgets that cannot convert the expense', async () => {
+    const [admin, manager, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+
+    const teamBudget = await createBudget({ user_id: manager.id, scope: 'TEAM', team_id: team.id, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 1000, alert_threshold: 80, carry_over: false });
+    await db.insert(budgetsTable)
+      .values({ user_id: admin.id, scope: 'COMPANY', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: '90000', currency: 'JPY' })
+      .execute();
+    await db.insert(expensesTable)
+      .values({ user_id: employee.id, team_id: team.id, title: 'Hotel', amount: '250.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: new Date() })
+      .execute();
+
+    const result = await getPendingApprovals(manager.id);
+
+    expect(result.map(expense => expense.title)).toEqual(['Hotel']);
+    expect(result[0].budget_impact.map(impact => impact.budget_id)).toEqual([teamBudget.id]);
+  });
+
+  it('should only return expenses waiting on the caller\'s approval step', async () => {
+    const [admin, manager, head, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'head@test.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+
+    await createApprovalPolicy({
+      name: 'Sales approvals',
+      team_id: team.id,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: head.id, threshold: 500 }
+      ]
+    });
+
+    const [large] = await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, team_id: team.id, title: 'Conference', amount: '900.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: new Date('2024-01-20') },
+        { user_id: employee.id, team_id: team.id, title: 'Taxi', amount: '40.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: new Date('2024-01-15') }
+      ])
+      .returning()
+      .execute();
+
+    const managerQueue = await getPendingApprovals(manager.id);
+    expect(managerQueue.map(expense => expense.title)).toEqual(['Conference', 'Taxi']);
+    expect(managerQueue[0].approvals.map(step => [step.name, step.approver_id, step.status])).toEqual([
+      ['Team manager', manager.id, 'PENDING'],
+      ['Department head', head.id, 'PENDING']
+    ]);
+    expect(managerQueue[1].approvals).toHaveLength(1);
+    expect(await getPendingApprovals(head.id)).toEqual([]);
+
+    await approveExpense({ expense_id: large.id, approved_by: manager.id, status: 'APPROVED' });
+
+    expect((await getPendingApprovals(manager.id)).map(expense => expense.title)).toEqual(['Taxi']);
+    expect((await getPendingApprovals(head.id)).map(expense => expense.title)).toEqual(['Conference']);
+    expect(await getPendingApprovals(admin.id)).toEqual([]);
+  });
+
+  it('should leave out expenses whose chain cannot be built instead of failing', async () => {
+    const [manager, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+
+    await createApprovalPolicy({
+      name: 'Sales approvals',
+      team_id: team.id,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: manager.id, threshold: 500 }
+      ]
+    });
+
+    // Filed before any exchange rates were imported, so its thresholds can't be checked
+    await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, team_id: team.id, title: 'Tokyo hotel', amount: '30000', currency: 'JPY', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: new Date('2024-01-20') },
+        { user_id: employee.id, team_id: team.id, title: 'Taxi', amount: '40.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status: 'PENDING', expense_date: new Date('2024-01-15') }
+      ])
+      .execute();
+
+    expect((await getPendingApprovals(manager.id)).map(expense => expense.title)).toEqual(['Taxi']);
+  });
+
+  it('should show admins the expenses nobody else can approve', async () => {
+    const [admin, manager, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@test.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, title: 'No team', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-20') },
+        { user_id: manager.id, team_id: team.id, title: 'Manager\'s own', amount: '20.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-15') },
+        { user_id: employee.id, team_id: team.id, title: 'Team', amount: '30.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-10') }
+      ])
+      .execute();
+
+    const result = await getPendingApprovals(admin.id);
+
+    expect(result.map(expense => expense.title)).toEqual(['No team', 'Manager\'s own']);
+    expect(result[0].approvals[0].approver_id).toBeNull();
+    expect((await getPendingApprovals(manager.id)).map(expense => expense.title)).toEqual(['Team']);
+  });
+
+  it('should show delegates the expenses of the teams delegated to them', async () => {
+    const [manager, deputy, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'deputy@test.com', username: 'deputy', password_hash: 'x', first_name: 'D', last_name: 'D', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [sales, support] = await db.insert(teamsTable)
+      .values([
+        { name: 'Sales', manager_id: manager.id },
+        { name: 'Support', manager_id: manager.id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, team_id: sales.id, title: 'Sales lunch', amount: '30.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'PENDING', expense_date: new Date('2024-01-20') },
+        { user_id: employee.id, team_id: support.id, title: 'Support taxi', amount: '20.00', category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION, status: 'PENDING', expense_date: new Date('2024-01-15') },
+        { user_id: deputy.id, team_id: sales.id, title: 'Deputy\'s own', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-10') }
+      ])
+      .execute();
+
+    const today = toCalendarDate(new Date());
+    expect(await getPendingApprovals(deputy.id)).toEqual([]);
+
+    await createApprovalDelegation({
+      delegator_id: manager.id,
+      delegate_id: deputy.id,
+      team_id: sales.id,
+      start_date: fromCalendarDate(today),
+      end_date: fromCalendarDate(addDays(today, 7))
+    });
+
+    expect((await getPendingApprovals(deputy.id)).map(expense => expense.title)).toEqual(['Sales lunch']);
+    expect((await getPendingApprovals(manager.id)).map(expense => expense.title)).toEqual(['Sales lunch', 'Support taxi', 'Deputy\'s own']);
+
+    await createApprovalDelegation({
+      delegator_id: manager.id,
+      delegate_id: deputy.id,
+      start_date: fromCalendarDate(addDays(today, 1)),
+      end_date: fromCalendarDate(addDays(today, 7))
+    });
+
+    expect((await getPendingApprovals(deputy.id)).map(expense => expense.title)).toEqual(['Sales lunch']);
+  });
+
+  it('should show how long each expense has been waiting and whether it is overdue', async () => {
+    const [manager, employee] = await db.insert(usersTable)
+      .values([
+        { email: 'manager@test.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'employee@test.com', username: 'employee', password_hash: 'x', first_name: 'E', last_name: 'E', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+
+    const now = new Date();
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    await db.insert(expensesTable)
+      .values([
+        { user_id: employee.id, team_id: team.id, title: 'Old', amount: '30.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-20'), created_at: daysAgo(4.5) },
+        { user_id: employee.id, team_id: team.id, title: 'New', amount: '20.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, status: 'PENDING', expense_date: new Date('2024-01-10'), created_at: daysAgo(1) }
+      ])
+      .execute();
+
+    const result = await getPendingApprovals(manager.id, now);
+    expect(result.map(expense => [expense.title, expense.age_days, expense.overdue])).toEqual([
+      ['Old', 4, true],
+      ['New', 1, false]
+    ]);
+    expect(result[0].submitted_at).toEqual(daysAgo(4.5));
+    expect(result[0].waiting_since).toEqual(daysAgo(4.5));
+
+    // The team allows five days
+    await db.update(teamsTable)
+      .set({ approval_reminder_days: 5, approval_escalation_days: 10 })
+      .where(eq(teamsTable.id, team.id))
+      .execute();
+    expect((await getPendingApprovals(manager.id, now)).map(expense => expense.overdue)).toEqual([false, false]);
+  });
+});
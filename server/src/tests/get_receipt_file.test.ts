@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, teamsTable, expensesTable } from '../db/schema';
+import { uploadReceipt } from '../handlers/upload_receipt';
+import { getReceiptFile } from '../handlers/get_receipt_file';
+import { createLocalStorageDriver, getStorage, setStorage } from '../helpers/storage';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { createApprovalDelegation } from '../handlers/create_approval_delegation';
+import { approveExpense } from '../handlers/approve_expense';
+
+const createUser = async (username: string, role: 'ADMIN' | 'MANAGER' | 'USER' = 'USER') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: `${username}@example.com`,
+      username,
+      password_hash: 'hashed_password',
+      first_name: 'Test',
+      last_name: 'User',
+      role
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('getReceiptFile', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'receipts-'));
+    setStorage(createLocalStorageDriver(storageDir));
+  });
+
+  afterEach(async () => {
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  const fileContents = Buffer.from('%PDF-1.4 receipt');
+
+  const upload = async (userId: number) => {
+    const result = await uploadReceipt(userId, { buffer: fileContents, filename: 'lunch.pdf', mimetype: 'application/pdf' });
+    expect(result.success).toBe(true);
+    return result;
+  };
+
+  it('should return the stored file to its owner', async () => {
+    const owner = await createUser('owner');
+    const { receipt_id } = await upload(owner.id);
+
+    const { receipt, data } = await getReceiptFile(receipt_id!, owner.id);
+
+    expect(receipt.id).toEqual(receipt_id!);
+    expect(receipt.filename).toEqual('lunch.pdf');
+    expect(receipt.content_type).toEqual('application/pdf');
+    expect(data.equals(fileContents)).toBe(true);
+  });
+
+  it('should allow admins', async () => {
+    const owner = await createUser('owner');
+    const admin = await createUser('admin', 'ADMIN');
+    const { receipt_id } = await upload(owner.id);
+
+    const { data } = await getReceiptFile(receipt_id!, admin.id);
+    expect(data.equals(fileContents)).toBe(true);
+  });
+
+  it('should allow the manager of a team expense using the receipt', async () => {
+    const owner = await createUser('owner');
+    const manager = await createUser('manager', 'MANAGER');
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Team', manager_id: manager.id })
+      .returning()
+      .execute();
+    const { receipt_id } = await upload(owner.id);
+
+    await expect(getReceiptFile(receipt_id!, manager.id)).rejects.toThrow(/access denied/i);
+
+    await db.insert(expensesTable)
+      .values({ user_id: owner.id, team_id: team.id, title: 'Lunch', amount: '12.50', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(), receipt_id })
+      .execute();
+
+    const { data } = await getReceiptFile(receipt_id!, manager.id);
+    expect(data.equals(fileContents)).toBe(true);
+  });
+
+  it('should not allow managers of an expense that only links the receipt download URL', async () => {
+    const owner = await createUser('owner');
+    const manager = await createUser('manager', 'MANAGER');
+    const [team] = await db.insert(teamsTable)
+      .values({ name: 'Team', manager_id: manager.id })
+      .returning()
+      .execute();
+    const { receipt_id, file_url } = await upload(owner.id);
+
+    await db.insert(expensesTable)
+      .values({ user_id: manager.id, team_id: team.id, title: 'Lunch', amount: '12.50', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(), receipt_url: file_url })
+      .execute();
+
+    await expect(getReceiptFile(receipt_id!, manager.id)).rejects.toThrow(/access denied/i);
+  });
+
+  it('should allow the approvers of an expense using the receipt and their delegates', async () => {
+    const owner = await createUser('owner');
+    const finance = await createUser('finance', 'MANAGER');
+    const deputy = await createUser('deputy', 'MANAGER');
+    await createApprovalPolicy({
+      name: 'Company approvals',
+      steps: [{ name: 'Finance', approver_type: 'USER', approver_id: finance.id, threshold: 0 }]
+    });
+    const { receipt_id } = await upload(owner.id);
+
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: owner.id, title: 'Lunch', amount: '12.50', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date(), receipt_id })
+      .returning()
+      .execute();
+
+    expect((await getReceiptFile(receipt_id!, finance.id)).data.equals(fileContents)).toBe(true);
+    await expect(getReceiptFile(receipt_id!, deputy.id)).rejects.toThrow(/access denied/i);
+
+    await createApprovalDelegation({ delegator_id: finance.id, delegate_id: deputy.id, start_date: new Date(Date.now() - 24 * 60 * 60 * 1000), end_date: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+    expect((await getReceiptFile(receipt_id!, deputy.id)).data.equals(fileContents)).toBe(true);
+
+    // Approvers keep access once they decided the expense
+    await approveExpense({ expense_id: expense.id, approved_by: deputy.id, status: 'APPROVED' });
+    expect((await getReceiptFile(receipt_id!, finance.id)).data.equals(fileContents)).toBe(true);
+    expect((await getReceiptFile(receipt_id!, deputy.id)).data.equals(fileContents)).toBe(true);
+  });
+
+  it('should deny other users', async () => {
+    const owner = await createUser('owner');
+    const other = await createUser('other');
+    const otherManager = await createUser('othermanager', 'MANAGER');
+    const { receipt_id } = await upload(owner.id);
+
+    await expect(getReceiptFile(receipt_id!, other.id)).rejects.toThrow(/access denied/i);
+    await expect(getReceiptFile(receipt_id!, otherManager.id)).rejects.toThrow(/access denied/i);
+  });
+
+  it('should return the thumbnail of an image receipt', async () => {
+    const owner = await createUser('owner');
+    const image = await sharp({ create: { width: 640, height: 480, channels: 3, background: '#ffffff' } }).png().toBuffer();
+    const { receipt_id } = await uploadReceipt(owner.id, { buffer: image, filename: 'photo.png', mimetype: 'image/png' });
+
+    const { data, content_type } = await getReceiptFile(receipt_id!, owner.id, 'thumbnail');
+
+    expect(content_type).toEqual('image/jpeg');
+    expect((await sharp(data).metadata()).width).toEqual(320);
+  });
+
+  it('should reject thumbnails for receipts without one', async () => {
+    const owner = await createUser('owner');
+    const { receipt_id } = await upload(owner.id);
+
+    await expect(getReceiptFile(receipt_id!, owner.id, 'thumbnail')).rejects.toThrow(/thumbnail not found/i);
+  });
+
+  it('should reject unknown receipts', async () => {
+    const owner = await createUser('owner');
+
+    await expect(getReceiptFile(99999, owner.id)).rejects.toThrow(/receipt not found/i);
+  });
+
+  it('should report files missing from storage', async () => {
+    const owner = await createUser('owner');
+    const { receipt_id } = await upload(owner.id);
+    const { receipt } = await getReceiptFile(receipt_id!, owner.id);
+
+    await getStorage().delete(receipt.storage_key);
+
+    await expect(getReceiptFile(receipt_id!, owner.id)).rejects.toThrow(/missing from storage/i);
+  });
+});
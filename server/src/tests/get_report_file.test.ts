@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, reportsTable } from '../db/schema';
+import { generateReport } from '../handlers/generate_report';
+import { getReportFile } from '../handlers/get_report_file';
+import { createLocalStorageDriver, getStorage, setStorage } from '../helpers/storage';
+import { eq } from 'drizzle-orm';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+const createUser = async (username: string, role: 'ADMIN' | 'MANAGER' | 'USER' = 'USER') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: `${username}@example.com`,
+      username,
+      password_hash: 'hashed_password',
+      first_name: 'Test',
+      last_name: 'User',
+      role
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('getReportFile', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'reports-'));
+    setStorage(createLocalStorageDriver(storageDir));
+  });
+
+  afterEach(async () => {
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  const generate = (userId: number) => generateReport({
+    user_id: userId,
+    type: 'YEARLY',
+    title: 'Année 2024 / summary',
+    date_from: new Date(2024, 0, 1),
+    date_to: new Date(2024, 11, 31),
+    include_team_expenses: false,
+    format: 'CSV'
+  });
+
+  it('should return the stored file to its owner', async () => {
+    const owner = await createUser('owner');
+    const report = await generate(owner.id);
+
+    const file = await getReportFile(report.id, owner.id);
+
+    expect(file.report.id).toEqual(report.id);
+    expect(file.content_type).toEqual('text/csv; charset=utf-8');
+    expect(file.filename).toEqual('Année_2024_summary.csv');
+    expect(file.data.toString('utf8')).toContain('Report,Année 2024 / summary');
+  });
+
+  it('should allow admins', async () => {
+    const owner = await createUser('owner');
+    const admin = await createUser('admin', 'ADMIN');
+    const report = await generate(owner.id);
+
+    const file = await getReportFile(report.id, admin.id);
+    expect(file.report.id).toEqual(report.id);
+  });
+
+  it('should deny other users, including managers', async () => {
+    const owner = await createUser('owner');
+    const other = await createUser('other');
+    const manager = await createUser('manager', 'MANAGER');
+    const report = await generate(owner.id);
+
+    await expect(getReportFile(report.id, other.id)).rejects.toThrow(/access denied/i);
+    await expect(getReportFile(report.id, manager.id)).rejects.toThrow(/access denied/i);
+  });
+
+  it('should reject unknown and expired reports', async () => {
+    const owner = await createUser('owner');
+    const report = await generate(owner.id);
+    await db.update(reportsTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(reportsTable.id, report.id)).execute();
+
+    await expect(getReportFile(99999, owner.id)).rejects.toThrow(/report not found/i);
+    await expect(getReportFile(report.id, owner.id)).rejects.toThrow(/expired/i);
+  });
+
+  it('should report files missing from storage', async () => {
+    const owner = await createUser('owner');
+    const report = await generate(owner.id);
+    await getStorage().delete(report.storage_key!);
+
+    await expect(getReportFile(report.id, owner.id)).rejects.toThrow(/missing from storage/i);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, expensesTable, tagsTable } from '../db/schema';
+import { getTags } from '../handlers/get_tags';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
+
+describe('getTags', () => {
+  let userId: number;
+  let otherUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'user@test.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' },
+        { email: 'other@test.com', username: 'other', password_hash: 'x', first_name: 'O', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [userId, otherUserId] = users.map(user => user.id);
+
+    const expenses = await db.insert(expensesTable)
+      .values([1, 2, 3].map(n => ({ user_id: userId, title: `Expense ${n}`, amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })))
+      .returning()
+      .execute();
+    await setExpenseTags(expenses[0].id, userId, ['Client A', 'Conference']);
+    await setExpenseTags(expenses[1].id, userId, ['Conference']);
+    await setExpenseTags(expenses[2].id, userId, ['Conference', 'client b']);
+
+    await db.insert(tagsTable)
+      .values([
+        { user_id: userId, name: 'Unused' },
+        { user_id: otherUserId, name: 'Client C' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list the user\'s tags, most used first', async () => {
+    const result = await getTags({ user_id: userId });
+
+    expect(result.map(tag => [tag.name, tag.expense_count])).toEqual([
+      ['Conference', 3],
+      ['Client A', 1],
+      ['client b', 1],
+      ['Unused', 0]
+    ]);
+    result.forEach(tag => expect(tag.user_id).toEqual(userId));
+  });
+
+  it('should autocomplete by name prefix ignoring case', async () => {
+    const result = await getTags({ user_id: userId, query: 'CL' });
+
+    expect(result.map(tag => tag.name)).toEqual(['Client A', 'client b']);
+  });
+
+  it('should treat wildcard characters in the query literally', async () => {
+    expect(await getTags({ user_id: userId, query: '%' })).toEqual([]);
+    expect(await getTags({ user_id: userId, query: 'c_' })).toEqual([]);
+  });
+
+  it('should limit the number of suggestions', async () => {
+    const result = await getTags({ user_id: userId, query: 'c', limit: 2 });
+
+    expect(result.map(tag => tag.name)).toEqual(['Conference', 'Client A']);
+  });
+
+  it('should return an empty list for users without tags', async () => {
+    await db.delete(tagsTable).execute();
+
+    expect(await getTags({ user_id: userId })).toEqual([]);
+  });
+});
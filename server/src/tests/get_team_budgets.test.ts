@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, teamsTable, usersTable } from '../db/schema';
+import { createBudget } from '../handlers/create_budget';
+import { approveExpense } from '../handlers/approve_expense';
+import { getTeamBudgets } from '../handlers/get_team_budgets';
+import { getUserBudgets } from '../handlers/get_user_budgets';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('getTeamBudgets', () => {
+  let managerId: number;
+  let adminId: number;
+  let memberIds: number[];
+  let teamId: number;
+  let otherTeamId: number;
+
+  const budgetInput = { scope: 'TEAM' as const, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: 1000, alert_threshold: 80, carry_over: false };
+
+  const approvedExpense = async (userId: number, team: number | null, amount: string) => {
+    const rows = await db.insert(expensesTable)
+      .values({ user_id: userId, team_id: team, title: 'Flight', amount, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })
+      .returning()
+      .execute();
+    // Admins can approve expenses of any team and personal ones
+    await approveExpense({ expense_id: rows[0].id, approved_by: adminId, status: 'APPROVED' });
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'a@example.com', username: 'a', password_hash: 'x', first_name: 'A', last_name: 'A' },
+        { email: 'b@example.com', username: 'b', password_hash: 'x', first_name: 'B', last_name: 'B' },
+        { email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    managerId = users[0].id;
+    memberIds = [users[1].id, users[2].id];
+    adminId = users[3].id;
+
+    const teams = await db.insert(teamsTable)
+      .values([{ name: 'Sales', manager_id: managerId }, { name: 'Support', manager_id: managerId }])
+      .returning()
+      .execute();
+    [teamId, otherTeamId] = teams.map(team => team.id);
+  });
+
+  afterEach(resetDB);
+
+  it('should track approved spending of every expense filed against the team', async () => {
+    await createBudget({ ...budgetInput, user_id: managerId, team_id: teamId });
+
+    await approvedExpense(memberIds[0], teamId, '300.00');
+    await approvedExpense(memberIds[1], teamId, '150.00');
+    await approvedExpense(memberIds[1], otherTeamId, '80.00'); // another team
+    await approvedExpense(memberIds[1], null, '40.00'); // personal
+
+    const budgets = await getTeamBudgets(teamId);
+
+    expect(budgets).toHaveLength(1);
+    expect(budgets[0].scope).toEqual('TEAM');
+    expect(budgets[0].team_id).toEqual(teamId);
+    expect(budgets[0].current_spent).toEqual(450);
+    expect(budgets[0].monthly_limit).toEqual(1000);
+  });
+
+  it('should keep team budgets apart from personal ones', async () => {
+    await createBudget({ ...budgetInput, user_id: managerId, team_id: teamId });
+    await createBudget({ ...budgetInput, scope: 'USER', user_id: managerId });
+    await createBudget({ ...budgetInput, user_id: managerId, team_id: otherTeamId });
+
+    expect(await getTeamBudgets(teamId)).toHaveLength(1);
+    const personal = await getUserBudgets(managerId);
+    expect(personal.map(budget => budget.scope)).toEqual(['USER']);
+  });
+
+  it('should allow one budget per team and category', async () => {
+    await createBudget({ ...budgetInput, user_id: managerId, team_id: teamId });
+
+    await expect(createBudget({ ...budgetInput, user_id: memberIds[0], team_id: teamId })).rejects.toThrow(/already exists/i);
+  });
+
+  it('should require an existing team', async () => {
+    await expect(createBudget({ ...budgetInput, user_id: managerId })).rejects.toThrow(/require a team/i);
+    await expect(createBudget({ ...budgetInput, user_id: managerId, team_id: 99999 })).rejects.toThrow(/team not found/i);
+  });
+});
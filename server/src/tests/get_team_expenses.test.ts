@@ -3,6 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, teamsTable, expensesTable } from '../db/schema';
 import { getTeamExpenses } from '../handlers/get_team_expenses';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('getTeamExpenses', () => {
   beforeEach(createDB);
@@ -52,7 +53,7 @@ describe('getTeamExpenses', () => {
         title: 'Team Lunch',
         description: 'Team building lunch',
         amount: '50.75',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date('2023-01-15'),
         status: 'PENDING'
       })
@@ -66,7 +67,7 @@ describe('getTeamExpenses', () => {
         title: 'Office Supplies',
         description: 'Printer paper and pens',
         amount: '25.99',
-        category: 'BUSINESS',
+        category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
         expense_date: new Date('2023-01-16'),
         status: 'APPROVED'
       })
@@ -83,14 +84,14 @@ describe('getTeamExpenses', () => {
     expect(teamLunch).toBeDefined();
     expect(teamLunch?.amount).toEqual(50.75);
     expect(typeof teamLunch?.amount).toBe('number');
-    expect(teamLunch?.category).toEqual('FOOD_DINING');
+    expect(teamLunch?.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(teamLunch?.status).toEqual('PENDING');
 
     const officeSupplies = result.find(e => e.title === 'Office Supplies');
     expect(officeSupplies).toBeDefined();
     expect(officeSupplies?.amount).toEqual(25.99);
     expect(typeof officeSupplies?.amount).toBe('number');
-    expect(officeSupplies?.category).toEqual('BUSINESS');
+    expect(officeSupplies?.category_id).toEqual(DEFAULT_CATEGORY_IDS.BUSINESS);
     expect(officeSupplies?.status).toEqual('APPROVED');
 
     // Verify all expenses belong to the team
@@ -177,6 +178,54 @@ describe('getTeamExpenses', () => {
       .rejects.toThrow(/access denied.*not the manager/i);
   });
 
+  it('should allow admins to view any team', async () => {
+    const [manager, admin] = await db.insert(usersTable)
+      .values([
+        {
+          email: 'manager@test.com',
+          username: 'manager',
+          password_hash: 'hash123',
+          first_name: 'Manager',
+          last_name: 'User',
+          role: 'MANAGER'
+        },
+        {
+          email: 'admin@test.com',
+          username: 'admin',
+          password_hash: 'hash123',
+          first_name: 'Admin',
+          last_name: 'User',
+          role: 'ADMIN'
+        }
+      ])
+      .returning()
+      .execute();
+
+    const [team] = await db.insert(teamsTable)
+      .values({
+        name: 'Audited Team',
+        manager_id: manager.id
+      })
+      .returning()
+      .execute();
+
+    await db.insert(expensesTable)
+      .values({
+        user_id: manager.id,
+        team_id: team.id,
+        title: 'Team lunch',
+        amount: '42.50',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+        expense_date: new Date()
+      })
+      .execute();
+
+    const result = await getTeamExpenses(team.id, admin.id);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].amount).toEqual(42.5);
+  });
+
   it('should handle different expense categories and statuses correctly', async () => {
     // Create test users
     const [manager] = await db.insert(usersTable)
@@ -221,7 +270,7 @@ describe('getTeamExpenses', () => {
           team_id: team.id,
           title: 'Transportation',
           amount: '15.50',
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           expense_date: new Date('2023-01-15'),
           status: 'PENDING'
         },
@@ -230,7 +279,7 @@ describe('getTeamExpenses', () => {
           team_id: team.id,
           title: 'Entertainment',
           amount: '100.00',
-          category: 'ENTERTAINMENT',
+          category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
           expense_date: new Date('2023-01-16'),
           status: 'APPROVED'
         },
@@ -239,7 +288,7 @@ describe('getTeamExpenses', () => {
           team_id: team.id,
           title: 'Healthcare',
           amount: '75.25',
-          category: 'HEALTHCARE',
+          category_id: DEFAULT_CATEGORY_IDS.HEALTHCARE,
           expense_date: new Date('2023-01-17'),
           status: 'REJECTED'
         }
@@ -251,10 +300,10 @@ describe('getTeamExpenses', () => {
     expect(result).toHaveLength(3);
 
     // Verify different categories are present
-    const categories = result.map(e => e.category);
-    expect(categories).toContain('TRANSPORTATION');
-    expect(categories).toContain('ENTERTAINMENT');
-    expect(categories).toContain('HEALTHCARE');
+    const categories = result.map(e => e.category_id);
+    expect(categories).toContain(DEFAULT_CATEGORY_IDS.TRANSPORTATION);
+    expect(categories).toContain(DEFAULT_CATEGORY_IDS.ENTERTAINMENT);
+    expect(categories).toContain(DEFAULT_CATEGORY_IDS.HEALTHCARE);
 
     // Verify different statuses are present
     const statuses = result.map(e => e.status);
@@ -322,7 +371,7 @@ describe('getTeamExpenses', () => {
           team_id: team1.id,
           title: 'Team 1 Expense',
           amount: '50.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           expense_date: new Date('2023-01-15'),
           status: 'PENDING'
         },
@@ -331,7 +380,7 @@ describe('getTeamExpenses', () => {
           team_id: team2.id,
           title: 'Team 2 Expense',
           amount: '75.00',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           expense_date: new Date('2023-01-16'),
           status: 'APPROVED'
         }
@@ -4,6 +4,7 @@ import { db } from '../db';
 import { usersTable, budgetsTable, expensesTable } from '../db/schema';
 import { getUserBudgets } from '../handlers/get_user_budgets';
 import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('getUserBudgets', () => {
   beforeEach(createDB);
@@ -51,13 +52,13 @@ describe('getUserBudgets', () => {
       .values([
         {
           user_id: userId,
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           monthly_limit: '500.00',
           alert_threshold: 80
         },
         {
           user_id: userId,
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           monthly_limit: '300.50',
           alert_threshold: 75
         }
@@ -100,7 +101,7 @@ describe('getUserBudgets', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         alert_threshold: 80
       })
@@ -116,7 +117,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Lunch',
           amount: '25.50',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: thisMonth
         },
@@ -124,7 +125,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Dinner',
           amount: '45.75',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: thisMonth
         }
@@ -158,7 +159,7 @@ describe('getUserBudgets', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         alert_threshold: 80
       })
@@ -174,7 +175,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Approved Lunch',
           amount: '25.50',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: thisMonth
         },
@@ -182,7 +183,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Pending Dinner',
           amount: '45.75',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'PENDING',
           expense_date: thisMonth
         },
@@ -190,7 +191,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Rejected Breakfast',
           amount: '15.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'REJECTED',
           expense_date: thisMonth
         }
@@ -223,7 +224,7 @@ describe('getUserBudgets', () => {
     await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         alert_threshold: 80
       })
@@ -240,7 +241,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'This Month Lunch',
           amount: '25.50',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: thisMonth
         },
@@ -248,7 +249,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Last Month Lunch',
           amount: '30.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: lastMonth
         }
@@ -282,13 +283,13 @@ describe('getUserBudgets', () => {
       .values([
         {
           user_id: userId,
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           monthly_limit: '500.00',
           alert_threshold: 80
         },
         {
           user_id: userId,
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           monthly_limit: '300.00',
           alert_threshold: 75
         }
@@ -305,7 +306,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Restaurant',
           amount: '50.00',
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           status: 'APPROVED',
           expense_date: thisMonth
         },
@@ -313,7 +314,7 @@ describe('getUserBudgets', () => {
           user_id: userId,
           title: 'Gas',
           amount: '75.00',
-          category: 'TRANSPORTATION',
+          category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
           status: 'APPROVED',
           expense_date: thisMonth
         }
@@ -324,8 +325,8 @@ describe('getUserBudgets', () => {
 
     expect(budgets).toHaveLength(2);
     
-    const foodBudget = budgets.find(b => b.category === 'FOOD_DINING');
-    const transportBudget = budgets.find(b => b.category === 'TRANSPORTATION');
+    const foodBudget = budgets.find(b => b.category_id === DEFAULT_CATEGORY_IDS.FOOD_DINING);
+    const transportBudget = budgets.find(b => b.category_id === DEFAULT_CATEGORY_IDS.TRANSPORTATION);
 
     expect(foodBudget?.current_spent).toEqual(50);
     expect(transportBudget?.current_spent).toEqual(75);
@@ -365,13 +366,13 @@ describe('getUserBudgets', () => {
       .values([
         {
           user_id: user1Id,
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           monthly_limit: '500.00',
           alert_threshold: 80
         },
         {
           user_id: user2Id,
-          category: 'FOOD_DINING',
+          category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
           monthly_limit: '600.00',
           alert_threshold: 85
         }
@@ -408,7 +409,7 @@ describe('getUserBudgets', () => {
     const budgetResult = await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '500.00',
         current_spent: '0.00',
         alert_threshold: 80
@@ -427,7 +428,7 @@ describe('getUserBudgets', () => {
         user_id: userId,
         title: 'Lunch',
         amount: '25.50',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'APPROVED',
         expense_date: thisMonth
       })
@@ -1,9 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable } from '../db/schema';
+import { usersTable, expensesTable, categoriesTable } from '../db/schema';
 import { type GetUserExpensesInput } from '../schema';
 import { getUserExpenses } from '../handlers/get_user_expenses';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
+import { refreshSearchVectors } from '../helpers/expense_search';
 
 describe('getUserExpenses', () => {
   beforeEach(createDB);
@@ -48,7 +51,7 @@ describe('getUserExpenses', () => {
         title: 'Lunch at Restaurant',
         description: 'Business lunch meeting',
         amount: '25.50',
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'APPROVED' as const,
         expense_date: new Date('2024-01-10'),
         is_recurring: false
@@ -58,7 +61,7 @@ describe('getUserExpenses', () => {
         title: 'Gas Station',
         description: 'Fuel for company car',
         amount: '45.75',
-        category: 'TRANSPORTATION' as const,
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         status: 'PENDING' as const,
         expense_date: new Date('2024-01-12'),
         is_recurring: false
@@ -68,7 +71,7 @@ describe('getUserExpenses', () => {
         title: 'Office Supplies',
         description: 'Notebooks and pens',
         amount: '15.25',
-        category: 'BUSINESS' as const,
+        category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
         status: 'APPROVED' as const,
         expense_date: new Date('2024-01-20'),
         is_recurring: false
@@ -78,7 +81,7 @@ describe('getUserExpenses', () => {
         title: 'Movie Theater',
         description: 'Weekend entertainment',
         amount: '18.00',
-        category: 'ENTERTAINMENT' as const,
+        category_id: DEFAULT_CATEGORY_IDS.ENTERTAINMENT,
         status: 'REJECTED' as const,
         expense_date: new Date('2024-01-25'),
         is_recurring: false
@@ -88,7 +91,7 @@ describe('getUserExpenses', () => {
         title: 'Other User Expense',
         description: 'Should not appear',
         amount: '100.00',
-        category: 'FOOD_DINING' as const,
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         status: 'APPROVED' as const,
         expense_date: new Date('2024-01-15'),
         is_recurring: false
@@ -96,6 +99,7 @@ describe('getUserExpenses', () => {
     ];
 
     await db.insert(expensesTable).values(expenses).execute();
+    await refreshSearchVectors();
   };
 
   it('should return all expenses for a user with default pagination', async () => {
@@ -132,7 +136,7 @@ describe('getUserExpenses', () => {
 
     const input: GetUserExpensesInput = {
       user_id: testUserId,
-      category: 'FOOD_DINING',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       page: 1,
       limit: 20
     };
@@ -142,7 +146,45 @@ describe('getUserExpenses', () => {
     expect(result.expenses).toHaveLength(1);
     expect(result.total).toBe(1);
     expect(result.expenses[0].title).toBe('Lunch at Restaurant');
-    expect(result.expenses[0].category).toBe('FOOD_DINING');
+    expect(result.expenses[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+  });
+
+  it('should include subcategories when filtering by category', async () => {
+    await setupTestData();
+    const [coffee] = await db.insert(categoriesTable)
+      .values({ name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING })
+      .returning()
+      .execute();
+    await db.insert(expensesTable)
+      .values({ user_id: testUserId, title: 'Espresso', amount: '3.20', category_id: coffee.id, expense_date: new Date() })
+      .execute();
+
+    const parent = await getUserExpenses({ user_id: testUserId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, page: 1, limit: 20 });
+    expect(parent.expenses.map(expense => expense.title).sort()).toEqual(['Espresso', 'Lunch at Restaurant']);
+
+    const child = await getUserExpenses({ user_id: testUserId, category_id: coffee.id, page: 1, limit: 20 });
+    expect(child.expenses.map(expense => expense.title)).toEqual(['Espresso']);
+  });
+
+  it('should filter expenses by tags', async () => {
+    await setupTestData();
+    const expenses = (await getUserExpenses({ user_id: testUserId, page: 1, limit: 20 })).expenses;
+    const byTitle = (title: string) => expenses.find(expense => expense.title === title)!.id;
+    await setExpenseTags(byTitle('Lunch at Restaurant'), testUserId, ['Client A', 'Meals']);
+    await setExpenseTags(byTitle('Gas Station'), testUserId, ['Client A']);
+    await setExpenseTags(byTitle('Office Supplies'), testUserId, ['Meals']);
+
+    const clientA = await getUserExpenses({ user_id: testUserId, tags: ['client a'], page: 1, limit: 20 });
+    expect(clientA.total).toBe(2);
+    expect(clientA.expenses.map(expense => expense.title)).toEqual(['Gas Station', 'Lunch at Restaurant']);
+    expect(clientA.expenses[1].tags).toEqual(['Client A', 'Meals']);
+
+    // Every listed tag has to be on the expense
+    const both = await getUserExpenses({ user_id: testUserId, tags: ['Client A', 'Meals'], page: 1, limit: 20 });
+    expect(both.expenses.map(expense => expense.title)).toEqual(['Lunch at Restaurant']);
+
+    const unknown = await getUserExpenses({ user_id: testUserId, tags: ['Unknown'], page: 1, limit: 20 });
+    expect(unknown.total).toBe(0);
   });
 
   it('should filter expenses by status', async () => {
@@ -246,7 +288,7 @@ describe('getUserExpenses', () => {
 
     const input: GetUserExpensesInput = {
       user_id: testUserId,
-      category: 'BUSINESS',
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
       status: 'APPROVED',
       date_from: new Date('2024-01-15'),
       page: 1,
@@ -258,7 +300,7 @@ describe('getUserExpenses', () => {
     expect(result.expenses).toHaveLength(1);
     expect(result.total).toBe(1);
     expect(result.expenses[0].title).toBe('Office Supplies');
-    expect(result.expenses[0].category).toBe('BUSINESS');
+    expect(result.expenses[0].category_id).toBe(DEFAULT_CATEGORY_IDS.BUSINESS);
     expect(result.expenses[0].status).toBe('APPROVED');
   });
 
@@ -280,6 +322,14 @@ describe('getUserExpenses', () => {
     expect(result.total_pages).toBe(0);
   });
 
+  it('should search descriptions and word stems', async () => {
+    await setupTestData();
+
+    const result = await getUserExpenses({ user_id: testUserId, search: 'meetings', page: 1, limit: 20 });
+
+    expect(result.expenses.map(expense => expense.title)).toEqual(['Lunch at Restaurant']);
+  });
+
   it('should handle case-insensitive search', async () => {
     await setupTestData();
 
@@ -3,6 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, notificationsTable, expensesTable } from '../db/schema';
 import { getUserNotifications } from '../handlers/get_user_notifications';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('getUserNotifications', () => {
   beforeEach(createDB);
@@ -199,7 +200,7 @@ describe('getUserNotifications', () => {
           user_id: testUser1Id,
           title: 'Test Expense',
           amount: '100.50',
-          category: 'BUSINESS',
+          category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
           expense_date: new Date()
         }
       ])
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { recurringSeriesTable, usersTable } from '../db/schema';
+import { getUserRecurringSeries } from '../handlers/get_user_recurring_series';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('getUserRecurringSeries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the user series with numeric amounts', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'a@example.com', username: 'usera', password_hash: 'x', first_name: 'A', last_name: 'User' },
+        { email: 'b@example.com', username: 'userb', password_hash: 'x', first_name: 'B', last_name: 'User' }
+      ])
+      .returning()
+      .execute();
+
+    const series = { title: 'Rent', amount: '900.50', category_id: DEFAULT_CATEGORY_IDS.OTHERS, frequency: 'MONTHLY' as const, start_date: '2024-01-01' };
+    await db.insert(recurringSeriesTable)
+      .values([
+        { ...series, user_id: users[0].id },
+        { ...series, user_id: users[0].id, title: 'Insurance', frequency: 'YEARLY' as const },
+        { ...series, user_id: users[1].id }
+      ])
+      .execute();
+
+    const result = await getUserRecurringSeries(users[0].id);
+
+    expect(result.map(item => item.title)).toEqual(['Rent', 'Insurance']);
+    expect(result[0].amount).toEqual(900.5);
+    expect(typeof result[0].amount).toBe('number');
+    expect(result[1].frequency).toEqual('YEARLY');
+  });
+
+  it('should return an empty list for users without series', async () => {
+    expect(await getUserRecurringSeries(99999)).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { importExchangeRates } from '../handlers/import_exchange_rates';
+import { parseExchangeRatesCsv, parseEcbXml, parseRateDate } from '../helpers/exchange_rate_files';
+import { asc } from 'drizzle-orm';
+
+const ecbXml = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <gesmes:Sender>
+    <gesmes:name>European Central Bank</gesmes:name>
+  </gesmes:Sender>
+  <Cube>
+    <Cube time='2024-01-03'>
+      <Cube currency='USD' rate='1.0919'/>
+      <Cube currency='JPY' rate='155.50'/>
+    </Cube>
+    <Cube time='2024-01-02'>
+      <Cube currency='USD' rate='1.0956'/>
+      <Cube currency='JPY' rate='155.08'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+// Layout of the ECB "eurofxref.csv" download
+const ecbCsv = 'Date, USD, JPY, BGN, \n03 January 2024, 1.0919, 155.50, N/A, \n';
+
+describe('exchange rate files', () => {
+  it('should parse ECB XML feeds', () => {
+    expect(parseEcbXml(ecbXml)).toEqual([
+      { base_currency: 'EUR', currency: 'USD', rate: 1.0919, rate_date: '2024-01-03' },
+      { base_currency: 'EUR', currency: 'JPY', rate: 155.5, rate_date: '2024-01-03' },
+      { base_currency: 'EUR', currency: 'USD', rate: 1.0956, rate_date: '2024-01-02' },
+      { base_currency: 'EUR', currency: 'JPY', rate: 155.08, rate_date: '2024-01-02' }
+    ]);
+  });
+
+  it('should parse the ECB CSV layout with one column per currency', () => {
+    expect(parseExchangeRatesCsv(ecbCsv, 'EUR')).toEqual([
+      { base_currency: 'EUR', currency: 'USD', rate: 1.0919, rate_date: '2024-01-03' },
+      { base_currency: 'EUR', currency: 'JPY', rate: 155.5, rate_date: '2024-01-03' }
+    ]);
+  });
+
+  it('should parse CSV files with one rate per row', () => {
+    const csv = 'date,base,currency,rate\n2024-01-02,USD,CAD,1.33\n2024-01-02,,GBP,0.86';
+
+    expect(parseExchangeRatesCsv(csv, 'EUR')).toEqual([
+      { base_currency: 'USD', currency: 'CAD', rate: 1.33, rate_date: '2024-01-02' },
+      { base_currency: 'EUR', currency: 'GBP', rate: 0.86, rate_date: '2024-01-02' }
+    ]);
+  });
+
+  it('should report malformed rows with their line number', () => {
+    expect(() => parseExchangeRatesCsv('currency,rate\nUSD,1', 'EUR')).toThrow(/"date" column/);
+    expect(() => parseExchangeRatesCsv('date,currency,rate\n2024-01-02,USD,1.1\n2024-02-30,USD,1.1', 'EUR')).toThrow(/invalid date "2024-02-30" on line 3/i);
+    expect(() => parseExchangeRatesCsv('date,currency,rate\n2024-01-02,USD,-1', 'EUR')).toThrow(/invalid exchange rate "-1" on line 2/i);
+    expect(() => parseExchangeRatesCsv('date,currency,rate\n2024-01-02,DOLLAR,1', 'EUR')).toThrow(/invalid currency code on line 2/i);
+    expect(() => parseEcbXml('<html></html>')).toThrow(/no exchange rates found/i);
+  });
+
+  it('should understand ISO and written dates', () => {
+    expect(parseRateDate('2024-1-5')).toEqual('2024-01-05');
+    expect(parseRateDate('5 Jan 2024')).toEqual('2024-01-05');
+    expect(parseRateDate('31 September 2024')).toBeNull();
+    expect(parseRateDate('01/05/2024')).toBeNull();
+  });
+});
+
+describe('importExchangeRates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const storedRates = () => db.select()
+    .from(exchangeRatesTable)
+    .orderBy(asc(exchangeRatesTable.rate_date), asc(exchangeRatesTable.currency))
+    .execute();
+
+  it('should store ECB rates against EUR', async () => {
+    const result = await importExchangeRates({ format: 'ECB_XML', content: ecbXml, base_currency: 'EUR' });
+
+    expect(result).toEqual({ imported: 4, currencies: ['EUR', 'JPY', 'USD'], date_from: '2024-01-02', date_to: '2024-01-03' });
+
+    const rates = await storedRates();
+    expect(rates.map(rate => [rate.rate_date, rate.base_currency, rate.currency, parseFloat(rate.rate), rate.source])).toEqual([
+      ['2024-01-02', 'EUR', 'JPY', 155.08, 'ECB_XML'],
+      ['2024-01-02', 'EUR', 'USD', 1.0956, 'ECB_XML'],
+      ['2024-01-03', 'EUR', 'JPY', 155.5, 'ECB_XML'],
+      ['2024-01-03', 'EUR', 'USD', 1.0919, 'ECB_XML']
+    ]);
+  });
+
+  it('should replace rates that were imported before', async () => {
+    await importExchangeRates({ format: 'ECB_XML', content: ecbXml, base_currency: 'EUR' });
+
+    const result = await importExchangeRates({
+      format: 'CSV',
+      content: 'date,currency,rate\n2024-01-03,USD,1.5\n2024-01-03,USD,1.1\n2024-01-04,USD,1.09',
+      base_currency: 'EUR'
+    });
+
+    expect(result.imported).toEqual(2);
+
+    const rates = await storedRates();
+    expect(rates).toHaveLength(5);
+    const updated = rates.find(rate => rate.rate_date === '2024-01-03' && rate.currency === 'USD')!;
+    expect(parseFloat(updated.rate)).toEqual(1.1);
+    expect(updated.source).toEqual('CSV');
+  });
+
+  it('should reject files without rates', async () => {
+    await expect(importExchangeRates({ format: 'CSV', content: 'date,currency,rate\n', base_currency: 'EUR' }))
+      .rejects.toThrow(/no exchange rates found/i);
+    expect(await storedRates()).toHaveLength(0);
+  });
+});
@@ -4,6 +4,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type LoginUserInput } from '../schema';
 import { loginUser } from '../handlers/login_user';
+import { verifyAuthToken } from '../helpers/auth_token';
 import { eq } from 'drizzle-orm';
 
 // Test user data
@@ -66,12 +67,12 @@ describe('loginUser', () => {
     expect(typeof result.token).toBe('string');
     expect(result.token.length).toBeGreaterThan(0);
 
-    // Verify token contains user data
-    const decodedToken = JSON.parse(Buffer.from(result.token, 'base64').toString());
-    expect(decodedToken.userId).toEqual(result.user.id);
-    expect(decodedToken.email).toEqual('test@example.com');
-    expect(decodedToken.role).toEqual('USER');
-    expect(decodedToken.exp).toBeGreaterThan(Date.now());
+    // Verify token is signed and contains user data
+    const claims = verifyAuthToken(result.token);
+    expect(claims.userId).toEqual(result.user.id);
+    expect(claims.email).toEqual('test@example.com');
+    expect(claims.role).toEqual('USER');
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
   });
 
   it('should update user last login timestamp', async () => {
@@ -147,8 +148,8 @@ describe('loginUser', () => {
     expect(result.user.email).toEqual('admin@example.com');
     
     // Verify token contains correct role
-    const decodedToken = JSON.parse(Buffer.from(result.token, 'base64').toString());
-    expect(decodedToken.role).toEqual('ADMIN');
+    const claims = verifyAuthToken(result.token);
+    expect(claims.role).toEqual('ADMIN');
   });
 
   it('should handle user with nullable fields correctly', async () => {
@@ -211,11 +212,11 @@ describe('loginUser', () => {
   it('should verify token expiration is set correctly', async () => {
     const result = await loginUser(validLoginInput);
     
-    const decodedToken = JSON.parse(Buffer.from(result.token, 'base64').toString());
-    const expectedExpiration = Date.now() + 24 * 60 * 60 * 1000; // 24 hours
+    const claims = verifyAuthToken(result.token);
+    const expectedExpiration = Math.floor(Date.now() / 1000) + 24 * 60 * 60; // 24 hours
     
     // Allow 1 second tolerance for test execution time
-    expect(decodedToken.exp).toBeGreaterThan(Date.now());
-    expect(decodedToken.exp).toBeLessThan(expectedExpiration + 1000);
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+    expect(claims.exp).toBeLessThanOrEqual(expectedExpiration + 1);
   });
 });
\ No newline at end of file
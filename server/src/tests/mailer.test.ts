@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { createConsoleMailTransport, createHttpMailTransport, redactTokens, type SentMailMessage } from '../helpers/mailer';
+
+const message: SentMailMessage = {
+  from: 'no-reply@example.com',
+  to: 'user@example.com',
+  subject: 'Reset your password',
+  text: 'Open http://localhost:3000/reset-password?token=abc123 to continue.',
+  sent_at: new Date()
+};
+
+describe('createHttpMailTransport', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: Array<{ authorization: string | null; body: any }>;
+  let status: number;
+
+  beforeEach(() => {
+    requests = [];
+    status = 200;
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push({ authorization: req.headers.get('authorization'), body: await req.json() });
+        return new Response('{}', { status });
+      }
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  it('should post the message with the API key', async () => {
+    const transport = createHttpMailTransport({ url: `http://localhost:${server.port}/emails`, apiKey: 'secret' });
+
+    await transport.send(message);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].authorization).toEqual('Bearer secret');
+    expect(requests[0].body).toEqual({ from: message.from, to: message.to, subject: message.subject, text: message.text });
+  });
+
+  it('should fail when the API refuses the message', async () => {
+    status = 422;
+    const transport = createHttpMailTransport({ url: `http://localhost:${server.port}/emails` });
+
+    await expect(transport.send(message)).rejects.toThrow(/failed with status 422/);
+  });
+});
+
+describe('createConsoleMailTransport', () => {
+  it('should log mail without its tokens', async () => {
+    const log = spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      await createConsoleMailTransport().send(message);
+
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(log.mock.calls[0][0]).toContain('reset-password?token=[redacted] to continue');
+      expect(log.mock.calls[0][0]).not.toContain('abc123');
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it('should redact every token parameter', () => {
+    expect(redactTokens('a?token=x1&next=/ b?id=2&token=y2')).toEqual('a?token=[redacted]&next=/ b?id=2&token=[redacted]');
+  });
+});
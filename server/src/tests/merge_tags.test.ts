@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, expensesTable, tagsTable, expenseTagsTable, type Expense } from '../db/schema';
+import { mergeTags } from '../handlers/merge_tags';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { loadExpenseTags, setExpenseTags } from '../helpers/tags';
+import { eq } from 'drizzle-orm';
+
+describe('mergeTags', () => {
+  let userId: number;
+  let otherUserId: number;
+  let expenses: Expense[];
+  let tagIds: Record<string, number>;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'user@test.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' },
+        { email: 'other@test.com', username: 'other', password_hash: 'x', first_name: 'O', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [userId, otherUserId] = users.map(user => user.id);
+
+    expenses = await db.insert(expensesTable)
+      .values([1, 2, 3].map(n => ({ user_id: userId, title: `Expense ${n}`, amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })))
+      .returning()
+      .execute();
+    await setExpenseTags(expenses[0].id, userId, ['Client A']);
+    await setExpenseTags(expenses[1].id, userId, ['client-a', 'Trip']);
+    await setExpenseTags(expenses[2].id, userId, ['Client A', 'ClientA']);
+
+    const tags = await db.select().from(tagsTable).execute();
+    tagIds = Object.fromEntries(tags.map(tag => [tag.name, tag.id]));
+  });
+
+  afterEach(resetDB);
+
+  it('should move the expenses of the sources onto the target', async () => {
+    const result = await mergeTags({ user_id: userId, source_ids: [tagIds['client-a'], tagIds['ClientA']], target_id: tagIds['Client A'] });
+
+    expect(result.id).toEqual(tagIds['Client A']);
+    expect(result.name).toEqual('Client A');
+    expect(result.expense_count).toEqual(3);
+
+    const tags = await loadExpenseTags(expenses.map(expense => expense.id));
+    expect(tags.get(expenses[0].id)).toEqual(['Client A']);
+    expect(tags.get(expenses[1].id)).toEqual(['Client A', 'Trip']);
+    expect(tags.get(expenses[2].id)).toEqual(['Client A']);
+  });
+
+  it('should delete the source tags', async () => {
+    await mergeTags({ user_id: userId, source_ids: [tagIds['client-a'], tagIds['ClientA']], target_id: tagIds['Client A'] });
+
+    const remaining = await db.select().from(tagsTable).where(eq(tagsTable.user_id, userId)).execute();
+    expect(remaining.map(tag => tag.name).sort()).toEqual(['Client A', 'Trip']);
+
+    const links = await db.select().from(expenseTagsTable).execute();
+    expect(links).toHaveLength(4);
+  });
+
+  it('should not merge a tag into itself', async () => {
+    await expect(mergeTags({ user_id: userId, source_ids: [tagIds['Client A']], target_id: tagIds['Client A'] })).rejects.toThrow(/into itself/i);
+  });
+
+  it('should only merge the user\'s own tags', async () => {
+    const [foreign] = await db.insert(tagsTable)
+      .values({ user_id: otherUserId, name: 'Foreign' })
+      .returning()
+      .execute();
+
+    await expect(mergeTags({ user_id: userId, source_ids: [foreign.id], target_id: tagIds['Client A'] })).rejects.toThrow(/tag not found/i);
+    await expect(mergeTags({ user_id: otherUserId, source_ids: [tagIds['ClientA']], target_id: foreign.id })).rejects.toThrow(/tag not found/i);
+
+    // Nothing changed
+    const tags = await db.select().from(tagsTable).where(eq(tagsTable.user_id, userId)).execute();
+    expect(tags).toHaveLength(4);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type RegisterUserInput } from '../schema';
+import { registerUser } from '../handlers/register_user';
+import { loginUser } from '../handlers/login_user';
+import { hashPassword, verifyPassword, needsRehash, detectHashFormat } from '../helpers/password';
+import { eq } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+const testPassword = 'correct horse battery';
+
+// Produces the `salt:hash` format written by the original registerUser
+const legacyPbkdf2Hash = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.pbkdf2Sync(password, salt, 100000, 64, 'sha512').toString('hex');
+  return `${salt}:${hash}`;
+};
+
+const hashFormats: Array<{ name: string; hash: (password: string) => Promise<string> }> = [
+  { name: 'argon2id', hash: (password) => hashPassword(password) },
+  { name: 'argon2i', hash: (password) => Bun.password.hash(password, { algorithm: 'argon2i' }) },
+  { name: 'argon2d', hash: (password) => Bun.password.hash(password, { algorithm: 'argon2d' }) },
+  { name: 'bcrypt', hash: (password) => Bun.password.hash(password, { algorithm: 'bcrypt', cost: 4 }) },
+  { name: 'pbkdf2', hash: async (password) => legacyPbkdf2Hash(password) }
+];
+
+describe('password hashing', () => {
+  it('should hash with argon2id by default', async () => {
+    const hash = await hashPassword(testPassword);
+
+    expect(detectHashFormat(hash)).toEqual('argon2id');
+    expect(needsRehash(hash)).toBe(false);
+    expect(await verifyPassword(testPassword, hash)).toBe(true);
+    expect(await verifyPassword('wrong password', hash)).toBe(false);
+  });
+
+  for (const format of hashFormats) {
+    it(`should verify ${format.name} hashes`, async () => {
+      const hash = await format.hash(testPassword);
+
+      expect(detectHashFormat(hash)).toEqual(format.name as any);
+      expect(await verifyPassword(testPassword, hash)).toBe(true);
+      expect(await verifyPassword('wrong password', hash)).toBe(false);
+      expect(needsRehash(hash)).toBe(format.name !== 'argon2id');
+    });
+  }
+
+  it('should reject unknown hash formats', async () => {
+    expect(detectHashFormat('plaintext')).toEqual('unknown');
+    expect(await verifyPassword('plaintext', 'plaintext')).toBe(false);
+    expect(needsRehash('plaintext')).toBe(true);
+  });
+});
+
+describe('register → login round trips', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should let a self-registered user log in', async () => {
+    const input: RegisterUserInput = {
+      email: 'roundtrip@example.com',
+      username: 'roundtrip',
+      password: testPassword,
+      first_name: 'Round',
+      last_name: 'Trip'
+    };
+
+    const registered = await registerUser(input);
+    const loggedIn = await loginUser({ email: input.email, password: testPassword });
+
+    expect(loggedIn.user.id).toEqual(registered.user.id);
+    await expect(loginUser({ email: input.email, password: 'wrong password' })).rejects.toThrow(/invalid email or password/i);
+  });
+
+  for (const format of hashFormats) {
+    it(`should log in with a stored ${format.name} hash and upgrade it`, async () => {
+      const storedHash = await format.hash(testPassword);
+      const [user] = await db.insert(usersTable)
+        .values({
+          email: `${format.name}@example.com`,
+          username: `${format.name}user`,
+          password_hash: storedHash,
+          first_name: 'Legacy',
+          last_name: 'User',
+          role: 'USER'
+        })
+        .returning()
+        .execute();
+
+      const result = await loginUser({ email: user.email, password: testPassword });
+      expect(result.user.id).toEqual(user.id);
+
+      const [updated] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(detectHashFormat(updated.password_hash)).toEqual('argon2id');
+      if (format.name === 'argon2id') {
+        expect(updated.password_hash).toEqual(storedHash); // Current format is left untouched
+      } else {
+        expect(updated.password_hash).not.toEqual(storedHash);
+      }
+
+      // The upgraded hash keeps working
+      const again = await loginUser({ email: user.email, password: testPassword });
+      expect(again.user.id).toEqual(user.id);
+    });
+  }
+});
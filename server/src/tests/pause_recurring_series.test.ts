@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, usersTable } from '../db/schema';
+import { pauseRecurringSeries } from '../handlers/pause_recurring_series';
+import { generateRecurringExpenses } from '../handlers/generate_recurring_expenses';
+import { addDays, toCalendarDate } from '../helpers/dates';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('pauseRecurringSeries', () => {
+  let seriesId: number;
+  const today = toCalendarDate(new Date());
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+
+    // Weekly series whose next occurrence fell due three weeks ago
+    const start = addDays(today, -35);
+    const series = await db.insert(recurringSeriesTable)
+      .values({
+        user_id: users[0].id,
+        title: 'Cleaning',
+        amount: '60.00',
+        category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+        frequency: 'WEEKLY',
+        start_date: start,
+        occurrence_count: 2,
+        last_occurrence_date: addDays(start, 7),
+        next_occurrence_date: addDays(start, 14)
+      })
+      .returning()
+      .execute();
+    seriesId = series[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should stop generating while paused', async () => {
+    const result = await pauseRecurringSeries({ id: seriesId, paused: true });
+    expect(result.is_paused).toBe(true);
+
+    await generateRecurringExpenses();
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses).toHaveLength(0);
+  });
+
+  it('should continue from today without backfilling when resumed', async () => {
+    await pauseRecurringSeries({ id: seriesId, paused: true });
+    const result = await pauseRecurringSeries({ id: seriesId, paused: false });
+
+    expect(result.is_paused).toBe(false);
+    expect(result.next_occurrence_date).toEqual(today);
+
+    await generateRecurringExpenses();
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses.map(expense => expense.recurrence_date)).toEqual([today]);
+  });
+
+  it('should throw for a missing series', async () => {
+    await expect(pauseRecurringSeries({ id: 99999, paused: true })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import { extractReceiptFields, extractDate, extractCurrency } from '../helpers/receipt_extraction';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+const cafeReceipt = `
+  BLUE BOTTLE CAFE
+  123 Market Street
+  San Francisco, CA
+  Tel: (415) 555-0100
+  03/15/2024 12:41
+
+  Latte            4.50
+  Croissant        3.75
+  SUBTOTAL         8.25
+  TAX              0.72
+  TOTAL           $8.97
+  VISA ****1234   $8.97
+  Thank you!
+`;
+
+const hotelReceipt = `
+  Hotel Adlon Kempinski
+  Unter den Linden 77, 10117 Berlin
+  Rechnung / Invoice
+  Datum: 02.11.2023
+  Übernachtung        1.180,00
+  Frühstück              64,00
+  Total Tax             237,88
+  Grand Total EUR     1.244,00
+`;
+
+describe('extractReceiptFields', () => {
+  it('should extract fields from a US cafe receipt', () => {
+    const fields = extractReceiptFields(cafeReceipt);
+
+    expect(fields.merchant).toEqual('BLUE BOTTLE CAFE');
+    expect(fields.total).toEqual(8.97);
+    expect(fields.date).toEqual(new Date(2024, 2, 15));
+    expect(fields.currency).toEqual('USD');
+    expect(fields.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+  });
+
+  it('should extract fields from a European hotel invoice', () => {
+    const fields = extractReceiptFields(hotelReceipt);
+
+    expect(fields.merchant).toEqual('Hotel Adlon Kempinski');
+    expect(fields.total).toEqual(1244);
+    expect(fields.date).toEqual(new Date(2023, 10, 2));
+    expect(fields.currency).toEqual('EUR');
+    expect(fields.category_id).toEqual(DEFAULT_CATEGORY_IDS.TRAVEL);
+  });
+
+  it('should prefer amount due over other totals', () => {
+    const fields = extractReceiptFields('Shop\nTotal items 3\nTotal 20.00\nDiscount 5.00\nAmount due 15.00');
+
+    expect(fields.total).toEqual(15);
+  });
+
+  it('should fall back to the largest amount without a total line', () => {
+    const fields = extractReceiptFields('Corner Store\nMilk 1.99\nBread 2.49\nCash 10.00');
+
+    expect(fields.total).toEqual(10);
+    expect(fields.category_id).toEqual(DEFAULT_CATEGORY_IDS.SHOPPING);
+  });
+
+  it('should return nulls for unreadable text', () => {
+    const fields = extractReceiptFields('~~ ## ~~\n\n..');
+
+    expect(fields).toEqual({ merchant: null, total: null, date: null, currency: null, category_id: DEFAULT_CATEGORY_IDS.OTHERS });
+  });
+});
+
+describe('extractDate', () => {
+  it('should understand common date formats', () => {
+    expect(extractDate('2024-01-31')).toEqual(new Date(2024, 0, 31));
+    expect(extractDate('31/01/2024')).toEqual(new Date(2024, 0, 31));
+    expect(extractDate('01/31/24')).toEqual(new Date(2024, 0, 31));
+    expect(extractDate('31.01.2024')).toEqual(new Date(2024, 0, 31));
+    expect(extractDate('31 Jan 2024')).toEqual(new Date(2024, 0, 31));
+    expect(extractDate('January 31, 2024')).toEqual(new Date(2024, 0, 31));
+  });
+
+  it('should reject impossible dates', () => {
+    expect(extractDate('2024-02-30')).toBeNull();
+    expect(extractDate('13/13/2024')).toBeNull();
+  });
+});
+
+describe('extractCurrency', () => {
+  it('should prefer ISO codes over symbols', () => {
+    expect(extractCurrency('Total $ 12.00 CAD')).toEqual('CAD');
+    expect(extractCurrency('Total £12.00')).toEqual('GBP');
+    expect(extractCurrency('Total 12.00')).toBeNull();
+  });
+});
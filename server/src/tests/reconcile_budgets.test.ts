@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable, expensesTable, usersTable } from '../db/schema';
+import { reconcileBudgets } from '../handlers/reconcile_budgets';
+import { periodStartOf, syncBudgetPeriods } from '../helpers/budget_periods';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('reconcileBudgets', () => {
+  let userId: number;
+  let budgetId: number;
+
+  const now = new Date();
+  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 10);
+
+  const periodsOf = (id: number) => db.select()
+    .from(budgetPeriodsTable)
+    .where(eq(budgetPeriodsTable.budget_id, id))
+    .orderBy(asc(budgetPeriodsTable.period_start))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const budgets = await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '200.00', created_at: lastMonth })
+      .returning()
+      .execute();
+    budgetId = budgets[0].id;
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: userId, title: 'Dinner', amount: '40.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: lastMonth },
+        { user_id: userId, title: 'Lunch', amount: '25.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: now },
+        { user_id: userId, title: 'Snack', amount: '9.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'PENDING', expense_date: now }
+      ])
+      .execute();
+
+    await syncBudgetPeriods(budgetId, now);
+    await db.update(budgetsTable).set({ current_spent: '25' }).where(eq(budgetsTable.id, budgetId)).execute();
+  });
+
+  afterEach(resetDB);
+
+  // Simulates the old incremental bookkeeping: pending spending counted twice
+  const introduceDrift = async () => {
+    const periods = await periodsOf(budgetId);
+    await db.update(budgetPeriodsTable).set({ spent: '80.00' }).where(eq(budgetPeriodsTable.id, periods[0].id)).execute();
+    await db.update(budgetsTable).set({ current_spent: '43.00' }).where(eq(budgetsTable.id, budgetId)).execute();
+  };
+
+  it('should report nothing when stored spending matches the expenses', async () => {
+    const result = await reconcileBudgets({ dry_run: false });
+
+    expect(result.budgets_checked).toEqual(1);
+    expect(result.drift).toEqual([]);
+  });
+
+  it('should report drift without fixing it on a dry run', async () => {
+    await introduceDrift();
+
+    const result = await reconcileBudgets({ dry_run: true });
+
+    expect(result.fixed).toBe(false);
+    expect(result.drift).toEqual([
+      { budget_id: budgetId, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, period_start: periodStartOf(lastMonth), figure: 'spent', stored: 80, actual: 40, difference: 40 },
+      { budget_id: budgetId, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, period_start: null, figure: 'spent', stored: 43, actual: 25, difference: 18 }
+    ]);
+
+    const budgets = await db.select().from(budgetsTable).where(eq(budgetsTable.id, budgetId)).execute();
+    expect(parseFloat(budgets[0].current_spent)).toEqual(43);
+  });
+
+  it('should overwrite drifted values', async () => {
+    await introduceDrift();
+
+    const result = await reconcileBudgets({ dry_run: false });
+    expect(result.fixed).toBe(true);
+    expect(result.drift).toHaveLength(2);
+
+    const periods = await periodsOf(budgetId);
+    expect(periods.map(period => parseFloat(period.spent))).toEqual([40, 25]);
+    const budgets = await db.select().from(budgetsTable).where(eq(budgetsTable.id, budgetId)).execute();
+    expect(parseFloat(budgets[0].current_spent)).toEqual(25);
+
+    const again = await reconcileBudgets({ dry_run: false });
+    expect(again.drift).toEqual([]);
+  });
+
+  it('should report and repair carried over amounts that disagree with the period before', async () => {
+    await db.update(budgetsTable).set({ carry_over: true }).where(eq(budgetsTable.id, budgetId)).execute();
+    const periods = await periodsOf(budgetId);
+    expect(parseFloat(periods[1].carried_over)).toEqual(0);
+
+    const dryRun = await reconcileBudgets({ dry_run: true });
+    expect(dryRun.drift).toEqual([
+      { budget_id: budgetId, user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, period_start: periodStartOf(now), figure: 'carried_over', stored: 0, actual: 160, difference: -160 }
+    ]);
+    expect(parseFloat((await periodsOf(budgetId))[1].carried_over)).toEqual(0);
+
+    await reconcileBudgets({ dry_run: false });
+    expect((await periodsOf(budgetId)).map(period => parseFloat(period.carried_over))).toEqual([0, 160]);
+
+    // The carried over amount follows the corrected spending of the month before
+    await introduceDrift();
+    const result = await reconcileBudgets({ dry_run: false });
+    expect(result.drift.map(drift => [drift.period_start, drift.figure])).toEqual([
+      [periodStartOf(lastMonth), 'spent'],
+      [null, 'spent']
+    ]);
+    expect((await periodsOf(budgetId)).map(period => parseFloat(period.carried_over))).toEqual([0, 160]);
+  });
+
+  it('should limit the check to one budget', async () => {
+    await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: '100.00', current_spent: '12.00' })
+      .execute();
+
+    const result = await reconcileBudgets({ budget_id: budgetId, dry_run: true });
+
+    expect(result.budgets_checked).toEqual(1);
+    expect(result.drift).toEqual([]);
+  });
+
+  it('should throw for a missing budget', async () => {
+    await expect(reconcileBudgets({ budget_id: 99999, dry_run: true })).rejects.toThrow(/budget not found/i);
+  });
+});
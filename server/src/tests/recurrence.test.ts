@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'bun:test';
+import { isOccurrence, nextOccurrence, parseRecurrenceRule, validateSchedule, type RecurrenceSchedule } from '../helpers/recurrence';
+
+const schedule = (overrides: Partial<RecurrenceSchedule>): RecurrenceSchedule => ({
+  frequency: 'MONTHLY',
+  interval: 1,
+  rule: null,
+  start_date: '2024-01-31',
+  end_date: null,
+  ...overrides
+});
+
+// Lists the first `count` occurrences of a schedule
+const occurrences = (value: RecurrenceSchedule, count: number): string[] => {
+  const days: string[] = [];
+  let day = nextOccurrence(value, null);
+  while (day !== null && days.length < count) {
+    days.push(day);
+    day = nextOccurrence(value, day);
+  }
+  return days;
+};
+
+describe('nextOccurrence', () => {
+  it('should clamp monthly occurrences to the end of shorter months', () => {
+    expect(occurrences(schedule({}), 4)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('should repeat weekly series every interval weeks', () => {
+    expect(occurrences(schedule({ frequency: 'WEEKLY', interval: 2, start_date: '2024-01-01' }), 3))
+      .toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+  });
+
+  it('should repeat yearly series on the start day', () => {
+    expect(occurrences(schedule({ frequency: 'YEARLY', start_date: '2024-02-29' }), 3))
+      .toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  it('should find the occurrence after a given day', () => {
+    expect(nextOccurrence(schedule({ start_date: '2020-01-15' }), '2024-06-15')).toEqual('2024-07-15');
+    expect(nextOccurrence(schedule({ start_date: '2020-01-15' }), '2024-06-14')).toEqual('2024-06-15');
+    expect(nextOccurrence(schedule({ start_date: '2020-01-15', interval: 3 }), '2024-06-14')).toEqual('2024-07-15');
+  });
+
+  it('should stop at the end date', () => {
+    expect(occurrences(schedule({ start_date: '2024-01-10', end_date: '2024-03-10' }), 10))
+      .toEqual(['2024-01-10', '2024-02-10', '2024-03-10']);
+  });
+
+  it('should follow custom rules', () => {
+    const custom = (rule: string, start_date = '2024-01-01') => schedule({ frequency: 'CUSTOM', rule, start_date });
+
+    expect(occurrences(custom('1,15 * *'), 4)).toEqual(['2024-01-01', '2024-01-15', '2024-02-01', '2024-02-15']);
+    expect(occurrences(custom('* * MON-FRI', '2024-01-05'), 3)).toEqual(['2024-01-05', '2024-01-08', '2024-01-09']);
+    expect(occurrences(custom('L */3 *'), 3)).toEqual(['2024-01-31', '2024-04-30', '2024-07-31']);
+    expect(occurrences(custom('0 9 1 JAN,JUL *'), 2)).toEqual(['2024-01-01', '2024-07-01']);
+  });
+});
+
+describe('isOccurrence', () => {
+  it('should match only scheduled days', () => {
+    expect(isOccurrence(schedule({ start_date: '2024-01-15' }), '2024-03-15')).toBe(true);
+    expect(isOccurrence(schedule({ start_date: '2024-01-15' }), '2024-03-16')).toBe(false);
+    expect(isOccurrence(schedule({ start_date: '2024-01-15' }), '2023-12-15')).toBe(false);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('should reject invalid schedules', () => {
+    expect(() => validateSchedule(schedule({ frequency: 'CUSTOM' }))).toThrow(/requires a rule/i);
+    expect(() => validateSchedule(schedule({ interval: 0 }))).toThrow(/interval/i);
+    expect(() => validateSchedule(schedule({ end_date: '2023-12-31' }))).toThrow(/end date/i);
+  });
+
+  it('should reject malformed rules', () => {
+    expect(() => parseRecurrenceRule('1 *')).toThrow(/fields/i);
+    expect(() => parseRecurrenceRule('32 * *')).toThrow(/invalid/i);
+    expect(() => parseRecurrenceRule('* * FUNDAY')).toThrow(/invalid/i);
+    expect(() => parseRecurrenceRule('*/0 * *')).toThrow(/step/i);
+  });
+});
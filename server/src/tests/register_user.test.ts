@@ -4,6 +4,9 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type RegisterUserInput } from '../schema';
 import { registerUser } from '../handlers/register_user';
+import { verifyAuthToken } from '../helpers/auth_token';
+import { createMemoryMailTransport, setMailTransport } from '../helpers/mailer';
+import { hashOneTimeToken } from '../helpers/one_time_token';
 import { eq } from 'drizzle-orm';
 
 // Test input data
@@ -12,8 +15,7 @@ const testInput: RegisterUserInput = {
   username: 'testuser',
   password: 'password123',
   first_name: 'Test',
-  last_name: 'User',
-  role: 'USER'
+  last_name: 'User'
 };
 
 const adminInput: RegisterUserInput = {
@@ -21,13 +23,22 @@ const adminInput: RegisterUserInput = {
   username: 'admin',
   password: 'adminpass123',
   first_name: 'Admin',
-  last_name: 'User',
-  role: 'ADMIN'
+  last_name: 'User'
 };
 
 describe('registerUser', () => {
-  beforeEach(createDB);
-  afterEach(resetDB);
+  let mailTransport: ReturnType<typeof createMemoryMailTransport>;
+
+  beforeEach(async () => {
+    await createDB();
+    mailTransport = createMemoryMailTransport();
+    setMailTransport(mailTransport);
+  });
+
+  afterEach(async () => {
+    setMailTransport(null);
+    await resetDB();
+  });
 
   it('should successfully register a new user', async () => {
     const result = await registerUser(testInput);
@@ -42,7 +53,7 @@ describe('registerUser', () => {
     expect(result.user.username).toEqual(testInput.username);
     expect(result.user.first_name).toEqual(testInput.first_name);
     expect(result.user.last_name).toEqual(testInput.last_name);
-    expect(result.user.role).toEqual(testInput.role);
+    expect(result.user.role).toEqual('USER');
     expect(result.user.id).toBeDefined();
     expect(result.user.created_at).toBeInstanceOf(Date);
     expect(result.user.updated_at).toBeInstanceOf(Date);
@@ -68,14 +79,14 @@ describe('registerUser', () => {
     expect(user.username).toEqual(testInput.username);
     expect(user.first_name).toEqual(testInput.first_name);
     expect(user.last_name).toEqual(testInput.last_name);
-    expect(user.role).toEqual(testInput.role);
+    expect(user.role).toEqual('USER');
     expect(user.email_verified).toBe(false);
     expect(user.is_active).toBe(true);
 
     // Verify password is hashed (not plain text)
     expect(user.password_hash).toBeDefined();
     expect(user.password_hash).not.toEqual(testInput.password);
-    expect(user.password_hash.includes(':')).toBe(true); // Salt:hash format
+    expect(user.password_hash.startsWith('$argon2id$')).toBe(true); // Current hash format
 
     // Verify verification token is generated
     expect(user.email_verification_token).toBeDefined();
@@ -83,33 +94,10 @@ describe('registerUser', () => {
     expect(typeof user.email_verification_token).toBe('string');
   });
 
-  it('should default role to USER when not specified', async () => {
-    const inputWithoutRole: RegisterUserInput = {
-      email: 'norole@example.com',
-      username: 'noroleuser',
-      password: 'password123',
-      first_name: 'No',
-      last_name: 'Role',
-      role: 'USER'  // Note: Zod handles the default, but TypeScript requires explicit typing
-    };
-
-    const result = await registerUser(inputWithoutRole);
-
-    expect(result.user.role).toEqual('USER');
-
-    // Verify in database
-    const users = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, result.user.id))
-      .execute();
-
-    expect(users[0].role).toEqual('USER');
-  });
-
-  it('should register admin user with ADMIN role', async () => {
+  it('should register every new user as USER', async () => {
     const result = await registerUser(adminInput);
 
-    expect(result.user.role).toEqual('ADMIN');
+    expect(result.user.role).toEqual('USER');
     expect(result.user.email).toEqual(adminInput.email);
     expect(result.user.username).toEqual(adminInput.username);
 
@@ -119,7 +107,7 @@ describe('registerUser', () => {
       .where(eq(usersTable.id, result.user.id))
       .execute();
 
-    expect(users[0].role).toEqual('ADMIN');
+    expect(users[0].role).toEqual('USER');
   });
 
   it('should generate valid JWT token', async () => {
@@ -135,10 +123,11 @@ describe('registerUser', () => {
       expect(part.length).toBeGreaterThan(0);
     });
 
-    // Decode and verify payload contains user info
-    const payload = JSON.parse(Buffer.from(tokenParts[1], 'base64url').toString());
+    // Verify signature and payload contains user info
+    const payload = verifyAuthToken(result.token);
     expect(payload.userId).toEqual(result.user.id);
     expect(payload.email).toEqual(result.user.email);
+    expect(payload.role).toEqual(result.user.role);
     expect(payload.iat).toBeDefined();
     expect(payload.exp).toBeDefined();
     expect(payload.exp).toBeGreaterThan(payload.iat);
@@ -192,6 +181,23 @@ describe('registerUser', () => {
     expect(emails).toContain(adminInput.email);
   });
 
+  it('should email a verification link matching the stored token hash', async () => {
+    const result = await registerUser(testInput);
+
+    expect(mailTransport.sent).toHaveLength(1);
+    expect(mailTransport.sent[0].to).toEqual(testInput.email);
+
+    const match = mailTransport.sent[0].text.match(/\/verify-email\?token=([A-Za-z0-9_-]+)/);
+    expect(match).not.toBeNull();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.user.id))
+      .execute();
+
+    expect(users[0].email_verification_token).toEqual(hashOneTimeToken(match![1]));
+  });
+
   it('should generate unique verification tokens for different users', async () => {
     const user1 = await registerUser(testInput);
     const user2 = await registerUser(adminInput);
@@ -214,8 +220,7 @@ describe('registerUser', () => {
       username: 'otheruser', 
       password: testInput.password, // Same password
       first_name: 'Other',
-      last_name: 'User',
-      role: 'USER' as const
+      last_name: 'User'
     };
     
     const user2 = await registerUser(samePasswordInput);
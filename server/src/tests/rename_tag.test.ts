@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, expensesTable, tagsTable, type Tag } from '../db/schema';
+import { renameTag } from '../handlers/rename_tag';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { loadExpenseTags, setExpenseTags } from '../helpers/tags';
+import { eq } from 'drizzle-orm';
+import { searchExpenses } from '../handlers/search_expenses';
+
+describe('renameTag', () => {
+  let userId: number;
+  let otherUserId: number;
+  let expenseId: number;
+  let client: Tag;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'user@test.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' },
+        { email: 'other@test.com', username: 'other', password_hash: 'x', first_name: 'O', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [userId, otherUserId] = users.map(user => user.id);
+
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: userId, title: 'Taxi', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })
+      .returning()
+      .execute();
+    expenseId = expense.id;
+    await setExpenseTags(expenseId, userId, ['client', 'Trip']);
+
+    [client] = await db.select().from(tagsTable).where(eq(tagsTable.name, 'client')).execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should rename the tag on every expense', async () => {
+    const result = await renameTag({ id: client.id, user_id: userId, name: 'Client A' });
+
+    expect(result.name).toEqual('Client A');
+    expect(result.expense_count).toEqual(1);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(client.updated_at.getTime());
+
+    const tags = await loadExpenseTags([expenseId]);
+    expect(tags.get(expenseId)).toEqual(['Client A', 'Trip']);
+  });
+
+  it('should make the expenses searchable by the new name', async () => {
+    await renameTag({ id: client.id, user_id: userId, name: 'Acme' });
+
+    expect((await searchExpenses(userId, 'acme')).results.map(expense => expense.id)).toEqual([expenseId]);
+    expect((await searchExpenses(userId, 'client')).results).toEqual([]);
+  });
+
+  it('should allow changing only the case', async () => {
+    const result = await renameTag({ id: client.id, user_id: userId, name: 'Client' });
+
+    expect(result.name).toEqual('Client');
+  });
+
+  it('should refuse names of the user\'s other tags', async () => {
+    await expect(renameTag({ id: client.id, user_id: userId, name: 'TRIP' })).rejects.toThrow(/already exists/i);
+  });
+
+  it('should allow names other users have', async () => {
+    await db.insert(tagsTable).values({ user_id: otherUserId, name: 'Client A' }).execute();
+
+    const result = await renameTag({ id: client.id, user_id: userId, name: 'Client A' });
+    expect(result.name).toEqual('Client A');
+  });
+
+  it('should not rename tags of other users', async () => {
+    await expect(renameTag({ id: client.id, user_id: otherUserId, name: 'Mine' })).rejects.toThrow(/tag not found/i);
+    await expect(renameTag({ id: 99999, user_id: userId, name: 'Missing' })).rejects.toThrow(/tag not found/i);
+  });
+});
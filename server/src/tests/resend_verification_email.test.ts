@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { resendVerificationEmail } from '../handlers/resend_verification_email';
+import { createMemoryMailTransport, setMailTransport } from '../helpers/mailer';
+import { hashOneTimeToken } from '../helpers/one_time_token';
+import { eq } from 'drizzle-orm';
+
+describe('resendVerificationEmail', () => {
+  let mailTransport: ReturnType<typeof createMemoryMailTransport>;
+
+  beforeEach(async () => {
+    await createDB();
+    mailTransport = createMemoryMailTransport();
+    setMailTransport(mailTransport);
+  });
+
+  afterEach(async () => {
+    setMailTransport(null);
+    await resetDB();
+  });
+
+  const createUser = async (emailVerified: boolean) => {
+    const result = await db.insert(usersTable)
+      .values({
+        email: 'resend@example.com',
+        username: 'resenduser',
+        password_hash: 'hash',
+        first_name: 'Resend',
+        last_name: 'User',
+        role: 'USER',
+        email_verified: emailVerified,
+        email_verification_token: emailVerified ? null : 'old-token-hash'
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should send a new verification link and replace the stored token', async () => {
+    const user = await createUser(false);
+
+    const result = await resendVerificationEmail(user.id);
+
+    expect(result.success).toBe(true);
+    expect(mailTransport.sent).toHaveLength(1);
+    expect(mailTransport.sent[0].to).toEqual('resend@example.com');
+
+    const match = mailTransport.sent[0].text.match(/\/verify-email\?token=([A-Za-z0-9_-]+)/);
+    expect(match).not.toBeNull();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].email_verification_token).not.toEqual('old-token-hash');
+    expect(users[0].email_verification_token).toEqual(hashOneTimeToken(match![1]));
+  });
+
+  it('should reject already verified users', async () => {
+    const user = await createUser(true);
+
+    await expect(resendVerificationEmail(user.id)).rejects.toThrow(/already verified/i);
+    expect(mailTransport.sent).toHaveLength(0);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(resendVerificationEmail(9999)).rejects.toThrow(/not found/i);
+  });
+});
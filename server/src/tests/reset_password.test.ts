@@ -5,6 +5,8 @@ import { usersTable } from '../db/schema';
 import { type ResetPasswordInput } from '../schema';
 import { resetPassword } from '../handlers/reset_password';
 import { eq } from 'drizzle-orm';
+import { createMemoryMailTransport, setMailTransport } from '../helpers/mailer';
+import { hashOneTimeToken } from '../helpers/one_time_token';
 
 // Test user data
 const testUser = {
@@ -30,8 +32,18 @@ const inactiveUser = {
 };
 
 describe('resetPassword', () => {
-  beforeEach(createDB);
-  afterEach(resetDB);
+  let mailTransport: ReturnType<typeof createMemoryMailTransport>;
+
+  beforeEach(async () => {
+    await createDB();
+    mailTransport = createMemoryMailTransport();
+    setMailTransport(mailTransport);
+  });
+
+  afterEach(async () => {
+    setMailTransport(null);
+    await resetDB();
+  });
 
   it('should generate reset token for valid active user', async () => {
     // Create test user
@@ -64,8 +76,8 @@ describe('resetPassword', () => {
     expect(updatedUser.password_reset_expires).toBeInstanceOf(Date);
     expect(updatedUser.updated_at).toBeInstanceOf(Date);
 
-    // Check token format
-    expect(updatedUser.password_reset_token).toMatch(/^reset_\d+_[a-z0-9]+$/);
+    // Only a sha256 digest of the token is stored
+    expect(updatedUser.password_reset_token).toMatch(/^[0-9a-f]{64}$/);
 
     // Check expiry is approximately 1 hour from now (within 5 minutes tolerance)
     const expectedExpiry = new Date(Date.now() + 60 * 60 * 1000);
@@ -73,6 +85,41 @@ describe('resetPassword', () => {
     expect(timeDiff).toBeLessThan(5 * 60 * 1000); // 5 minutes tolerance
   });
 
+  it('should email a reset link containing the plain token', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    await resetPassword({ email: 'test@example.com' });
+
+    expect(mailTransport.sent).toHaveLength(1);
+    const message = mailTransport.sent[0];
+    expect(message.to).toEqual('test@example.com');
+    expect(message.subject).toMatch(/reset/i);
+
+    const match = message.text.match(/\/reset-password\?token=([A-Za-z0-9_-]+)/);
+    expect(match).not.toBeNull();
+
+    // The emailed token is the one whose hash was stored
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userResult[0].id))
+      .execute();
+    expect(users[0].password_reset_token).toEqual(hashOneTimeToken(match![1]));
+  });
+
+  it('should not send mail for unknown or inactive users', async () => {
+    await db.insert(usersTable)
+      .values(inactiveUser)
+      .execute();
+
+    await resetPassword({ email: 'nonexistent@example.com' });
+    await resetPassword({ email: 'inactive@example.com' });
+
+    expect(mailTransport.sent).toHaveLength(0);
+  });
+
   it('should return success for non-existent email (security)', async () => {
     const input: ResetPasswordInput = {
       email: 'nonexistent@example.com'
@@ -179,7 +226,7 @@ describe('resetPassword', () => {
     const updatedUser = updatedUsers[0];
     expect(updatedUser.password_reset_token).not.toBe(existingToken);
     expect(updatedUser.password_reset_expires).not.toEqual(existingExpiry);
-    expect(updatedUser.password_reset_token).toMatch(/^reset_\d+_[a-z0-9]+$/);
+    expect(updatedUser.password_reset_token).toMatch(/^[0-9a-f]{64}$/);
   });
 
   it('should handle multiple reset requests for same user', async () => {
@@ -222,7 +269,7 @@ describe('resetPassword', () => {
 
     // Tokens should be different
     expect(secondToken).not.toBe(firstToken);
-    expect(secondToken).toMatch(/^reset_\d+_[a-z0-9]+$/);
+    expect(secondToken).toMatch(/^[0-9a-f]{64}$/);
   });
 
   it('should validate email format through Zod schema', async () => {
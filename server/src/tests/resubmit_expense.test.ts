@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, teamsTable, usersTable } from '../db/schema';
+import { approveExpense } from '../handlers/approve_expense';
+import { resubmitExpense } from '../handlers/resubmit_expense';
+import { updateExpense } from '../handlers/update_expense';
+import { getExpenseApprovals } from '../handlers/get_expense_approvals';
+import { getPendingApprovals } from '../handlers/get_pending_approvals';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('resubmitExpense', () => {
+  let managerId: number;
+  let memberId: number;
+  let expenseId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+
+    const expenses = await db.insert(expensesTable)
+      .values({ user_id: memberId, team_id: teams[0].id, title: 'Hotel', amount: '200.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })
+      .returning()
+      .execute();
+    expenseId = expenses[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should send an edited expense back for approval', async () => {
+    await approveExpense({ expense_id: expenseId, approved_by: managerId, status: 'CHANGES_REQUESTED', comment: 'Attach the receipt' });
+    await updateExpense({ id: expenseId, description: 'Receipt attached' });
+
+    const result = await resubmitExpense({ expense_id: expenseId });
+
+    expect(result.status).toEqual('PENDING');
+    expect(result.approved_by).toBeNull();
+    expect(result.approved_at).toBeNull();
+    expect(result.description).toEqual('Receipt attached');
+    expect((await getPendingApprovals(managerId)).map(expense => expense.id)).toEqual([expenseId]);
+  });
+
+  it('should keep the earlier decisions in the approval history', async () => {
+    await approveExpense({ expense_id: expenseId, approved_by: managerId, status: 'CHANGES_REQUESTED', comment: 'Attach the receipt' });
+    await resubmitExpense({ expense_id: expenseId });
+    await approveExpense({ expense_id: expenseId, approved_by: managerId, status: 'APPROVED', comment: 'Looks good' });
+
+    const history = await getExpenseApprovals({ expense_id: expenseId });
+
+    expect(history.map(step => [step.round, step.step, step.status, step.comment])).toEqual([
+      [1, 1, 'CHANGES_REQUESTED', 'Attach the receipt'],
+      [2, 1, 'APPROVED', 'Looks good']
+    ]);
+  });
+
+  it('should only resubmit expenses with changes requested', async () => {
+    await expect(resubmitExpense({ expense_id: expenseId })).rejects.toThrow(/only expenses with changes requested/i);
+
+    await approveExpense({ expense_id: expenseId, approved_by: managerId, status: 'REJECTED', comment: 'Duplicate' });
+    await expect(resubmitExpense({ expense_id: expenseId })).rejects.toThrow(/only expenses with changes requested/i);
+  });
+
+  it('should throw for an unknown expense', async () => {
+    await expect(resubmitExpense({ expense_id: 99999 })).rejects.toThrow(/expense not found/i);
+  });
+});
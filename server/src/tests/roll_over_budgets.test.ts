@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetPeriodsTable, budgetsTable, expensesTable, usersTable } from '../db/schema';
+import { rollOverBudgets } from '../handlers/roll_over_budgets';
+import { asc } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('rollOverBudgets', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start the new month for every budget', async () => {
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    const userId = users[0].id;
+
+    await db.insert(budgetsTable)
+      .values([
+        { user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '300.00', current_spent: '120.00', created_at: new Date(2024, 1, 1) },
+        { user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, monthly_limit: '800.00', current_spent: '0', is_active: false, created_at: new Date(2024, 1, 1) }
+      ])
+      .execute();
+    await db.insert(expensesTable)
+      .values([
+        { user_id: userId, title: 'Groceries', amount: '120.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: new Date(2024, 1, 20) },
+        { user_id: userId, title: 'Bakery', amount: '8.40', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: new Date(2024, 2, 1) }
+      ])
+      .execute();
+
+    const now = new Date(2024, 2, 1, 1);
+    expect(await rollOverBudgets(now)).toEqual({ budgets_processed: 2 });
+
+    const budgets = await db.select().from(budgetsTable).orderBy(asc(budgetsTable.id)).execute();
+    expect(parseFloat(budgets[0].current_spent)).toEqual(8.4);
+    expect(parseFloat(budgets[1].current_spent)).toEqual(0);
+
+    const periods = await db.select()
+      .from(budgetPeriodsTable)
+      .orderBy(asc(budgetPeriodsTable.budget_id), asc(budgetPeriodsTable.period_start))
+      .execute();
+    expect(periods.map(period => [period.budget_id, period.period_start, parseFloat(period.spent)])).toEqual([
+      [budgets[0].id, '2024-02-01', 120],
+      [budgets[0].id, '2024-03-01', 8.4],
+      [budgets[1].id, '2024-02-01', 0],
+      [budgets[1].id, '2024-03-01', 0]
+    ]);
+
+    // Running again in the same month adds no periods
+    await rollOverBudgets(new Date(2024, 2, 5));
+    expect(await db.select().from(budgetPeriodsTable).execute()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobRunsTable, schedulerLocksTable } from '../db/schema';
+import { acquireLeadership, enqueueJobRun, releaseLeadership, retryDelay, runSchedulerTick, type JobDefinition } from '../scheduler';
+import { asc, eq } from 'drizzle-orm';
+
+const MINUTE = 60 * 1000;
+
+describe('scheduler', () => {
+  let calls: Date[];
+  let failures: number;
+
+  const job = (overrides: Partial<JobDefinition> = {}): JobDefinition => ({
+    name: 'TEST_JOB',
+    interval: 60 * MINUTE,
+    max_attempts: 3,
+    retry_delay: MINUTE,
+    timeout: 10 * MINUTE,
+    run: async (now) => {
+      calls.push(now);
+      if (failures > 0) {
+        failures--;
+        throw new Error('Temporary failure');
+      }
+      return { processed: calls.length };
+    },
+    ...overrides
+  });
+
+  const runs = () => db.select().from(jobRunsTable).orderBy(asc(jobRunsTable.id)).execute();
+  const at = (minutes: number) => new Date(2024, 0, 1, 12, minutes);
+
+  beforeEach(async () => {
+    await createDB();
+    calls = [];
+    failures = 0;
+  });
+
+  afterEach(resetDB);
+
+  describe('leadership', () => {
+    it('should grant the lease to one worker until it expires', async () => {
+      expect(await acquireLeadership('a', at(0), 2 * MINUTE)).toBe(true);
+      expect(await acquireLeadership('b', at(1), 2 * MINUTE)).toBe(false);
+      expect(await acquireLeadership('a', at(1), 2 * MINUTE)).toBe(true); // renewed until 12:03
+      expect(await acquireLeadership('b', at(2), 2 * MINUTE)).toBe(false);
+      expect(await acquireLeadership('b', at(4), 2 * MINUTE)).toBe(true);
+      expect(await acquireLeadership('a', at(5), 2 * MINUTE)).toBe(false);
+    });
+
+    it('should free the lease on release', async () => {
+      await acquireLeadership('a', at(0));
+      await releaseLeadership('b');
+      expect(await db.select().from(schedulerLocksTable).execute()).toHaveLength(1);
+
+      await releaseLeadership('a');
+      expect(await acquireLeadership('b', at(0))).toBe(true);
+    });
+
+    it('should only run jobs on the leader', async () => {
+      expect(await runSchedulerTick([job()], 'a', at(0))).toEqual(1);
+      expect(await runSchedulerTick([job()], 'b', at(0))).toBeNull();
+      expect(calls).toHaveLength(1);
+    });
+  });
+
+  it('should run jobs once per interval and record the result', async () => {
+    await runSchedulerTick([job()], 'a', at(0));
+    await runSchedulerTick([job()], 'a', at(30));
+    await runSchedulerTick([job()], 'a', at(60));
+
+    expect(calls).toEqual([at(0), at(60)]);
+
+    const rows = await runs();
+    expect(rows).toHaveLength(2);
+    expect(rows[0].status).toEqual('SUCCEEDED');
+    expect(rows[0].trigger).toEqual('SCHEDULE');
+    expect(rows[0].worker).toEqual('a');
+    expect(rows[0].started_at).toBeInstanceOf(Date);
+    expect(rows[0].finished_at).toBeInstanceOf(Date);
+    expect(JSON.parse(rows[0].result!)).toEqual({ processed: 1 });
+  });
+
+  it('should retry failed runs with exponential backoff', async () => {
+    failures = 2;
+
+    await runSchedulerTick([job()], 'a', at(0));
+    let rows = await runs();
+    expect(rows.map(row => row.status)).toEqual(['FAILED', 'PENDING']);
+    expect(rows[0].error).toEqual('Temporary failure');
+    expect(rows[1].trigger).toEqual('RETRY');
+    expect(rows[1].attempt).toEqual(2);
+    expect(rows[1].scheduled_for).toEqual(at(1));
+
+    // Not due yet
+    await runSchedulerTick([job()], 'a', at(0));
+    expect(calls).toHaveLength(1);
+
+    await runSchedulerTick([job()], 'a', at(1));
+    rows = await runs();
+    expect(rows[2].attempt).toEqual(3);
+    expect(rows[2].scheduled_for).toEqual(at(3));
+
+    await runSchedulerTick([job()], 'a', at(3));
+    rows = await runs();
+    expect(rows.map(row => row.status)).toEqual(['FAILED', 'FAILED', 'SUCCEEDED']);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should stop retrying after the last attempt', async () => {
+    failures = 10;
+
+    for (const minute of [0, 1, 3, 7]) {
+      await runSchedulerTick([job()], 'a', at(minute));
+    }
+
+    const rows = await runs();
+    expect(rows.map(row => [row.attempt, row.status])).toEqual([[1, 'FAILED'], [2, 'FAILED'], [3, 'FAILED']]);
+  });
+
+  it('should recover runs interrupted by a lost worker', async () => {
+    const run = await enqueueJobRun(job(), 'SCHEDULE', at(0));
+    await db.update(jobRunsTable)
+      .set({ status: 'RUNNING', started_at: at(0), worker: 'gone' })
+      .where(eq(jobRunsTable.id, run.id))
+      .execute();
+
+    await runSchedulerTick([job()], 'a', at(5));
+    expect(calls).toHaveLength(0);
+
+    await runSchedulerTick([job()], 'a', at(11));
+    const rows = await runs();
+    expect(rows[0].status).toEqual('FAILED');
+    expect(rows[0].error).toMatch(/interrupted/i);
+    expect(rows[1].trigger).toEqual('RETRY');
+    expect(rows[1].scheduled_for).toEqual(at(12));
+  });
+
+  it('should run manually queued runs without waiting for the interval', async () => {
+    await runSchedulerTick([job()], 'a', at(0));
+    await enqueueJobRun(job(), 'MANUAL', at(10));
+
+    await runSchedulerTick([job()], 'a', at(10));
+
+    expect(calls).toEqual([at(0), at(10)]);
+    const rows = await runs();
+    expect(rows[1].trigger).toEqual('MANUAL');
+    expect(rows[1].status).toEqual('SUCCEEDED');
+  });
+
+  it('should compute the backoff delay', () => {
+    expect([1, 2, 3, 4].map(attempt => retryDelay(job(), attempt))).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+  });
+});
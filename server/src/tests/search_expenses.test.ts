@@ -2,7 +2,11 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, expensesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
 import { searchExpenses } from '../handlers/search_expenses';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
+import { refreshSearchVectors } from '../helpers/expense_search';
 
 // Test user data
 const testUser = {
@@ -23,7 +27,7 @@ const testExpenses = [
     title: 'Lunch at Restaurant',
     description: 'Italian food with colleagues',
     amount: '25.50',
-    category: 'FOOD_DINING' as const,
+    category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
     status: 'APPROVED' as const,
     expense_date: new Date('2024-01-15'),
     is_recurring: false
@@ -33,7 +37,7 @@ const testExpenses = [
     title: 'Coffee Meeting',
     description: 'Business meeting at Starbucks',
     amount: '12.75',
-    category: 'FOOD_DINING' as const,
+    category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
     status: 'PENDING' as const,
     expense_date: new Date('2024-01-20'),
     is_recurring: false
@@ -43,7 +47,7 @@ const testExpenses = [
     title: 'Uber Ride',
     description: 'Transportation to airport',
     amount: '45.00',
-    category: 'TRANSPORTATION' as const,
+    category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
     status: 'APPROVED' as const,
     expense_date: new Date('2024-01-10'),
     is_recurring: false
@@ -53,7 +57,7 @@ const testExpenses = [
     title: 'Grocery Shopping',
     description: 'Weekly food supplies',
     amount: '87.20',
-    category: 'SHOPPING' as const,
+    category_id: DEFAULT_CATEGORY_IDS.SHOPPING,
     status: 'APPROVED' as const,
     expense_date: new Date('2024-02-01'),
     is_recurring: true
@@ -63,7 +67,7 @@ const testExpenses = [
     title: 'Restaurant Dinner',
     description: 'Family dinner',
     amount: '120.00',
-    category: 'FOOD_DINING' as const,
+    category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
     status: 'APPROVED' as const,
     expense_date: new Date('2024-01-16'),
     is_recurring: false
@@ -80,14 +84,15 @@ describe('searchExpenses', () => {
       { ...testUser, id: 2, email: 'test2@example.com', username: 'testuser2' }
     ]);
     
-    // Create test expenses
+    // Create test expenses; inserted directly, so their search documents are built here
     await db.insert(expensesTable).values(testExpenses);
+    await refreshSearchVectors();
   });
 
   afterEach(resetDB);
 
   it('should search expenses by title', async () => {
-    const results = await searchExpenses(1, 'lunch');
+    const { results } = await searchExpenses(1, 'lunch');
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Lunch at Restaurant');
@@ -96,7 +101,7 @@ describe('searchExpenses', () => {
   });
 
   it('should search expenses by description', async () => {
-    const results = await searchExpenses(1, 'business');
+    const { results } = await searchExpenses(1, 'business');
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Coffee Meeting');
@@ -105,14 +110,14 @@ describe('searchExpenses', () => {
   });
 
   it('should perform case-insensitive search', async () => {
-    const results = await searchExpenses(1, 'RESTAURANT');
+    const { results } = await searchExpenses(1, 'RESTAURANT');
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Lunch at Restaurant');
   });
 
   it('should search across both title and description', async () => {
-    const results = await searchExpenses(1, 'food');
+    const { results } = await searchExpenses(1, 'food');
 
     expect(results).toHaveLength(2);
     const titles = results.map(r => r.title);
@@ -121,7 +126,7 @@ describe('searchExpenses', () => {
   });
 
   it('should return only expenses for specified user', async () => {
-    const results = await searchExpenses(1, 'restaurant');
+    const { results } = await searchExpenses(1, 'restaurant');
 
     expect(results).toHaveLength(1);
     expect(results[0].user_id).toBe(1);
@@ -129,29 +134,44 @@ describe('searchExpenses', () => {
   });
 
   it('should return empty array when no matches found', async () => {
-    const results = await searchExpenses(1, 'nonexistent');
+    const { results } = await searchExpenses(1, 'nonexistent');
 
     expect(results).toHaveLength(0);
   });
 
   it('should handle empty search term', async () => {
-    const results = await searchExpenses(1, '');
+    const { results } = await searchExpenses(1, '');
 
     expect(results).toHaveLength(4); // All expenses for user 1
     expect(results.every(r => r.user_id === 1)).toBe(true);
   });
 
   it('should filter by category', async () => {
-    const results = await searchExpenses(1, '', {
-      category: 'FOOD_DINING'
+    const { results } = await searchExpenses(1, '', {
+      categoryId: DEFAULT_CATEGORY_IDS.FOOD_DINING
     });
 
     expect(results).toHaveLength(2);
-    expect(results.every(r => r.category === 'FOOD_DINING')).toBe(true);
+    expect(results.every(r => r.category_id === DEFAULT_CATEGORY_IDS.FOOD_DINING)).toBe(true);
+  });
+
+  it('should filter by tags', async () => {
+    const { results: all } = await searchExpenses(1, '');
+    const byTitle = (title: string) => all.find(expense => expense.title === title)!.id;
+    await setExpenseTags(byTitle('Lunch at Restaurant'), 1, ['team-offsite']);
+    await setExpenseTags(byTitle('Uber Ride'), 1, ['Team-Offsite', 'airport']);
+
+    const { results } = await searchExpenses(1, '', { tags: ['team-offsite'] });
+
+    expect(results.map(expense => expense.title)).toEqual(['Lunch at Restaurant', 'Uber Ride']);
+    expect(results[1].tags).toEqual(['airport', 'team-offsite']);
+
+    const { results: narrowed } = await searchExpenses(1, 'uber', { tags: ['team-offsite'] });
+    expect(narrowed.map(expense => expense.title)).toEqual(['Uber Ride']);
   });
 
   it('should filter by date range', async () => {
-    const results = await searchExpenses(1, '', {
+    const { results } = await searchExpenses(1, '', {
       dateFrom: new Date('2024-01-15'),
       dateTo: new Date('2024-01-25')
     });
@@ -163,7 +183,7 @@ describe('searchExpenses', () => {
   });
 
   it('should filter by minimum amount', async () => {
-    const results = await searchExpenses(1, '', {
+    const { results } = await searchExpenses(1, '', {
       minAmount: 30
     });
 
@@ -172,7 +192,7 @@ describe('searchExpenses', () => {
   });
 
   it('should filter by maximum amount', async () => {
-    const results = await searchExpenses(1, '', {
+    const { results } = await searchExpenses(1, '', {
       maxAmount: 50
     });
 
@@ -181,8 +201,8 @@ describe('searchExpenses', () => {
   });
 
   it('should apply multiple filters together', async () => {
-    const results = await searchExpenses(1, 'food', {
-      category: 'FOOD_DINING',
+    const { results } = await searchExpenses(1, 'food', {
+      categoryId: DEFAULT_CATEGORY_IDS.FOOD_DINING,
       minAmount: 20,
       dateFrom: new Date('2024-01-01'),
       dateTo: new Date('2024-01-31')
@@ -190,12 +210,12 @@ describe('searchExpenses', () => {
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Lunch at Restaurant');
-    expect(results[0].category).toBe('FOOD_DINING');
+    expect(results[0].category_id).toBe(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(results[0].amount).toBe(25.50);
   });
 
   it('should order results by expense date descending', async () => {
-    const results = await searchExpenses(1, '');
+    const { results } = await searchExpenses(1, '');
 
     expect(results).toHaveLength(4);
     // Should be ordered by expense_date DESC, then created_at DESC
@@ -206,21 +226,21 @@ describe('searchExpenses', () => {
   });
 
   it('should handle partial word matches', async () => {
-    const results = await searchExpenses(1, 'uber');
+    const { results } = await searchExpenses(1, 'uber');
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Uber Ride');
   });
 
   it('should handle search term with whitespace', async () => {
-    const results = await searchExpenses(1, '  coffee  ');
+    const { results } = await searchExpenses(1, '  coffee  ');
 
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe('Coffee Meeting');
   });
 
   it('should convert numeric fields correctly', async () => {
-    const results = await searchExpenses(1, '');
+    const { results } = await searchExpenses(1, '');
 
     results.forEach(expense => {
       expect(typeof expense.amount).toBe('number');
@@ -230,4 +250,105 @@ describe('searchExpenses', () => {
       expect(expense.expense_date).toBeInstanceOf(Date);
     });
   });
-});
\ No newline at end of file
+
+  it('should match word stems', async () => {
+    const { results } = await searchExpenses(1, 'meetings');
+
+    expect(results.map(r => r.title)).toEqual(['Coffee Meeting']);
+  });
+
+  it('should rank title matches above description matches', async () => {
+    await db.insert(expensesTable).values({
+      user_id: 1,
+      title: 'Team dinner',
+      description: 'Colleagues from the coffee meeting',
+      amount: '60.00',
+      category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+      expense_date: new Date('2024-03-01')
+    });
+    await refreshSearchVectors();
+
+    const { results } = await searchExpenses(1, 'coffee');
+
+    expect(results.map(r => r.title)).toEqual(['Coffee Meeting', 'Team dinner']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should support quoted phrases and exclusions', async () => {
+    const { results: phrase } = await searchExpenses(1, '"food supplies"');
+    expect(phrase.map(r => r.title)).toEqual(['Grocery Shopping']);
+
+    const { results: excluded } = await searchExpenses(1, 'food -italian');
+    expect(excluded.map(r => r.title)).toEqual(['Grocery Shopping']);
+
+    const { results: either } = await searchExpenses(1, 'uber or starbucks');
+    expect(either.map(r => r.title).sort()).toEqual(['Coffee Meeting', 'Uber Ride']);
+  });
+
+  it('should search tags and merchants', async () => {
+    const { results: all } = await searchExpenses(1, '');
+    await setExpenseTags(all.find(expense => expense.title === 'Uber Ride')!.id, 1, ['conference']);
+    await db.update(expensesTable).set({ merchant: 'Whole Foods Market' }).where(eq(expensesTable.title, 'Grocery Shopping'));
+    await refreshSearchVectors();
+
+    const { results: tagged } = await searchExpenses(1, 'conference');
+    expect(tagged.map(r => r.title)).toEqual(['Uber Ride']);
+
+    const { results: merchant } = await searchExpenses(1, 'market');
+    expect(merchant.map(r => r.title)).toEqual(['Grocery Shopping']);
+  });
+
+  it('should highlight matches in escaped text', async () => {
+    await db.insert(expensesTable).values({
+      user_id: 1,
+      title: 'Cables <HDMI> & adapters',
+      description: 'Adapters for the conference room projector',
+      amount: '30.00',
+      category_id: DEFAULT_CATEGORY_IDS.BUSINESS,
+      expense_date: new Date('2024-03-01')
+    });
+    await refreshSearchVectors();
+
+    const { results } = await searchExpenses(1, 'adapter');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].highlights.title).toBe('Cables &lt;HDMI&gt; &amp; <mark>adapters</mark>');
+    expect(results[0].highlights.description).toBe('<mark>Adapters</mark> for the conference room projector');
+  });
+
+  it('should return escaped text without highlights when there is no search term', async () => {
+    const { results } = await searchExpenses(1, '', { categoryId: DEFAULT_CATEGORY_IDS.TRANSPORTATION });
+
+    expect(results[0].rank).toBe(0);
+    expect(results[0].highlights).toEqual({ title: 'Uber Ride', description: 'Transportation to airport' });
+  });
+
+  it('should page through results with a cursor', async () => {
+    const first = await searchExpenses(1, '', undefined, { limit: 3 });
+    expect(first.results.map(r => r.title)).toEqual(['Grocery Shopping', 'Coffee Meeting', 'Lunch at Restaurant']);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = await searchExpenses(1, '', undefined, { limit: 3, cursor: first.next_cursor! });
+    expect(second.results.map(r => r.title)).toEqual(['Uber Ride']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should page through ranked results with a cursor', async () => {
+    const { results: all } = await searchExpenses(1, 'food or coffee or uber');
+
+    const titles: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await searchExpenses(1, 'food or coffee or uber', undefined, { limit: 1, cursor });
+      titles.push(...page.results.map(r => r.title));
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+
+    expect(all).toHaveLength(4);
+    expect(titles).toEqual(all.map(r => r.title));
+  });
+
+  it('should reject invalid cursors', async () => {
+    await expect(searchExpenses(1, '', undefined, { cursor: 'not-a-cursor' })).rejects.toThrow(/invalid search cursor/i);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expenseApprovalsTable, expensesTable, notificationsTable, teamsTable, usersTable } from '../db/schema';
+import { sendApprovalReminders } from '../handlers/send_approval_reminders';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { approveExpense } from '../handlers/approve_expense';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('sendApprovalReminders', () => {
+  let managerId: number;
+  let memberId: number;
+  let teamId: number;
+
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const insertExpense = (userId: number, createdAt: Date, status: 'PENDING' | 'APPROVED' = 'PENDING') => db.insert(expensesTable)
+    .values({ user_id: userId, team_id: teamId, title: 'Hotel', amount: '150.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, status, expense_date: createdAt, created_at: createdAt })
+    .execute();
+
+  const reminders = () => db.select()
+    .from(notificationsTable)
+    .where(eq(notificationsTable.type, 'EXPENSE_REMINDER'))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'T', last_name: 'M' }
+      ])
+      .returning()
+      .execute();
+    [managerId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should remind managers of expenses waiting too long', async () => {
+    await insertExpense(memberId, daysAgo(5));
+    await insertExpense(memberId, daysAgo(4));
+    await insertExpense(memberId, daysAgo(1)); // recent
+    await insertExpense(memberId, daysAgo(6), 'APPROVED');
+    await insertExpense(managerId, daysAgo(6)); // their own, approved by someone else
+
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 1 });
+
+    const sent = await reminders();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].user_id).toEqual(managerId);
+    expect(sent[0].title).toEqual('Expenses awaiting your approval');
+    expect(sent[0].message).toContain('2 expenses have been waiting');
+  });
+
+  it('should send at most one reminder per day', async () => {
+    await insertExpense(memberId, daysAgo(5));
+
+    await sendApprovalReminders(now);
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 0 });
+    expect(await reminders()).toHaveLength(1);
+  });
+
+  it('should send nothing without overdue expenses', async () => {
+    await insertExpense(memberId, daysAgo(2));
+
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 0 });
+  });
+
+  it('should remind the approver of the step each expense is waiting on', async () => {
+    const [head] = await db.insert(usersTable)
+      .values({ email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' })
+      .returning()
+      .execute();
+
+    await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [
+        { name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 },
+        { name: 'Department head', approver_type: 'USER', approver_id: head.id, threshold: 100 }
+      ]
+    });
+
+    await insertExpense(memberId, daysAgo(5));
+    const [expense] = await db.select().from(expensesTable).execute();
+    await approveExpense({ expense_id: expense.id, approved_by: managerId, status: 'APPROVED' });
+
+    // The second step only started waiting when the first was approved
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 0 });
+
+    await db.update(expenseApprovalsTable)
+      .set({ decided_at: daysAgo(4) })
+      .where(eq(expenseApprovalsTable.expense_id, expense.id))
+      .execute();
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 1 });
+
+    const sent = await reminders();
+    expect(sent.map(notification => notification.user_id)).toEqual([head.id]);
+    expect(sent[0].message).toContain('1 expense has been waiting');
+  });
+
+  it('should use the reminder days of the team', async () => {
+    await db.update(teamsTable)
+      .set({ approval_reminder_days: 1 })
+      .where(eq(teamsTable.id, teamId))
+      .execute();
+    await insertExpense(memberId, daysAgo(2));
+
+    expect(await sendApprovalReminders(now)).toEqual({ reminders_sent: 1 });
+
+    const sent = await reminders();
+    expect(sent[0].message).toEqual('1 expense has been waiting for your approval for more than 1 day.');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAlertOptOutsTable, budgetsTable, expensesTable, notificationsTable, teamsTable, usersTable } from '../db/schema';
+import { approveExpense } from '../handlers/approve_expense';
+import { deleteExpense } from '../handlers/delete_expense';
+import { sendBudgetAlerts } from '../handlers/send_budget_alerts';
+import { refreshBudgetsForExpenses } from '../helpers/budget_periods';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('sendBudgetAlerts', () => {
+  let userId: number;
+  let managerId: number;
+  let teamId: number;
+  let budgetId: number;
+
+  // Files an expense dated today and has the team manager approve it
+  const spend = async (amount: string, category_id: number = DEFAULT_CATEGORY_IDS.FOOD_DINING) => {
+    const expenses = await db.insert(expensesTable)
+      .values({ user_id: userId, team_id: teamId, title: 'Lunch', amount, category_id, expense_date: new Date() })
+      .returning()
+      .execute();
+    await approveExpense({ expense_id: expenses[0].id, approved_by: managerId, status: 'APPROVED' });
+    return expenses[0].id;
+  };
+
+  const alerts = () => db.select()
+    .from(notificationsTable)
+    .where(eq(notificationsTable.type, 'BUDGET_ALERT'))
+    .orderBy(asc(notificationsTable.id))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'user@example.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' },
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+    [userId, managerId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+
+    const budgets = await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, monthly_limit: '100.00', alert_threshold: 80 })
+      .returning()
+      .execute();
+    budgetId = budgets[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should alert once when spending passes the threshold', async () => {
+    await spend('50.00');
+    expect(await alerts()).toHaveLength(0);
+
+    await spend('35.00');
+    await spend('5.00');
+
+    const sent = await alerts();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].user_id).toEqual(userId);
+    expect(sent[0].title).toEqual('Food & Dining budget at 85%');
+    expect(sent[0].message).toContain('85.00 of 100.00 USD');
+  });
+
+  it('should alert again when the limit is reached', async () => {
+    await spend('85.00');
+    await spend('20.00');
+    await spend('10.00');
+
+    const sent = await alerts();
+    expect(sent.map(alert => alert.title)).toEqual(['Food & Dining budget at 85%', 'Food & Dining budget reached']);
+  });
+
+  it('should send a single alert when one expense passes both', async () => {
+    await spend('120.00');
+
+    const sent = await alerts();
+    expect(sent.map(alert => alert.title)).toEqual(['Food & Dining budget reached']);
+  });
+
+  it('should alert again after spending drops back below the threshold', async () => {
+    const expenseId = await spend('90.00');
+    await deleteExpense(expenseId, userId);
+    await spend('85.00');
+
+    expect(await alerts()).toHaveLength(2);
+  });
+
+  it('should skip categories the user opted out of', async () => {
+    await db.insert(budgetAlertOptOutsTable).values({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING }).execute();
+
+    await spend('95.00');
+
+    expect(await alerts()).toHaveLength(0);
+  });
+
+  it('should skip inactive budgets', async () => {
+    await db.update(budgetsTable).set({ is_active: false }).where(eq(budgetsTable.id, budgetId)).execute();
+
+    await spend('95.00');
+
+    expect(await alerts()).toHaveLength(0);
+  });
+
+  it('should not send the same alert twice for concurrent refreshes', async () => {
+    await db.insert(expensesTable)
+      .values({ user_id: userId, title: 'Dinner', amount: '90.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, status: 'APPROVED', expense_date: new Date() })
+      .execute();
+    const refreshed = await refreshBudgetsForExpenses([{ user_id: userId, team_id: null, category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date() }]);
+
+    const sent = await Promise.all([sendBudgetAlerts(refreshed), sendBudgetAlerts(refreshed)]);
+
+    expect(sent[0] + sent[1]).toEqual(1);
+    expect(await alerts()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, recurringSkipsTable, usersTable } from '../db/schema';
+import { skipRecurringOccurrence } from '../handlers/skip_recurring_occurrence';
+import { generateRecurringExpenses } from '../handlers/generate_recurring_expenses';
+import { asc } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('skipRecurringOccurrence', () => {
+  let seriesId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const series = await db.insert(recurringSeriesTable)
+      .values({
+        user_id: users[0].id,
+        title: 'Parking permit',
+        amount: '80.00',
+        category_id: DEFAULT_CATEGORY_IDS.TRAVEL,
+        frequency: 'MONTHLY',
+        start_date: '2024-01-05',
+        next_occurrence_date: '2024-01-05'
+      })
+      .returning()
+      .execute();
+    seriesId = series[0].id;
+
+    await generateRecurringExpenses(new Date(2024, 0, 10));
+  });
+
+  afterEach(resetDB);
+
+  it('should skip the next occurrence', async () => {
+    const result = await skipRecurringOccurrence({ series_id: seriesId, occurrence_date: new Date(2024, 1, 5) });
+
+    expect(result.next_occurrence_date).toEqual('2024-03-05');
+    expect(result.occurrence_count).toEqual(1);
+
+    await generateRecurringExpenses(new Date(2024, 2, 10));
+
+    const expenses = await db.select().from(expensesTable).orderBy(asc(expensesTable.recurrence_date)).execute();
+    expect(expenses.map(expense => expense.recurrence_date)).toEqual(['2024-01-05', '2024-03-05']);
+  });
+
+  it('should skip a later occurrence', async () => {
+    const result = await skipRecurringOccurrence({ series_id: seriesId, occurrence_date: new Date(2024, 2, 5) });
+
+    expect(result.next_occurrence_date).toEqual('2024-02-05');
+
+    const skips = await db.select().from(recurringSkipsTable).execute();
+    expect(skips.map(skip => skip.occurrence_date)).toEqual(['2024-03-05']);
+
+    await generateRecurringExpenses(new Date(2024, 3, 10));
+
+    const expenses = await db.select().from(expensesTable).orderBy(asc(expensesTable.recurrence_date)).execute();
+    expect(expenses.map(expense => expense.recurrence_date)).toEqual(['2024-01-05', '2024-02-05', '2024-04-05']);
+  });
+
+  it('should reject days that are not occurrences', async () => {
+    await expect(skipRecurringOccurrence({ series_id: seriesId, occurrence_date: new Date(2024, 1, 6) }))
+      .rejects.toThrow(/not an occurrence/i);
+  });
+
+  it('should reject occurrences that were already generated', async () => {
+    await expect(skipRecurringOccurrence({ series_id: seriesId, occurrence_date: new Date(2024, 0, 5) }))
+      .rejects.toThrow(/already been generated/i);
+  });
+});
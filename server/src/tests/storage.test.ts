@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createLocalStorageDriver, createS3StorageDriver, type StorageDriver } from '../helpers/storage';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Shared behaviour every storage driver must provide
+const driverContract = (getDriver: () => StorageDriver) => {
+  it('should store and read back bytes', async () => {
+    const data = Buffer.from([0, 1, 2, 253, 254, 255]);
+
+    await getDriver().put('receipts/1/file.bin', data, 'application/octet-stream');
+    const stored = await getDriver().get('receipts/1/file.bin');
+
+    expect(stored?.equals(data)).toBe(true);
+  });
+
+  it('should overwrite existing keys', async () => {
+    await getDriver().put('receipts/1/file.txt', Buffer.from('first'), 'text/plain');
+    await getDriver().put('receipts/1/file.txt', Buffer.from('second'), 'text/plain');
+
+    expect((await getDriver().get('receipts/1/file.txt'))?.toString()).toEqual('second');
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await getDriver().get('receipts/1/missing.txt')).toBeNull();
+  });
+
+  it('should delete keys', async () => {
+    await getDriver().put('receipts/1/file.txt', Buffer.from('data'), 'text/plain');
+    await getDriver().delete('receipts/1/file.txt');
+
+    expect(await getDriver().get('receipts/1/file.txt')).toBeNull();
+  });
+
+  it('should reject keys escaping the storage root', async () => {
+    for (const key of ['../outside.txt', 'receipts/../../outside.txt', '/etc/passwd', 'receipts//file.txt', '']) {
+      await expect(getDriver().put(key, Buffer.from('x'), 'text/plain')).rejects.toThrow(/invalid storage key/i);
+    }
+  });
+};
+
+describe('local storage driver', () => {
+  let rootDir: string;
+  let driver: StorageDriver;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    driver = createLocalStorageDriver(path.join(rootDir, 'files'));
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  driverContract(() => driver);
+
+  it('should write files below the root directory', async () => {
+    await driver.put('receipts/7/a.pdf', Buffer.from('%PDF'), 'application/pdf');
+
+    expect(existsSync(path.join(rootDir, 'files', 'receipts', '7', 'a.pdf'))).toBe(true);
+    expect(existsSync(path.join(rootDir, 'outside.txt'))).toBe(false);
+  });
+});
+
+describe('S3 storage driver', () => {
+  // Minimal path-style S3 stand-in (like a local MinIO) keeping objects in memory
+  let objects: Map<string, { body: Buffer; contentType: string | null }>;
+  let server: ReturnType<typeof Bun.serve>;
+  let driver: StorageDriver;
+
+  beforeEach(() => {
+    objects = new Map();
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const pathname = decodeURIComponent(new URL(req.url).pathname);
+        if (!req.headers.get('authorization')?.startsWith('AWS4-HMAC-SHA256')) {
+          return new Response('Missing signature', { status: 403 });
+        }
+        if (!pathname.startsWith('/receipts-bucket/')) {
+          return new Response('NoSuchBucket', { status: 404 });
+        }
+        const key = pathname.slice('/receipts-bucket/'.length);
+        const object = objects.get(key);
+
+        switch (req.method) {
+          case 'PUT':
+            objects.set(key, { body: Buffer.from(await req.arrayBuffer()), contentType: req.headers.get('content-type') });
+            return new Response(null, { status: 200, headers: { ETag: '"etag"' } });
+          case 'GET':
+          case 'HEAD':
+            if (!object) return new Response(null, { status: 404 });
+            return new Response(req.method === 'GET' ? object.body : null, {
+              status: 200,
+              headers: { 'Content-Type': object.contentType || 'application/octet-stream', 'Content-Length': String(object.body.length) }
+            });
+          case 'DELETE':
+            objects.delete(key);
+            return new Response(null, { status: 204 });
+          default:
+            return new Response(null, { status: 405 });
+        }
+      }
+    });
+
+    driver = createS3StorageDriver({
+      bucket: 'receipts-bucket',
+      endpoint: `http://localhost:${server.port}`,
+      region: 'us-east-1',
+      accessKeyId: 'test-access-key',
+      secretAccessKey: 'test-secret-key'
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  driverContract(() => driver);
+
+  it('should store objects in the configured bucket with their content type', async () => {
+    await driver.put('receipts/7/a.pdf', Buffer.from('%PDF'), 'application/pdf');
+
+    expect(objects.get('receipts/7/a.pdf')?.body.toString()).toEqual('%PDF');
+    expect(objects.get('receipts/7/a.pdf')?.contentType).toEqual('application/pdf');
+  });
+});
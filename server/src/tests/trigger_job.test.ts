@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobRunsTable, usersTable } from '../db/schema';
+import { triggerJob } from '../handlers/trigger_job';
+import { runSchedulerTick } from '../scheduler';
+import { JOBS } from '../jobs';
+
+describe('triggerJob', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'Admin', role: 'ADMIN' })
+      .returning()
+      .execute();
+    adminId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should queue a manual run for the scheduler', async () => {
+    const run = await triggerJob({ job_name: 'ROLL_OVER_BUDGETS' }, adminId);
+
+    expect(run.job_name).toEqual('ROLL_OVER_BUDGETS');
+    expect(run.status).toEqual('PENDING');
+    expect(run.trigger).toEqual('MANUAL');
+    expect(run.attempt).toEqual(1);
+    expect(run.max_attempts).toEqual(JOBS.ROLL_OVER_BUDGETS.max_attempts);
+    expect(run.triggered_by).toEqual(adminId);
+
+    await runSchedulerTick([JOBS.ROLL_OVER_BUDGETS], 'worker');
+
+    const runs = await db.select().from(jobRunsTable).execute();
+    expect(runs).toHaveLength(1);
+    expect(runs[0].status).toEqual('SUCCEEDED');
+    expect(JSON.parse(runs[0].result!)).toEqual({ budgets_processed: 0 });
+  });
+
+  it('should reject a job that is already queued', async () => {
+    await triggerJob({ job_name: 'CLEANUP_EXPIRED_REPORTS' }, adminId);
+
+    await expect(triggerJob({ job_name: 'CLEANUP_EXPIRED_REPORTS' }, adminId)).rejects.toThrow(/already queued or running/i);
+    await triggerJob({ job_name: 'ROLL_OVER_BUDGETS' }, adminId);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, appSettingsTable } from '../db/schema';
+import { type UpdateAppSettingsInput } from '../schema';
+import { updateAppSettings } from '../handlers/update_app_settings';
+import { getAppSettings } from '../helpers/app_settings';
+
+describe('updateAppSettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        {
+          email: 'admin@test.com',
+          username: 'admin',
+          password_hash: 'hash',
+          first_name: 'Admin',
+          last_name: 'User',
+          role: 'ADMIN'
+        },
+        {
+          email: 'user@test.com',
+          username: 'user',
+          password_hash: 'hash',
+          first_name: 'Regular',
+          last_name: 'User',
+          role: 'USER'
+        }
+      ])
+      .returning()
+      .execute();
+
+    adminId = users[0].id;
+    userId = users[1].id;
+  });
+
+  it('should allow unverified users by default', async () => {
+    const settings = await getAppSettings();
+
+    expect(settings.allow_unverified_expenses).toBe(true);
+    expect(settings.allow_unverified_team_members).toBe(true);
+  });
+
+  it('should create the settings row on first save', async () => {
+    const input: UpdateAppSettingsInput = {
+      allow_unverified_expenses: false
+    };
+
+    const result = await updateAppSettings(input, adminId);
+
+    expect(result.allow_unverified_expenses).toBe(false);
+    expect(result.allow_unverified_team_members).toBe(true);
+    expect(result.updated_by).toEqual(adminId);
+
+    const rows = await db.select().from(appSettingsTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should update the existing row on later saves', async () => {
+    await updateAppSettings({ allow_unverified_expenses: false }, adminId);
+    await updateAppSettings({ allow_unverified_team_members: false }, adminId);
+
+    const rows = await db.select().from(appSettingsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].allow_unverified_expenses).toBe(false);
+    expect(rows[0].allow_unverified_team_members).toBe(false);
+
+    const settings = await getAppSettings();
+    expect(settings.id).toEqual(rows[0].id);
+  });
+
+  it('should update the approval SLA', async () => {
+    expect((await getAppSettings()).approval_reminder_days).toEqual(3);
+    expect((await getAppSettings()).approval_escalation_days).toEqual(7);
+
+    const result = await updateAppSettings({ approval_reminder_days: 2, approval_escalation_days: 4 }, adminId);
+
+    expect(result.approval_reminder_days).toEqual(2);
+    expect(result.approval_escalation_days).toEqual(4);
+    expect(result.allow_unverified_expenses).toBe(true);
+  });
+
+  it('should require escalation to come after the reminder', async () => {
+    await expect(updateAppSettings({ approval_reminder_days: 7 }, adminId))
+      .rejects.toThrow(/escalation must come after the reminder/i);
+
+    const rows = await db.select().from(appSettingsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should reject non-admin users', async () => {
+    await expect(updateAppSettings({ allow_unverified_expenses: false }, userId))
+      .rejects.toThrow(/only administrators/i);
+
+    const rows = await db.select().from(appSettingsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(updateAppSettings({ allow_unverified_expenses: false }, 9999))
+      .rejects.toThrow(/user not found/i);
+  });
+});
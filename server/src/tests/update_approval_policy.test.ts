@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expenseApprovalsTable, expensesTable, teamsTable, usersTable } from '../db/schema';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { updateApprovalPolicy } from '../handlers/update_approval_policy';
+import { getPendingApprovals } from '../handlers/get_pending_approvals';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('updateApprovalPolicy', () => {
+  let managerId: number;
+  let headId: number;
+  let memberId: number;
+  let teamId: number;
+  let policyId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' },
+        { email: 'head@example.com', username: 'head', password_hash: 'x', first_name: 'H', last_name: 'H', role: 'MANAGER' },
+        { email: 'member@example.com', username: 'member', password_hash: 'x', first_name: 'U', last_name: 'U' }
+      ])
+      .returning()
+      .execute();
+    [managerId, headId, memberId] = users.map(user => user.id);
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerId })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+
+    const policy = await createApprovalPolicy({
+      name: 'Sales',
+      team_id: teamId,
+      steps: [{ name: 'Team manager', approver_type: 'TEAM_MANAGER', threshold: 0 }]
+    });
+    policyId = policy.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should rename the policy and keep its steps', async () => {
+    const result = await updateApprovalPolicy({ id: policyId, name: 'Sales team', currency: 'GBP' });
+
+    expect(result.name).toEqual('Sales team');
+    expect(result.currency).toEqual('GBP');
+    expect(result.steps.map(step => step.name)).toEqual(['Team manager']);
+  });
+
+  it('should replace the steps', async () => {
+    const result = await updateApprovalPolicy({
+      id: policyId,
+      steps: [
+        { name: 'Department head', approver_type: 'USER', approver_id: headId, threshold: 0 },
+        { name: 'Finance', approver_type: 'ADMIN', threshold: 1000 }
+      ]
+    });
+
+    expect(result.steps.map(step => [step.position, step.name, step.approver_id, step.threshold])).toEqual([
+      [1, 'Department head', headId, 0],
+      [2, 'Finance', null, 1000]
+    ]);
+  });
+
+  it('should leave chains that already started alone', async () => {
+    const [expense] = await db.insert(expensesTable)
+      .values({ user_id: memberId, team_id: teamId, title: 'Hotel', amount: '200.00', category_id: DEFAULT_CATEGORY_IDS.TRAVEL, expense_date: new Date() })
+      .returning()
+      .execute();
+    await getPendingApprovals(managerId);
+
+    await updateApprovalPolicy({
+      id: policyId,
+      steps: [{ name: 'Department head', approver_type: 'USER', approver_id: headId, threshold: 0 }]
+    });
+
+    const steps = await db.select().from(expenseApprovalsTable).where(eq(expenseApprovalsTable.expense_id, expense.id)).execute();
+    expect(steps.map(step => step.approver_id)).toEqual([managerId]);
+  });
+
+  it('should validate the new steps', async () => {
+    await expect(updateApprovalPolicy({
+      id: policyId,
+      steps: [{ name: 'Department head', approver_type: 'USER', approver_id: memberId, threshold: 0 }]
+    })).rejects.toThrow(/cannot approve expenses/i);
+  });
+
+  it('should throw for an unknown policy', async () => {
+    await expect(updateApprovalPolicy({ id: 99999, name: 'X' })).rejects.toThrow(/approval policy not found/i);
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { budgetsTable, usersTable } from '../db/schema';
+import { budgetPeriodsTable, budgetsTable, usersTable } from '../db/schema';
 import { type UpdateBudgetInput } from '../schema';
 import { updateBudget } from '../handlers/update_budget';
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 
 describe('updateBudget', () => {
   let testUserId: number;
@@ -32,7 +33,7 @@ describe('updateBudget', () => {
     const budgetResult = await db.insert(budgetsTable)
       .values({
         user_id: testUserId,
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         monthly_limit: '1000.00',
         current_spent: '250.50',
         alert_threshold: 75,
@@ -56,7 +57,7 @@ describe('updateBudget', () => {
 
     expect(result.id).toEqual(testBudgetId);
     expect(result.user_id).toEqual(testUserId);
-    expect(result.category).toEqual('FOOD_DINING');
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(result.monthly_limit).toEqual(1500);
     expect(result.current_spent).toEqual(250.5);
     expect(result.alert_threshold).toEqual(75);
@@ -135,7 +136,7 @@ describe('updateBudget', () => {
     const budgetResult = await db.insert(budgetsTable)
       .values({
         user_id: testUserId,
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         monthly_limit: '500.00',
         current_spent: '0.00',
         alert_threshold: 50,
@@ -224,10 +225,33 @@ describe('updateBudget', () => {
 
     // Original values should be preserved
     expect(result.user_id).toEqual(testUserId);
-    expect(result.category).toEqual('FOOD_DINING');
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
     expect(result.current_spent).toEqual(250.5);
     expect(result.alert_threshold).toEqual(75);
     expect(result.is_active).toEqual(true);
     expect(result.created_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should toggle carry-over', async () => {
+    const result = await updateBudget({ id: testBudgetId, carry_over: true });
+
+    expect(result.carry_over).toEqual(true);
+  });
+
+  it('should apply a new limit to the current period only', async () => {
+    await db.insert(budgetPeriodsTable)
+      .values([
+        { budget_id: testBudgetId, period_start: '2024-01-01', monthly_limit: '1000.00', closed_at: new Date(2024, 1, 1) },
+        { budget_id: testBudgetId, period_start: '2024-02-01', monthly_limit: '1000.00' }
+      ])
+      .execute();
+
+    await updateBudget({ id: testBudgetId, monthly_limit: 1400 });
+
+    const periods = await db.select()
+      .from(budgetPeriodsTable)
+      .orderBy(asc(budgetPeriodsTable.period_start))
+      .execute();
+    expect(periods.map(period => parseFloat(period.monthly_limit))).toEqual([1000, 1400]);
+  });
+});
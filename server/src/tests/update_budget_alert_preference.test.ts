@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAlertOptOutsTable, usersTable } from '../db/schema';
+import { updateBudgetAlertPreference } from '../handlers/update_budget_alert_preference';
+import { getBudgetAlertPreferences } from '../handlers/get_budget_alert_preferences';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('budget alert preferences', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'user@example.com', username: 'user', password_hash: 'x', first_name: 'U', last_name: 'U' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should enable every category by default', async () => {
+    const preferences = await getBudgetAlertPreferences(userId);
+
+    expect(preferences).toHaveLength(10);
+    expect(preferences.every(preference => preference.enabled)).toBe(true);
+  });
+
+  it('should opt out of and back into a category', async () => {
+    const result = await updateBudgetAlertPreference({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: false });
+    expect(result).toEqual({ category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: false });
+
+    // Repeating the update is harmless
+    await updateBudgetAlertPreference({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: false });
+
+    let preferences = await getBudgetAlertPreferences(userId);
+    expect(preferences.filter(preference => !preference.enabled)).toEqual([{ category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: false }]);
+
+    await updateBudgetAlertPreference({ user_id: userId, category_id: DEFAULT_CATEGORY_IDS.TRAVEL, enabled: true });
+
+    preferences = await getBudgetAlertPreferences(userId);
+    expect(preferences.every(preference => preference.enabled)).toBe(true);
+    const rows = await db.select().from(budgetAlertOptOutsTable).where(eq(budgetAlertOptOutsTable.user_id, userId)).execute();
+    expect(rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, type Category } from '../db/schema';
+import { updateCategory } from '../handlers/update_category';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+
+describe('updateCategory', () => {
+  let coffee: Category;
+  let espresso: Category;
+
+  beforeEach(async () => {
+    await createDB();
+    [coffee] = await db.insert(categoriesTable)
+      .values({ name: 'Coffee', parent_id: DEFAULT_CATEGORY_IDS.FOOD_DINING })
+      .returning()
+      .execute();
+    [espresso] = await db.insert(categoriesTable)
+      .values({ name: 'Espresso', parent_id: coffee.id })
+      .returning()
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should rename and restyle a category', async () => {
+    const result = await updateCategory({ id: coffee.id, name: 'Coffee & Tea', icon: 'mug', color: '#654321' });
+
+    expect(result.name).toEqual('Coffee & Tea');
+    expect(result.icon).toEqual('mug');
+    expect(result.color).toEqual('#654321');
+    expect(result.parent_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(coffee.updated_at.getTime());
+  });
+
+  it('should rename built-in categories', async () => {
+    const result = await updateCategory({ id: DEFAULT_CATEGORY_IDS.OTHERS, name: 'Miscellaneous' });
+
+    expect(result.name).toEqual('Miscellaneous');
+    expect(result.key).toEqual('OTHERS');
+  });
+
+  it('should move a category with its subcategories', async () => {
+    const result = await updateCategory({ id: coffee.id, parent_id: DEFAULT_CATEGORY_IDS.BUSINESS });
+    expect(result.parent_id).toEqual(DEFAULT_CATEGORY_IDS.BUSINESS);
+
+    const topLevel = await updateCategory({ id: espresso.id, parent_id: null });
+    expect(topLevel.parent_id).toBeNull();
+  });
+
+  it('should not move a category below itself', async () => {
+    await expect(updateCategory({ id: coffee.id, parent_id: coffee.id })).rejects.toThrow(/below itself/i);
+    await expect(updateCategory({ id: coffee.id, parent_id: espresso.id })).rejects.toThrow(/below itself/i);
+  });
+
+  it('should reject names used by the new siblings', async () => {
+    await expect(updateCategory({ id: coffee.id, name: 'SHOPPING', parent_id: null })).rejects.toThrow(/already exists/i);
+    await expect(updateCategory({ id: espresso.id, parent_id: null, name: 'Travel' })).rejects.toThrow(/already exists/i);
+
+    // Changing only the case of its own name is fine
+    const result = await updateCategory({ id: coffee.id, name: 'COFFEE' });
+    expect(result.name).toEqual('COFFEE');
+  });
+
+  it('should throw for a missing category', async () => {
+    await expect(updateCategory({ id: 99999, name: 'Nope' })).rejects.toThrow(/category not found/i);
+  });
+});
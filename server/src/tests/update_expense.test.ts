@@ -1,10 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, expensesTable, budgetsTable } from '../db/schema';
+import { usersTable, expensesTable, budgetsTable, receiptsTable, teamsTable } from '../db/schema';
 import { type UpdateExpenseInput } from '../schema';
 import { updateExpense } from '../handlers/update_expense';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { setExpenseTags } from '../helpers/tags';
+import { searchExpenses } from '../handlers/search_expenses';
 
 describe('updateExpense', () => {
   beforeEach(createDB);
@@ -34,10 +37,26 @@ describe('updateExpense', () => {
         title: 'Original Expense',
         description: 'Original description',
         amount: '100.00',
-        category: 'FOOD_DINING',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
         expense_date: new Date('2024-01-15'),
-        is_recurring: false,
-        tags: JSON.stringify(['tag1', 'tag2'])
+        is_recurring: false
+      })
+      .returning()
+      .execute();
+    await setExpenseTags(expenses[0].id, userId, ['tag1', 'tag2']);
+    return expenses[0];
+  };
+
+  // Approved expense dated today, so it counts against this month's budget
+  const createApprovedExpense = async (userId: number) => {
+    const expenses = await db.insert(expensesTable)
+      .values({
+        user_id: userId,
+        title: 'Approved Expense',
+        amount: '100.00',
+        category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING,
+        status: 'APPROVED',
+        expense_date: new Date()
       })
       .returning()
       .execute();
@@ -45,11 +64,11 @@ describe('updateExpense', () => {
   };
 
   // Helper function to create test budget
-  const createTestBudget = async (userId: number, category: string) => {
+  const createTestBudget = async (userId: number, categoryId: number) => {
     const budgets = await db.insert(budgetsTable)
       .values({
         user_id: userId,
-        category: category as any,
+        category_id: categoryId,
         monthly_limit: '500.00',
         current_spent: '100.00'
       })
@@ -67,7 +86,7 @@ describe('updateExpense', () => {
       title: 'Updated Expense',
       description: 'Updated description',
       amount: 150.50,
-      category: 'TRANSPORTATION',
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
       receipt_url: 'https://example.com/receipt.jpg',
       expense_date: new Date('2024-02-01'),
       is_recurring: true,
@@ -82,12 +101,12 @@ describe('updateExpense', () => {
     expect(result.description).toEqual('Updated description');
     expect(result.amount).toEqual(150.50);
     expect(typeof result.amount).toBe('number');
-    expect(result.category).toEqual('TRANSPORTATION');
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.TRANSPORTATION);
     expect(result.receipt_url).toEqual('https://example.com/receipt.jpg');
     expect(result.expense_date).toEqual(new Date('2024-02-01'));
     expect(result.is_recurring).toEqual(true);
     expect(result.recurring_frequency).toEqual('monthly');
-    expect(result.tags).toEqual(JSON.stringify(['updated', 'tags']));
+    expect(result.tags).toEqual(['tags', 'updated']);
     expect(result.updated_at).toBeInstanceOf(Date);
   });
 
@@ -106,7 +125,8 @@ describe('updateExpense', () => {
     expect(result.title).toEqual('Partially Updated');
     expect(result.amount).toEqual(75.25);
     expect(result.description).toEqual('Original description'); // Should remain unchanged
-    expect(result.category).toEqual('FOOD_DINING'); // Should remain unchanged
+    expect(result.category_id).toEqual(DEFAULT_CATEGORY_IDS.FOOD_DINING); // Should remain unchanged
+    expect(result.tags).toEqual(['tag1', 'tag2']); // Should remain unchanged
   });
 
   it('should save updated expense to database', async () => {
@@ -134,115 +154,85 @@ describe('updateExpense', () => {
     expect(savedExpense.updated_at.getTime()).toBeGreaterThan(expense.updated_at.getTime());
   });
 
-  it('should update budget when amount changes', async () => {
+  it('should refuse amount, currency and date changes to decided expenses', async () => {
     const user = await createTestUser();
-    const expense = await createTestExpense(user.id);
-    const budget = await createTestBudget(user.id, 'FOOD_DINING');
-
-    const updateInput: UpdateExpenseInput = {
-      id: expense.id,
-      amount: 150.00 // Increase by 50
-    };
+    const approved = await createApprovedExpense(user.id);
+    const rejected = await createTestExpense(user.id);
+    await db.update(expensesTable).set({ status: 'REJECTED' }).where(eq(expensesTable.id, rejected.id)).execute();
+    await createTestBudget(user.id, DEFAULT_CATEGORY_IDS.FOOD_DINING);
 
-    await updateExpense(updateInput);
+    await expect(updateExpense({ id: approved.id, amount: 99999 })).rejects.toThrow(/approved expenses cannot be changed/i);
+    await expect(updateExpense({ id: approved.id, currency: 'EUR' })).rejects.toThrow(/approved expenses cannot be changed/i);
+    await expect(updateExpense({ id: rejected.id, expense_date: new Date('2024-02-01') })).rejects.toThrow(/rejected expenses cannot be changed/i);
 
-    const updatedBudgets = await db.select()
-      .from(budgetsTable)
-      .where(and(
-        eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
-      ))
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, approved.id))
       .execute();
+    expect(expenses[0].status).toEqual('APPROVED');
+    expect(parseFloat(expenses[0].amount)).toEqual(100);
 
-    expect(updatedBudgets).toHaveLength(1);
-    expect(parseFloat(updatedBudgets[0].current_spent)).toEqual(150.00); // Original 100 + 50 difference
+    // Other fields stay editable, as does an unchanged amount sent along
+    const renamed = await updateExpense({ id: approved.id, title: 'Renamed', amount: 100 });
+    expect(renamed.title).toEqual('Renamed');
+    expect(renamed.status).toEqual('APPROVED');
   });
 
   it('should update budgets when category changes', async () => {
     const user = await createTestUser();
-    const expense = await createTestExpense(user.id);
+    const expense = await createApprovedExpense(user.id);
     
     // Create budgets for both categories
-    await createTestBudget(user.id, 'FOOD_DINING');
+    await createTestBudget(user.id, DEFAULT_CATEGORY_IDS.FOOD_DINING);
     await db.insert(budgetsTable)
       .values({
         user_id: user.id,
-        category: 'TRANSPORTATION',
+        category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION,
         monthly_limit: '300.00',
-        current_spent: '50.00'
+        current_spent: '50.00' // stale, replaced by the recomputed value
       })
       .execute();
 
     const updateInput: UpdateExpenseInput = {
       id: expense.id,
-      category: 'TRANSPORTATION'
+      category_id: DEFAULT_CATEGORY_IDS.TRANSPORTATION
     };
 
     await updateExpense(updateInput);
 
-    // Check old category budget (should decrease by 100)
+    // Old category budget no longer counts the expense
     const oldCategoryBudgets = await db.select()
       .from(budgetsTable)
       .where(and(
         eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
+        eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.FOOD_DINING)
       ))
       .execute();
-    expect(parseFloat(oldCategoryBudgets[0].current_spent)).toEqual(0.00); // 100 - 100
+    expect(parseFloat(oldCategoryBudgets[0].current_spent)).toEqual(0.00);
 
-    // Check new category budget (should increase by 100)
+    // New category budget counts it
     const newCategoryBudgets = await db.select()
       .from(budgetsTable)
       .where(and(
         eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'TRANSPORTATION')
+        eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.TRANSPORTATION)
       ))
       .execute();
-    expect(parseFloat(newCategoryBudgets[0].current_spent)).toEqual(150.00); // 50 + 100
+    expect(parseFloat(newCategoryBudgets[0].current_spent)).toEqual(100.00);
   });
 
-  it('should update budgets when both amount and category change', async () => {
+  it('should not touch budgets when a pending expense changes', async () => {
     const user = await createTestUser();
     const expense = await createTestExpense(user.id);
-    
-    // Create budgets for both categories
-    await createTestBudget(user.id, 'FOOD_DINING');
-    await db.insert(budgetsTable)
-      .values({
-        user_id: user.id,
-        category: 'ENTERTAINMENT',
-        monthly_limit: '400.00',
-        current_spent: '25.00'
-      })
-      .execute();
-
-    const updateInput: UpdateExpenseInput = {
-      id: expense.id,
-      amount: 75.00,
-      category: 'ENTERTAINMENT'
-    };
-
-    await updateExpense(updateInput);
+    await createTestBudget(user.id, DEFAULT_CATEGORY_IDS.FOOD_DINING);
 
-    // Check old category budget (should decrease by original amount: 100)
-    const oldCategoryBudgets = await db.select()
-      .from(budgetsTable)
-      .where(and(
-        eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
-      ))
-      .execute();
-    expect(parseFloat(oldCategoryBudgets[0].current_spent)).toEqual(0.00); // 100 - 100
+    await updateExpense({ id: expense.id, amount: 150.00 });
 
-    // Check new category budget (should increase by new amount: 75)
-    const newCategoryBudgets = await db.select()
+    const budgets = await db.select()
       .from(budgetsTable)
-      .where(and(
-        eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'ENTERTAINMENT')
-      ))
+      .where(eq(budgetsTable.user_id, user.id))
       .execute();
-    expect(parseFloat(newCategoryBudgets[0].current_spent)).toEqual(100.00); // 25 + 75
+    expect(parseFloat(budgets[0].current_spent)).toEqual(100.00);
   });
 
   it('should handle nullable fields correctly', async () => {
@@ -274,7 +264,19 @@ describe('updateExpense', () => {
 
     const result = await updateExpense(updateInput);
 
-    expect(result.tags).toEqual('[]');
+    expect(result.tags).toEqual([]);
+  });
+
+  it('should keep the expense searchable by its new text', async () => {
+    const user = await createTestUser();
+    const expense = await createTestExpense(user.id);
+
+    await updateExpense({ id: expense.id, title: 'Train tickets', merchant: 'National Rail' });
+
+    expect((await searchExpenses(user.id, 'original')).results).toHaveLength(1); // still in the description
+    expect((await searchExpenses(user.id, 'train')).results).toHaveLength(1);
+    expect((await searchExpenses(user.id, 'rail')).results).toHaveLength(1);
+    expect((await searchExpenses(user.id, 'tag1')).results).toHaveLength(1);
   });
 
   it('should throw error when expense does not exist', async () => {
@@ -289,7 +291,7 @@ describe('updateExpense', () => {
   it('should not update budget if no amount or category changes', async () => {
     const user = await createTestUser();
     const expense = await createTestExpense(user.id);
-    const budget = await createTestBudget(user.id, 'FOOD_DINING');
+    const budget = await createTestBudget(user.id, DEFAULT_CATEGORY_IDS.FOOD_DINING);
     const originalSpent = parseFloat(budget.current_spent);
 
     const updateInput: UpdateExpenseInput = {
@@ -304,10 +306,71 @@ describe('updateExpense', () => {
       .from(budgetsTable)
       .where(and(
         eq(budgetsTable.user_id, user.id),
-        eq(budgetsTable.category, 'FOOD_DINING')
+        eq(budgetsTable.category_id, DEFAULT_CATEGORY_IDS.FOOD_DINING)
       ))
       .execute();
 
     expect(parseFloat(updatedBudgets[0].current_spent)).toEqual(originalSpent);
   });
-});
\ No newline at end of file
+
+  it('should refuse amount changes of team expenses once the submitter left the team', async () => {
+    const user = await createTestUser();
+    const [manager] = await db.insert(usersTable)
+      .values({ email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' })
+      .returning()
+      .execute();
+    const [team] = await db.insert(teamsTable).values({ name: 'Sales', manager_id: manager.id }).returning().execute();
+    const expense = await createTestExpense(user.id);
+    await db.update(expensesTable).set({ team_id: team.id }).where(eq(expensesTable.id, expense.id)).execute();
+
+    await expect(updateExpense({ id: expense.id, amount: 150 })).rejects.toThrow(/only members of a team/i);
+
+    const renamed = await updateExpense({ id: expense.id, title: 'Renamed' });
+    expect(renamed.title).toEqual('Renamed');
+  });
+
+  describe('uploaded receipts', () => {
+    const createTestReceipt = async (userId: number) => {
+      const result = await db.insert(receiptsTable)
+        .values({ user_id: userId, storage_key: `receipts/${userId}/${Math.random()}.pdf`, filename: 'r.pdf', content_type: 'application/pdf', size: 8, sha256: 'x' })
+        .returning()
+        .execute();
+      return result[0].id;
+    };
+
+    it('should attach and detach an uploaded receipt', async () => {
+      const user = await createTestUser();
+      const expense = await createTestExpense(user.id);
+      const receiptId = await createTestReceipt(user.id);
+
+      const attached = await updateExpense({ id: expense.id, receipt_id: receiptId });
+      expect(attached.receipt_id).toEqual(receiptId);
+      expect(attached.receipt_url).toEqual(`/api/receipts/${receiptId}`);
+
+      const detached = await updateExpense({ id: expense.id, receipt_id: null });
+      expect(detached.receipt_id).toBeNull();
+      expect(detached.receipt_url).toBeNull();
+    });
+
+    it('should reject free-form receipt URLs pointing at uploaded receipts', async () => {
+      const user = await createTestUser();
+      const expense = await createTestExpense(user.id);
+
+      await expect(updateExpense({ id: expense.id, receipt_url: '/api/receipts/1' }))
+        .rejects.toThrow(/attached by their receipt_id/i);
+    });
+
+    it('should reject receipts of other users', async () => {
+      const user = await createTestUser();
+      const expense = await createTestExpense(user.id);
+      const [other] = await db.insert(usersTable)
+        .values({ email: 'other@example.com', username: 'other', password_hash: 'x', first_name: 'O', last_name: 'U', role: 'USER' })
+        .returning()
+        .execute();
+      const receiptId = await createTestReceipt(other.id);
+
+      await expect(updateExpense({ id: expense.id, receipt_id: receiptId }))
+        .rejects.toThrow(/does not belong to the expense owner/i);
+    });
+  });
+});
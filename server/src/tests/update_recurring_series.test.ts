@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, recurringSeriesTable, usersTable } from '../db/schema';
+import { updateRecurringSeries } from '../handlers/update_recurring_series';
+import { updateExpense } from '../handlers/update_expense';
+import { generateRecurringExpenses } from '../handlers/generate_recurring_expenses';
+import { asc, eq } from 'drizzle-orm';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
+import { createApprovalPolicy } from '../handlers/create_approval_policy';
+import { loadApprovalChain } from '../helpers/approvals';
+
+describe('updateRecurringSeries', () => {
+  let seriesId: number;
+
+  const seriesExpenses = () => db.select()
+    .from(expensesTable)
+    .where(eq(expensesTable.recurring_series_id, seriesId))
+    .orderBy(asc(expensesTable.recurrence_date))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values({ email: 'test@example.com', username: 'testuser', password_hash: 'x', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const series = await db.insert(recurringSeriesTable)
+      .values({
+        user_id: users[0].id,
+        title: 'Software subscription',
+        amount: '20.00',
+        category_id: DEFAULT_CATEGORY_IDS.OTHERS,
+        frequency: 'MONTHLY',
+        start_date: '2024-01-10',
+        next_occurrence_date: '2024-01-10'
+      })
+      .returning()
+      .execute();
+    seriesId = series[0].id;
+
+    await generateRecurringExpenses(new Date(2024, 2, 1));
+  });
+
+  afterEach(resetDB);
+
+  it('should apply template changes to pending unmodified occurrences', async () => {
+    const [first, second] = await seriesExpenses();
+    await updateExpense({ id: first.id, amount: 25 });
+    await db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, second.id)).execute();
+    await db.insert(expensesTable)
+      .values({ user_id: first.user_id, title: 'Unrelated', amount: '20.00', category_id: DEFAULT_CATEGORY_IDS.OTHERS, expense_date: new Date(2024, 0, 10) })
+      .execute();
+
+    const result = await updateRecurringSeries({ id: seriesId, title: 'Software plan', amount: 30 });
+
+    expect(result.title).toEqual('Software plan');
+    expect(result.amount).toEqual(30);
+
+    const [modified, approved] = await seriesExpenses();
+    expect(modified.recurrence_modified).toBe(true);
+    expect(modified.title).toEqual('Software subscription');
+    expect(parseFloat(modified.amount)).toEqual(25);
+    expect(approved.title).toEqual('Software subscription');
+    expect(parseFloat(approved.amount)).toEqual(20);
+
+    const unrelated = await db.select().from(expensesTable).where(eq(expensesTable.title, 'Unrelated')).execute();
+    expect(unrelated).toHaveLength(1);
+
+    // Future occurrences use the new template
+    await generateRecurringExpenses(new Date(2024, 2, 15));
+    const expenses = await seriesExpenses();
+    expect(expenses).toHaveLength(3);
+    expect(expenses[2].title).toEqual('Software plan');
+    expect(parseFloat(expenses[2].amount)).toEqual(30);
+  });
+
+  it('should rebuild the approval chains of pending occurrences when the amount changes', async () => {
+    const [finance] = await db.insert(usersTable)
+      .values({ email: 'finance@example.com', username: 'finance', password_hash: 'x', first_name: 'Fin', last_name: 'Ance', role: 'MANAGER' })
+      .returning()
+      .execute();
+    await createApprovalPolicy({
+      name: 'Company approvals',
+      steps: [
+        { name: 'Admin', approver_type: 'ADMIN', threshold: 0 },
+        { name: 'Finance', approver_type: 'USER', approver_id: finance.id, threshold: 5000 }
+      ]
+    });
+
+    const [occurrence] = await seriesExpenses();
+    expect((await loadApprovalChain(occurrence)).map(step => step.name)).toEqual(['Admin']);
+
+    await updateRecurringSeries({ id: seriesId, amount: 20000 });
+
+    const [updated] = await seriesExpenses();
+    expect((await loadApprovalChain(updated)).map(step => step.name)).toEqual(['Admin', 'Finance']);
+  });
+
+  it('should apply schedule changes from the next occurrence', async () => {
+    const result = await updateRecurringSeries({ id: seriesId, frequency: 'WEEKLY', interval: 2 });
+
+    expect(result.frequency).toEqual('WEEKLY');
+    expect(result.interval).toEqual(2);
+    expect(result.last_occurrence_date).toEqual('2024-02-10');
+    expect(result.next_occurrence_date).toEqual('2024-02-21');
+    expect(await seriesExpenses()).toHaveLength(2);
+  });
+
+  it('should end the series when the limit is already reached', async () => {
+    const result = await updateRecurringSeries({ id: seriesId, max_occurrences: 2 });
+
+    expect(result.max_occurrences).toEqual(2);
+    expect(result.next_occurrence_date).toBeNull();
+  });
+
+  it('should validate schedule changes', async () => {
+    await expect(updateRecurringSeries({ id: seriesId, frequency: 'CUSTOM' })).rejects.toThrow(/requires a rule/i);
+    await expect(updateRecurringSeries({ id: seriesId, end_date: new Date(2023, 0, 1) })).rejects.toThrow(/end date/i);
+  });
+
+  it('should throw for a missing series', async () => {
+    await expect(updateRecurringSeries({ id: 99999, title: 'X' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { teamsTable, usersTable } from '../db/schema';
+import { updateTeamApprovalSla } from '../handlers/update_team_approval_sla';
+import { updateAppSettings } from '../handlers/update_app_settings';
+
+describe('updateTeamApprovalSla', () => {
+  let adminId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', username: 'admin', password_hash: 'x', first_name: 'A', last_name: 'A', role: 'ADMIN' },
+        { email: 'manager@example.com', username: 'manager', password_hash: 'x', first_name: 'M', last_name: 'M', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: users[1].id })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should use the company settings until the team sets its own', async () => {
+    const [team] = await db.select().from(teamsTable).execute();
+    expect(team.approval_reminder_days).toBeNull();
+    expect(team.approval_escalation_days).toBeNull();
+
+    const result = await updateTeamApprovalSla({ team_id: teamId, reminder_days: 1, escalation_days: 2 });
+
+    expect(result.approval_reminder_days).toEqual(1);
+    expect(result.approval_escalation_days).toEqual(2);
+  });
+
+  it('should only change the given days and go back to the company setting on null', async () => {
+    await updateTeamApprovalSla({ team_id: teamId, reminder_days: 1, escalation_days: 2 });
+
+    const result = await updateTeamApprovalSla({ team_id: teamId, escalation_days: null });
+
+    expect(result.approval_reminder_days).toEqual(1);
+    expect(result.approval_escalation_days).toBeNull();
+  });
+
+  it('should require escalation to come after the reminder', async () => {
+    await expect(updateTeamApprovalSla({ team_id: teamId, reminder_days: 5, escalation_days: 5 }))
+      .rejects.toThrow(/escalation must come after the reminder/i);
+
+    // The company escalates after 7 days
+    await expect(updateTeamApprovalSla({ team_id: teamId, reminder_days: 10 }))
+      .rejects.toThrow(/escalation must come after the reminder/i);
+
+    await updateAppSettings({ approval_escalation_days: 14 }, adminId);
+    const result = await updateTeamApprovalSla({ team_id: teamId, reminder_days: 10 });
+    expect(result.approval_reminder_days).toEqual(10);
+  });
+
+  it('should reject an unknown team', async () => {
+    await expect(updateTeamApprovalSla({ team_id: 9999, reminder_days: 1 }))
+      .rejects.toThrow(/team not found/i);
+  });
+});
@@ -1,7 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, expensesTable, exchangeRatesTable } from '../db/schema';
+import { DEFAULT_CATEGORY_IDS } from '../helpers/categories';
 import { eq } from 'drizzle-orm';
 import { type UpdateUserProfileInput } from '../schema';
 import { updateUserProfile } from '../handlers/update_user_profile';
@@ -197,4 +198,28 @@ describe('updateUserProfile', () => {
     expect(result.is_active).toEqual(testUser.is_active);
     expect(result.created_at).toEqual(testUser.created_at);
   });
-});
\ No newline at end of file
+
+  it('should update the home currency', async () => {
+    const user = await createTestUser();
+    expect(user.home_currency).toEqual('USD');
+
+    const result = await updateUserProfile({ id: user.id, home_currency: 'CHF' });
+
+    expect(result.home_currency).toEqual('CHF');
+  });
+
+  it('should refuse a home currency the user\'s expenses cannot be converted to', async () => {
+    const user = await createTestUser();
+    await db.insert(expensesTable)
+      .values({ user_id: user.id, title: 'Lunch', amount: '10.00', category_id: DEFAULT_CATEGORY_IDS.FOOD_DINING, expense_date: new Date() })
+      .execute();
+
+    await expect(updateUserProfile({ id: user.id, home_currency: 'CHF' })).rejects.toThrow(/no exchange rate/i);
+
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'USD', currency: 'CHF', rate: '0.9', rate_date: '2000-01-01' })
+      .execute();
+    const result = await updateUserProfile({ id: user.id, home_currency: 'CHF' });
+    expect(result.home_currency).toEqual('CHF');
+  });
+});
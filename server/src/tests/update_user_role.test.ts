@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { updateUserRole } from '../handlers/update_user_role';
+
+describe('updateUserRole', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUsers = async () => {
+    const [admin, user] = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', username: 'admin', password_hash: 'hash', first_name: 'Ada', last_name: 'Admin', role: 'ADMIN' },
+        { email: 'user@example.com', username: 'user', password_hash: 'hash', first_name: 'Uma', last_name: 'User', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+
+    return { admin, user };
+  };
+
+  it('should change the role of another user', async () => {
+    const { admin, user } = await createUsers();
+
+    const result = await updateUserRole({ user_id: user.id, role: 'MANAGER' }, admin.id);
+
+    expect(result.id).toEqual(user.id);
+    expect(result.role).toEqual('MANAGER');
+
+    const stored = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(stored[0].role).toEqual('MANAGER');
+  });
+
+  it('should not let admins change their own role', async () => {
+    const { admin } = await createUsers();
+
+    await expect(updateUserRole({ user_id: admin.id, role: 'USER' }, admin.id)).rejects.toThrow(/cannot change your own role/i);
+
+    const stored = await db.select().from(usersTable).where(eq(usersTable.id, admin.id)).execute();
+    expect(stored[0].role).toEqual('ADMIN');
+  });
+
+  it('should throw for a missing user', async () => {
+    const { admin } = await createUsers();
+
+    await expect(updateUserRole({ user_id: 99999, role: 'ADMIN' }, admin.id)).rejects.toThrow(/not found/i);
+  });
+});
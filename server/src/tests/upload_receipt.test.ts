@@ -1,8 +1,15 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { uploadReceipt } from '../handlers/upload_receipt';
+import { usersTable, receiptsTable } from '../db/schema';
+import { uploadReceipt, MAX_FILE_SIZE } from '../handlers/upload_receipt';
+import { createLocalStorageDriver, getStorage, setStorage } from '../helpers/storage';
+import { eq } from 'drizzle-orm';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import sharp from 'sharp';
 
 // Test user data
 const testUser = {
@@ -14,21 +21,60 @@ const testUser = {
   role: 'USER' as const
 };
 
-// Helper function to create test file buffer
+// Small valid files per type, generated once in beforeAll
+const samples: Record<string, Buffer> = {};
+
+const createImage = (format: 'jpeg' | 'png' | 'gif' | 'webp', width: number = 16, height: number = 16) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } }).toFormat(format).toBuffer();
+
+// Helper function to create test file buffer: a real file of the given type padded to `size` bytes
 const createTestFile = (size: number = 1024, mimetype: string = 'image/jpeg') => {
+  const sample = samples[mimetype] ?? Buffer.from('test data');
+  const buffer = size === 0
+    ? Buffer.alloc(0)
+    : Buffer.concat([sample, Buffer.alloc(Math.max(size - sample.length, 0))]);
+
   return {
-    buffer: Buffer.alloc(size, 'test data'),
+    buffer,
     filename: 'test-receipt.jpg',
     mimetype
   };
 };
 
 describe('uploadReceipt', () => {
-  beforeEach(createDB);
-  afterEach(resetDB);
+  let storageDir: string;
+
+  beforeAll(async () => {
+    samples['image/jpeg'] = await createImage('jpeg');
+    samples['image/jpg'] = samples['image/jpeg'];
+    samples['image/png'] = await createImage('png');
+    samples['image/gif'] = await createImage('gif');
+    samples['image/webp'] = await createImage('webp');
+    samples['application/pdf'] = Buffer.from('%PDF-1.4\n%%EOF\n');
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = mkdtempSync(path.join(tmpdir(), 'receipts-'));
+    setStorage(createLocalStorageDriver(storageDir));
+  });
+
+  afterEach(async () => {
+    setStorage(null);
+    rmSync(storageDir, { recursive: true, force: true });
+    await resetDB();
+  });
 
   let userId: number;
 
+  const findReceipt = async (receiptId: number | null) => {
+    const receipts = await db.select()
+      .from(receiptsTable)
+      .where(eq(receiptsTable.id, receiptId!))
+      .execute();
+    return receipts[0];
+  };
+
   beforeEach(async () => {
     // Create test user
     const result = await db.insert(usersTable)
@@ -44,7 +90,8 @@ describe('uploadReceipt', () => {
     const result = await uploadReceipt(userId, file);
 
     expect(result.success).toBe(true);
-    expect(result.file_url).toMatch(/^https:\/\/storage\.example\.com\/receipts\/receipt_\d+_\d+_[a-z0-9]+\.jpg$/);
+    expect(result.file_url).toEqual(`/api/receipts/${result.receipt_id}`);
+    expect((await findReceipt(result.receipt_id)).storage_key).toMatch(/^receipts\/\d+\/receipt_\d+_\d+_[a-f0-9]+\.jpg$/);
     expect(result.message).toBe('Receipt uploaded successfully');
   });
 
@@ -54,7 +101,8 @@ describe('uploadReceipt', () => {
     const result = await uploadReceipt(userId, file);
 
     expect(result.success).toBe(true);
-    expect(result.file_url).toMatch(/^https:\/\/storage\.example\.com\/receipts\/receipt_\d+_\d+_[a-z0-9]+\.png$/);
+    expect(result.file_url).toEqual(`/api/receipts/${result.receipt_id}`);
+    expect((await findReceipt(result.receipt_id)).storage_key).toMatch(/^receipts\/\d+\/receipt_\d+_\d+_[a-f0-9]+\.png$/);
     expect(result.message).toBe('Receipt uploaded successfully');
   });
 
@@ -64,7 +112,8 @@ describe('uploadReceipt', () => {
     const result = await uploadReceipt(userId, file);
 
     expect(result.success).toBe(true);
-    expect(result.file_url).toMatch(/^https:\/\/storage\.example\.com\/receipts\/receipt_\d+_\d+_[a-z0-9]+\.pdf$/);
+    expect(result.file_url).toEqual(`/api/receipts/${result.receipt_id}`);
+    expect((await findReceipt(result.receipt_id)).storage_key).toMatch(/^receipts\/\d+\/receipt_\d+_\d+_[a-f0-9]+\.pdf$/);
     expect(result.message).toBe('Receipt uploaded successfully');
   });
 
@@ -159,7 +208,7 @@ describe('uploadReceipt', () => {
       const result = await uploadReceipt(userId, file);
 
       expect(result.success).toBe(true);
-      expect(result.file_url).toMatch(new RegExp(`\\.${format.extension}$`));
+      expect((await findReceipt(result.receipt_id)).storage_key).toMatch(new RegExp(`\\.${format.extension}$`));
     }
   });
 
@@ -169,17 +218,165 @@ describe('uploadReceipt', () => {
     const result = await uploadReceipt(userId, file);
 
     expect(result.success).toBe(true);
-    expect(result.file_url).toMatch(/\.jpg$/);
+    expect(result.file_url).toEqual(`/api/receipts/${result.receipt_id}`);
     expect(result.message).toBe('Receipt uploaded successfully');
   });
 
-  it('should include user ID in filename', async () => {
+  it('should include user ID in the storage key', async () => {
     const file = createTestFile(1024, 'image/jpeg');
     
     const result = await uploadReceipt(userId, file);
 
     expect(result.success).toBe(true);
-    expect(result.file_url).toMatch(new RegExp(`receipt_${userId}_`));
+    expect((await findReceipt(result.receipt_id)).storage_key).toMatch(new RegExp(`^receipts/${userId}/receipt_${userId}_`));
+  });
+
+  it('should store the file and record its metadata', async () => {
+    const file = createTestFile(2048, 'image/png');
+
+    const result = await uploadReceipt(userId, file);
+    const receipt = await findReceipt(result.receipt_id);
+
+    expect(receipt.user_id).toEqual(userId);
+    expect(receipt.filename).toEqual('test-receipt.jpg');
+    expect(receipt.content_type).toEqual('image/png');
+    expect(receipt.created_at).toBeInstanceOf(Date);
+
+    const stored = await getStorage().get(receipt.storage_key);
+    expect(receipt.sha256).toEqual(crypto.createHash('sha256').update(stored!).digest('hex'));
+    expect(receipt.size).toEqual(stored!.length);
+    expect(receipt.width).toEqual(16);
+    expect(receipt.height).toEqual(16);
+  });
+
+  it('should store PDFs unchanged without a thumbnail', async () => {
+    const file = createTestFile(2048, 'application/pdf');
+
+    const result = await uploadReceipt(userId, file);
+    const receipt = await findReceipt(result.receipt_id);
+
+    expect(result.thumbnail_url).toBeNull();
+    expect(receipt.thumbnail_key).toBeNull();
+    expect(receipt.width).toBeNull();
+    expect(receipt.sha256).toEqual(crypto.createHash('sha256').update(file.buffer).digest('hex'));
+    expect((await getStorage().get(receipt.storage_key))?.equals(file.buffer)).toBe(true);
+  });
+
+  it('should reject files whose content does not match the declared type', async () => {
+    const executable = Buffer.concat([Buffer.from([0x7f, 0x45, 0x4c, 0x46]), Buffer.alloc(1020)]); // ELF header
+    const mismatches = [
+      { buffer: executable, mimetype: 'image/png' },
+      { buffer: createTestFile(1024, 'image/jpeg').buffer, mimetype: 'image/png' },
+      { buffer: createTestFile(1024, 'image/png').buffer, mimetype: 'application/pdf' },
+      { buffer: Buffer.alloc(1024, 'test data'), mimetype: 'image/jpeg' }
+    ];
+
+    for (const { buffer, mimetype } of mismatches) {
+      const result = await uploadReceipt(userId, { buffer, filename: 'receipt.png', mimetype });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/Upload failed: File content does not match the declared file type/);
+    }
+
+    expect(await db.select().from(receiptsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject images that cannot be decoded', async () => {
+    const truncated = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(100)]);
+
+    const result = await uploadReceipt(userId, { buffer: truncated, filename: 'broken.png', mimetype: 'image/png' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Upload failed: Image could not be processed/);
+  });
+
+  it('should strip EXIF metadata from JPEGs', async () => {
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ffffff' } })
+      .jpeg()
+      .withExif({ IFD0: { Make: 'PhoneMaker', Model: 'Phone 9' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '48/1 51/1 0/1' } })
+      .toBuffer();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const result = await uploadReceipt(userId, { buffer: photo, filename: 'photo.jpg', mimetype: 'image/jpeg' });
+    const stored = await getStorage().get((await findReceipt(result.receipt_id)).storage_key);
+    const metadata = await sharp(stored!).metadata();
+
+    expect(result.success).toBe(true);
+    expect(metadata.format).toEqual('jpeg');
+    expect(metadata.exif).toBeUndefined();
+    expect(stored!.includes(Buffer.from('PhoneMaker'))).toBe(false);
+  });
+
+  it('should apply the EXIF orientation before stripping it', async () => {
+    // Orientation 6: stored landscape, displayed portrait
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ffffff' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const result = await uploadReceipt(userId, { buffer: photo, filename: 'photo.jpg', mimetype: 'image/jpeg' });
+    const receipt = await findReceipt(result.receipt_id);
+
+    expect(receipt.width).toEqual(20);
+    expect(receipt.height).toEqual(40);
+  });
+
+  it('should downscale oversized images', async () => {
+    const large = await createImage('png', 3000, 1500);
+
+    const result = await uploadReceipt(userId, { buffer: large, filename: 'scan.png', mimetype: 'image/png' });
+    const receipt = await findReceipt(result.receipt_id);
+    const metadata = await sharp((await getStorage().get(receipt.storage_key))!).metadata();
+
+    expect(result.success).toBe(true);
+    expect(receipt.width).toEqual(2400);
+    expect(receipt.height).toEqual(1200);
+    expect(metadata.width).toEqual(2400);
+    expect(metadata.format).toEqual('png');
+  });
+
+  it('should reject images that decode to more pixels than the limit', async () => {
+    // Solid colour compresses to a few kilobytes but decodes to 42 megapixels
+    const huge = await createImage('png', 6500, 6500);
+    expect(huge.length).toBeLessThan(MAX_FILE_SIZE);
+
+    const result = await uploadReceipt(userId, { buffer: huge, filename: 'bomb.png', mimetype: 'image/png' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Image too large/);
+    expect(await db.select().from(receiptsTable).execute()).toHaveLength(0);
+  });
+
+  it('should store a JPEG thumbnail next to the image', async () => {
+    const image = await createImage('webp', 1000, 500);
+
+    const result = await uploadReceipt(userId, { buffer: image, filename: 'receipt.webp', mimetype: 'image/webp' });
+    const receipt = await findReceipt(result.receipt_id);
+
+    expect(result.thumbnail_url).toEqual(`/api/receipts/${result.receipt_id}/thumbnail`);
+    expect(receipt.thumbnail_key).toEqual(receipt.storage_key.replace(/\.webp$/, '_thumb.jpg'));
+
+    const thumbnail = await sharp((await getStorage().get(receipt.thumbnail_key!))!).metadata();
+    expect(thumbnail.format).toEqual('jpeg');
+    expect(thumbnail.width).toEqual(320);
+    expect(thumbnail.height).toEqual(160);
+  });
+
+  it('should use PUBLIC_API_URL for the file URL', async () => {
+    process.env['PUBLIC_API_URL'] = 'https://expenses.example.com/api/';
+    try {
+      const result = await uploadReceipt(userId, createTestFile(1024, 'image/jpeg'));
+      expect(result.file_url).toEqual(`https://expenses.example.com/api/receipts/${result.receipt_id}`);
+    } finally {
+      delete process.env['PUBLIC_API_URL'];
+    }
+  });
+
+  it('should not record a receipt when validation fails', async () => {
+    const result = await uploadReceipt(userId, createTestFile(1024, 'text/plain'));
+
+    expect(result.receipt_id).toBeNull();
+    expect(await db.select().from(receiptsTable).execute()).toHaveLength(0);
   });
 
   it('should handle various unsupported file types', async () => {
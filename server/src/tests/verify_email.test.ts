@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type VerifyEmailInput } from '../schema';
+import { verifyEmail } from '../handlers/verify_email';
+import { generateOneTimeToken } from '../helpers/one_time_token';
+import { eq } from 'drizzle-orm';
+
+describe('verifyEmail', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUnverifiedUser = async () => {
+    const { token, tokenHash } = generateOneTimeToken();
+    const result = await db.insert(usersTable)
+      .values({
+        email: 'verify@example.com',
+        username: 'verifyuser',
+        password_hash: 'hash',
+        first_name: 'Verify',
+        last_name: 'User',
+        role: 'USER',
+        email_verified: false,
+        email_verification_token: tokenHash
+      })
+      .returning()
+      .execute();
+
+    return { user: result[0], token };
+  };
+
+  it('should mark the email as verified', async () => {
+    const { user, token } = await createUnverifiedUser();
+
+    const input: VerifyEmailInput = { token };
+    const result = await verifyEmail(input);
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].email_verified).toBe(true);
+    expect(users[0].email_verification_token).toBeNull();
+  });
+
+  it('should only accept a token once', async () => {
+    const { token } = await createUnverifiedUser();
+
+    await verifyEmail({ token });
+
+    await expect(verifyEmail({ token })).rejects.toThrow(/invalid or already used/i);
+  });
+
+  it('should reject unknown tokens', async () => {
+    const { user } = await createUnverifiedUser();
+
+    await expect(verifyEmail({ token: 'unknown-token' })).rejects.toThrow(/invalid or already used/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    expect(users[0].email_verified).toBe(false);
+  });
+
+  it('should not accept the stored hash as a token', async () => {
+    const { user } = await createUnverifiedUser();
+
+    await expect(verifyEmail({ token: user.email_verification_token! })).rejects.toThrow(/invalid or already used/i);
+  });
+});
@@ -0,0 +1,77 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { db } from './db';
+import { usersTable } from './db/schema';
+import { type UserRole } from './schema';
+import { verifyAuthToken } from './helpers/auth_token';
+import { eq } from 'drizzle-orm';
+
+export interface ContextUser {
+  id: number;
+  email: string;
+  role: UserRole;
+}
+
+export interface Context {
+  user: ContextUser | null;
+}
+
+// Resolve the caller from an `Authorization: Bearer <token>` header.
+// Any invalid, expired or revoked token simply yields an anonymous context.
+export async function resolveUserFromToken(authorization: string | undefined): Promise<ContextUser | null> {
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    return null;
+  }
+
+  try {
+    const claims = verifyAuthToken(authorization.slice('Bearer '.length).trim());
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, claims.userId))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      return null;
+    }
+
+    // Tokens issued before a password reset (or other revocation) are no longer valid
+    if (users[0].session_version !== claims.sv) {
+      return null;
+    }
+
+    // Role and email are read from the database so that changes apply immediately
+    return {
+      id: users[0].id,
+      email: users[0].email,
+      role: users[0].role
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  return {
+    user: await resolveUserFromToken(req.headers.authorization)
+  };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const middleware = t.middleware;
+export const publicProcedure = t.procedure;
+
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({
+    ctx: { user: ctx.user }
+  });
+});